@@ -0,0 +1,253 @@
+import { readFileSync } from 'node:fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+// Alice and Bob each own a warehouse; Carol is a clerk in Alice's. Dave is
+// invited to Alice's.
+const ALICE = 'alice';
+const BOB = 'bob';
+const CAROL = 'carol';
+const DAVE = 'dave';
+const DAVE_EMAIL = 'dave@example.com';
+
+const warehouse = (ownerId: string, members: Record<string, string> = { [ownerId]: 'owner' }) => ({
+  name: `${ownerId}'s warehouse`,
+  ownerId,
+  members,
+  memberIds: Object.keys(members),
+  isArchived: false,
+});
+
+const item = (warehouseId: string, ownerId: string) => ({
+  warehouseId,
+  ownerId,
+  name: 'Bolt',
+  quantity: 10,
+  isArchived: false,
+});
+
+const movement = (itemId: string, warehouseId: string, ownerId: string, userId: string) => ({
+  itemId,
+  warehouseId,
+  ownerId,
+  userId,
+  type: 'ADJUST_STOCK',
+  change: 1,
+  quantityBefore: 10,
+  quantityAfter: 11,
+  timestamp: Timestamp.now(),
+});
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-ez-inventory',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'warehouses/wh-alice'), warehouse(ALICE, { [ALICE]: 'owner', [CAROL]: 'clerk' }));
+      await setDoc(doc(db, 'warehouses/wh-bob'), warehouse(BOB));
+      await setDoc(doc(db, 'items/item-alice'), item('wh-alice', ALICE));
+      await setDoc(doc(db, 'items/item-bob'), item('wh-bob', BOB));
+      await setDoc(doc(db, 'items/item-alice/movements/m-1'), movement('item-alice', 'wh-alice', ALICE, ALICE));
+      // Written before ownership and roles were recorded.
+      await setDoc(doc(db, 'warehouses/wh-legacy'), { name: 'Legacy', ownerId: ALICE });
+      await setDoc(doc(db, 'items/item-legacy'), { warehouseId: 'wh-legacy', name: 'Nut', quantity: 3, history: [] });
+      await setDoc(doc(db, `invitations/wh-alice_${DAVE_EMAIL}`), {
+        warehouseId: 'wh-alice',
+        warehouseName: "alice's warehouse",
+        email: DAVE_EMAIL,
+        role: 'viewer',
+        status: 'pending',
+        invitedBy: ALICE,
+      });
+    });
+  });
+
+  describe('warehouses', () => {
+    it('are visible to their members only', async () => {
+      await assertSucceeds(getDoc(doc(as(ALICE), 'warehouses/wh-alice')));
+      await assertSucceeds(getDoc(doc(as(CAROL), 'warehouses/wh-alice')));
+      await assertFails(getDoc(doc(as(BOB), 'warehouses/wh-alice')));
+      await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'warehouses/wh-alice')));
+    });
+
+    it('are listed per member', async () => {
+      const snapshot = await assertSucceeds(getDocs(query(collection(as(BOB), 'warehouses'), where('memberIds', 'array-contains', BOB))));
+      expect(snapshot.docs.map(docSnap => docSnap.id)).toEqual(['wh-bob']);
+      await assertFails(getDocs(collection(as(BOB), 'warehouses')));
+    });
+
+    it('cannot be created for someone else', async () => {
+      await assertFails(setDoc(doc(as(BOB), 'warehouses/wh-new'), warehouse(ALICE)));
+      await assertSucceeds(setDoc(doc(as(BOB), 'warehouses/wh-new'), warehouse(BOB)));
+    });
+
+    it('cannot be handed to someone else', async () => {
+      await assertFails(updateDoc(doc(as(ALICE), 'warehouses/wh-alice'), { ownerId: BOB }));
+    });
+
+    it('created before roles stay visible to their owner', async () => {
+      await assertSucceeds(getDoc(doc(as(ALICE), 'warehouses/wh-legacy')));
+      await assertFails(getDoc(doc(as(BOB), 'warehouses/wh-legacy')));
+    });
+  });
+
+  describe('items', () => {
+    it('are visible to the members of their warehouse only', async () => {
+      await assertSucceeds(getDoc(doc(as(CAROL), 'items/item-alice')));
+      await assertFails(getDoc(doc(as(BOB), 'items/item-alice')));
+      await assertFails(getDocs(query(collection(as(BOB), 'items'), where('warehouseId', '==', 'wh-alice'))));
+    });
+
+    it('cannot be created or changed in someone else\'s warehouse', async () => {
+      await assertFails(setDoc(doc(as(BOB), 'items/item-new'), item('wh-alice', ALICE)));
+      await assertFails(setDoc(doc(as(BOB), 'items/item-new'), item('wh-alice', BOB)));
+      await assertFails(updateDoc(doc(as(BOB), 'items/item-alice'), { quantity: 0 }));
+    });
+
+    it('created before ownership can only be given to their warehouse owner', async () => {
+      await assertFails(updateDoc(doc(as(ALICE), 'items/item-legacy'), { ownerId: BOB }));
+      await assertFails(updateDoc(doc(as(BOB), 'items/item-legacy'), { ownerId: BOB }));
+      await assertSucceeds(updateDoc(doc(as(ALICE), 'items/item-legacy'), { ownerId: ALICE }));
+      await assertFails(updateDoc(doc(as(ALICE), 'items/item-legacy'), { ownerId: BOB }));
+    });
+
+    it('only record the time of a movement as it is written', async () => {
+      await assertFails(updateDoc(doc(as(CAROL), 'items/item-alice'), { lastMovementAt: Timestamp.fromMillis(0) }));
+      await assertSucceeds(updateDoc(doc(as(CAROL), 'items/item-alice'), { quantity: 11, lastMovementAt: serverTimestamp() }));
+    });
+  });
+
+  describe('movements', () => {
+    it('are visible to the members of their warehouse only', async () => {
+      await assertSucceeds(getDocs(collection(as(CAROL), 'items/item-alice/movements')));
+      await assertFails(getDocs(collection(as(BOB), 'items/item-alice/movements')));
+      await assertFails(getDocs(query(collectionGroup(as(BOB), 'movements'), where('warehouseId', '==', 'wh-alice'))));
+      const own = await assertSucceeds(getDocs(query(collectionGroup(as(BOB), 'movements'), where('warehouseId', '==', 'wh-bob'))));
+      expect(own.empty).toBe(true);
+    });
+
+    it('cannot be posted to someone else\'s items', async () => {
+      await assertFails(setDoc(doc(as(BOB), 'items/item-alice/movements/m-2'), movement('item-alice', 'wh-alice', ALICE, BOB)));
+      await assertSucceeds(setDoc(doc(as(CAROL), 'items/item-alice/movements/m-2'), movement('item-alice', 'wh-alice', ALICE, CAROL)));
+    });
+
+    it('are attributed to the user posting them', async () => {
+      await assertFails(setDoc(doc(as(CAROL), 'items/item-alice/movements/m-2'), movement('item-alice', 'wh-alice', ALICE, ALICE)));
+      await assertFails(setDoc(doc(as(CAROL), 'items/item-alice/movements/m-2'), movement('item-alice', 'wh-alice', ALICE, '')));
+    });
+
+    it('are only unattributed when migrated from a legacy history array', async () => {
+      const legacyEntry = movement('item-legacy', 'wh-legacy', ALICE, '');
+      await assertSucceeds(setDoc(doc(as(ALICE), 'items/item-legacy/movements/1700000000000-hist-create'), legacyEntry));
+      await assertFails(setDoc(doc(as(ALICE), 'items/item-legacy/movements/m-3'), legacyEntry));
+      await assertFails(setDoc(
+        doc(as(ALICE), 'items/item-alice/movements/1700000000000-hist-adjust'),
+        movement('item-alice', 'wh-alice', ALICE, '')
+      ));
+    });
+
+    it('are never rewritten', async () => {
+      await assertFails(updateDoc(doc(as(ALICE), 'items/item-alice/movements/m-1'), { change: 5 }));
+    });
+  });
+
+  describe('purchase orders', () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), 'purchaseOrders/po-1'), {
+        warehouseId: 'wh-alice',
+        status: 'sent',
+        createdBy: ALICE,
+        lines: [{ itemId: 'item-alice', name: 'Bolt', quantityOrdered: 5, quantityReceived: 0, unitCost: 2 }],
+      }));
+    });
+
+    it('are received without touching their lines', async () => {
+      await assertSucceeds(updateDoc(doc(as(CAROL), 'purchaseOrders/po-1'), { receivedQuantities: { 'item-alice': 5 }, status: 'received' }));
+    });
+
+    it('cannot have their lines rewritten on receipt', async () => {
+      await assertFails(updateDoc(doc(as(CAROL), 'purchaseOrders/po-1'), {
+        lines: [{ itemId: 'item-alice', name: 'Bolt', quantityOrdered: 50, quantityReceived: 50, unitCost: 0 }],
+        status: 'received',
+      }));
+    });
+
+    it('keep what was received and never move back', async () => {
+      await updateDoc(doc(as(CAROL), 'purchaseOrders/po-1'), { receivedQuantities: { 'item-alice': 2 }, status: 'partially_received' });
+      await assertFails(updateDoc(doc(as(CAROL), 'purchaseOrders/po-1'), { receivedQuantities: {}, status: 'partially_received' }));
+      await assertFails(updateDoc(doc(as(CAROL), 'purchaseOrders/po-1'), { status: 'sent' }));
+    });
+  });
+
+  describe('user profiles', () => {
+    it('are private to their user', async () => {
+      await testEnv.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), `users/${ALICE}`), { username: 'Alice' }));
+      await assertSucceeds(getDoc(doc(as(ALICE), `users/${ALICE}`)));
+      await assertFails(getDoc(doc(as(CAROL), `users/${ALICE}`)));
+      await assertFails(getDoc(doc(as(BOB), `users/${ALICE}`)));
+    });
+
+    it('are copied onto warehouses by their own member only', async () => {
+      const carol = testEnv.authenticatedContext(CAROL, { email: 'carol@example.com' }).firestore();
+      await assertSucceeds(updateDoc(doc(carol, 'warehouses/wh-alice'), { [`memberProfiles.${CAROL}`]: { username: 'Carol', email: 'carol@example.com' } }));
+      await assertFails(updateDoc(doc(carol, 'warehouses/wh-alice'), { [`memberProfiles.${CAROL}`]: { username: 'Carol', email: 'alice@example.com' } }));
+      await assertFails(updateDoc(doc(carol, 'warehouses/wh-alice'), { [`memberProfiles.${ALICE}`]: { username: 'Mallory' } }));
+      await assertFails(updateDoc(doc(as(BOB), 'warehouses/wh-alice'), { [`memberProfiles.${BOB}`]: { username: 'Bob' } }));
+    });
+  });
+
+  describe('invitations', () => {
+    const acceptAs = (emailVerified: boolean) => {
+      const db = testEnv.authenticatedContext(DAVE, { email: DAVE_EMAIL, email_verified: emailVerified }).firestore();
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'warehouses/wh-alice'), {
+        [`members.${DAVE}`]: 'viewer',
+        [`memberProfiles.${DAVE}`]: { username: 'Dave', email: DAVE_EMAIL },
+        memberIds: [ALICE, CAROL, DAVE],
+      });
+      batch.update(doc(db, `invitations/wh-alice_${DAVE_EMAIL}`), { status: 'accepted', respondedAt: Timestamp.now() });
+      return batch.commit();
+    };
+
+    it('can only be answered from a verified address', async () => {
+      await assertFails(acceptAs(false));
+      const unverified = testEnv.authenticatedContext(DAVE, { email: DAVE_EMAIL, email_verified: false }).firestore();
+      await assertFails(updateDoc(doc(unverified, `invitations/wh-alice_${DAVE_EMAIL}`), { status: 'declined', respondedAt: Timestamp.now() }));
+      await assertSucceeds(acceptAs(true));
+    });
+  });
+});
@@ -151,6 +151,14 @@ export default function SignInPage() {
             </Button>
           </form>
         </Form>
+        <div className="mt-6 text-center text-sm">
+          Invited to a warehouse?{' '}
+          <Link href="/signup" passHref legacyBehavior>
+            <a className="font-medium text-primary hover:underline">
+              Create an account
+            </a>
+          </Link>
+        </div>
       </CardContent>
     </Card>
   );
@@ -1,4 +1,186 @@
-// This page has been removed as users will be added manually via the Firebase console.
-// The sign-up functionality is not required for this private project.
+'use client';
 
-export {}; // Ensures this file is treated as a module and does not export a default page component.
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createUserWithEmailAndPassword, sendEmailVerification, updateProfile } from 'firebase/auth';
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { auth, db } from '@/lib/firebase';
+import { normalizeEmail } from '@/lib/invitations';
+import type { UserProfile } from '@/lib/types';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { Eye, EyeOff } from 'lucide-react';
+
+const signUpFormSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  username: z.string().min(3, { message: 'Username must be at least 3 characters.' }),
+  password: z.string().min(6, { message: 'Password must be at least 6 characters.' }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match.",
+  path: ['confirmPassword'],
+});
+
+type SignUpFormValues = z.infer<typeof signUpFormSchema>;
+
+// Accounts are for invited teammates: the invitation waits on the warehouses
+// page, where it can be accepted once the email address is verified.
+export default function SignUpPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [showPassword, setShowPassword] = React.useState(false);
+
+  const form = useForm<SignUpFormValues>({
+    resolver: zodResolver(signUpFormSchema),
+    defaultValues: {
+      email: '',
+      username: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  async function onSubmit(data: SignUpFormValues) {
+    setIsLoading(true);
+    try {
+      const { user } = await createUserWithEmailAndPassword(auth, normalizeEmail(data.email), data.password);
+      await updateProfile(user, { displayName: data.username });
+      const profile: UserProfile = {
+        id: user.uid,
+        username: data.username,
+        email: user.email || '',
+        usernameChanged: false,
+        createdAt: serverTimestamp(),
+      };
+      await setDoc(doc(db, 'users', user.uid), profile);
+      await sendEmailVerification(user);
+      toast({
+        title: 'Account Created',
+        description: `Follow the link sent to ${user.email}, then accept your invitation.`,
+      });
+      router.push('/warehouses');
+    } catch (error: any) {
+      console.error("Firebase sign-up error:", error);
+      let errorMessage = "Failed to create your account. Please try again.";
+      if (error.code === 'auth/email-already-in-use') {
+        errorMessage = "An account already exists for this email. Sign in to see your invitations.";
+      } else if (error.code === 'auth/invalid-email') {
+        errorMessage = "The email address is not valid.";
+      } else if (error.code === 'auth/weak-password') {
+        errorMessage = "The password is too weak. Please choose a stronger one.";
+      }
+      toast({
+        title: 'Sign Up Failed',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="space-y-1 text-center">
+        <CardTitle className="text-2xl font-bold">Create Your Account</CardTitle>
+        <CardDescription>
+          Sign up with the email address your invitation was sent to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Your name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="••••••••"
+                        {...field}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-1 top-1/2 -translate-y-1/2 h-7"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type={showPassword ? "text" : "password"} placeholder="••••••••" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? <LoadingSpinner size={16} className="mr-2" /> : null}
+              Sign Up
+            </Button>
+          </form>
+        </Form>
+        <div className="mt-6 text-center text-sm">
+          Already have an account?{' '}
+          <Link href="/signin" passHref legacyBehavior>
+            <a className="font-medium text-primary hover:underline">
+              Sign In
+            </a>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
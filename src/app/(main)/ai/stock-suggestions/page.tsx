@@ -17,6 +17,7 @@ import { Bot, Lightbulb, AlertTriangle, Languages } from 'lucide-react';
 import type { Item, Warehouse } from '@/lib/types';
 import { stockLevelSuggestions, type StockLevelSuggestionsInput, type StockLevelSuggestionsOutput } from '@/ai/flows/stock-level-suggestions';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { fetchItemMovementsPage } from '@/lib/movements';
 
 const suggestionFormSchema = z.object({
   warehouseId: z.string().min(1, { message: "Please select a warehouse." }),
@@ -88,10 +89,11 @@ export default function EnjleezAIAssistantPage() {
         return;
       }
 
+      const recentHistory = await fetchItemMovementsPage(selectedItem.id, null, 5);
       const input: StockLevelSuggestionsInput = {
         itemId: selectedItem.name,
         historicalData: `Item: ${selectedItem.name}. User input: ${data.historicalData}. Current Stock: ${selectedItem.quantity}. Item History (last 5 if available): ${
-          selectedItem.history?.slice(-5).map(h =>
+          recentHistory.entries.map(h =>
             `${h.type.replace('_', ' ')} of ${h.change} on ${new Date(h.timestamp).toLocaleDateString()}. Comment: ${h.comment || 'N/A'}`
           ).join('; ') || 'No detailed history available.'
         }`,
@@ -7,12 +7,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Package, Warehouse as WarehouseIcon, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
 import type { Warehouse, Item } from '@/lib/types';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { EmptyState } from '@/components/EmptyState';
 import { format } from 'date-fns';
 import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where, orderBy, doc, updateDoc, serverTimestamp, getDoc } from 'firebase/firestore';
+import { collection, getDocs, query, where, doc, updateDoc, serverTimestamp, getDoc, writeBatch } from 'firebase/firestore';
+import { canPerform, fetchItemDocsForWarehouses } from '@/lib/membership';
+import { newWarehouseActivityRef, toWarehouseActivityData } from '@/lib/warehouses';
+import { formatQuantity } from '@/lib/units';
 
 const updateWarehouseTimestampInFirestore = async (warehouseId: string) => {
   try {
@@ -30,30 +34,19 @@ const updateWarehouseTimestampInFirestore = async (warehouseId: string) => {
 export default function ArchivePage() {
   const { toast } = useToast();
   const [archivedWarehouses, setArchivedWarehouses] = React.useState<Warehouse[]>([]);
-  const [allWarehousesMap, setAllWarehousesMap] = React.useState<Map<string, string>>(new Map());
+  const [allWarehousesMap, setAllWarehousesMap] = React.useState<Map<string, Warehouse>>(new Map());
   const [archivedItems, setArchivedItems] = React.useState<Item[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
+  const { user, actor, isAuthLoading } = useAuthUser();
 
   const loadArchivedData = React.useCallback(async () => {
+    if (!user) return;
     setIsLoading(true);
     try {
-      // Load all warehouses to get names for items
-      const allWhQuery = query(collection(db, "warehouses"));
+      // Load every warehouse the user belongs to, to get names and roles for items
+      const allWhQuery = query(collection(db, "warehouses"), where("memberIds", "array-contains", user.uid));
       const allWhSnapshot = await getDocs(allWhQuery);
-      const whMap = new Map<string, string>();
-      allWhSnapshot.forEach(docSnap => {
-        whMap.set(docSnap.id, docSnap.data().name);
-      });
-      setAllWarehousesMap(whMap);
-
-      // Load archived warehouses
-      const archivedWhQuery = query(
-        collection(db, "warehouses"),
-        where("isArchived", "==", true),
-        orderBy("updatedAt", "desc")
-      );
-      const archivedWhSnapshot = await getDocs(archivedWhQuery);
-      const whsFromFirestore = archivedWhSnapshot.docs.map(docSnap => {
+      const whsFromFirestore = allWhSnapshot.docs.map(docSnap => {
         const data = docSnap.data();
         return {
           id: docSnap.id,
@@ -62,32 +55,43 @@ export default function ArchivePage() {
           isArchived: data.isArchived,
           createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+          ownerId: data.ownerId,
+          members: data.members,
+          memberIds: data.memberIds,
         } as Warehouse;
       });
-      setArchivedWarehouses(whsFromFirestore);
+      setAllWarehousesMap(new Map(whsFromFirestore.map(wh => [wh.id, wh])));
+
+      // Archived warehouses, most recently archived first
+      setArchivedWarehouses(
+        whsFromFirestore
+          .filter(wh => wh.isArchived)
+          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+      );
 
       // Load archived items
-      const archivedItemsQuery = query(
-        collection(db, "items"),
-        where("isArchived", "==", true),
-        orderBy("updatedAt", "desc")
+      const archivedItemsDocs = await fetchItemDocsForWarehouses(
+        whsFromFirestore.map(wh => wh.id),
+        where("isArchived", "==", true)
       );
-      const archivedItemsSnapshot = await getDocs(archivedItemsQuery);
-      const itemsFromFirestore = archivedItemsSnapshot.docs.map(docSnap => {
+      const itemsFromFirestore = archivedItemsDocs.map(docSnap => {
         const data = docSnap.data();
         return {
           id: docSnap.id,
           warehouseId: data.warehouseId,
           name: data.name,
           quantity: data.quantity,
+          locationId: data.locationId,
           location: data.location,
-          history: data.history || [],
+          unit: data.unit,
+          precision: data.precision,
           isArchived: data.isArchived,
           createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+          ownerId: data.ownerId,
         } as Item;
       });
-      setArchivedItems(itemsFromFirestore);
+      setArchivedItems(itemsFromFirestore.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()));
 
     } catch (error) {
       console.error("Failed to load archived data from Firestore", error);
@@ -95,27 +99,37 @@ export default function ArchivePage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, user]);
 
   React.useEffect(() => {
+    if (!isAuthLoading && !user) {
+      setIsLoading(false);
+      return;
+    }
     loadArchivedData();
-  }, [loadArchivedData]);
+  }, [isAuthLoading, user, loadArchivedData]);
 
   const getWarehouseName = (warehouseId: string): string => {
-    return allWarehousesMap.get(warehouseId) || "Unknown Warehouse";
+    return allWarehousesMap.get(warehouseId)?.name || "Unknown Warehouse";
   };
 
   const handleRestoreWarehouse = async (warehouseId: string) => {
+    if (!actor) return;
     setIsLoading(true); // Or a specific loading state for this action
     try {
       const warehouseDocRef = doc(db, "warehouses", warehouseId);
       const warehouseSnap = await getDoc(warehouseDocRef);
       const warehouseName = warehouseSnap.exists() ? warehouseSnap.data().name : "The warehouse";
 
-      await updateDoc(warehouseDocRef, {
+      const batch = writeBatch(db);
+      batch.update(warehouseDocRef, {
         isArchived: false,
         updatedAt: serverTimestamp(),
       });
+      batch.set(newWarehouseActivityRef(warehouseId), toWarehouseActivityData('RESTORE_WAREHOUSE', actor, {
+        comment: 'Warehouse restored from the archive',
+      }));
+      await batch.commit();
 
       toast({ title: "Warehouse Restored", description: `${warehouseName} has been restored.` });
       loadArchivedData(); // Reload data to reflect changes
@@ -204,9 +218,13 @@ export default function ArchivePage() {
                           {wh.updatedAt ? format(new Date(wh.updatedAt), 'P p') : 'N/A'}
                         </td>
                         <td className="py-3 px-4 text-right whitespace-nowrap">
-                          <Button variant="outline" size="sm" onClick={() => handleRestoreWarehouse(wh.id)}>
-                            <RotateCcw className="mr-2 h-3 w-3" /> Restore
-                          </Button>
+                          {canPerform(wh, user?.uid, 'archiveWarehouse') ? (
+                            <Button variant="outline" size="sm" onClick={() => handleRestoreWarehouse(wh.id)}>
+                              <RotateCcw className="mr-2 h-3 w-3" /> Restore
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">Owner only</span>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -247,14 +265,18 @@ export default function ArchivePage() {
                       <tr key={item.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
                         <td className="py-3 px-4 font-medium break-words">{item.name}</td>
                         <td className="py-3 px-4 break-words">{getWarehouseName(item.warehouseId)}</td>
-                        <td className="py-3 px-4 text-right whitespace-nowrap">{item.quantity}</td>
+                        <td className="py-3 px-4 text-right whitespace-nowrap">{formatQuantity(item.quantity, item)}</td>
                         <td className="py-3 px-4 text-xs whitespace-nowrap">
                           {item.updatedAt ? format(new Date(item.updatedAt), 'P p') : 'N/A'}
                         </td>
                         <td className="py-3 px-4 text-right whitespace-nowrap">
-                          <Button variant="outline" size="sm" onClick={() => handleRestoreItem(item.id)}>
-                            <RotateCcw className="mr-2 h-3 w-3" /> Restore
-                          </Button>
+                          {canPerform(allWarehousesMap.get(item.warehouseId), user?.uid, 'manageItems') ? (
+                            <Button variant="outline" size="sm" onClick={() => handleRestoreItem(item.id)}>
+                              <RotateCcw className="mr-2 h-3 w-3" /> Restore
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">Managers only</span>
+                          )}
                         </td>
                       </tr>
                     ))}
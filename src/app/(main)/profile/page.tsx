@@ -19,6 +19,7 @@ import { Separator } from '@/components/ui/separator';
 import { Eye, EyeOff } from 'lucide-react';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { auth, db } from '@/lib/firebase';
+import { syncMemberProfile } from '@/lib/membership';
 import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form'; // Added Form imports
 
 const usernameFormSchema = z.object({
@@ -115,6 +116,8 @@ export default function ProfilePage() {
         usernameChanged: true,
         updatedAt: serverTimestamp(),
       });
+      // Co-members see the name copied onto each warehouse, not this profile.
+      await syncMemberProfile(currentUser.uid, currentUser.email);
 
       setUserProfileData((prev) => prev ? { ...prev, username: data.newUsername, usernameChanged: true } : null);
       usernameForm.setValue('newUsername', data.newUsername);
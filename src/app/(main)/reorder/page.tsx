@@ -0,0 +1,118 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { PageHeader } from '@/components/PageHeader';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ShoppingCart } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { StockLevelBadge } from '@/components/StockLevelBadge';
+import { db } from '@/lib/firebase';
+import { getItemLocation } from '@/lib/locations';
+import { fetchReorderLines, type ReorderLine } from '@/lib/reorder';
+import { formatQuantity } from '@/lib/units';
+import type { Warehouse } from '@/lib/types';
+
+export default function ReorderPage() {
+  const { toast } = useToast();
+  const { user, isAuthLoading } = useAuthUser();
+  const [lines, setLines] = React.useState<ReorderLine[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const loadReorderLines = React.useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const warehousesSnapshot = await getDocs(query(
+        collection(db, 'warehouses'),
+        where('memberIds', 'array-contains', user.uid),
+        where('isArchived', '==', false)
+      ));
+      const warehouses = warehousesSnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Warehouse));
+      setLines(await fetchReorderLines(warehouses));
+    } catch (error) {
+      console.error("Failed to load reorder list from Firestore", error);
+      toast({ title: "Error", description: "Failed to load items needing reorder.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, toast]);
+
+  React.useEffect(() => {
+    if (!isAuthLoading && !user) {
+      setIsLoading(false);
+      return;
+    }
+    loadReorderLines();
+  }, [isAuthLoading, user, loadReorderLines]);
+
+  if (isLoading) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Needs Reorder"
+        description="Items at or below their reorder point, or out of stock, across all your warehouses."
+      />
+      <Card className="overflow-hidden">
+        <CardHeader>
+          <CardTitle>Reorder List</CardTitle>
+          <CardDescription>
+            The suggested quantity tops each item up to its max level. Set reorder points and max levels when editing an item.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <EmptyState
+              IconComponent={ShoppingCart}
+              title="Nothing to Reorder"
+              description="All items are above their reorder points."
+            />
+          ) : (
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Warehouse</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Reorder Point</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Max Level</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Suggested Order</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map(({ item, warehouseName, suggestedQuantity }) => (
+                    <tr key={item.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-3 px-4 break-words">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium">{item.name}</span>
+                          <StockLevelBadge item={item} />
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        <Link href={`/warehouses/${item.warehouseId}`} className="hover:underline">{warehouseName}</Link>
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">{getItemLocation(item) || 'N/A'}</td>
+                      <td className="py-3 px-4 text-right font-semibold whitespace-nowrap">{formatQuantity(item.quantity, item)}</td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">{item.reorderPoint !== undefined ? formatQuantity(item.reorderPoint, item) : '-'}</td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">{item.maxLevel !== undefined ? formatQuantity(item.maxLevel, item) : '-'}</td>
+                      <td className="py-3 px-4 text-right font-semibold whitespace-nowrap">{suggestedQuantity !== null ? formatQuantity(suggestedQuantity, item) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
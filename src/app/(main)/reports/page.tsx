@@ -5,12 +5,15 @@ import * as React from 'react';
 import ReactDOM from 'react-dom/client';
 import { PageHeader } from "@/components/PageHeader";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Printer, Archive as ArchiveIcon, Package as PackageIcon, CalendarIcon } from "lucide-react";
+import { Printer, Archive as ArchiveIcon, Package as PackageIcon, CalendarIcon, Search, Hourglass, Coins } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
 import { useToast } from "@/hooks/use-toast";
-import type { Warehouse, Item, HistoryEntry, ArchivedReport } from '@/lib/types';
-import { format } from 'date-fns';
+import { useAuthUser } from "@/hooks/use-auth-user";
+import type { Warehouse, Item, HistoryEntry, ArchivedReport, FlattenedHistoryEntry } from '@/lib/types';
+import { endOfDay, format, parseISO } from 'date-fns';
 import {
   Select,
   SelectContent,
@@ -24,16 +27,32 @@ import { cn } from "@/lib/utils";
 import { LoadingSpinner } from '@/components/LoadingSpinner';
 import { PrintableItemReport } from '@/components/PrintableItemReport';
 import { PrintableWarehouseReport } from '@/components/PrintableWarehouseReport';
+import { PrintableStocktakeReport } from '@/components/PrintableStocktakeReport';
 import { PrintableTransactionsReport } from '@/components/PrintableTransactionsReport';
+import { PrintableExpiryReport } from '@/components/PrintableExpiryReport';
+import { PrintableValuationReport } from '@/components/PrintableValuationReport';
+import { ExpiryBadge } from '@/components/ExpiryBadge';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where, orderBy } from 'firebase/firestore';
+import { collapseTransfers, fetchMovementsPage, isTransfer, migrateLegacyItems, transferRoute } from '@/lib/movements';
+import type { PageCursor } from '@/lib/pagination';
+import { fetchItemDocsForWarehouses } from '@/lib/membership';
+import { fetchArchivedReportsPage, migrateLocalArchivedReports } from '@/lib/reports';
+import { formatQuantity, formatQuantityChange } from '@/lib/units';
+import { EXPIRY_WARNING_DAYS, listExpiringLots } from '@/lib/lots';
+import { fetchValuationAsOf, formatMoney, formatUnitCost, listCurrentValuation, sumValuation, type ValuationLine } from '@/lib/costing';
+import { groupByCategory, listCategories, listTags, matchesItemFilters, UNCATEGORIZED, type ItemFilters } from '@/lib/categories';
 
-interface FlattenedHistoryEntry extends HistoryEntry {
-  itemName: string;
-  warehouseName: string;
-  itemId: string;
-  warehouseId: string;
-}
+const EXPIRY_WINDOWS = [7, 30, 60, 90];
+
+const formatReportType = (reportType: ArchivedReport['reportType']): string => {
+  switch (reportType) {
+    case 'ITEM': return 'Item Details';
+    case 'WAREHOUSE': return 'Warehouse Summary';
+    case 'STOCKTAKE': return 'Stocktake Variance';
+    default: return 'Transactions';
+  }
+};
 
 const formatHistoryType = (type: HistoryEntry['type']): string => {
   switch (type) {
@@ -41,6 +60,11 @@ const formatHistoryType = (type: HistoryEntry['type']): string => {
     case 'ADD_STOCK': return 'Stock Added';
     case 'CONSUME_STOCK': return 'Stock Consumed';
     case 'ADJUST_STOCK': return 'Stock Adjusted';
+    case 'UPDATE_ITEM': return 'Item Updated';
+    case 'TRANSFER_OUT':
+    case 'TRANSFER_IN': return 'Transfer';
+    case 'ASSEMBLE': return 'Assembled';
+    case 'DISASSEMBLE': return 'Disassembled';
     default: return type.replace(/_/g, ' ');
   }
 };
@@ -49,20 +73,78 @@ export default function ReportsPage() {
   const [allWarehouses, setAllWarehouses] = React.useState<Warehouse[]>([]);
   const [allItems, setAllItems] = React.useState<Item[]>([]);
   const [archivedReports, setArchivedReports] = React.useState<ArchivedReport[]>([]);
+  const [archivedReportsSearch, setArchivedReportsSearch] = React.useState("");
+  const [archivedReportsCursor, setArchivedReportsCursor] = React.useState<PageCursor>(null);
+  const [hasMoreArchivedReports, setHasMoreArchivedReports] = React.useState(false);
+  const [isArchivedReportsLoading, setIsArchivedReportsLoading] = React.useState(false);
 
-  const [allFlattenedTransactions, setAllFlattenedTransactions] = React.useState<FlattenedHistoryEntry[]>([]);
   const [filteredTransactions, setFilteredTransactions] = React.useState<FlattenedHistoryEntry[]>([]);
+  const [transactionsCursor, setTransactionsCursor] = React.useState<PageCursor>(null);
+  const [hasMoreTransactions, setHasMoreTransactions] = React.useState(false);
+  const [isTransactionsLoading, setIsTransactionsLoading] = React.useState(false);
 
   const [selectedWarehouseId, setSelectedWarehouseId] = React.useState<string | null>(null);
   const [selectedItemId, setSelectedItemId] = React.useState<string | null>(null);
   const [startDate, setStartDate] = React.useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = React.useState<Date | undefined>(undefined);
+  const [itemFilters, setItemFilters] = React.useState<ItemFilters>({ category: null, tag: null });
+  const [isGroupedByCategory, setIsGroupedByCategory] = React.useState(false);
 
   const [isLoading, setIsLoading] = React.useState(true);
   const { toast } = useToast();
+  const { user, actor, isAuthLoading } = useAuthUser();
 
   const [isOperationsHistoryDialogOpen, setIsOperationsHistoryDialogOpen] = React.useState(false);
   const [isArchivedReportsDialogOpen, setIsArchivedReportsDialogOpen] = React.useState(false);
+  const [isExpiringStockDialogOpen, setIsExpiringStockDialogOpen] = React.useState(false);
+  const [expiryWindowDays, setExpiryWindowDays] = React.useState(EXPIRY_WARNING_DAYS);
+  const [isValuationDialogOpen, setIsValuationDialogOpen] = React.useState(false);
+  const [valuationWarehouseId, setValuationWarehouseId] = React.useState<string | null>(null);
+  const [valuationAsOf, setValuationAsOf] = React.useState<Date | undefined>(undefined);
+  const [valuationLines, setValuationLines] = React.useState<ValuationLine[]>([]);
+  const [isValuationLoading, setIsValuationLoading] = React.useState(false);
+
+  const activeWarehouses = React.useMemo(() => allWarehouses.filter(wh => !wh.isArchived), [allWarehouses]);
+
+  const expiringLots = React.useMemo(
+    () => listExpiringLots(allItems, activeWarehouses, expiryWindowDays),
+    [allItems, activeWarehouses, expiryWindowDays]
+  );
+
+  // Archived warehouses held no stock since they were archived, but may have on a past date.
+  const valuationWarehouses = valuationAsOf ? allWarehouses : activeWarehouses;
+
+  React.useEffect(() => {
+    if (valuationWarehouseId && !valuationWarehouses.some(wh => wh.id === valuationWarehouseId)) {
+      setValuationWarehouseId(null);
+    }
+  }, [valuationWarehouses, valuationWarehouseId]);
+
+  // The current valuation comes from the items' cost layers; a past date is read from the movements.
+  React.useEffect(() => {
+    if (!isValuationDialogOpen) return;
+    const warehouses = valuationWarehouses.filter(wh => !valuationWarehouseId || wh.id === valuationWarehouseId);
+    if (!valuationAsOf) {
+      setValuationLines(listCurrentValuation(allItems, warehouses));
+      setIsValuationLoading(false);
+      return;
+    }
+    let isCurrent = true;
+    const loadValuation = async () => {
+      setIsValuationLoading(true);
+      try {
+        const lines = await fetchValuationAsOf(allItems, warehouses, endOfDay(valuationAsOf));
+        if (isCurrent) setValuationLines(lines);
+      } catch (error) {
+        console.error("Failed to load the valuation from Firestore", error);
+        toast({ title: "Error", description: "Failed to load the inventory valuation.", variant: "destructive" });
+      } finally {
+        if (isCurrent) setIsValuationLoading(false);
+      }
+    };
+    loadValuation();
+    return () => { isCurrent = false; };
+  }, [isValuationDialogOpen, valuationWarehouses, allItems, valuationWarehouseId, valuationAsOf, toast]);
 
   const itemsInSelectedWarehouse = React.useMemo(() => {
     if (!selectedWarehouseId || selectedWarehouseId === "all_warehouses_option_value_placeholder_for_clear") {
@@ -71,12 +153,27 @@ export default function ReportsPage() {
     return allItems.filter(item => item.warehouseId === selectedWarehouseId && !item.isArchived);
   }, [selectedWarehouseId, allItems]);
 
+  const categories = React.useMemo(() => listCategories(allItems), [allItems]);
+  const tags = React.useMemo(() => listTags(allItems), [allItems]);
+
+  // Items matching the category and tag filters, archived ones included so their movements still show.
+  const filteredItemIds = React.useMemo(() => {
+    if (!itemFilters.category && !itemFilters.tag) return null;
+    return allItems
+      .filter(item => (!selectedWarehouseId || item.warehouseId === selectedWarehouseId) && matchesItemFilters(item, itemFilters))
+      .map(item => item.id);
+  }, [allItems, selectedWarehouseId, itemFilters]);
+
   React.useEffect(() => {
+    if (!user) {
+      if (!isAuthLoading) setIsLoading(false);
+      return;
+    }
     const loadData = async () => {
       setIsLoading(true);
       try {
-        // Fetch non-archived warehouses
-        const whQuery = query(collection(db, "warehouses"), where("isArchived", "==", false), orderBy("name"));
+        // Archived warehouses and items are kept so their past movements still resolve to names
+        const whQuery = query(collection(db, "warehouses"), where("memberIds", "array-contains", user.uid), orderBy("name"));
         const whSnapshot = await getDocs(whQuery);
         const warehousesFromFirestore = whSnapshot.docs.map(doc => ({
           id: doc.id,
@@ -84,49 +181,22 @@ export default function ReportsPage() {
         } as Warehouse));
         setAllWarehouses(warehousesFromFirestore);
 
-        // Fetch non-archived items
-        const itemsQuery = query(collection(db, "items"), where("isArchived", "==", false));
-        const itemsSnapshot = await getDocs(itemsQuery);
-        const itemsFromFirestore = itemsSnapshot.docs.map(doc => {
-          const data = doc.data();
+        const itemDocs = await fetchItemDocsForWarehouses(warehousesFromFirestore.map(wh => wh.id));
+        await migrateLegacyItems(itemDocs, warehousesFromFirestore);
+        const itemsFromFirestore = itemDocs.map(doc => {
+          const { history: _legacyHistory, ...data } = doc.data();
           return {
             id: doc.id,
             ...data,
-            // Ensure history entries have timestamps converted if they are Firestore Timestamps
-            history: (data.history || []).map((h: any) => ({
-              ...h,
-              timestamp: h.timestamp?.toDate ? h.timestamp.toDate().toISOString() : h.timestamp,
-            })),
           } as Item;
         });
         setAllItems(itemsFromFirestore);
 
-        // Flatten transactions
-        const flattened: FlattenedHistoryEntry[] = [];
-        itemsFromFirestore.forEach(item => {
-          const warehouse = warehousesFromFirestore.find(wh => wh.id === item.warehouseId);
-          if (item.history && warehouse) {
-            item.history.forEach(entry => {
-              flattened.push({
-                ...entry,
-                itemName: item.name,
-                itemId: item.id,
-                warehouseName: warehouse.name,
-                warehouseId: warehouse.id,
-              });
-            });
-          }
-        });
-
-        flattened.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-        setAllFlattenedTransactions(flattened);
-        setFilteredTransactions(flattened); // Initially show all
-
-        // Load archived reports from localStorage (remains the same)
-        const storedArchivedReportsString = localStorage.getItem('archivedReports');
-        if (storedArchivedReportsString) {
-          setArchivedReports(JSON.parse(storedArchivedReportsString));
-        }
+        await migrateLocalArchivedReports(user.uid);
+        const reportsPage = await fetchArchivedReportsPage(user.uid, warehousesFromFirestore.map(wh => wh.id));
+        setArchivedReports(reportsPage.entries);
+        setArchivedReportsCursor(reportsPage.cursor);
+        setHasMoreArchivedReports(reportsPage.hasMore);
 
       } catch (error) {
         console.error("Failed to load data from Firestore for reports", error);
@@ -136,33 +206,83 @@ export default function ReportsPage() {
       }
     };
     loadData();
-  }, [toast]);
+  }, [toast, user, isAuthLoading]);
 
-  React.useEffect(() => {
-    let transactions = [...allFlattenedTransactions];
+  const filteredArchivedReports = React.useMemo(() => {
+    const term = archivedReportsSearch.trim().toLowerCase();
+    if (!term) return archivedReports;
+    return archivedReports.filter(report =>
+      [report.itemName, report.warehouseName, report.reportTitleSnapshot, report.printedBy, formatReportType(report.reportType)]
+        .some(value => value?.toLowerCase().includes(term))
+    );
+  }, [archivedReports, archivedReportsSearch]);
 
-    if (selectedWarehouseId && selectedWarehouseId !== "all_warehouses_option_value_placeholder_for_clear") {
-      transactions = transactions.filter(t => t.warehouseId === selectedWarehouseId);
-      if (selectedItemId && selectedItemId !== "all_items_option_value_placeholder_for_clear") {
-        transactions = transactions.filter(t => t.itemId === selectedItemId);
-      }
-    } else if (selectedItemId && selectedItemId !== "all_items_option_value_placeholder_for_clear") {
-      transactions = transactions.filter(t => t.itemId === selectedItemId);
+  // The search only covers the pages loaded so far; Firestore has no substring search.
+  const loadMoreArchivedReports = async () => {
+    if (!user) return;
+    setIsArchivedReportsLoading(true);
+    try {
+      const page = await fetchArchivedReportsPage(user.uid, allWarehouses.map(wh => wh.id), archivedReportsCursor);
+      setArchivedReports(prev => [...prev, ...page.entries]);
+      setArchivedReportsCursor(page.cursor);
+      setHasMoreArchivedReports(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load archived reports from Firestore", error);
+      toast({ title: "Error", description: "Failed to load archived reports.", variant: "destructive" });
+    } finally {
+      setIsArchivedReportsLoading(false);
     }
+  };
 
+  // Each transfer is listed once, even though it is stored as two movements.
+  const displayedTransactions = React.useMemo(() => collapseTransfers(filteredTransactions), [filteredTransactions]);
+  const transactionGroups: [string | null, FlattenedHistoryEntry[]][] = isGroupedByCategory
+    ? groupByCategory(displayedTransactions)
+    : [[null, displayedTransactions]];
 
-    if (startDate) {
-      const startOfDay = new Date(startDate);
-      startOfDay.setHours(0, 0, 0, 0);
-      transactions = transactions.filter(t => new Date(t.timestamp) >= startOfDay);
+  const resolveNames = React.useCallback((itemId: string, warehouseId: string) => {
+    const item = allItems.find(candidate => candidate.id === itemId);
+    return {
+      itemName: item?.name || "Unknown Item",
+      warehouseName: allWarehouses.find(wh => wh.id === warehouseId)?.name || "Unknown Warehouse",
+      unit: item?.unit,
+      precision: item?.precision,
+      category: item?.category,
+    };
+  }, [allItems, allWarehouses]);
+
+  const loadTransactions = React.useCallback(async (cursor: PageCursor = null) => {
+    if (!user) return;
+    setIsTransactionsLoading(true);
+    try {
+      const page = await fetchMovementsPage(
+        {
+          accessibleWarehouseIds: allWarehouses.map(wh => wh.id),
+          warehouseId: selectedWarehouseId,
+          itemId: selectedItemId,
+          itemIds: filteredItemIds,
+          startDate,
+          endDate,
+        },
+        resolveNames,
+        cursor
+      );
+      setFilteredTransactions(prev => cursor ? [...prev, ...page.entries] : page.entries);
+      setTransactionsCursor(page.cursor);
+      setHasMoreTransactions(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load transactions from Firestore", error);
+      toast({ title: "Error", description: "Failed to load transactions.", variant: "destructive" });
+    } finally {
+      setIsTransactionsLoading(false);
     }
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      transactions = transactions.filter(t => new Date(t.timestamp) <= endOfDay);
+  }, [user, allWarehouses, selectedWarehouseId, selectedItemId, filteredItemIds, startDate, endDate, resolveNames, toast]);
+
+  React.useEffect(() => {
+    if (!isLoading) {
+      loadTransactions();
     }
-    setFilteredTransactions(transactions);
-  }, [selectedWarehouseId, selectedItemId, startDate, endDate, allFlattenedTransactions]);
+  }, [isLoading, loadTransactions]);
 
   const handleWarehouseChange = (warehouseId: string) => {
     if (warehouseId === "all_warehouses_option_value_placeholder_for_clear") {
@@ -197,6 +317,8 @@ export default function ReportsPage() {
          // If only an item is selected (meaning "All Warehouses" or no warehouse filter)
       title = `Transactions for ${selectedItmObj.name} (All Warehouses)`;
     }
+    if (itemFilters.category) title += ` · Category: ${itemFilters.category}`;
+    if (itemFilters.tag) title += ` · Tag: #${itemFilters.tag}`;
 
 
     if (startDate || endDate) {
@@ -210,6 +332,7 @@ export default function ReportsPage() {
   };
 
   const handlePrintVisibleTransactions = () => {
+    if (!actor) return;
     if (filteredTransactions.length === 0) {
       toast({ title: "No Data", description: "There are no transactions to print for the current selection.", variant: "default" });
       return;
@@ -222,9 +345,9 @@ export default function ReportsPage() {
     const root = ReactDOM.createRoot(printableArea);
     root.render(
       <PrintableTransactionsReport
-        transactions={filteredTransactions}
+        transactions={transactionGroups.flatMap(([, entries]) => entries)}
         reportTitle={getCurrentReportTitle()}
-        printedBy="Admin User" 
+        printedBy={actor.username}
         printDate={new Date()}
       />
     );
@@ -240,6 +363,67 @@ export default function ReportsPage() {
     }, 250);
   };
 
+  const handlePrintExpiringStock = () => {
+    if (!actor) return;
+    if (expiringLots.length === 0) {
+      toast({ title: "No Data", description: "No lots expire within the selected period.", variant: "default" });
+      return;
+    }
+
+    const printableArea = document.createElement('div');
+    printableArea.id = 'printable-report-area';
+    document.body.appendChild(printableArea);
+
+    const root = ReactDOM.createRoot(printableArea);
+    root.render(
+      <PrintableExpiryReport
+        lines={expiringLots}
+        withinDays={expiryWindowDays}
+        printedBy={actor.username}
+        printDate={new Date()}
+      />
+    );
+
+    setTimeout(() => {
+      window.print();
+      setTimeout(() => {
+        root.unmount();
+        if (document.body.contains(printableArea)) {
+          document.body.removeChild(printableArea);
+        }
+      }, 3000);
+    }, 250);
+  };
+
+  const handlePrintValuation = () => {
+    if (!actor) return;
+
+    const printableArea = document.createElement('div');
+    printableArea.id = 'printable-report-area';
+    document.body.appendChild(printableArea);
+
+    const root = ReactDOM.createRoot(printableArea);
+    root.render(
+      <PrintableValuationReport
+        lines={valuationLines}
+        scope={allWarehouses.find(wh => wh.id === valuationWarehouseId)?.name || 'All Warehouses'}
+        asOf={valuationAsOf}
+        printedBy={actor.username}
+        printDate={new Date()}
+      />
+    );
+
+    setTimeout(() => {
+      window.print();
+      setTimeout(() => {
+        root.unmount();
+        if (document.body.contains(printableArea)) {
+          document.body.removeChild(printableArea);
+        }
+      }, 3000);
+    }, 250);
+  };
+
   const handlePrintArchivedReport = (report: ArchivedReport) => {
     const printableArea = document.createElement('div');
     printableArea.id = 'printable-report-area';
@@ -254,14 +438,16 @@ export default function ReportsPage() {
         quantity: report.historySnapshot.length > 0 ? report.historySnapshot[0].quantityAfter : 0, 
         createdAt: report.historySnapshot.length > 0 ? report.historySnapshot[report.historySnapshot.length - 1].timestamp : report.printedAt,
         updatedAt: report.historySnapshot.length > 0 ? report.historySnapshot[0].timestamp : report.printedAt,
-        history: report.historySnapshot,
         isArchived: true,
-        ownerId: "placeholder-owner-id",
+        ownerId: user?.uid || "",
+        unit: report.itemUnit,
+        precision: report.itemPrecision,
       };
       root.render(
         <PrintableItemReport
           warehouseName={report.warehouseName}
           item={itemForPrinting}
+          history={report.historySnapshot}
           printedBy={report.printedBy || "System"}
           printDate={new Date(report.printedAt)}
         />
@@ -272,7 +458,7 @@ export default function ReportsPage() {
         name: report.warehouseName,
         description: report.warehouseDescription || '',
         createdAt: new Date().toISOString(),
-        ownerId: "placeholder-owner-id",
+        ownerId: user?.uid || "",
         updatedAt: new Date().toISOString(), 
         isArchived: true,
       };
@@ -284,6 +470,15 @@ export default function ReportsPage() {
           printDate={new Date(report.printedAt)}
         />
       );
+    } else if (report.reportType === 'STOCKTAKE' && report.stocktakeSnapshot && report.warehouseName) {
+      root.render(
+        <PrintableStocktakeReport
+          warehouseName={report.warehouseName}
+          lines={report.stocktakeSnapshot}
+          printedBy={report.printedBy || "System"}
+          printDate={new Date(report.printedAt)}
+        />
+      );
     } else {
       toast({ title: "Error", description: "Cannot re-print report. Invalid report data.", variant: "destructive" });
       if (document.body.contains(printableArea)) {
@@ -321,7 +516,7 @@ export default function ReportsPage() {
             </DialogHeader>
             
             <div className="flex-1 overflow-y-auto min-h-0"> 
-              <div className="p-4 flex flex-col gap-4 md:grid md:grid-cols-2 lg:grid-cols-4 border-b">
+              <div className="p-4 flex flex-col gap-4 md:grid md:grid-cols-2 lg:grid-cols-3 border-b">
                 <div>
                   <label htmlFor="warehouse-select-modal" className="block text-sm font-medium text-foreground mb-1">
                     Select Warehouse
@@ -332,7 +527,7 @@ export default function ReportsPage() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all_warehouses_option_value_placeholder_for_clear">All Warehouses</SelectItem>
-                      {allWarehouses.map(wh => (
+                      {activeWarehouses.map(wh => (
                         <SelectItem key={wh.id} value={wh.id}>
                           {wh.name}
                         </SelectItem>
@@ -367,12 +562,52 @@ export default function ReportsPage() {
                       </SelectItem>
                       {itemsInSelectedWarehouse.map(item => (
                         <SelectItem key={item.id} value={item.id}>
-                          {item.name} (Qty: {item.quantity})
+                          {item.name} (Qty: {formatQuantity(item.quantity, item)})
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <label htmlFor="category-select-modal" className="block text-sm font-medium text-foreground mb-1">
+                    Category
+                  </label>
+                  <Select
+                    onValueChange={(value) => setItemFilters(prev => ({ ...prev, category: value === "all_categories_option" ? null : value }))}
+                    value={itemFilters.category || "all_categories_option"}
+                  >
+                    <SelectTrigger id="category-select-modal" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all_categories_option">All Categories</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                      <SelectItem value={UNCATEGORIZED}>{UNCATEGORIZED}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label htmlFor="tag-select-modal" className="block text-sm font-medium text-foreground mb-1">
+                    Tag
+                  </label>
+                  <Select
+                    onValueChange={(value) => setItemFilters(prev => ({ ...prev, tag: value === "all_tags_option" ? null : value }))}
+                    value={itemFilters.tag || "all_tags_option"}
+                    disabled={tags.length === 0}
+                  >
+                    <SelectTrigger id="tag-select-modal" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all_tags_option">All Tags</SelectItem>
+                      {tags.map(tag => (
+                        <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div>
                   <label htmlFor="start-date-picker-modal" className="block text-sm font-medium text-foreground mb-1">
                     Start Date
@@ -435,11 +670,17 @@ export default function ReportsPage() {
               </div>
               
               <div className="p-4 pt-2">
-                <h3 className="text-sm font-semibold mb-2 sticky left-0">
-                    {getCurrentReportTitle()}
-                </h3>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h3 className="text-sm font-semibold sticky left-0">
+                      {getCurrentReportTitle()}
+                  </h3>
+                  <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+                    <Checkbox checked={isGroupedByCategory} onCheckedChange={(checked) => setIsGroupedByCategory(checked === true)} />
+                    Group by category
+                  </label>
+                </div>
                 <div className="w-full overflow-x-auto rounded-md border"> 
-                  {isLoading ? (
+                  {isLoading || (isTransactionsLoading && filteredTransactions.length === 0) ? (
                     <div className="flex items-center justify-center py-10 h-full"><LoadingSpinner size={32} /></div>
                   ) : filteredTransactions.length === 0 ? (
                     <EmptyState
@@ -459,15 +700,25 @@ export default function ReportsPage() {
                           <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Change</th>
                           <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Before</th>
                           <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">After</th>
+                          <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">User</th>
                           <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-normal break-words min-w-[150px]">Comment</th>
                         </tr>
                       </thead>
                       <tbody>
-                        {filteredTransactions.map((entry) => (
+                        {transactionGroups.map(([category, entries]) => (
+                          <React.Fragment key={category ?? 'all'}>
+                        {category !== null && (
+                          <tr className="border-b border-border/50 bg-muted/40">
+                            <td colSpan={9} className="py-2 px-4 font-semibold">
+                              {category} <span className="font-normal text-muted-foreground">· {entries.length} transaction(s)</span>
+                            </td>
+                          </tr>
+                        )}
+                        {entries.map((entry) => (
                           <tr key={entry.id + entry.timestamp} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
                             <td className="py-3 px-4 whitespace-nowrap">{format(new Date(entry.timestamp), 'P p')}</td>
                             <td className="py-3 px-4 break-words">{entry.itemName}</td>
-                            <td className="py-3 px-4 break-words">{entry.warehouseName}</td>
+                            <td className="py-3 px-4 break-words">{isTransfer(entry) ? transferRoute(entry) : entry.warehouseName}</td>
                             <td className="py-3 px-4 whitespace-nowrap">
                               <span className={cn(
                                 'px-2 py-0.5 text-xs rounded-full',
@@ -475,6 +726,9 @@ export default function ReportsPage() {
                                 entry.type === 'ADD_STOCK' ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300' :
                                     entry.type === 'CONSUME_STOCK' ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300' :
                                     entry.type === 'ADJUST_STOCK' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300' :
+                                    entry.type === 'UPDATE_ITEM' ? 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300' :
+                                    isTransfer(entry) ? 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300' :
+                                    entry.type === 'ASSEMBLE' || entry.type === 'DISASSEMBLE' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300' :
                                         'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
                               )}>
                                 {formatHistoryType(entry.type)}
@@ -482,19 +736,31 @@ export default function ReportsPage() {
                             </td>
                             <td className={cn(
                               'py-3 px-4 text-right font-medium whitespace-nowrap',
-                              entry.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                              isTransfer(entry) ? 'text-amber-600 dark:text-amber-400' :
+                                entry.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
                             )}>
-                              {entry.change > 0 ? `+${entry.change}` : entry.change}
+                              {isTransfer(entry) ? formatQuantity(Math.abs(entry.change), entry) : formatQuantityChange(entry.change, entry)}
                             </td>
-                            <td className="py-3 px-4 text-right whitespace-nowrap">{entry.quantityBefore}</td>
-                            <td className="py-3 px-4 text-right font-semibold whitespace-nowrap">{entry.quantityAfter}</td>
+                            <td className="py-3 px-4 text-right whitespace-nowrap">{formatQuantity(entry.quantityBefore, entry)}</td>
+                            <td className="py-3 px-4 text-right font-semibold whitespace-nowrap">{formatQuantity(entry.quantityAfter, entry)}</td>
+                            <td className="py-3 px-4 whitespace-nowrap">{entry.username || 'N/A'}</td>
                             <td className="py-3 px-4 text-xs whitespace-normal break-words min-w-[150px]">{entry.comment}</td>
                           </tr>
                         ))}
+                          </React.Fragment>
+                        ))}
                       </tbody>
                     </table>
                   )}
                 </div>
+                {hasMoreTransactions && (
+                  <div className="flex justify-center pt-3">
+                    <Button variant="outline" size="sm" onClick={() => loadTransactions(transactionsCursor)} disabled={isTransactionsLoading}>
+                      {isTransactionsLoading ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                      Load More
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
             <div className="p-4 border-t flex justify-end shrink-0">
@@ -511,23 +777,207 @@ export default function ReportsPage() {
           </DialogContent>
         </Dialog>
 
+        <Dialog open={isExpiringStockDialogOpen} onOpenChange={setIsExpiringStockDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="default" className="w-full md:w-auto">View Expiring Stock</Button>
+          </DialogTrigger>
+          <DialogContent className="w-[95vw] max-w-2xl h-[480px] flex flex-col p-0 sm:rounded-lg">
+            <DialogHeader className="p-4 border-b shrink-0">
+              <DialogTitle>Expiring Stock</DialogTitle>
+            </DialogHeader>
+            <div className="px-4 pt-4 shrink-0 flex items-center gap-2">
+              <label htmlFor="expiry-window-select" className="text-sm font-medium text-foreground whitespace-nowrap">
+                Expiring within
+              </label>
+              <Select value={String(expiryWindowDays)} onValueChange={(value) => setExpiryWindowDays(Number(value))}>
+                <SelectTrigger id="expiry-window-select" className="w-[140px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_WINDOWS.map(days => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 overflow-y-auto min-h-0">
+              <div className="p-4 pt-2">
+                <div className="w-full overflow-x-auto rounded-md border">
+                  {isLoading ? <div className="flex items-center justify-center h-full py-10"><LoadingSpinner /></div> : (
+                    expiringLots.length === 0 ? (
+                      <EmptyState
+                        IconComponent={Hourglass}
+                        title="Nothing Expiring"
+                        description={`No lots expire within the next ${expiryWindowDays} days.`}
+                      />
+                    ) : (
+                      <table className="text-xs border-collapse min-w-full">
+                        <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                          <tr>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item Name</th>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Warehouse</th>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Lot</th>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Expiry</th>
+                            <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {expiringLots.map((line) => (
+                            <tr key={`${line.item.id}-${line.lot.lotNumber}`} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                              <td className="py-3 px-4 font-medium break-words">{line.item.name}</td>
+                              <td className="py-3 px-4 break-words">{line.warehouseName}</td>
+                              <td className="py-3 px-4 whitespace-nowrap font-mono">{line.lot.lotNumber}</td>
+                              <td className="py-3 px-4 whitespace-nowrap">
+                                {format(parseISO(line.lot.expiryDate!), 'P')}
+                                <ExpiryBadge expiryDate={line.lot.expiryDate} className="ml-2" />
+                              </td>
+                              <td className="py-3 px-4 text-right whitespace-nowrap">{formatQuantity(line.lot.quantity, line.item)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end shrink-0">
+              <Button variant="outline" onClick={handlePrintExpiringStock} disabled={expiringLots.length === 0} size="sm">
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isValuationDialogOpen} onOpenChange={setIsValuationDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="default" className="w-full md:w-auto">View Inventory Valuation</Button>
+          </DialogTrigger>
+          <DialogContent className="w-[95vw] max-w-2xl h-[520px] flex flex-col p-0 sm:rounded-lg">
+            <DialogHeader className="p-4 border-b shrink-0">
+              <DialogTitle>Inventory Valuation</DialogTitle>
+            </DialogHeader>
+            <div className="px-4 pt-4 shrink-0 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Select
+                value={valuationWarehouseId || "all_warehouses_option"}
+                onValueChange={(value) => setValuationWarehouseId(value === "all_warehouses_option" ? null : value)}
+              >
+                <SelectTrigger className="h-9" aria-label="Warehouse">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all_warehouses_option">All Warehouses</SelectItem>
+                  {valuationWarehouses.map(wh => (
+                    <SelectItem key={wh.id} value={wh.id}>{wh.isArchived ? `${wh.name} (archived)` : wh.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className={cn("h-9 flex-1 justify-start text-left font-normal", !valuationAsOf && "text-muted-foreground")}>
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {valuationAsOf ? `As of ${format(valuationAsOf, "PPP")}` : <span>Current stock</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={valuationAsOf}
+                      onSelect={setValuationAsOf}
+                      disabled={(date) => date > new Date()}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                {valuationAsOf && (
+                  <Button variant="ghost" size="sm" className="h-9" onClick={() => setValuationAsOf(undefined)}>Now</Button>
+                )}
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto min-h-0">
+              <div className="p-4 pt-2">
+                <div className="w-full overflow-x-auto rounded-md border">
+                  {isLoading || isValuationLoading ? <div className="flex items-center justify-center h-full py-10"><LoadingSpinner /></div> : (
+                    valuationLines.length === 0 ? (
+                      <EmptyState
+                        IconComponent={Coins}
+                        title="No Stock to Value"
+                        description={valuationAsOf ? "No stock was held at the end of this day." : "There is no stock in the selected warehouses."}
+                      />
+                    ) : (
+                      <table className="text-xs border-collapse min-w-full">
+                        <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                          <tr>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item Name</th>
+                            <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Warehouse</th>
+                            <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                            <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Unit Cost</th>
+                            <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Value</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {valuationLines.map((line) => (
+                            <tr key={line.itemId} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                              <td className="py-3 px-4 font-medium break-words">{line.name}</td>
+                              <td className="py-3 px-4 break-words">{line.warehouseName}</td>
+                              <td className="py-3 px-4 text-right whitespace-nowrap">{formatQuantity(line.quantity, line)}</td>
+                              <td className="py-3 px-4 text-right whitespace-nowrap">{line.value > 0 ? formatUnitCost(line.value / line.quantity) : 'N/A'}</td>
+                              <td className="py-3 px-4 text-right whitespace-nowrap">{formatMoney(line.value)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                        <tfoot>
+                          <tr className="border-t font-semibold">
+                            <td colSpan={4} className="py-3 px-4">Total ({valuationLines.length} items)</td>
+                            <td className="py-3 px-4 text-right whitespace-nowrap">{formatMoney(sumValuation(valuationLines))}</td>
+                          </tr>
+                        </tfoot>
+                      </table>
+                    )
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end shrink-0">
+              <Button variant="outline" onClick={handlePrintValuation} disabled={valuationLines.length === 0 || isValuationLoading} size="sm">
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isArchivedReportsDialogOpen} onOpenChange={setIsArchivedReportsDialogOpen}>
           <DialogTrigger asChild>
             <Button variant="default" className="w-full md:w-auto">View Archived Reports</Button>
           </DialogTrigger>
-          <DialogContent className="w-[95vw] max-w-2xl h-[330px] flex flex-col p-0 sm:rounded-lg">
+          <DialogContent className="w-[95vw] max-w-2xl h-[480px] flex flex-col p-0 sm:rounded-lg">
             <DialogHeader className="p-4 border-b shrink-0">
               <DialogTitle>Archived Printed Reports</DialogTitle>
             </DialogHeader>
+            <div className="px-4 pt-4 shrink-0">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  type="search"
+                  placeholder="Search by item, warehouse or printed by..."
+                  className="pl-8 h-9"
+                  value={archivedReportsSearch}
+                  onChange={(e) => setArchivedReportsSearch(e.target.value)}
+                />
+              </div>
+            </div>
             <div className="flex-1 overflow-y-auto min-h-0">
               <div className="p-4 pt-2">
                 <div className="w-full overflow-x-auto rounded-md border">
                   {isLoading ? <div className="flex items-center justify-center h-full py-10"><LoadingSpinner /></div> : (
-                    archivedReports.length === 0 ? (
+                    filteredArchivedReports.length === 0 ? (
                       <EmptyState
                         IconComponent={ArchiveIcon}
                         title="No Archived Reports"
-                        description="Reports you print will be archived here for future reference."
+                        description={archivedReportsSearch ? "No loaded archived reports match your search." : "Reports you print will be archived here for future reference."}
                         className="my-4"
                       />
                     ) : (
@@ -542,14 +992,14 @@ export default function ReportsPage() {
                           </tr>
                         </thead>
                         <tbody>
-                          {archivedReports.sort((a, b) => new Date(b.printedAt).getTime() - new Date(a.printedAt).getTime()).map((report) => (
+                          {filteredArchivedReports.map((report) => (
                             <tr key={report.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
                               <td className="py-3 px-4 font-medium break-words">
                                 {report.reportType === 'ITEM' ? report.itemName : report.warehouseName}
                                 {report.reportType === 'ITEM' && <span className="text-xs text-muted-foreground block"> (in {report.warehouseName})</span>}
                               </td>
                               <td className="py-3 px-4 break-words">
-                                {report.reportType === 'ITEM' ? 'Item Details' : report.reportType === 'WAREHOUSE' ? 'Warehouse Summary' : 'Transactions'}
+                                {formatReportType(report.reportType)}
                               </td>
                               <td className="py-3 px-4 whitespace-nowrap">{report.printedBy}</td>
                               <td className="py-3 px-4 text-xs whitespace-nowrap">{format(new Date(report.printedAt), 'P p')}</td>
@@ -565,6 +1015,14 @@ export default function ReportsPage() {
                     )
                   )}
                 </div>
+                {hasMoreArchivedReports && (
+                  <div className="flex justify-center pt-2">
+                    <Button variant="outline" size="sm" onClick={loadMoreArchivedReports} disabled={isArchivedReportsLoading}>
+                      {isArchivedReportsLoading ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                      Load More
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </DialogContent>
@@ -0,0 +1,222 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import Link from 'next/link';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { db } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { canPerform } from '@/lib/membership';
+import { COSTING_METHOD_LABELS, COSTING_METHODS, getCostingMethod } from '@/lib/costing';
+import { updateWarehouseDetails } from '@/lib/warehouses';
+import type { Warehouse } from '@/lib/types';
+
+const warehouseFormSchema = z.object({
+  name: z.string().min(2, {
+    message: 'Warehouse name must be at least 2 characters.',
+  }),
+  description: z.string().optional(),
+  costingMethod: z.enum(COSTING_METHODS),
+});
+
+type WarehouseFormValues = z.infer<typeof warehouseFormSchema>;
+
+export default function EditWarehousePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const form = useForm<WarehouseFormValues>({
+    resolver: zodResolver(warehouseFormSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      costingMethod: 'FIFO',
+    },
+  });
+
+  React.useEffect(() => {
+    if (!warehouseId || !user) return;
+    const loadWarehouse = async () => {
+      setIsLoading(true);
+      try {
+        const docSnap = await getDoc(doc(db, "warehouses", warehouseId));
+        if (!docSnap.exists() || docSnap.data().isArchived) {
+          toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+          router.push('/warehouses');
+          return;
+        }
+        const data = docSnap.data();
+        const loadedWarehouse = {
+          id: docSnap.id,
+          name: data.name,
+          description: data.description,
+          isArchived: data.isArchived,
+          createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+          updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+          ownerId: data.ownerId,
+          members: data.members,
+          memberIds: data.memberIds,
+          costingMethod: data.costingMethod,
+        } as Warehouse;
+        if (!canPerform(loadedWarehouse, user.uid, 'editWarehouse')) {
+          toast({ title: "Not Allowed", description: "Only owners and managers can edit this warehouse.", variant: "destructive" });
+          router.push(`/warehouses/${warehouseId}`);
+          return;
+        }
+        setWarehouse(loadedWarehouse);
+        form.reset({
+          name: loadedWarehouse.name,
+          description: loadedWarehouse.description || '',
+          costingMethod: getCostingMethod(loadedWarehouse),
+        });
+      } catch (error) {
+        console.error("Failed to load warehouse from Firestore", error);
+        toast({ title: "Error", description: "Failed to load warehouse.", variant: "destructive" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadWarehouse();
+  }, [warehouseId, user, router, toast, form]);
+
+  async function onSubmit(data: WarehouseFormValues) {
+    if (!warehouse || !actor) return;
+
+    setIsSaving(true);
+    try {
+      const entry = await updateWarehouseDetails(warehouse.id, data, actor);
+      toast(entry
+        ? { title: "Warehouse Updated", description: entry.comment }
+        : { title: "No Changes", description: "The warehouse details were not changed." });
+      router.push(`/warehouses/${warehouse.id}`);
+    } catch (error: any) {
+      console.error("Error updating warehouse in Firestore: ", error);
+      toast({ title: "Error", description: error.message || "Failed to save warehouse. Please try again.", variant: "destructive" });
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading || !warehouse) {
+    return <div className="flex justify-center items-center h-screen"><LoadingSpinner size={32} /></div>;
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Edit ${warehouse.name}`}
+        description="Update the name, description and costing method of this warehouse. Changes are recorded in its activity log."
+        actions={
+          <Button variant="outline" asChild>
+            <Link href={`/warehouses/${warehouse.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Warehouse
+            </Link>
+          </Button>
+        }
+      />
+      <Card>
+        <CardHeader>
+          <CardTitle>Warehouse Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Warehouse Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder=""
+                        className="resize-none"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="costingMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Costing Method</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {COSTING_METHODS.map(method => (
+                          <SelectItem key={method} value={method}>{COSTING_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      How the cost of consumed stock is worked out. A change applies to stock movements from now on.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => router.push(`/warehouses/${warehouse.id}`)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  Save Changes
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
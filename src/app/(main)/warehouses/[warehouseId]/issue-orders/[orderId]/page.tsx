@@ -0,0 +1,316 @@
+'use client';
+
+import * as React from 'react';
+import ReactDOM from 'react-dom/client';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, PackageMinus, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { PrintablePickList } from '@/components/PrintablePickList';
+import { cn } from '@/lib/utils';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import { buildPickList, confirmIssueOrderPicked, fetchIssueOrder, ISSUE_ORDER_STATUS_LABELS, RECIPIENT_TYPE_LABELS } from '@/lib/issueOrders';
+import { describeLots } from '@/lib/lots';
+import { findDuplicateSerials, parseSerialList } from '@/lib/serials';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity } from '@/lib/units';
+import type { IssueOrder, Item, Warehouse } from '@/lib/types';
+
+export default function IssueOrderPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+  const orderId = params.orderId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [order, setOrder] = React.useState<IssueOrder | null>(null);
+  const [items, setItems] = React.useState<Item[]>([]);
+  const [serialInputs, setSerialInputs] = React.useState<Record<string, string>>({});
+  const [comment, setComment] = React.useState('');
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isPosting, setIsPosting] = React.useState(false);
+
+  const canIssue = canPerform(warehouse, user?.uid, 'adjustStock');
+
+  const loadOrder = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const issueOrder = await fetchIssueOrder(orderId);
+      if (!issueOrder || issueOrder.warehouseId !== warehouseId) {
+        toast({ title: "Issue Order Not Found", description: "The requested issue order does not exist.", variant: "destructive" });
+        router.push(`/warehouses/${warehouseId}/issue-orders`);
+        return;
+      }
+      setOrder(issueOrder);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      setItems(itemsSnapshot.docs.map(itemDoc => {
+        const { history: _legacyHistory, ...itemData } = itemDoc.data();
+        return { id: itemDoc.id, ...itemData } as Item;
+      }));
+      setSerialInputs({});
+    } catch (error) {
+      console.error("Failed to load issue order from Firestore", error);
+      toast({ title: "Error", description: "Failed to load issue order.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, orderId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && orderId && user) {
+      loadOrder();
+    }
+  }, [warehouseId, orderId, user, loadOrder]);
+
+  const pickList = React.useMemo(() => (order ? buildPickList(order, items) : []), [order, items]);
+  // Lines that can only be picked from stock reserved for other orders.
+  const reservedDips = pickList.filter(line => line.onHand !== null && line.quantity <= line.onHand && line.quantity > line.onHand - line.reservedElsewhere);
+
+  const handlePrintPickList = () => {
+    if (!order || !actor) return;
+
+    const printableArea = document.createElement('div');
+    printableArea.id = 'printable-report-area';
+    document.body.appendChild(printableArea);
+
+    const root = ReactDOM.createRoot(printableArea);
+    root.render(
+      <PrintablePickList
+        order={order}
+        lines={pickList}
+        printedBy={actor.username}
+        printDate={new Date()}
+      />
+    );
+
+    setTimeout(() => {
+      window.print();
+      setTimeout(() => {
+        root.unmount();
+        if (document.body.contains(printableArea)) {
+          document.body.removeChild(printableArea);
+        }
+      }, 3000);
+    }, 250);
+  };
+
+  const handleConfirmPicked = async () => {
+    if (!order || !actor || !canIssue) return;
+    const pickedSerials: Record<string, string[]> = {};
+    for (const line of pickList.filter(pickLine => pickLine.serialized)) {
+      const serials = parseSerialList(serialInputs[line.itemId] || '');
+      const duplicates = findDuplicateSerials(serials);
+      if (serials.length !== line.quantity || duplicates.length > 0) {
+        toast({
+          title: "Serial Numbers Needed",
+          description: duplicates.length > 0
+            ? `${line.name}: serial numbers entered more than once: ${duplicates.join(', ')}.`
+            : `${line.name}: enter the ${line.quantity} serial number(s) picked.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      pickedSerials[line.itemId] = serials;
+    }
+    setIsPosting(true);
+    try {
+      await confirmIssueOrderPicked(order.id, pickedSerials, comment.trim(), actor);
+      toast({ title: "Order Picked", description: `${order.lines.length} line(s) on ${order.number} were issued to ${order.recipient}.` });
+      setComment('');
+      await loadOrder();
+    } catch (error: any) {
+      console.error("Failed to confirm issue order as picked", error);
+      toast({
+        title: error instanceof StockAdjustmentError ? "Pick Not Confirmed" : "Error",
+        description: error.message || "Failed to confirm the pick.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (isLoading && !order) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse || !order) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Issue order data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  const isPicking = order.status === 'open' && canIssue;
+
+  return (
+    <>
+      <PageHeader
+        title={`Issue Order ${order.number}`}
+        description={`${RECIPIENT_TYPE_LABELS[order.recipientType]}: ${order.recipient} · ${warehouse.name}`}
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}/issue-orders`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Issue Orders
+              </Link>
+            </Button>
+            {order.status === 'open' && (
+              <Button variant="outline" onClick={handlePrintPickList}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Pick List
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      <Card className="overflow-hidden">
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle>Pick List</CardTitle>
+            <Badge variant="outline">{ISSUE_ORDER_STATUS_LABELS[order.status]}</Badge>
+          </div>
+          <CardDescription>
+            Raised by {order.createdByName} on {format(new Date(order.createdAt), 'P')}
+            {order.neededBy && `, needed by ${format(parseISO(order.neededBy), 'P')}`}
+            {order.pickedAt && `, picked by ${order.pickedByName} on ${format(new Date(order.pickedAt), 'P p')}`}.
+            {order.status === 'open' && ' Lines are in location order; lot-tracked items are taken first-expiring-first-out.'}
+          </CardDescription>
+          {order.notes && <p className="text-sm text-muted-foreground break-words">{order.notes}</p>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="w-full overflow-x-auto rounded-md border">
+            <table className="text-xs border-collapse min-w-full">
+              <thead className="bg-background/90 dark:bg-card/80">
+                <tr>
+                  <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location</th>
+                  <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item</th>
+                  <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                  {order.status === 'open' && <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">In Stock</th>}
+                  {order.status === 'open' && <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Lots / Serials</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {pickList.map(line => {
+                  const isShort = line.onHand === null || line.quantity > line.onHand;
+                  const dipsIntoReserved = reservedDips.includes(line);
+                  return (
+                    <tr key={line.itemId} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5 align-top">
+                      <td className="py-2 px-4 whitespace-nowrap font-mono">{line.location || 'N/A'}</td>
+                      <td className="py-2 px-4 break-words">
+                        <div className="font-medium">{line.name}</div>
+                        {line.sku && <div className="font-mono text-muted-foreground">{line.sku}</div>}
+                      </td>
+                      <td className="py-2 px-4 text-right font-semibold whitespace-nowrap">{formatQuantity(line.quantity, line)}</td>
+                      {order.status === 'open' && (
+                        <td className={cn(
+                          'py-2 px-4 text-right whitespace-nowrap',
+                          isShort ? 'text-red-600 dark:text-red-400 font-semibold' : dipsIntoReserved && 'text-amber-600 dark:text-amber-400 font-semibold'
+                        )}>
+                          {line.onHand === null ? 'No longer active' : formatQuantity(line.onHand, line)}
+                          {line.reservedElsewhere > 0 && <div className="font-normal text-muted-foreground">{formatQuantity(line.reservedElsewhere, line)} reserved elsewhere</div>}
+                        </td>
+                      )}
+                      {order.status === 'open' && (
+                        <td className="py-2 px-4 break-words">
+                          {line.serialized ? (
+                            <Textarea
+                              className="min-h-[60px] min-w-[180px] font-mono text-xs"
+                              placeholder={`${line.quantity} serial number(s), one per line`}
+                              value={serialInputs[line.itemId] || ''}
+                              disabled={!isPicking || isPosting}
+                              onChange={(e) => setSerialInputs(prev => ({ ...prev, [line.itemId]: e.target.value }))}
+                              aria-label={`Serial numbers picked for ${line.name}`}
+                            />
+                          ) : line.lots ? describeLots(line.lots, line) : '-'}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {isPicking && (
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-2">
+                <label htmlFor="pick-comment" className="text-sm font-medium">Comment (Optional)</label>
+                <Input
+                  id="pick-comment"
+                  placeholder={`Defaults to "Picked for ${order.number} (${order.recipient})"`}
+                  value={comment}
+                  disabled={isPosting}
+                  onChange={(e) => setComment(e.target.value)}
+                />
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={isPosting}>
+                    {isPosting ? <LoadingSpinner size={16} className="mr-2" /> : <PackageMinus className="mr-2 h-4 w-4" />}
+                    Confirm Picked
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Confirm {order.number} as picked?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Every line is consumed from stock and recorded in the item&apos;s history against this order.
+                      If any line is short, nothing is posted.
+                      {reservedDips.length > 0 && ` ${reservedDips.map(line => line.name).join(', ')} will use stock reserved for other orders.`}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Back</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleConfirmPicked}>Confirm Picked</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,503 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO } from 'date-fns';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, ClipboardList, PackageMinus, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import {
+  createIssueOrder,
+  deleteIssueOrder,
+  fetchIssueOrders,
+  ISSUE_ORDER_STATUS_LABELS,
+  MAX_ISSUE_ORDER_LINES,
+  RECIPIENT_TYPE_LABELS,
+  updateIssueOrder,
+} from '@/lib/issueOrders';
+import { formatQuantity, formatQuantityTotals, getItemPrecision, hasPrecision, precisionError } from '@/lib/units';
+import type { IssueOrder, IssueOrderRecipientType, IssueOrderStatus, Item, Warehouse } from '@/lib/types';
+
+const orderLineSchema = z.object({
+  itemId: z.string().min(1, { message: 'Choose an item.' }),
+  quantity: z.coerce.number({ invalid_type_error: 'Quantity must be a number.' }).positive({ message: 'Quantity must be more than zero.' }),
+});
+
+const orderFormSchema = z
+  .object({
+    recipientType: z.enum(['customer', 'department']),
+    recipient: z.string().trim().min(1, { message: 'Enter who the stock is for.' }).max(100),
+    neededBy: z.string().optional(),
+    notes: z.string().max(500).optional(),
+    lines: z.array(orderLineSchema)
+      .min(1, { message: 'Add at least one line.' })
+      .max(MAX_ISSUE_ORDER_LINES, { message: `An order can have at most ${MAX_ISSUE_ORDER_LINES} lines.` }),
+  })
+  .superRefine((values, ctx) => {
+    values.lines.forEach((line, index) => {
+      if (line.itemId && values.lines.findIndex(other => other.itemId === line.itemId) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'This item is already on the order.', path: ['lines', index, 'itemId'] });
+      }
+    });
+  });
+
+type OrderFormValues = z.infer<typeof orderFormSchema>;
+
+const emptyLine = { itemId: '', quantity: 1 };
+const emptyOrderForm: OrderFormValues = { recipientType: 'customer', recipient: '', neededBy: '', notes: '', lines: [emptyLine] };
+
+const ANY_STATUS = '__any__';
+
+export default function IssueOrdersPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [orders, setOrders] = React.useState<IssueOrder[]>([]);
+  const [items, setItems] = React.useState<Item[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [statusFilter, setStatusFilter] = React.useState<IssueOrderStatus | null>('open');
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editingOrder, setEditingOrder] = React.useState<IssueOrder | null>(null);
+
+  const canIssue = canPerform(warehouse, user?.uid, 'adjustStock');
+
+  const form = useForm<OrderFormValues>({
+    resolver: zodResolver(orderFormSchema),
+    defaultValues: emptyOrderForm,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lines' });
+
+  const loadOrders = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      setItems(itemsSnapshot.docs
+        .map(itemDoc => {
+          const { history: _legacyHistory, ...itemData } = itemDoc.data();
+          return { id: itemDoc.id, ...itemData } as Item;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setOrders(await fetchIssueOrders(warehouseId));
+    } catch (error) {
+      console.error("Failed to load issue orders from Firestore", error);
+      toast({ title: "Error", description: "Failed to load issue orders.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadOrders();
+    }
+  }, [warehouseId, user, loadOrders]);
+
+  const visibleOrders = statusFilter ? orders.filter(order => order.status === statusFilter) : orders;
+
+  const openDialog = (order: IssueOrder | null) => {
+    setEditingOrder(order);
+    form.reset(order ? {
+      recipientType: order.recipientType,
+      recipient: order.recipient,
+      neededBy: order.neededBy || '',
+      notes: order.notes || '',
+      lines: order.lines.map(line => ({ itemId: line.itemId, quantity: line.quantity })),
+    } : emptyOrderForm);
+    setIsDialogOpen(true);
+  };
+
+  async function onSubmit(values: OrderFormValues) {
+    if (!warehouse || !actor || !canIssue) return;
+    const lines = [];
+    for (const [index, line] of values.lines.entries()) {
+      const item = items.find(candidate => candidate.id === line.itemId);
+      if (!item) {
+        form.setError(`lines.${index}.itemId`, { type: 'manual', message: 'This item is no longer active.' });
+        return;
+      }
+      if (!hasPrecision(line.quantity, getItemPrecision(item))) {
+        form.setError(`lines.${index}.quantity`, { type: 'manual', message: precisionError(getItemPrecision(item)) });
+        return;
+      }
+      lines.push({ item, quantity: line.quantity });
+    }
+    const input = { recipientType: values.recipientType, recipient: values.recipient, lines, neededBy: values.neededBy, notes: values.notes };
+    try {
+      if (editingOrder) {
+        await updateIssueOrder(editingOrder.id, input, actor);
+        toast({ title: "Issue Order Updated", description: `${editingOrder.number} was updated.` });
+      } else {
+        const number = await createIssueOrder(warehouse, input, actor);
+        toast({ title: "Issue Order Created", description: `${number} is ready to pick; its stock is reserved until then.` });
+      }
+      setIsDialogOpen(false);
+      await loadOrders();
+    } catch (error: any) {
+      console.error("Failed to save issue order to Firestore", error);
+      toast({ title: "Error", description: error.message || "Failed to save issue order.", variant: "destructive" });
+    }
+  }
+
+  const handleDelete = async (order: IssueOrder) => {
+    if (!actor || !canIssue) return;
+    try {
+      await deleteIssueOrder(order.id, actor);
+      toast({ title: "Issue Order Deleted", description: `${order.number} was deleted.` });
+      await loadOrders();
+    } catch (error) {
+      console.error("Failed to delete issue order from Firestore", error);
+      toast({ title: "Error", description: "Failed to delete issue order.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Issue Orders: ${warehouse.name}`}
+        description="Stock requested by customers and departments, picked and issued in one go."
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Warehouse
+              </Link>
+            </Button>
+            {canIssue && (
+              <Button onClick={() => openDialog(null)} disabled={items.length === 0}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New Issue Order
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      {orders.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <EmptyState
+              IconComponent={ClipboardList}
+              title="No Issue Orders Yet"
+              description={canIssue
+                ? "Write an issue order for each customer sale or department request; print its pick list and confirm it once picked."
+                : "Stock keepers raise issue orders for this warehouse."}
+              action={canIssue && items.length > 0
+                ? { label: "New Issue Order", onClick: () => openDialog(null), icon: PlusCircle }
+                : undefined}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Orders</CardTitle>
+              <CardDescription>Open orders have not been picked yet; their stock is still on the shelves, reserved for them.</CardDescription>
+            </div>
+            <Select
+              value={statusFilter ?? ANY_STATUS}
+              onValueChange={(value) => setStatusFilter(value === ANY_STATUS ? null : value as IssueOrderStatus)}
+            >
+              <SelectTrigger className="w-[160px]" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_STATUS}>All Statuses</SelectItem>
+                {(Object.keys(ISSUE_ORDER_STATUS_LABELS) as IssueOrderStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{ISSUE_ORDER_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="bg-background/90 dark:bg-card/80">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Order</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">For</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Status</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Needed By</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Requested</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleOrders.map(order => (
+                    <tr key={order.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        <Link href={`/warehouses/${warehouse.id}/issue-orders/${order.id}`} className="font-mono font-medium text-primary hover:underline">
+                          {order.number}
+                        </Link>
+                        <div className="text-muted-foreground">{format(new Date(order.createdAt), 'P')} by {order.createdByName}</div>
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        {order.recipient}
+                        <div className="text-muted-foreground">{RECIPIENT_TYPE_LABELS[order.recipientType]}</div>
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        <Badge variant="outline" className={order.status === 'picked' ? 'border-green-600 text-green-700 dark:text-green-400' : 'border-blue-500 text-blue-700 dark:text-blue-400'}>
+                          {ISSUE_ORDER_STATUS_LABELS[order.status]}
+                        </Badge>
+                        {order.pickedAt && <div className="text-muted-foreground">{format(new Date(order.pickedAt), 'P')} by {order.pickedByName}</div>}
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">{order.neededBy ? format(parseISO(order.neededBy), 'P') : '-'}</td>
+                      <td className="py-2 px-4 break-words">{order.lines.length} line(s), {formatQuantityTotals(order.lines)}</td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">
+                        {order.status === 'open' && canIssue && (
+                          <>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(order)} aria-label={`Edit ${order.number}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" aria-label={`Delete ${order.number}`}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {order.number}?</AlertDialogTitle>
+                                  <AlertDialogDescription>Nothing has been picked for this order yet. It is deleted for good and its reserved stock is freed.</AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(order)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/warehouses/${warehouse.id}/issue-orders/${order.id}`}>
+                                <PackageMinus className="mr-2 h-4 w-4" />
+                                Pick
+                              </Link>
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {visibleOrders.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-6 px-4 text-center text-muted-foreground">No orders with this status.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingOrder ? `Edit ${editingOrder.number}` : 'New Issue Order'}</DialogTitle>
+            <DialogDescription>
+              The requested stock is reserved now and only consumed when the order is confirmed as picked.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <div className="grid grid-cols-[140px_1fr] gap-4">
+                <FormField
+                  control={form.control}
+                  name="recipientType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>For</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(value as IssueOrderRecipientType)} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(RECIPIENT_TYPE_LABELS) as IssueOrderRecipientType[]).map(type => (
+                            <SelectItem key={type} value={type}>{RECIPIENT_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="recipient"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{RECIPIENT_TYPE_LABELS[form.watch('recipientType')]} Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder={form.watch('recipientType') === 'customer' ? 'e.g., Northwind Traders' : 'e.g., Maintenance'} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="neededBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Needed By (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormLabel>Lines</FormLabel>
+                {fields.map((lineField, index) => {
+                  const item = items.find(candidate => candidate.id === form.watch(`lines.${index}.itemId`));
+                  return (
+                    <div key={lineField.id} className="grid grid-cols-[1fr_120px_auto] items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.itemId`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger aria-label={`Item on line ${index + 1}`}>
+                                  <SelectValue placeholder="Choose an item" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {items.map(candidate => (
+                                  <SelectItem key={candidate.id} value={candidate.id}>
+                                    {candidate.name}{candidate.sku ? ` (${candidate.sku})` : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {item && <p className="text-xs text-muted-foreground">{formatQuantity(item.quantity, item)} in stock</p>}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="number" step="any" min={0} aria-label={`Quantity on line ${index + 1}`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-10 w-10 text-destructive hover:text-destructive"
+                        onClick={() => remove(index)}
+                        disabled={fields.length === 1}
+                        aria-label={`Remove line ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button type="button" variant="outline" size="sm" onClick={() => append(emptyLine)} disabled={fields.length >= MAX_ISSUE_ORDER_LINES}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add Line
+                </Button>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="e.g., Collect from the front desk" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  {editingOrder ? 'Save Changes' : 'Create Order'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,457 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { collection, doc, getDoc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, MapPin, PlusCircle, Trash2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import {
+  deleteLocation,
+  describeLocation,
+  fetchLocations,
+  LOCATION_LEVEL_LABELS,
+  LOCATION_LEVELS,
+  LOCATION_PART_MESSAGE,
+  LOCATION_PART_PATTERN,
+  locationRef,
+  migrateLegacyLocations,
+  MISSING_LOCATION_PART,
+  normalizeLocationPart,
+  parseLocationText,
+  planLocationMigration,
+  toLocationCode,
+  toLocationData,
+  toLocationParts,
+} from '@/lib/locations';
+import { formatQuantity } from '@/lib/units';
+import type { Item, StorageLocation, Warehouse } from '@/lib/types';
+
+const locationPart = z
+  .string()
+  .transform(normalizeLocationPart)
+  .refine((part) => part === '' || LOCATION_PART_PATTERN.test(part), { message: LOCATION_PART_MESSAGE });
+
+const locationFormSchema = z
+  .object({ zone: locationPart, aisle: locationPart, shelf: locationPart, bin: locationPart })
+  .superRefine((values, ctx) => {
+    if (!values.zone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Zone is required.', path: ['zone'] });
+      return;
+    }
+    // A level can only be set when the level above it is.
+    LOCATION_LEVELS.slice(1).forEach((level, index) => {
+      if (values[level] && !values[LOCATION_LEVELS[index]]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Enter the ${LOCATION_LEVELS[index]} first.`, path: [level] });
+      }
+    });
+  });
+
+type LocationFormValues = z.infer<typeof locationFormSchema>;
+
+export default function LocationsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [locations, setLocations] = React.useState<StorageLocation[]>([]);
+  const [items, setItems] = React.useState<Item[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false);
+  const [migrationCodes, setMigrationCodes] = React.useState<Record<string, string>>({});
+  const [isMigrating, setIsMigrating] = React.useState(false);
+
+  const canManage = canPerform(warehouse, user?.uid, 'manageItems');
+
+  const form = useForm<LocationFormValues>({
+    resolver: zodResolver(locationFormSchema),
+    defaultValues: { zone: '', aisle: '', shelf: '', bin: '' },
+  });
+
+  const loadLocations = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      setItems(itemsSnapshot.docs
+        .map(itemDoc => {
+          const { history: _legacyHistory, ...itemData } = itemDoc.data();
+          return { id: itemDoc.id, ...itemData } as Item;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setLocations(await fetchLocations(warehouseId));
+    } catch (error) {
+      console.error("Failed to load locations from Firestore", error);
+      toast({ title: "Error", description: "Failed to load locations.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadLocations();
+    }
+  }, [warehouseId, user, loadLocations]);
+
+  const itemsByLocation = React.useMemo(() => {
+    const grouped = new Map<string, Item[]>();
+    items.forEach(item => {
+      if (!item.locationId) return;
+      grouped.set(item.locationId, [...(grouped.get(item.locationId) ?? []), item]);
+    });
+    return grouped;
+  }, [items]);
+
+  const zones = React.useMemo(() => {
+    const grouped = new Map<string, StorageLocation[]>();
+    locations.forEach(location => grouped.set(location.zone, [...(grouped.get(location.zone) ?? []), location]));
+    return Array.from(grouped.entries());
+  }, [locations]);
+
+  const unlocatedItems = items.filter(item => !item.locationId);
+  const migrationGroups = React.useMemo(() => planLocationMigration(items), [items]);
+
+  // The code typed for a group, or the one read from its text until the user edits it.
+  const getMigrationCode = (text: string, fallback: string) => migrationCodes[text] ?? fallback;
+
+  async function onAddLocation(values: LocationFormValues) {
+    if (!warehouse || !canManage) return;
+    const parts = toLocationParts(values);
+    if (!parts) return;
+    const code = toLocationCode(parts);
+    if (locations.some(location => location.code === code)) {
+      form.setError('zone', { type: 'manual', message: `Location ${code} already exists.` });
+      return;
+    }
+    try {
+      // A batch write of an existing location is rejected as an update.
+      const batch = writeBatch(db);
+      batch.set(locationRef(warehouse.id, code), toLocationData(parts));
+      await batch.commit();
+      toast({ title: "Location Added", description: `${code} (${describeLocation(parts)}) was added.` });
+      setIsAddDialogOpen(false);
+      form.reset({ zone: '', aisle: '', shelf: '', bin: '' });
+      await loadLocations();
+    } catch (error) {
+      console.error("Failed to add location to Firestore", error);
+      toast({ title: "Error", description: "Failed to add location. It may already exist.", variant: "destructive" });
+    }
+  }
+
+  const handleDelete = async (location: StorageLocation) => {
+    if (!warehouse || !canManage) return;
+    if (itemsByLocation.has(location.code)) {
+      toast({ title: "Location In Use", description: `Move the items stored at ${location.code} first.`, variant: "destructive" });
+      return;
+    }
+    try {
+      await deleteLocation(warehouse.id, location.code);
+      toast({ title: "Location Deleted", description: `${location.code} was deleted.` });
+      await loadLocations();
+    } catch (error) {
+      console.error("Failed to delete location from Firestore", error);
+      toast({ title: "Error", description: "Failed to delete location.", variant: "destructive" });
+    }
+  };
+
+  const handleMigrate = async () => {
+    if (!warehouse || !actor || !canManage) return;
+    const assignments = migrationGroups.flatMap(group => {
+      const parts = parseLocationText(getMigrationCode(group.text, group.parts ? toLocationCode(group.parts) : ''));
+      return parts ? group.items.map(item => ({ item, parts })) : [];
+    });
+    if (assignments.length === 0) {
+      toast({ title: "Nothing to Convert", description: "Enter a location code for at least one location text." });
+      return;
+    }
+    setIsMigrating(true);
+    try {
+      const migrated = await migrateLegacyLocations(warehouse, assignments, new Set(locations.map(location => location.code)), actor);
+      toast({ title: "Locations Converted", description: `${migrated} item(s) now reference a location.` });
+      setMigrationCodes({});
+      await loadLocations();
+    } catch (error) {
+      console.error("Failed to convert item locations in Firestore", error);
+      toast({ title: "Error", description: "Failed to convert locations.", variant: "destructive" });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Locations: ${warehouse.name}`}
+        description="Browse what is stored in each zone, aisle, shelf and bin."
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Warehouse
+              </Link>
+            </Button>
+            {canManage && (
+              <Button onClick={() => setIsAddDialogOpen(true)}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Location
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      <div className="space-y-6">
+        {canManage && migrationGroups.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Convert Text Locations</CardTitle>
+              <CardDescription>
+                {migrationGroups.reduce((total, group) => total + group.items.length, 0)} item(s) still have a free-text location.
+                Check the location code each text maps to; levels a text leaves out above the ones it names become {MISSING_LOCATION_PART}.
+                Texts left without a code keep their text for now.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="w-full overflow-x-auto rounded-md border">
+                <table className="text-xs border-collapse min-w-full">
+                  <thead className="bg-background/90 dark:bg-card/80">
+                    <tr>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location Text</th>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Items</th>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location Code</th>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Maps To</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {migrationGroups.map(group => {
+                      const code = getMigrationCode(group.text, group.parts ? toLocationCode(group.parts) : '');
+                      const parts = parseLocationText(code);
+                      return (
+                        <tr key={group.text} className="border-b border-border/50 last:border-b-0">
+                          <td className="py-2 px-4 whitespace-nowrap">{group.text}</td>
+                          <td className="py-2 px-4 break-words">{group.items.map(item => item.name).join(', ')}</td>
+                          <td className="py-2 px-4 whitespace-nowrap">
+                            <Input
+                              className="h-8 w-36 font-mono"
+                              placeholder="e.g., A-01-03"
+                              value={code}
+                              disabled={isMigrating}
+                              onChange={(event) => setMigrationCodes(prev => ({ ...prev, [group.text]: event.target.value }))}
+                              aria-label={`Location code for ${group.text}`}
+                            />
+                          </td>
+                          <td className="py-2 px-4 whitespace-nowrap text-muted-foreground">
+                            {parts
+                              ? `${toLocationCode(parts)}${locations.some(location => location.code === toLocationCode(parts)) ? '' : ' (new)'}`
+                              : code.trim() ? 'Not a valid location code' : 'Left as text'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleMigrate} disabled={isMigrating}>
+                  {isMigrating ? <LoadingSpinner size={16} className="mr-2" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                  Convert Locations
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {locations.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <EmptyState
+                IconComponent={MapPin}
+                title="No Locations Yet"
+                description={canManage
+                  ? "Add the zones, aisles, shelves and bins of this warehouse so items can be assigned to them."
+                  : "A manager needs to set up the locations of this warehouse."}
+                action={canManage ? { label: "Add Location", onClick: () => setIsAddDialogOpen(true), icon: PlusCircle } : undefined}
+              />
+            </CardContent>
+          </Card>
+        ) : zones.map(([zone, zoneLocations]) => (
+          <Card key={zone} className="overflow-hidden">
+            <CardHeader>
+              <CardTitle>{LOCATION_LEVEL_LABELS.zone} {zone}</CardTitle>
+              <CardDescription>
+                {zoneLocations.length} location(s), {zoneLocations.reduce((total, location) => total + (itemsByLocation.get(location.code)?.length ?? 0), 0)} item(s) stored.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="w-full overflow-x-auto rounded-md border">
+                <table className="text-xs border-collapse min-w-full">
+                  <thead className="bg-background/90 dark:bg-card/80">
+                    <tr>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Code</th>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location</th>
+                      <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Items Stored</th>
+                      {canManage && <th className="py-3 px-4" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {zoneLocations.map(location => {
+                      const stored = itemsByLocation.get(location.code) ?? [];
+                      return (
+                        <tr key={location.code} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                          <td className="py-2 px-4 whitespace-nowrap font-mono font-medium">{location.code}</td>
+                          <td className="py-2 px-4 whitespace-nowrap">{describeLocation(location)}</td>
+                          <td className="py-2 px-4 break-words">
+                            {stored.length > 0
+                              ? stored.map(item => `${item.name} (${formatQuantity(item.quantity, item)})`).join(', ')
+                              : <span className="text-muted-foreground">Empty</span>}
+                          </td>
+                          {canManage && (
+                            <td className="py-2 px-4 text-right">
+                              {stored.length === 0 && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" aria-label={`Delete ${location.code}`}>
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete location {location.code}?</AlertDialogTitle>
+                                      <AlertDialogDescription>No items are stored here. The location can be added again later.</AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction onClick={() => handleDelete(location)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {unlocatedItems.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Not Assigned to a Location</CardTitle>
+              <CardDescription>Assign a location from each item&apos;s edit form on the warehouse page.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm break-words">
+                {unlocatedItems.map(item => item.location ? `${item.name} ("${item.location}")` : item.name).join(', ')}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={isAddDialogOpen} onOpenChange={(isOpen) => {
+        setIsAddDialogOpen(isOpen);
+        if (!isOpen) form.reset({ zone: '', aisle: '', shelf: '', bin: '' });
+      }}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Add Location</DialogTitle>
+            <DialogDescription>
+              Fill the levels from the zone down; leave the lower levels empty for a whole aisle or shelf. Numbers are padded to two digits.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onAddLocation)} className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                {LOCATION_LEVELS.map(level => (
+                  <FormField
+                    key={level}
+                    control={form.control}
+                    name={level}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{LOCATION_LEVEL_LABELS[level]}{level === 'zone' ? '' : ' (Optional)'}</FormLabel>
+                        <FormControl>
+                          <Input className="font-mono" placeholder={level === 'zone' ? 'e.g., A' : 'e.g., 1'} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  Add Location
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { doc, getDoc } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, UserPlus, UserMinus, Ban } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import type { Invitation, Warehouse, WarehouseRole } from '@/lib/types';
+import { db } from '@/lib/firebase';
+import { canPerform, formatRole, INVITABLE_ROLES, removeMember, updateMemberRole } from '@/lib/membership';
+import { createInvitation, fetchWarehouseInvitations, revokeInvitation } from '@/lib/invitations';
+
+const inviteFormSchema = z.object({
+  email: z.string().email({ message: 'Please enter a valid email address.' }),
+  role: z.enum(['manager', 'clerk', 'viewer']),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
+interface MemberRow {
+  userId: string;
+  role: WarehouseRole;
+  username: string;
+  email?: string;
+}
+
+export default function WarehouseMembersPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [members, setMembers] = React.useState<MemberRow[]>([]);
+  const [invitations, setInvitations] = React.useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const inviteForm = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: {
+      email: '',
+      role: 'clerk',
+    },
+  });
+
+  const canManageMembers = canPerform(warehouse, user?.uid, 'manageMembers');
+
+  const loadMembers = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists()) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      const loadedWarehouse = {
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+        memberProfiles: data.memberProfiles,
+      } as Warehouse;
+      setWarehouse(loadedWarehouse);
+
+      const memberRoles: Record<string, WarehouseRole> = { [loadedWarehouse.ownerId]: 'owner', ...(loadedWarehouse.members || {}) };
+      // Members who have not signed in since names moved onto the warehouse have no profile yet.
+      const memberRows = Object.entries(memberRoles).map(([userId, role]) => {
+        const profile = loadedWarehouse.memberProfiles?.[userId];
+        return {
+          userId,
+          role,
+          username: profile?.username || 'Unknown User',
+          email: profile?.email,
+        };
+      });
+      setMembers(memberRows.sort((a, b) => (a.role === 'owner' ? -1 : b.role === 'owner' ? 1 : a.username.localeCompare(b.username))));
+
+      if (user && canPerform(loadedWarehouse, user.uid, 'manageMembers')) {
+        setInvitations(await fetchWarehouseInvitations(warehouseId));
+      }
+    } catch (error) {
+      console.error("Failed to load warehouse members from Firestore", error);
+      toast({ title: "Error", description: "Failed to load warehouse members.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, user, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadMembers();
+    }
+  }, [warehouseId, user, loadMembers]);
+
+  async function onInviteSubmit(data: InviteFormValues) {
+    if (!warehouse || !actor || !canManageMembers) return;
+
+    if (members.some(member => member.email?.toLowerCase() === data.email.trim().toLowerCase())) {
+      inviteForm.setError('email', { type: 'manual', message: 'This user is already a member of the warehouse.' });
+      return;
+    }
+
+    try {
+      await createInvitation(warehouse, data.email, data.role, { uid: actor.uid, name: actor.username });
+      toast({ title: "Invitation Sent", description: `${data.email} has been invited as ${formatRole(data.role)}.` });
+      inviteForm.reset({ email: '', role: data.role });
+      setInvitations(await fetchWarehouseInvitations(warehouse.id));
+    } catch (error: any) {
+      console.error("Failed to create invitation", error);
+      toast({ title: "Error", description: error.message || "Failed to send invitation.", variant: "destructive" });
+    }
+  }
+
+  const handleRoleChange = async (member: MemberRow, role: Exclude<WarehouseRole, 'owner'>) => {
+    if (!warehouse || !canManageMembers) return;
+    try {
+      await updateMemberRole(warehouse.id, member.userId, role);
+      toast({ title: "Role Updated", description: `${member.username} is now a ${formatRole(role)}.` });
+      loadMembers();
+    } catch (error) {
+      console.error("Failed to update member role", error);
+      toast({ title: "Error", description: "Failed to update role.", variant: "destructive" });
+    }
+  };
+
+  const handleRemoveMember = async (member: MemberRow) => {
+    if (!warehouse || !canManageMembers) return;
+    try {
+      await removeMember(warehouse.id, member.userId);
+      toast({ title: "Member Removed", description: `${member.username} no longer has access to ${warehouse.name}.` });
+      loadMembers();
+    } catch (error) {
+      console.error("Failed to remove member", error);
+      toast({ title: "Error", description: "Failed to remove member.", variant: "destructive" });
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation(invitation);
+      toast({ title: "Invitation Revoked", description: `The invitation for ${invitation.email} has been revoked.` });
+      setInvitations(prev => prev.filter(inv => inv.id !== invitation.id));
+    } catch (error) {
+      console.error("Failed to revoke invitation", error);
+      toast({ title: "Error", description: "Failed to revoke invitation.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Members of ${warehouse.name}`}
+        description="People who can access this warehouse and what they are allowed to do."
+        actions={
+          <Button variant="outline" asChild>
+            <Link href={`/warehouses/${warehouse.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Warehouse
+            </Link>
+          </Button>
+        }
+      />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="overflow-hidden">
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Owners manage members, managers manage items, clerks adjust stock and viewers can only look.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">User</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Role</th>
+                    {canManageMembers && <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Actions</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((member) => (
+                    <tr key={member.userId} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-3 px-4 break-words">
+                        <span className="font-medium">{member.username}</span>
+                        {member.email && <span className="text-xs text-muted-foreground block">{member.email}</span>}
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        {canManageMembers && member.role !== 'owner' ? (
+                          <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role as Exclude<WarehouseRole, 'owner'>)}>
+                            <SelectTrigger className="h-8 w-[120px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {INVITABLE_ROLES.map(role => (
+                                <SelectItem key={role} value={role}>{formatRole(role)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>{formatRole(member.role)}</Badge>
+                        )}
+                      </td>
+                      {canManageMembers && (
+                        <td className="py-3 px-4 text-right whitespace-nowrap">
+                          {member.role !== 'owner' && (
+                            <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" onClick={() => handleRemoveMember(member)}>
+                              <UserMinus className="mr-2 h-3 w-3" /> Remove
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {canManageMembers && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Invite a Teammate</CardTitle>
+                <CardDescription>They will see the invitation the next time they sign in, or once they sign up, with this email address.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...inviteForm}>
+                  <form onSubmit={inviteForm.handleSubmit(onInviteSubmit)} className="space-y-4">
+                    <FormField
+                      control={inviteForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder="teammate@example.com" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={inviteForm.control}
+                      name="role"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Role</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {INVITABLE_ROLES.map(role => (
+                                <SelectItem key={role} value={role}>{formatRole(role)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex justify-end">
+                      <Button type="submit" disabled={inviteForm.formState.isSubmitting}>
+                        {inviteForm.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                        Send Invitation
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <Card className="overflow-hidden">
+              <CardHeader>
+                <CardTitle>Pending Invitations</CardTitle>
+                <CardDescription>Invitations that have not been accepted yet.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {invitations.length === 0 ? (
+                  <EmptyState
+                    IconComponent={UserPlus}
+                    title="No Pending Invitations"
+                    description="Invitations you send will appear here until they are accepted."
+                  />
+                ) : (
+                  <div className="w-full overflow-x-auto rounded-md border">
+                    <table className="text-xs border-collapse min-w-full">
+                      <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                        <tr>
+                          <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Email</th>
+                          <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Role</th>
+                          <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Sent</th>
+                          <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {invitations.map((invitation) => (
+                          <tr key={invitation.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                            <td className="py-3 px-4 break-words">{invitation.email}</td>
+                            <td className="py-3 px-4 whitespace-nowrap">{formatRole(invitation.role)}</td>
+                            <td className="py-3 px-4 whitespace-nowrap">{format(new Date(invitation.createdAt), 'P p')}</td>
+                            <td className="py-3 px-4 text-right whitespace-nowrap">
+                              <Button variant="outline" size="sm" onClick={() => handleRevokeInvitation(invitation)}>
+                                <Ban className="mr-2 h-3 w-3" /> Revoke
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
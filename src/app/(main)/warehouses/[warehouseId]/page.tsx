@@ -7,9 +7,9 @@ import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import ReactDOM from 'react-dom/client';
-import { doc, getDoc, collection, addDoc, updateDoc, arrayUnion, serverTimestamp, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { doc, getDoc, collection, updateDoc, serverTimestamp, query, where, getDocs, Timestamp, writeBatch } from 'firebase/firestore';
 
 
 import { PageHeader } from '@/components/PageHeader';
@@ -17,18 +17,59 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { ArrowLeft, PackagePlus, History as HistoryIcon, Printer, Trash2, PlusCircle, MinusCircle, MapPin } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowLeft, PackagePlus, History as HistoryIcon, Printer, Trash2, PlusCircle, MinusCircle, MapPin, Users, Pencil, Activity, ArrowRightLeft, ClipboardList, Search, Tags, ScanBarcode, Truck, PackageMinus, Bookmark, X, Combine, ListTree } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
+import { useAuthUser } from '@/hooks/use-auth-user';
 import { EmptyState } from '@/components/EmptyState';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import type { Item, Warehouse, HistoryEntry, ArchivedReport } from '@/lib/types';
+import type { Item, Warehouse, HistoryEntry, ArchivedReport, UnitOfMeasure, LotAllocation, StorageLocation } from '@/lib/types';
 import { PrintableItemReport } from '@/components/PrintableItemReport';
+import { getLabelBarcode, PrintableLabelSheet } from '@/components/PrintableLabelSheet';
+import { WarehouseActivityDialog } from '@/components/WarehouseActivityDialog';
+import { TransferStockDialog } from '@/components/TransferStockDialog';
+import { ReserveStockDialog } from '@/components/ReserveStockDialog';
+import { BillOfMaterialsDialog } from '@/components/BillOfMaterialsDialog';
+import { AssembleKitDialog } from '@/components/AssembleKitDialog';
+import { ScanModeDialog } from '@/components/ScanModeDialog';
+import { StockAdjustmentDialog, type StockAdjustmentType } from '@/components/StockAdjustmentDialog';
+import { StockLevelBadge } from '@/components/StockLevelBadge';
+import { ExpiryBadge } from '@/components/ExpiryBadge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { db } from '@/lib/firebase';
+import { fetchAllItemMovements, fetchItemMovementsPage, migrateLegacyItems, newMovementRef, toMovementData } from '@/lib/movements';
+import type { PageCursor } from '@/lib/pagination';
+import { updateItemDetails } from '@/lib/items';
+import { BARCODE_FORMAT_LABELS, BARCODE_FORMATS, validateBarcode } from '@/lib/barcodes';
+import { formatTags, groupByCategory, listCategories, listTags, matchesItemFilters, normalizeCategory, parseTags, UNCATEGORIZED, type ItemFilters } from '@/lib/categories';
+import { describeLocation, fetchLocations, getItemLocation } from '@/lib/locations';
+import { getComponentRequirements, getMaxAssemblable, isKit } from '@/lib/kits';
+import { getActiveReservations, getAvailableQuantity, getReservedQuantity, releaseReservation } from '@/lib/reservations';
+import { applyCostChange, formatMoney, formatUnitCost, getAverageCost, getCostingMethod, sumLayerValue } from '@/lib/costing';
+import { describeLots, normalizeLotNumber, sortLotsFefo, nextExpiringLot, toAllocation } from '@/lib/lots';
+import { describeSerials, findDuplicateSerials, normalizeSerial, parseSerialList, sortSerials } from '@/lib/serials';
+import { isSkuAvailable, normalizeSku, SKU_FORMAT_MESSAGE, SKU_PATTERN, skuRef, toSkuData } from '@/lib/skus';
+import {
+  DEFAULT_PRECISION,
+  formatQuantity,
+  formatQuantityChange,
+  formatQuantityTotals,
+  getItemPrecision,
+  getItemUnit,
+  hasPrecision,
+  MAX_PRECISION,
+  precisionError,
+  UNIT_LABELS,
+  UNITS_OF_MEASURE,
+} from '@/lib/units';
+import { canPerform, formatRole, getWarehouseRole } from '@/lib/membership';
+import { saveArchivedReport } from '@/lib/reports';
 import {
   Table,
   TableBody,
@@ -39,28 +80,141 @@ import {
 } from "@/components/ui/table";
 
 
-const itemFormSchema = z.object({
+// Select value standing for "no pack conversion".
+const NO_PACK = 'none';
+
+// Empty inputs leave the value unset.
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const optionalStockLevel = z.preprocess(
+  emptyToUndefined,
+  z.coerce
+    .number({ invalid_type_error: 'Level must be a number.' })
+    .min(0, { message: 'Level must be a non-negative number.' })
+    .optional()
+);
+
+// Per unit of the item's unit. Left empty, stock is received at the item's average cost.
+const optionalUnitCost = z.preprocess(
+  emptyToUndefined,
+  z.coerce
+    .number({ invalid_type_error: 'Unit cost must be a number.' })
+    .min(0, { message: 'Unit cost cannot be negative.' })
+    .optional()
+);
+
+const itemBaseSchema = z.object({
   name: z.string().min(2, {
     message: 'Item name must be at least 2 characters.',
   }),
+  sku: z
+    .string()
+    .transform(normalizeSku)
+    .refine((sku) => sku === '' || SKU_PATTERN.test(sku), { message: SKU_FORMAT_MESSAGE }),
+  barcode: z.string().trim().optional(),
+  barcodeFormat: z.enum(BARCODE_FORMATS),
+  category: z.string().transform(normalizeCategory),
+  tags: z.string(), // Comma-separated
   quantity: z.coerce
     .number({ invalid_type_error: 'Quantity must be a number.' })
-    .int('Quantity must be an integer.')
     .min(0, { message: 'Quantity must be a non-negative number.'}),
-  location: z.string().optional(),
+  locationId: z.string().optional(),
+  unit: z.enum(UNITS_OF_MEASURE),
+  precision: z.coerce
+    .number({ invalid_type_error: 'Decimal places must be a number.' })
+    .int('Decimal places must be an integer.')
+    .min(0, { message: 'Decimal places cannot be negative.' })
+    .max(MAX_PRECISION, { message: `At most ${MAX_PRECISION} decimal places are supported.` }),
+  packUnit: z.enum(UNITS_OF_MEASURE).optional(),
+  packSize: z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number({ invalid_type_error: 'Pack size must be a number.' })
+      .positive({ message: 'Pack size must be a positive number.' })
+      .optional()
+  ),
+  reorderPoint: optionalStockLevel,
+  maxLevel: optionalStockLevel,
 });
 
+// Shared by the add and edit forms; the edit form has no quantity.
+const validateItemQuantities = (
+  values: Pick<z.infer<typeof itemBaseSchema>, 'precision' | 'packUnit' | 'packSize' | 'reorderPoint' | 'maxLevel'> & { quantity?: number },
+  ctx: z.RefinementCtx
+) => {
+  if (values.reorderPoint !== undefined && values.maxLevel !== undefined && values.maxLevel < values.reorderPoint) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Max level must be at least the reorder point.', path: ['maxLevel'] });
+  }
+  if (!!values.packUnit !== (values.packSize !== undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter both a pack unit and a pack size, or neither.', path: ['packSize'] });
+  }
+  (['quantity', 'reorderPoint', 'maxLevel', 'packSize'] as const).forEach((field) => {
+    const value = values[field];
+    if (value !== undefined && !hasPrecision(value, values.precision)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: precisionError(values.precision), path: [field] });
+    }
+  });
+};
+
+// The barcode is optional; its format only matters once one is entered.
+const validateItemCodes = (
+  values: Pick<z.infer<typeof itemBaseSchema>, 'barcode' | 'barcodeFormat'>,
+  ctx: z.RefinementCtx
+) => {
+  const message = values.barcode ? validateBarcode(values.barcode, values.barcodeFormat) : null;
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['barcode'] });
+  }
+};
+
+// New items need a SKU; items created before SKUs existed may be edited without one.
+// Lot tracking is chosen when the item is created, with the lot of its initial stock.
+// Serialized items take their initial quantity from the serial numbers entered.
+const itemFormSchema = itemBaseSchema
+  .extend({
+    tracksLots: z.boolean(),
+    lotNumber: z.string().optional(),
+    expiryDate: z.string().optional(),
+    serialized: z.boolean(),
+    serialNumbers: z.string().optional(),
+    unitCost: optionalUnitCost,
+  })
+  .superRefine((values, ctx) => {
+    if (!values.sku) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'SKU is required.', path: ['sku'] });
+    }
+    if (values.tracksLots && values.quantity > 0 && !values.lotNumber?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter the lot number of the initial stock.', path: ['lotNumber'] });
+    }
+    if (values.serialized && values.tracksLots) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An item can track lots or serial numbers, not both.', path: ['serialized'] });
+    }
+    if (values.serialized && (values.unit !== 'pcs' || values.precision !== 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Serialized items are counted in whole pieces.', path: ['unit'] });
+    }
+    const duplicates = values.serialized ? findDuplicateSerials(parseSerialList(values.serialNumbers || '')) : [];
+    if (duplicates.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate serial numbers: ${duplicates.join(', ')}.`, path: ['serialNumbers'] });
+    }
+    validateItemQuantities(values, ctx);
+    validateItemCodes(values, ctx);
+  });
+
 type ItemFormValues = z.infer<typeof itemFormSchema>;
 
-const stockAdjustmentFormSchema = z.object({
-  adjustmentQuantity: z.coerce
-    .number({ invalid_type_error: 'Quantity must be a number.' })
-    .int('Quantity must be an integer.')
-    .positive({ message: 'Adjustment quantity must be a positive number.' }),
-  comment: z.string().optional(),
-});
+// Unit and precision are fixed once an item exists; they are carried along for validation only.
+const editItemFormSchema = itemBaseSchema
+  .omit({ quantity: true })
+  .superRefine((values, ctx) => {
+    validateItemQuantities(values, ctx);
+    validateItemCodes(values, ctx);
+  });
 
-type StockAdjustmentFormValues = z.infer<typeof stockAdjustmentFormSchema>;
+type EditItemFormValues = z.infer<typeof editItemFormSchema>;
+
+// Select items cannot have an empty value.
+const NO_LOCATION = 'none';
+const ANY_FILTER = '__any__';
 
 const translateHistoryType = (type: HistoryEntry['type']): string => {
   switch (type) {
@@ -72,6 +226,16 @@ const translateHistoryType = (type: HistoryEntry['type']): string => {
       return 'Stock Consumed';
     case 'ADJUST_STOCK':
       return 'Stock Adjusted';
+    case 'UPDATE_ITEM':
+      return 'Item Updated';
+    case 'TRANSFER_OUT':
+      return 'Transferred Out';
+    case 'TRANSFER_IN':
+      return 'Transferred In';
+    case 'ASSEMBLE':
+      return 'Assembled';
+    case 'DISASSEMBLE':
+      return 'Disassembled';
     default:
       return type.replace(/_/g, ' ');
   }
@@ -98,32 +262,76 @@ export default function WarehouseDetailPage() {
   const router = useRouter();
   const { toast } = useToast();
   const warehouseIdFromParams = params.warehouseId as string;
+  const { user, actor } = useAuthUser();
 
   const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
   const [items, setItems] = React.useState<Item[]>([]);
+  const [locations, setLocations] = React.useState<StorageLocation[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
   const [isAddItemDialogOpen, setIsAddItemDialogOpen] = React.useState(false);
   
-  const [isStockAdjustmentDialogOpen, setIsStockAdjustmentDialogOpen] = React.useState(false);
   const [itemForAdjustment, setItemForAdjustment] = React.useState<Item | null>(null);
-  const [adjustmentType, setAdjustmentType] = React.useState<'ADD_STOCK' | 'CONSUME_STOCK' | null>(null);
+  const [adjustmentType, setAdjustmentType] = React.useState<StockAdjustmentType>('ADD_STOCK');
   const [selectedItemForHistory, setSelectedItemForHistory] = React.useState<Item | null>(null);
+  const [historyEntries, setHistoryEntries] = React.useState<HistoryEntry[]>([]);
+  const [historyCursor, setHistoryCursor] = React.useState<PageCursor>(null);
+  const [hasMoreHistory, setHasMoreHistory] = React.useState(false);
+  const [isHistoryLoading, setIsHistoryLoading] = React.useState(false);
   const [itemToArchive, setItemToArchive] = React.useState<Item | null>(null);
+  const [itemToEdit, setItemToEdit] = React.useState<Item | null>(null);
+  const [isActivityDialogOpen, setIsActivityDialogOpen] = React.useState(false);
+  const [itemToTransfer, setItemToTransfer] = React.useState<Item | null>(null);
+  const [itemToReserve, setItemToReserve] = React.useState<Item | null>(null);
+  const [itemForBillOfMaterials, setItemForBillOfMaterials] = React.useState<Item | null>(null);
+  const [kitToAssemble, setKitToAssemble] = React.useState<Item | null>(null);
+  const [isScanModeOpen, setIsScanModeOpen] = React.useState(false);
+  const [searchTerm, setSearchTerm] = React.useState('');
+  const [itemFilters, setItemFilters] = React.useState<ItemFilters>({ category: null, tag: null });
+  const [isGroupedByCategory, setIsGroupedByCategory] = React.useState(false);
+  const [selectedItemIds, setSelectedItemIds] = React.useState<string[]>([]);
 
   const itemForm = useForm<ItemFormValues>({
     resolver: zodResolver(itemFormSchema),
     defaultValues: {
       name: '',
+      sku: '',
+      barcode: '',
+      barcodeFormat: 'EAN13',
+      category: '',
+      tags: '',
       quantity: 1,
-      location: '',
+      locationId: '',
+      unit: 'pcs',
+      precision: DEFAULT_PRECISION.pcs,
+      packUnit: undefined,
+      packSize: undefined,
+      reorderPoint: undefined,
+      maxLevel: undefined,
+      tracksLots: false,
+      lotNumber: '',
+      expiryDate: '',
+      serialized: false,
+      serialNumbers: '',
+      unitCost: undefined,
     },
   });
 
-  const stockAdjustmentForm = useForm<StockAdjustmentFormValues>({
-    resolver: zodResolver(stockAdjustmentFormSchema),
+  const editItemForm = useForm<EditItemFormValues>({
+    resolver: zodResolver(editItemFormSchema),
     defaultValues: {
-      adjustmentQuantity: 1,
-      comment: '',
+      name: '',
+      sku: '',
+      barcode: '',
+      barcodeFormat: 'EAN13',
+      category: '',
+      tags: '',
+      locationId: '',
+      unit: 'pcs',
+      precision: DEFAULT_PRECISION.pcs,
+      packUnit: undefined,
+      packSize: undefined,
+      reorderPoint: undefined,
+      maxLevel: undefined,
     },
   });
 
@@ -154,7 +362,7 @@ export default function WarehouseDetailPage() {
         return;
       }
 
-      const warehouseData = docSnap.data() as Omit<Warehouse, 'id' | 'createdAt' | 'updatedAt' | 'ownerId'> & { createdAt?: Timestamp, updatedAt?: Timestamp };
+      const warehouseData = docSnap.data() as Omit<Warehouse, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: Timestamp, updatedAt?: Timestamp };
       setWarehouse({
         id: docSnap.id,
         name: warehouseData.name,
@@ -162,7 +370,10 @@ export default function WarehouseDetailPage() {
         isArchived: warehouseData.isArchived,
         createdAt: warehouseData.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
         updatedAt: warehouseData.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
-        ownerId: "placeholder-owner-id",
+        ownerId: warehouseData.ownerId,
+        members: warehouseData.members,
+        memberIds: warehouseData.memberIds,
+        costingMethod: warehouseData.costingMethod,
       });
       
       const itemsQuery = query(
@@ -171,26 +382,18 @@ export default function WarehouseDetailPage() {
         where("isArchived", "==", false)
       );
       const itemsSnapshot = await getDocs(itemsQuery);
+      await migrateLegacyItems(itemsSnapshot.docs, [{ id: docSnap.id, ownerId: warehouseData.ownerId }]);
+      setLocations(await fetchLocations(idToLoad));
       const warehouseItems = itemsSnapshot.docs.map(itemDoc => {
-        const itemData = itemDoc.data();
+        const { history: _legacyHistory, ...itemData } = itemDoc.data();
         return {
           id: itemDoc.id,
           ...itemData,
-          history: (itemData.history || []).map((h: any) => ({
-            ...h,
-            timestamp: h.timestamp?.toDate ? h.timestamp.toDate().toISOString() : (typeof h.timestamp === 'string' ? h.timestamp : new Date().toISOString()),
-          })),
           createdAt: itemData.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
           updatedAt: itemData.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
         } as Item;
       });
       setItems(warehouseItems.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()));
-
-      if (selectedItemForHistory) {
-        const updatedSelectedItem = warehouseItems.find(item => item.id === selectedItemForHistory.id);
-        setSelectedItemForHistory(updatedSelectedItem || null);
-      }
-
     } catch (error) {
       console.error("Failed to load data from Firestore", error);
       toast({ title: "Error", description: "Failed to load warehouse data.", variant: "destructive" });
@@ -198,45 +401,115 @@ export default function WarehouseDetailPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [router, toast, selectedItemForHistory]); 
+  }, [router, toast]); 
 
   React.useEffect(() => {
-    if (warehouseIdFromParams) {
+    // Security rules reject reads until the signed-in user is known
+    if (warehouseIdFromParams && user) {
       loadWarehouseAndItems(warehouseIdFromParams);
     }
-  }, [warehouseIdFromParams, loadWarehouseAndItems]);
+  }, [warehouseIdFromParams, user, loadWarehouseAndItems]);
+
+  const loadItemHistory = React.useCallback(async (itemId: string, cursor: PageCursor = null) => {
+    setIsHistoryLoading(true);
+    try {
+      const page = await fetchItemMovementsPage(itemId, cursor);
+      setHistoryEntries(prev => cursor ? [...prev, ...page.entries] : page.entries);
+      setHistoryCursor(page.cursor);
+      setHasMoreHistory(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load item history from Firestore", error);
+      toast({ title: "Error", description: "Failed to load item history.", variant: "destructive" });
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [toast]);
 
 
+  // Scanned barcodes and serial numbers match exactly; names and SKUs match on any part.
+  const visibleItems = React.useMemo(() => {
+    const term = searchTerm.trim();
+    const lowerTerm = term.toLowerCase();
+    return items.filter(item => matchesItemFilters(item, itemFilters) && (
+      !term ||
+      item.name.toLowerCase().includes(lowerTerm) ||
+      item.sku?.includes(normalizeSku(term)) ||
+      item.barcode === term ||
+      item.serialNumbers?.includes(normalizeSerial(term))
+    ));
+  }, [items, searchTerm, itemFilters]);
+  const itemGroups: [string | null, Item[]][] = isGroupedByCategory ? groupByCategory(visibleItems) : [[null, visibleItems]];
+  const categories = React.useMemo(() => listCategories(items), [items]);
+  const tags = React.useMemo(() => listTags(items), [items]);
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every(item => selectedItemIds.includes(item.id));
+
+  const userRole = getWarehouseRole(warehouse, user?.uid);
+  const canManageItems = canPerform(warehouse, user?.uid, 'manageItems');
+  const canAdjustStock = canPerform(warehouse, user?.uid, 'adjustStock');
+  const canEditWarehouse = canPerform(warehouse, user?.uid, 'editWarehouse');
+
  async function onAddItemSubmit(data: ItemFormValues) {
-    if (!warehouseIdFromParams || !warehouse) return;
+    if (!warehouseIdFromParams || !warehouse || !canManageItems || !actor) return;
 
     const now = new Date();
-    const initialHistoryEntry: HistoryEntry = {
-      id: Date.now().toString() + '-hist-create', 
+    const serialNumbers = data.serialized ? sortSerials(parseSerialList(data.serialNumbers || '')) : [];
+    const quantity = data.serialized ? serialNumbers.length : data.quantity;
+    const initialLot: LotAllocation | null = data.tracksLots && quantity > 0
+      ? toAllocation({ lotNumber: normalizeLotNumber(data.lotNumber || ''), expiryDate: data.expiryDate || undefined }, quantity)
+      : null;
+    const initialCost = applyCostChange([], getCostingMethod(warehouse), quantity, data.precision, now.toISOString(), { unitCost: data.unitCost });
+    const initialHistoryEntry: Omit<HistoryEntry, 'id'> = {
       type: 'CREATE_ITEM',
-      change: data.quantity,
+      change: quantity,
       quantityBefore: 0,
-      quantityAfter: data.quantity,
+      quantityAfter: quantity,
       timestamp: now.toISOString(),
       comment: 'Initial item creation',
+      userId: actor.uid,
+      username: actor.username,
+      ...(initialLot && { lots: [initialLot] }),
+      ...(serialNumbers.length > 0 && { serialNumbers }),
+      ...initialCost.entry,
     };
 
     const newItemData = {
       warehouseId: warehouseIdFromParams,
       name: data.name,
-      quantity: data.quantity,
-      location: data.location || '',
+      sku: data.sku,
+      ...(data.barcode && { barcode: data.barcode, barcodeFormat: data.barcodeFormat }),
+      ...(data.category && { category: data.category }),
+      ...(parseTags(data.tags).length > 0 && { tags: parseTags(data.tags) }),
+      quantity,
+      ...(data.locationId && { locationId: data.locationId }),
+      unit: data.unit,
+      precision: data.precision,
+      ...(data.packUnit && { packUnit: data.packUnit, packSize: data.packSize }),
+      ...(data.reorderPoint !== undefined && { reorderPoint: data.reorderPoint }),
+      ...(data.maxLevel !== undefined && { maxLevel: data.maxLevel }),
+      ...(data.tracksLots && { tracksLots: true, lots: initialLot ? [{ ...initialLot, receivedAt: now.toISOString() }] : [] }),
+      ...(data.serialized && { serialized: true, serialNumbers }),
+      costLayers: initialCost.costLayers,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
-      history: [initialHistoryEntry], 
+      lastMovementAt: serverTimestamp(),
       isArchived: false,
+      ownerId: warehouse.ownerId,
     };
 
     try {
-      await addDoc(collection(db, "items"), newItemData);
+      if (!(await isSkuAvailable(warehouseIdFromParams, data.sku))) {
+        itemForm.setError("sku", { type: "manual", message: `SKU ${data.sku} is already used by another item in this warehouse.` });
+        return;
+      }
+      const itemDocRef = doc(collection(db, "items"));
+      const batch = writeBatch(db);
+      batch.set(itemDocRef, newItemData);
+      batch.set(skuRef(warehouseIdFromParams, data.sku), toSkuData(itemDocRef.id, data.sku));
+      batch.set(newMovementRef(itemDocRef.id), toMovementData(initialHistoryEntry, itemDocRef.id, warehouseIdFromParams, warehouse.ownerId));
+      await batch.commit();
       toast({ title: "Item Added", description: `${data.name} has been added to ${warehouse?.name}.` });
       setIsAddItemDialogOpen(false); 
-      itemForm.reset({ name: '', quantity: 1, location: '' }); 
+      itemForm.reset({ name: '', sku: '', barcode: '', barcodeFormat: 'EAN13', category: '', tags: '', quantity: 1, locationId: '', unit: 'pcs', precision: DEFAULT_PRECISION.pcs, packUnit: undefined, packSize: undefined, reorderPoint: undefined, maxLevel: undefined, tracksLots: false, lotNumber: '', expiryDate: '', serialized: false, serialNumbers: '', unitCost: undefined }); 
       loadWarehouseAndItems(warehouseIdFromParams); 
       await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
     } catch (error) {
@@ -245,71 +518,139 @@ export default function WarehouseDetailPage() {
     }
   }
 
-  const handleOpenStockAdjustmentDialog = (item: Item, type: 'ADD_STOCK' | 'CONSUME_STOCK') => {
+  const handleOpenStockAdjustmentDialog = (item: Item, type: StockAdjustmentType) => {
     setItemForAdjustment(item);
     setAdjustmentType(type);
-    stockAdjustmentForm.reset({ adjustmentQuantity: 1, comment: '' });
-    setIsStockAdjustmentDialogOpen(true);
   };
 
-  async function onStockAdjustmentSubmit(data: StockAdjustmentFormValues) {
-    if (!itemForAdjustment || !adjustmentType || !warehouseIdFromParams) return;
+  const handleStockAdjusted = async (item: Item) => {
+    loadWarehouseAndItems(warehouseIdFromParams);
+    if (selectedItemForHistory?.id === item.id) {
+      loadItemHistory(item.id);
+    }
+    await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
+  };
 
-    const quantityChange = adjustmentType === 'ADD_STOCK' ? data.adjustmentQuantity : -data.adjustmentQuantity;
-    
-    if (adjustmentType === 'CONSUME_STOCK' && itemForAdjustment.quantity < data.adjustmentQuantity) {
-      stockAdjustmentForm.setError("adjustmentQuantity", {
-        type: "manual",
-        message: `Cannot consume more than available stock (${itemForAdjustment.quantity}).`,
-      });
+  const handleOpenEditItemDialog = (item: Item) => {
+    setItemToEdit(item);
+    editItemForm.reset({
+      name: item.name,
+      sku: item.sku || '',
+      barcode: item.barcode || '',
+      barcodeFormat: item.barcodeFormat ?? 'EAN13',
+      category: item.category || '',
+      tags: formatTags(item.tags),
+      locationId: item.locationId || '',
+      unit: getItemUnit(item),
+      precision: getItemPrecision(item),
+      packUnit: item.packUnit,
+      packSize: item.packSize,
+      reorderPoint: item.reorderPoint,
+      maxLevel: item.maxLevel,
+    });
+  };
+
+  async function onEditItemSubmit(data: EditItemFormValues) {
+    if (!itemToEdit || !warehouseIdFromParams || !canManageItems || !actor) return;
+    if (itemToEdit.sku && !data.sku) {
+      editItemForm.setError("sku", { type: "manual", message: 'SKU is required.' });
       return;
     }
 
-    const now = new Date();
-    const newHistoryEntry: HistoryEntry = {
-      id: Date.now().toString() + '-hist-adjust',
-      type: adjustmentType,
-      change: quantityChange,
-      quantityBefore: itemForAdjustment.quantity,
-      quantityAfter: itemForAdjustment.quantity + quantityChange,
-      timestamp: now.toISOString(),
-      comment: data.comment || (adjustmentType === 'ADD_STOCK' ? 'Stock added' : 'Stock consumed'),
-    };
+    try {
+      const entry = await updateItemDetails(itemToEdit.id, { ...data, tags: parseTags(data.tags) }, actor);
+      setItemToEdit(null);
+      if (!entry) {
+        toast({ title: "No Changes", description: "The item details were not changed." });
+        return;
+      }
+      toast({ title: "Item Updated", description: entry.comment });
+      loadWarehouseAndItems(warehouseIdFromParams);
+      if (selectedItemForHistory?.id === itemToEdit.id) {
+        loadItemHistory(itemToEdit.id);
+      }
+      await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
+    } catch (error: any) {
+      console.error("Failed to update item in Firestore", error);
+      toast({ title: "Error", description: error.message || "Failed to update item. Please try again.", variant: "destructive" });
+    }
+  }
+
+  const handleTransferred = async () => {
+    if (!itemToTransfer) return;
+    loadWarehouseAndItems(warehouseIdFromParams);
+    if (selectedItemForHistory?.id === itemToTransfer.id) {
+      loadItemHistory(itemToTransfer.id);
+    }
+    await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
+  };
+
+  const handleReserved = () => {
+    loadWarehouseAndItems(warehouseIdFromParams);
+  };
 
-    const itemDocRef = doc(db, "items", itemForAdjustment.id);
+  // Assembly changes the kit and its components, so the open history may be any of them.
+  const handleKitChanged = async () => {
+    loadWarehouseAndItems(warehouseIdFromParams);
+    if (selectedItemForHistory) {
+      loadItemHistory(selectedItemForHistory.id);
+    }
+    await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
+  };
 
+  const handleReleaseReservation = async (item: Item, reservationId: string) => {
+    if (!canAdjustStock) return;
     try {
-      await updateDoc(itemDocRef, {
-        quantity: itemForAdjustment.quantity + quantityChange,
-        updatedAt: serverTimestamp(),
-        history: arrayUnion(newHistoryEntry) 
-      });
+      await releaseReservation(item.id, reservationId);
+      toast({ title: "Reservation Released", description: `The reserved stock of ${item.name} is available again.` });
+      loadWarehouseAndItems(warehouseIdFromParams);
+    } catch (error: any) {
+      console.error("Failed to release reservation in Firestore", error);
+      toast({ title: "Error", description: error.message || "Failed to release reservation.", variant: "destructive" });
+    }
+  };
 
-      toast({ title: "Stock Updated", description: `Stock for ${itemForAdjustment.name} has been updated.` });
-      setIsStockAdjustmentDialogOpen(false);
-      stockAdjustmentForm.reset();
-      loadWarehouseAndItems(warehouseIdFromParams); 
-      await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
-    } catch (error) {
-      console.error("Failed to update item stock in Firestore", error);
-      toast({ title: "Error", description: "Failed to update stock. Please try again.", variant: "destructive" });
+  // Scans update the listed quantity in place so the list stays usable between scans.
+  const handleScanAdjusted = async (item: Item, entry: HistoryEntry) => {
+    // Scanned serials only ever leave stock, so the serials on hand can be updated in place too.
+    setItems(prev => prev.map(existing => existing.id !== item.id ? existing : {
+      ...existing,
+      quantity: entry.quantityAfter,
+      ...(existing.serialized && entry.serialNumbers && {
+        serialNumbers: (existing.serialNumbers ?? []).filter(serial => !entry.serialNumbers!.includes(serial)),
+      }),
+    }));
+    if (selectedItemForHistory?.id === item.id) {
+      loadItemHistory(item.id);
     }
-  }
-  
+    await updateWarehouseTimestampInFirestore(warehouseIdFromParams);
+  };
+
   const handleShowHistory = (item: Item) => {
     if (selectedItemForHistory?.id === item.id) {
       setSelectedItemForHistory(null); 
     } else {
       setSelectedItemForHistory(item);
+      setHistoryEntries([]);
+      loadItemHistory(item.id);
     }
   };
 
-  const handlePrintReport = (itemToPrint: Item) => {
-    if (!warehouse || !itemToPrint) {
+  const handlePrintReport = async (itemToPrint: Item) => {
+    if (!warehouse || !itemToPrint || !actor) {
       toast({ title: "Print Error", description: "Warehouse or item data is missing.", variant: "destructive"});
       return;
     }
 
+    let itemHistory: HistoryEntry[];
+    try {
+      itemHistory = await fetchAllItemMovements(itemToPrint.id);
+    } catch (error) {
+      console.error("Failed to load item history for report", error);
+      toast({ title: "Print Error", description: "Failed to load the item's history.", variant: "destructive"});
+      return;
+    }
+
     const printableArea = document.createElement('div');
     printableArea.id = 'printable-report-area'; 
     document.body.appendChild(printableArea);
@@ -319,7 +660,8 @@ export default function WarehouseDetailPage() {
       <PrintableItemReport
         warehouseName={warehouse.name}
         item={itemToPrint}
-        printedBy="Admin User" 
+        history={itemHistory}
+        printedBy={actor.username}
         printDate={new Date()}
       />
     );
@@ -333,32 +675,28 @@ export default function WarehouseDetailPage() {
         html2pdf().from(element).save(`${itemToPrint.name}-report.pdf`);
       }
 
-      setTimeout(() => {
+      setTimeout(async () => {
         root.unmount();
         if (document.body.contains(printableArea)) {
           document.body.removeChild(printableArea);
         }
         
         const now = new Date();
-        const archivedReport: ArchivedReport = {
-          id: `${itemToPrint.id}-${now.getTime()}`,
+        const archivedReport: Omit<ArchivedReport, 'id'> = {
           reportType: 'ITEM',
           warehouseId: warehouse.id,
           warehouseName: warehouse.name,
           itemId: itemToPrint.id,
           itemName: itemToPrint.name,
-          printedBy: "Admin User", 
+          itemUnit: getItemUnit(itemToPrint),
+          itemPrecision: getItemPrecision(itemToPrint),
+          printedBy: actor.username,
           printedAt: now.toISOString(),
-          historySnapshot: JSON.parse(JSON.stringify(itemToPrint.history || [])), 
+          historySnapshot: JSON.parse(JSON.stringify(itemHistory)), 
         };
 
         try {
-          const existingReportsString = localStorage.getItem('archivedReports');
-          const existingReports: ArchivedReport[] = existingReportsString
-            ? JSON.parse(existingReportsString)
-            : [];
-          existingReports.push(archivedReport);
-          localStorage.setItem('archivedReports', JSON.stringify(existingReports));
+          await saveArchivedReport(archivedReport, actor.uid);
           toast({
             title: "Report Archived",
             description: `Report for item ${itemToPrint.name} has been saved.`,
@@ -375,8 +713,45 @@ export default function WarehouseDetailPage() {
     }, 250); 
   };
 
+  const handlePrintLabels = () => {
+    if (!warehouse) return;
+    const selectedItems = items.filter(item => selectedItemIds.includes(item.id));
+    const labelItems = selectedItems.filter(item => getLabelBarcode(item));
+    if (labelItems.length === 0) {
+      toast({ title: "Print Error", description: "None of the selected items has a SKU or barcode.", variant: "destructive" });
+      return;
+    }
+    if (labelItems.length < selectedItems.length) {
+      toast({
+        title: "Some Labels Skipped",
+        description: `${selectedItems.length - labelItems.length} selected item(s) have no SKU or barcode.`,
+      });
+    }
+
+    const printableArea = document.createElement('div');
+    printableArea.id = 'printable-report-area';
+    document.body.appendChild(printableArea);
+
+    const root = ReactDOM.createRoot(printableArea);
+    root.render(<PrintableLabelSheet warehouseName={warehouse.name} items={labelItems} />);
+
+    setTimeout(() => {
+      window.print();
+      setTimeout(() => {
+        root.unmount();
+        if (document.body.contains(printableArea)) {
+          document.body.removeChild(printableArea);
+        }
+      }, 3000);
+    }, 250);
+  };
+
+  const toggleItemSelected = (itemId: string, isSelected: boolean) => {
+    setSelectedItemIds(prev => isSelected ? [...prev, itemId] : prev.filter(id => id !== itemId));
+  };
+
   const handleArchiveItem = async () => {
-    if (!itemToArchive || !warehouseIdFromParams) return;
+    if (!itemToArchive || !warehouseIdFromParams || !canManageItems) return;
     const itemDocRef = doc(db, "items", itemToArchive.id);
     try {
       await updateDoc(itemDocRef, {
@@ -414,17 +789,80 @@ export default function WarehouseDetailPage() {
         title={warehouse.name}
         description={warehouse.description || "Manage items and details for this warehouse."}
         actions={
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {userRole && <Badge variant="secondary">{formatRole(userRole)}</Badge>}
             <Button variant="outline" asChild>
               <Link href="/warehouses">
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 Back to Warehouses
               </Link>
             </Button>
-            <Button onClick={() => setIsAddItemDialogOpen(true)}>
-              <PackagePlus className="mr-2 h-4 w-4" />
-              Add Item
-            </Button>
+            {userRole && (
+              <Button variant="outline" onClick={() => setIsActivityDialogOpen(true)}>
+                <Activity className="mr-2 h-4 w-4" />
+                Activity
+              </Button>
+            )}
+            {canEditWarehouse && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/edit`}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </Link>
+              </Button>
+            )}
+            {userRole && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/members`}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Members
+                </Link>
+              </Button>
+            )}
+            {canAdjustStock && (
+              <Button variant="outline" onClick={() => setIsScanModeOpen(true)}>
+                <ScanBarcode className="mr-2 h-4 w-4" />
+                Scan Mode
+              </Button>
+            )}
+            {userRole && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/locations`}>
+                  <MapPin className="mr-2 h-4 w-4" />
+                  Locations
+                </Link>
+              </Button>
+            )}
+            {userRole && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/purchase-orders`}>
+                  <Truck className="mr-2 h-4 w-4" />
+                  Purchase Orders
+                </Link>
+              </Button>
+            )}
+            {userRole && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/issue-orders`}>
+                  <PackageMinus className="mr-2 h-4 w-4" />
+                  Issue Orders
+                </Link>
+              </Button>
+            )}
+            {canAdjustStock && (
+              <Button variant="outline" asChild>
+                <Link href={`/warehouses/${warehouse.id}/stocktake`}>
+                  <ClipboardList className="mr-2 h-4 w-4" />
+                  Stocktake
+                </Link>
+              </Button>
+            )}
+            {canManageItems && (
+              <Button onClick={() => setIsAddItemDialogOpen(true)}>
+                <PackagePlus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            )}
           </div>
         }
       />
@@ -433,6 +871,55 @@ export default function WarehouseDetailPage() {
         <CardHeader>
           <CardTitle>Inventory Items</CardTitle>
           <CardDescription>All items currently stored in {warehouse.name}.</CardDescription>
+          {items.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name, SKU, barcode or serial"
+                  value={searchTerm}
+                  onChange={(event) => setSearchTerm(event.target.value)}
+                  className="pl-8"
+                  aria-label="Search items"
+                />
+              </div>
+              <Select
+                value={itemFilters.category ?? ANY_FILTER}
+                onValueChange={(value) => setItemFilters(prev => ({ ...prev, category: value === ANY_FILTER ? null : value }))}
+              >
+                <SelectTrigger className="w-[170px]" aria-label="Filter by category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_FILTER}>All Categories</SelectItem>
+                  {categories.map(category => <SelectItem key={category} value={category}>{category}</SelectItem>)}
+                  <SelectItem value={UNCATEGORIZED}>{UNCATEGORIZED}</SelectItem>
+                </SelectContent>
+              </Select>
+              {tags.length > 0 && (
+                <Select
+                  value={itemFilters.tag ?? ANY_FILTER}
+                  onValueChange={(value) => setItemFilters(prev => ({ ...prev, tag: value === ANY_FILTER ? null : value }))}
+                >
+                  <SelectTrigger className="w-[150px]" aria-label="Filter by tag">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_FILTER}>All Tags</SelectItem>
+                    {tags.map(tag => <SelectItem key={tag} value={tag}>#{tag}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              )}
+              <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+                <Checkbox checked={isGroupedByCategory} onCheckedChange={(checked) => setIsGroupedByCategory(checked === true)} />
+                Group by category
+              </label>
+              <Button variant="outline" onClick={handlePrintLabels} disabled={selectedItemIds.length === 0}>
+                <Tags className="mr-2 h-4 w-4" />
+                Print Labels ({selectedItemIds.length})
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           {isLoading && items.length === 0 ? <div className="flex justify-center py-4"><LoadingSpinner/></div> :
@@ -440,53 +927,172 @@ export default function WarehouseDetailPage() {
             <EmptyState
               IconComponent={PackagePlus}
               title="No Items Yet"
-              description="Start by adding your first item to this warehouse."
-              action={{
+              description={canManageItems ? "Start by adding your first item to this warehouse." : "No items have been added to this warehouse yet."}
+              action={canManageItems ? {
                 label: "Add Item",
                 onClick: () => setIsAddItemDialogOpen(true),
                 icon: PackagePlus,
-              }}
+              } : undefined}
             />
           ) : (
             <Table className="table-fixed w-full">
                <TableHeader>
                 <TableRow>
-                  <TableHead className="w-full text-left">Item Details</TableHead>
+                  <TableHead className="w-full text-left">
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        checked={allVisibleSelected}
+                        onCheckedChange={(checked) => {
+                          const visibleIds = visibleItems.map(item => item.id);
+                          setSelectedItemIds(prev => checked
+                            ? Array.from(new Set([...prev, ...visibleIds]))
+                            : prev.filter(id => !visibleIds.includes(id)));
+                        }}
+                        aria-label="Select all items for labels"
+                      />
+                      Item Details
+                    </div>
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {items.map((item) => (
+                {visibleItems.length === 0 && (
+                  <TableRow>
+                    <TableCell className="py-6 text-center text-sm text-muted-foreground">
+                      {searchTerm.trim() ? `No items match "${searchTerm.trim()}" with the selected filters.` : 'No items match the selected filters.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {itemGroups.map(([category, groupItems]) => (
+                  <React.Fragment key={category ?? 'all'}>
+                {category !== null && (
+                  <TableRow className="bg-muted/40 hover:bg-muted/40">
+                    <TableCell className="py-2 px-4 text-sm font-semibold">
+                      {category}
+                      <span className="ml-2 font-normal text-muted-foreground">
+                        {groupItems.length} item(s) · {formatQuantityTotals(groupItems)}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {groupItems.map((item) => (
                   <React.Fragment key={item.id}>
                     <TableRow className={cn("hover:bg-muted/30", selectedItemForHistory?.id === item.id ? 'bg-muted/50 border-b-0' : '')}>
                       <TableCell className="py-3 px-4 align-top">
                         <div className="flex flex-col items-start gap-1">
-                          <span className="font-semibold text-base break-words">{item.name}</span>
-                          <span className="text-sm text-muted-foreground">
-                            Quantity: {item.quantity}
-                          </span>
-                          {item.location && (
+                          <div className="flex items-center gap-3">
+                            <Checkbox
+                              checked={selectedItemIds.includes(item.id)}
+                              onCheckedChange={(checked) => toggleItemSelected(item.id, checked === true)}
+                              aria-label={`Select ${item.name} for labels`}
+                            />
+                            <span className="font-semibold text-base break-words">{item.name}</span>
+                          </div>
+                          {(item.sku || item.barcode) && (
+                            <span className="text-xs text-muted-foreground font-mono">
+                              {item.sku && `SKU ${item.sku}`}
+                              {item.sku && item.barcode && ' · '}
+                              {item.barcode && `${BARCODE_FORMAT_LABELS[item.barcodeFormat ?? 'CODE128']} ${item.barcode}`}
+                            </span>
+                          )}
+                          {(item.category || (item.tags ?? []).length > 0) && (
+                            <div className="flex items-center gap-1 flex-wrap">
+                              {item.category && <Badge variant="secondary">{item.category}</Badge>}
+                              {(item.tags ?? []).map(tag => <Badge key={tag} variant="outline" className="font-normal">#{tag}</Badge>)}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span className="text-sm text-muted-foreground">
+                              Quantity: {formatQuantity(item.quantity, item)}
+                              {item.reorderPoint !== undefined && ` (reorder at ${formatQuantity(item.reorderPoint, item)})`}
+                            </span>
+                            {getReservedQuantity(item) > 0 && (
+                              <span className={cn('text-sm', getAvailableQuantity(item) < 0 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-muted-foreground')}>
+                                Available: {formatQuantity(getAvailableQuantity(item), item)} ({formatQuantity(getReservedQuantity(item), item)} reserved)
+                              </span>
+                            )}
+                            <StockLevelBadge item={item} />
+                          </div>
+                          {isKit(item) && (
+                            <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                              <Badge variant="secondary">Kit</Badge>
+                              <span>
+                                {item.components!.length} component(s), enough for {formatQuantity(getMaxAssemblable(item, items), item)} more
+                              </span>
+                            </div>
+                          )}
+                          {item.tracksLots && (
+                            <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                              <span>
+                                {(item.lots ?? []).length} lot(s)
+                                {nextExpiringLot(item) && `, next expiry ${format(parseISO(nextExpiringLot(item)!.expiryDate!), "P")} (${nextExpiringLot(item)!.lotNumber})`}
+                              </span>
+                              <ExpiryBadge expiryDate={nextExpiringLot(item)?.expiryDate} />
+                            </div>
+                          )}
+                          {item.serialized && (item.serialNumbers ?? []).length > 0 && (
+                            <span className="text-xs text-muted-foreground font-mono break-words">
+                              Serials: {describeSerials(item.serialNumbers ?? [])}
+                            </span>
+                          )}
+                          {(item.costLayers ?? []).length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              Value {formatMoney(sumLayerValue(item.costLayers!))} (avg. {formatUnitCost(getAverageCost(item.costLayers)!)} per {getItemUnit(item)})
+                            </span>
+                          )}
+                          {getItemLocation(item) && (
                             <div className="flex items-center text-xs text-muted-foreground mt-0.5">
                                 <MapPin className="h-3 w-3 mr-1.5" />
-                                <span>{item.location}</span>
+                                <span className={cn(item.locationId && 'font-mono')}>{getItemLocation(item)}</span>
                             </div>
                           )}
                           <div className="flex items-center gap-0.5 flex-wrap mt-1">
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button variant="ghost" size="icon" onClick={() => handleOpenStockAdjustmentDialog(item, 'ADD_STOCK')} aria-label={`Add stock to ${item.name}`}>
-                                  <PlusCircle className="h-5 w-5 text-green-600" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent><p>Add Stock</p></TooltipContent>
-                            </Tooltip>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button variant="ghost" size="icon" onClick={() => handleOpenStockAdjustmentDialog(item, 'CONSUME_STOCK')} aria-label={`Consume stock from ${item.name}`}>
-                                  <MinusCircle className="h-5 w-5 text-red-600" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent><p>Consume Stock</p></TooltipContent>
-                            </Tooltip>
+                            {canAdjustStock && (
+                              <>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button variant="ghost" size="icon" onClick={() => handleOpenStockAdjustmentDialog(item, 'ADD_STOCK')} aria-label={`Add stock to ${item.name}`}>
+                                      <PlusCircle className="h-5 w-5 text-green-600" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent><p>Add Stock</p></TooltipContent>
+                                </Tooltip>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button variant="ghost" size="icon" onClick={() => handleOpenStockAdjustmentDialog(item, 'CONSUME_STOCK')} aria-label={`Consume stock from ${item.name}`}>
+                                      <MinusCircle className="h-5 w-5 text-red-600" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent><p>Consume Stock</p></TooltipContent>
+                                </Tooltip>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button variant="ghost" size="icon" onClick={() => setItemToTransfer(item)} aria-label={`Transfer ${item.name} to another warehouse`}>
+                                      <ArrowRightLeft className="h-5 w-5 text-amber-600" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent><p>Transfer Stock</p></TooltipContent>
+                                </Tooltip>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button variant="ghost" size="icon" onClick={() => setItemToReserve(item)} aria-label={`Reserve stock of ${item.name}`}>
+                                      <Bookmark className="h-5 w-5 text-purple-600" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent><p>Reserve Stock</p></TooltipContent>
+                                </Tooltip>
+                                {isKit(item) && (
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Button variant="ghost" size="icon" onClick={() => setKitToAssemble(item)} aria-label={`Assemble or take apart ${item.name}`}>
+                                        <Combine className="h-5 w-5 text-indigo-600" />
+                                      </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent><p>Assemble / Take Apart</p></TooltipContent>
+                                  </Tooltip>
+                                )}
+                              </>
+                            )}
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <Button variant="ghost" size="icon" onClick={() => handleShowHistory(item)} aria-label={`View history for ${item.name}`} className={selectedItemForHistory?.id === item.id ? 'bg-accent text-accent-foreground' : ''}>
@@ -503,29 +1109,164 @@ export default function WarehouseDetailPage() {
                               </TooltipTrigger>
                               <TooltipContent><p>Print Report</p></TooltipContent>
                             </Tooltip>
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <AlertDialogTrigger asChild>
-                                  <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={() => setItemToArchive(item)} aria-label={`Archive ${item.name}`}>
-                                    <Trash2 className="h-5 w-5" />
+                            {canManageItems && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button variant="ghost" size="icon" onClick={() => handleOpenEditItemDialog(item)} aria-label={`Edit ${item.name}`}>
+                                    <Pencil className="h-5 w-5" />
                                   </Button>
-                                </AlertDialogTrigger>
-                              </TooltipTrigger>
-                              <TooltipContent><p>Archive Item</p></TooltipContent>
-                            </Tooltip>
+                                </TooltipTrigger>
+                                <TooltipContent><p>Edit Item</p></TooltipContent>
+                              </Tooltip>
+                            )}
+                            {canManageItems && !item.tracksLots && !item.serialized && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button variant="ghost" size="icon" onClick={() => setItemForBillOfMaterials(item)} aria-label={`Edit bill of materials for ${item.name}`}>
+                                    <ListTree className="h-5 w-5" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent><p>Bill of Materials</p></TooltipContent>
+                              </Tooltip>
+                            )}
+                            {canManageItems && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={() => setItemToArchive(item)} aria-label={`Archive ${item.name}`}>
+                                      <Trash2 className="h-5 w-5" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                </TooltipTrigger>
+                                <TooltipContent><p>Archive Item</p></TooltipContent>
+                              </Tooltip>
+                            )}
                           </div>
                         </div>
                       </TableCell>
                     </TableRow>
-                    {selectedItemForHistory?.id === item.id && item.history && (
+                    {selectedItemForHistory?.id === item.id && (
                        <TableRow className="bg-muted/20 hover:bg-muted/30">
                          <TableCell className="p-0 overflow-hidden">
                            <div className="h-full w-full overflow-auto">
                              <div className="p-4 space-y-3"> 
+                                {item.tracksLots && (
+                                  <>
+                                    <h4 className="text-md font-semibold text-foreground text-left">Lots on Hand</h4>
+                                    {(item.lots ?? []).length > 0 ? (
+                                      <table className="text-xs border-collapse min-w-full">
+                                        <thead className="bg-muted/80 dark:bg-muted/60">
+                                          <tr>
+                                            <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Lot</th>
+                                            <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Expiry</th>
+                                            <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                                            <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Received</th>
+                                          </tr>
+                                        </thead>
+                                        <tbody>
+                                          {sortLotsFefo(item.lots ?? []).map((lot) => (
+                                            <tr key={lot.lotNumber} className="border-b border-border/50 last:border-b-0">
+                                              <td className="py-1.5 px-3 whitespace-nowrap font-mono">{lot.lotNumber}</td>
+                                              <td className="py-1.5 px-3 whitespace-nowrap">
+                                                {lot.expiryDate ? format(parseISO(lot.expiryDate), "P") : 'No expiry'}
+                                                <ExpiryBadge expiryDate={lot.expiryDate} className="ml-2" />
+                                              </td>
+                                              <td className="py-1.5 px-3 text-center font-semibold whitespace-nowrap">{formatQuantity(lot.quantity, item)}</td>
+                                              <td className="py-1.5 px-3 whitespace-nowrap">{format(new Date(lot.receivedAt), "P")}</td>
+                                            </tr>
+                                          ))}
+                                        </tbody>
+                                      </table>
+                                    ) : (
+                                      <p className="text-sm text-muted-foreground text-center">No lots in stock.</p>
+                                    )}
+                                  </>
+                                )}
+                                {item.serialized && (
+                                  <>
+                                    <h4 className="text-md font-semibold text-foreground text-left">Serial Numbers on Hand</h4>
+                                    {(item.serialNumbers ?? []).length > 0 ? (
+                                      <div className="flex flex-wrap gap-1">
+                                        {sortSerials(item.serialNumbers ?? []).map(serial => (
+                                          <Badge key={serial} variant="outline" className="font-mono">{serial}</Badge>
+                                        ))}
+                                      </div>
+                                    ) : (
+                                      <p className="text-sm text-muted-foreground text-center">No serial numbers in stock.</p>
+                                    )}
+                                  </>
+                                )}
+                                {isKit(item) && (
+                                  <>
+                                    <h4 className="text-md font-semibold text-foreground text-left">Bill of Materials</h4>
+                                    <table className="text-xs border-collapse min-w-full">
+                                      <thead className="bg-muted/80 dark:bg-muted/60">
+                                        <tr>
+                                          <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Component</th>
+                                          <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">Per Kit</th>
+                                          <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">On Hand</th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {getComponentRequirements(item, items, 1).map((line) => (
+                                          <tr key={line.itemId} className="border-b border-border/50 last:border-b-0">
+                                            <td className="py-1.5 px-3 whitespace-nowrap">{line.item?.name ?? `${line.name} (archived)`}</td>
+                                            <td className="py-1.5 px-3 text-center whitespace-nowrap">{formatQuantity(line.quantity, line.item)}</td>
+                                            <td className="py-1.5 px-3 text-center font-semibold whitespace-nowrap">{formatQuantity(line.onHand, line.item)}</td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  </>
+                                )}
+                                {getActiveReservations(item).length > 0 && (
+                                  <>
+                                    <h4 className="text-md font-semibold text-foreground text-left">Reservations</h4>
+                                    <table className="text-xs border-collapse min-w-full">
+                                      <thead className="bg-muted/80 dark:bg-muted/60">
+                                        <tr>
+                                          <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Reserved For</th>
+                                          <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">Quantity</th>
+                                          <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Expires</th>
+                                          <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">By</th>
+                                          <th className="py-1.5 px-3"></th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {getActiveReservations(item).map((reservation) => (
+                                          <tr key={reservation.id} className="border-b border-border/50 last:border-b-0">
+                                            <td className="py-1.5 px-3 whitespace-nowrap">
+                                              {reservation.issueOrderId ? (
+                                                <Link href={`/warehouses/${warehouseIdFromParams}/issue-orders/${reservation.issueOrderId}`} className="text-primary hover:underline">
+                                                  {reservation.reference}
+                                                </Link>
+                                              ) : reservation.reference}
+                                            </td>
+                                            <td className="py-1.5 px-3 text-center font-semibold whitespace-nowrap">{formatQuantity(reservation.quantity, item)}</td>
+                                            <td className="py-1.5 px-3 whitespace-nowrap">
+                                              {reservation.expiresAt ? format(parseISO(reservation.expiresAt), "P") : reservation.issueOrderId ? 'When picked' : 'No expiry'}
+                                            </td>
+                                            <td className="py-1.5 px-3 whitespace-nowrap">{reservation.createdByName}</td>
+                                            <td className="py-1.5 px-3 text-right">
+                                              {canAdjustStock && !reservation.issueOrderId && (
+                                                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleReleaseReservation(item, reservation.id)} aria-label={`Release reservation for ${reservation.reference}`}>
+                                                  <X className="h-3 w-3 mr-1" /> Release
+                                                </Button>
+                                              )}
+                                            </td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  </>
+                                )}
                                 <h4 className="text-md font-semibold text-foreground text-left">
                                 Transaction History: <span className="font-bold">{item.name}</span>
                                 </h4>
-                                {item.history.length > 0 ? (
+                                {isHistoryLoading && historyEntries.length === 0 ? (
+                                  <div className="flex justify-center py-4"><LoadingSpinner /></div>
+                                ) : historyEntries.length > 0 ? (
+                                    <>
                                     <table className="text-xs border-collapse min-w-full"> 
                                     <thead className="sticky top-0 bg-muted/80 dark:bg-muted/60 backdrop-blur-sm z-10">
                                         <tr>
@@ -534,11 +1275,12 @@ export default function WarehouseDetailPage() {
                                         <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">Change</th>
                                         <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">Before</th>
                                         <th className="py-1.5 px-3 text-center font-medium text-muted-foreground whitespace-nowrap">After</th>
+                                        <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">User</th>
                                         <th className="py-1.5 px-3 text-left font-medium text-muted-foreground min-w-[150px] whitespace-normal break-words">Comment</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {[...(item.history || [])].sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).map((entry) => (
+                                        {historyEntries.map((entry) => (
                                         <tr key={entry.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
                                             <td className="py-1.5 px-3 whitespace-nowrap">{format(new Date(entry.timestamp), "P p")}</td>
                                             <td className="py-1.5 px-3 whitespace-nowrap">
@@ -548,6 +1290,9 @@ export default function WarehouseDetailPage() {
                                                 entry.type === 'ADD_STOCK' ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200' :
                                                 entry.type === 'CONSUME_STOCK' ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200' :
                                                 entry.type === 'ADJUST_STOCK' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200' :
+                                                entry.type === 'UPDATE_ITEM' ? 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-200' :
+                                                entry.type === 'TRANSFER_OUT' || entry.type === 'TRANSFER_IN' ? 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-200' :
+                                                entry.type === 'ASSEMBLE' || entry.type === 'DISASSEMBLE' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200' :
                                                 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'
                                             )}>
                                                 {translateHistoryType(entry.type)}
@@ -557,15 +1302,33 @@ export default function WarehouseDetailPage() {
                                               'py-1.5 px-3 text-center font-medium whitespace-nowrap',
                                               entry.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
                                             )}>
-                                            {entry.change > 0 ? `+${entry.change}` : entry.change}
+                                            {formatQuantityChange(entry.change, selectedItemForHistory)}
+                                            </td>
+                                            <td className="py-1.5 px-3 text-center whitespace-nowrap">{formatQuantity(entry.quantityBefore, selectedItemForHistory)}</td>
+                                            <td className="py-1.5 px-3 text-center font-semibold whitespace-nowrap">{formatQuantity(entry.quantityAfter, selectedItemForHistory)}</td>
+                                            <td className="py-1.5 px-3 whitespace-nowrap">{entry.username || 'N/A'}</td>
+                                            <td className="py-1.5 px-3 text-muted-foreground min-w-[150px] whitespace-normal break-words">
+                                              {entry.comment || 'N/A'}
+                                              {entry.lots && <span className="block">Lots: {describeLots(entry.lots, selectedItemForHistory)}</span>}
+                                              {entry.serialNumbers && <span className="block font-mono">Serials: {sortSerials(entry.serialNumbers).join(', ')}</span>}
+                                              {entry.unitCost !== undefined && <span className="block">Unit cost: {formatUnitCost(entry.unitCost)}</span>}
+                                              {entry.costOfGoods !== undefined && <span className="block">Cost of goods: {formatMoney(entry.costOfGoods)}</span>}
+                                              {entry.purchaseOrderNumber && <span className="block">Purchase order: {entry.purchaseOrderNumber}</span>}
+                                              {entry.issueOrderNumber && <span className="block">Issue order: {entry.issueOrderNumber}</span>}
                                             </td>
-                                            <td className="py-1.5 px-3 text-center whitespace-nowrap">{entry.quantityBefore}</td>
-                                            <td className="py-1.5 px-3 text-center font-semibold whitespace-nowrap">{entry.quantityAfter}</td>
-                                            <td className="py-1.5 px-3 text-muted-foreground min-w-[150px] whitespace-normal break-words">{entry.comment || 'N/A'}</td>
                                         </tr>
                                         ))}
                                     </tbody>
                                     </table>
+                                    {hasMoreHistory && (
+                                      <div className="flex justify-center pt-2">
+                                        <Button variant="outline" size="sm" onClick={() => loadItemHistory(item.id, historyCursor)} disabled={isHistoryLoading}>
+                                          {isHistoryLoading ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                                          Load More
+                                        </Button>
+                                      </div>
+                                    )}
+                                    </>
                                 ) : (
                                 <p className="text-sm text-muted-foreground p-4 text-center">No transaction history for this item.</p>
                                 )}
@@ -576,16 +1339,23 @@ export default function WarehouseDetailPage() {
                     )}
                   </React.Fragment>
                 ))}
+                  </React.Fragment>
+                ))}
               </TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
 
+      {/* Suggests the categories already in use to the add and edit forms. */}
+      <datalist id="item-categories">
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+
       <Dialog open={isAddItemDialogOpen} onOpenChange={(isOpen) => {
         setIsAddItemDialogOpen(isOpen);
         if (!isOpen) {
-            itemForm.reset({ name: '', quantity: 1, location: '' });
+            itemForm.reset({ name: '', sku: '', barcode: '', barcodeFormat: 'EAN13', category: '', tags: '', quantity: 1, locationId: '', unit: 'pcs', precision: DEFAULT_PRECISION.pcs, packUnit: undefined, packSize: undefined, reorderPoint: undefined, maxLevel: undefined, tracksLots: false, lotNumber: '', expiryDate: '', serialized: false, serialNumbers: '', unitCost: undefined });
         }
       }}>
         <DialogContent className="sm:max-w-[425px]">
@@ -612,30 +1382,333 @@ export default function WarehouseDetailPage() {
               />
               <FormField
                 control={itemForm.control}
-                name="quantity"
+                name="sku"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Initial Quantity</FormLabel>
+                    <FormLabel>SKU</FormLabel>
                     <FormControl>
-                      <Input type="number" placeholder="e.g., 10" {...field} />
+                      <Input placeholder="e.g., PRD-A-001" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={itemForm.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Fasteners" list="item-categories" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={itemForm.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., fragile, seasonal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={itemForm.control}
+                  name="barcode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Barcode (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 4006381333931" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={itemForm.control}
+                  name="barcodeFormat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Barcode Format</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BARCODE_FORMATS.map(barcodeFormat => (
+                            <SelectItem key={barcodeFormat} value={barcodeFormat}>{BARCODE_FORMAT_LABELS[barcodeFormat]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {itemForm.watch('serialized') ? (
+                <FormField
+                  control={itemForm.control}
+                  name="serialNumbers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Initial Serial Numbers ({parseSerialList(field.value || '').length} pcs)</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="One per line, or scan them one after another" className="font-mono" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={itemForm.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Initial Quantity ({itemForm.watch('unit')})</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <FormField
                 control={itemForm.control}
-                name="location"
+                name="unitCost"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Item Location (Optional)</FormLabel>
+                    <FormLabel>Unit Cost per {itemForm.watch('unit')} (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={0} placeholder="e.g., 2.50" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormDescription>What one {itemForm.watch('unit')} of the initial stock cost, for the inventory valuation.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={itemForm.control}
+                name="serialized"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start gap-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => {
+                          field.onChange(checked === true);
+                          if (checked === true) {
+                            itemForm.setValue('unit', 'pcs');
+                            itemForm.setValue('precision', 0);
+                            itemForm.setValue('tracksLots', false);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Track serial numbers</FormLabel>
+                      <FormDescription>Every piece is recorded by serial number, and the quantity is the number of serials on hand. This cannot be changed later.</FormDescription>
+                      <FormMessage />
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={itemForm.control}
+                name="tracksLots"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start gap-3 space-y-0">
                     <FormControl>
-                      <Input placeholder="e.g., Shelf A1, Rack B2" {...field} />
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
                     </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Track lots and expiry dates</FormLabel>
+                      <FormDescription>Stock is recorded per lot and consumed first-expiring-first-out. This cannot be changed later.</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              {itemForm.watch('tracksLots') && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={itemForm.control}
+                    name="lotNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lot Number</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., L2024-031" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={itemForm.control}
+                    name="expiryDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expiry Date (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+              <FormField
+                control={itemForm.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Item Location (Optional)</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(value === NO_LOCATION ? '' : value)} value={field.value || NO_LOCATION}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                        {locations.map(location => (
+                          <SelectItem key={location.code} value={location.code}>
+                            <span className="font-mono">{location.code}</span> · {describeLocation(location)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {locations.length === 0 && (
+                      <FormDescription>Locations are set up in the location browser.</FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={itemForm.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          itemForm.setValue('precision', DEFAULT_PRECISION[value as UnitOfMeasure]);
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {UNITS_OF_MEASURE.map(unit => (
+                            <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={itemForm.control}
+                  name="precision"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Decimal Places</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={MAX_PRECISION} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={itemForm.control}
+                  name="packUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pack Unit (Optional)</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(value === NO_PACK ? undefined : value)} value={field.value ?? NO_PACK}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PACK}>No pack</SelectItem>
+                          {UNITS_OF_MEASURE.map(unit => (
+                            <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={itemForm.control}
+                  name="packSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{itemForm.watch('unit')} per Pack</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 12" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={itemForm.control}
+                  name="reorderPoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reorder Point (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 5" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={itemForm.control}
+                  name="maxLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Level (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 50" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               <DialogFooter>
                 <DialogClose asChild>
                   <Button type="button" variant="outline">Cancel</Button>
@@ -647,62 +1720,284 @@ export default function WarehouseDetailPage() {
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isStockAdjustmentDialogOpen} onOpenChange={(isOpen) => {
-        setIsStockAdjustmentDialogOpen(isOpen);
-        if (!isOpen) {
-            stockAdjustmentForm.reset(); 
-        }
+      <TransferStockDialog
+        item={itemToTransfer}
+        sourceWarehouse={warehouse}
+        actor={actor}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setItemToTransfer(null);
+        }}
+        onTransferred={handleTransferred}
+      />
+
+      <BillOfMaterialsDialog
+        kit={itemForBillOfMaterials}
+        items={items}
+        actor={actor}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setItemForBillOfMaterials(null);
+        }}
+        onSaved={handleKitChanged}
+      />
+
+      <AssembleKitDialog
+        kit={kitToAssemble}
+        items={items}
+        actor={actor}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setKitToAssemble(null);
+        }}
+        onAssembled={handleKitChanged}
+      />
+
+      <ReserveStockDialog
+        item={itemToReserve}
+        actor={actor}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setItemToReserve(null);
+        }}
+        onReserved={handleReserved}
+      />
+
+      <ScanModeDialog
+        open={isScanModeOpen}
+        onOpenChange={setIsScanModeOpen}
+        warehouseId={warehouse.id}
+        items={items}
+        actor={actor}
+        onAdjusted={handleScanAdjusted}
+      />
+
+      <WarehouseActivityDialog
+        warehouseId={warehouse.id}
+        warehouseName={warehouse.name}
+        open={isActivityDialogOpen}
+        onOpenChange={setIsActivityDialogOpen}
+      />
+
+      <Dialog open={!!itemToEdit} onOpenChange={(isOpen) => {
+        if (!isOpen) setItemToEdit(null);
       }}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>
-              {adjustmentType === 'ADD_STOCK' ? 'Add Stock to ' : 'Consume Stock from '} 
-              {itemForAdjustment?.name}
-            </DialogTitle>
+            <DialogTitle>Edit {itemToEdit?.name}</DialogTitle>
             <DialogDescription>
-              Current quantity: {itemForAdjustment?.quantity}. Enter the quantity to {adjustmentType === 'ADD_STOCK' ? 'add.' : 'consume.'}
+              Changes are recorded in the item's history. Use the stock buttons to change the quantity.
+              {itemToEdit && ` Quantities are kept in ${getItemUnit(itemToEdit)} with ${getItemPrecision(itemToEdit)} decimal place(s).`}
             </DialogDescription>
           </DialogHeader>
-          <Form {...stockAdjustmentForm}>
-            <form onSubmit={stockAdjustmentForm.handleSubmit(onStockAdjustmentSubmit)} className="space-y-4 py-4">
+          <Form {...editItemForm}>
+            <form onSubmit={editItemForm.handleSubmit(onEditItemSubmit)} className="space-y-4 py-4">
               <FormField
-                control={stockAdjustmentForm.control}
-                name="adjustmentQuantity"
+                control={editItemForm.control}
+                name="name"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quantity to {adjustmentType === 'ADD_STOCK' ? 'add' : 'consume'}</FormLabel>
+                    <FormLabel>Item Name</FormLabel>
                     <FormControl>
-                      <Input type="number" {...field} />
+                      <Input placeholder="e.g., Product A" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               <FormField
-                control={stockAdjustmentForm.control}
-                name="comment"
+                control={editItemForm.control}
+                name="sku"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Comment (Optional)</FormLabel>
+                    <FormLabel>SKU{itemToEdit?.sku ? '' : ' (Optional)'}</FormLabel>
                     <FormControl>
-                      <Textarea placeholder="e.g., Received new shipment, Order #123" {...field} />
+                      <Input placeholder="e.g., PRD-A-001" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editItemForm.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Fasteners" list="item-categories" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editItemForm.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., fragile, seasonal" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editItemForm.control}
+                  name="barcode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Barcode (Optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 4006381333931" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editItemForm.control}
+                  name="barcodeFormat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Barcode Format</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BARCODE_FORMATS.map(barcodeFormat => (
+                            <SelectItem key={barcodeFormat} value={barcodeFormat}>{BARCODE_FORMAT_LABELS[barcodeFormat]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={editItemForm.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Item Location (Optional)</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(value === NO_LOCATION ? '' : value)} value={field.value || NO_LOCATION}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                        {locations.map(location => (
+                          <SelectItem key={location.code} value={location.code}>
+                            <span className="font-mono">{location.code}</span> · {describeLocation(location)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {itemToEdit?.location && !itemToEdit.locationId && (
+                      <FormDescription>Currently &quot;{itemToEdit.location}&quot; as free text, kept until a location is chosen.</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editItemForm.control}
+                  name="packUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pack Unit (Optional)</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(value === NO_PACK ? undefined : value)} value={field.value ?? NO_PACK}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PACK}>No pack</SelectItem>
+                          {UNITS_OF_MEASURE.map(unit => (
+                            <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editItemForm.control}
+                  name="packSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{editItemForm.watch('unit')} per Pack</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 12" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editItemForm.control}
+                  name="reorderPoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reorder Point (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 5" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editItemForm.control}
+                  name="maxLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Level (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" placeholder="e.g., 50" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               <DialogFooter>
                 <DialogClose asChild>
                   <Button type="button" variant="outline">Cancel</Button>
                 </DialogClose>
-                <Button type="submit">
-                  {adjustmentType === 'ADD_STOCK' ? 'Add Stock' : 'Consume Stock'}
+                <Button type="submit" disabled={editItemForm.formState.isSubmitting}>
+                  {editItemForm.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  Save Changes
                 </Button>
               </DialogFooter>
             </form>
           </Form>
         </DialogContent>
       </Dialog>
+
+      <StockAdjustmentDialog
+        item={itemForAdjustment}
+        type={adjustmentType}
+        warehouseId={warehouseIdFromParams}
+        actor={canAdjustStock ? actor : null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setItemForAdjustment(null);
+        }}
+        onAdjusted={handleStockAdjusted}
+        onStockChanged={() => loadWarehouseAndItems(warehouseIdFromParams)}
+      />
       {itemToArchive && (
         <AlertDialogContent>
           <AlertDialogHeader>
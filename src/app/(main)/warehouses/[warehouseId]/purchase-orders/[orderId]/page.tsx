@@ -0,0 +1,349 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, PackageCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import { formatMoney, formatUnitCost, roundMoney } from '@/lib/costing';
+import {
+  canReceive,
+  describeOutstanding,
+  fetchPurchaseOrder,
+  getOutstandingQuantity,
+  PURCHASE_ORDER_STATUS_LABELS,
+  receivePurchaseOrder,
+  type PurchaseOrderReceipt,
+} from '@/lib/purchaseOrders';
+import { normalizeLotNumber } from '@/lib/lots';
+import { findDuplicateSerials, parseSerialList, sortSerials } from '@/lib/serials';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, hasPrecision, precisionError } from '@/lib/units';
+import type { Item, PurchaseOrder, Warehouse } from '@/lib/types';
+
+interface ReceiptDraft {
+  quantity: string;
+  lotNumber: string;
+  expiryDate: string;
+  serialNumbers: string;
+}
+
+const emptyDraft: ReceiptDraft = { quantity: '', lotNumber: '', expiryDate: '', serialNumbers: '' };
+
+export default function PurchaseOrderPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+  const orderId = params.orderId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [order, setOrder] = React.useState<PurchaseOrder | null>(null);
+  const [itemsById, setItemsById] = React.useState<Map<string, Item>>(new Map());
+  const [drafts, setDrafts] = React.useState<Record<string, ReceiptDraft>>({});
+  const [comment, setComment] = React.useState('');
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isPosting, setIsPosting] = React.useState(false);
+
+  const canReceiveStock = canPerform(warehouse, user?.uid, 'adjustStock');
+
+  const loadOrder = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const purchaseOrder = await fetchPurchaseOrder(orderId);
+      if (!purchaseOrder || purchaseOrder.warehouseId !== warehouseId) {
+        toast({ title: "Purchase Order Not Found", description: "The requested purchase order does not exist.", variant: "destructive" });
+        router.push(`/warehouses/${warehouseId}/purchase-orders`);
+        return;
+      }
+      setOrder(purchaseOrder);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      setItemsById(new Map(itemsSnapshot.docs.map(itemDoc => {
+        const { history: _legacyHistory, ...itemData } = itemDoc.data();
+        return [itemDoc.id, { id: itemDoc.id, ...itemData } as Item];
+      })));
+      setDrafts({});
+    } catch (error) {
+      console.error("Failed to load purchase order from Firestore", error);
+      toast({ title: "Error", description: "Failed to load purchase order.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, orderId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && orderId && user) {
+      loadOrder();
+    }
+  }, [warehouseId, orderId, user, loadOrder]);
+
+  const updateDraft = (itemId: string, change: Partial<ReceiptDraft>) =>
+    setDrafts(prev => ({ ...prev, [itemId]: { ...(prev[itemId] ?? emptyDraft), ...change } }));
+
+  // Serialized lines receive one unit per serial entered.
+  const getDraftQuantity = (itemId: string): number => {
+    const draft = drafts[itemId] ?? emptyDraft;
+    if (itemsById.get(itemId)?.serialized) return parseSerialList(draft.serialNumbers).length;
+    return draft.quantity.trim() === '' ? 0 : Number(draft.quantity);
+  };
+
+  // The receipts entered on screen, or null after reporting the first invalid one.
+  const getReceipts = (): PurchaseOrderReceipt[] | null => {
+    if (!order) return null;
+    const receipts: PurchaseOrderReceipt[] = [];
+    for (const line of order.lines) {
+      const quantity = getDraftQuantity(line.itemId);
+      if (quantity === 0) continue;
+      const item = itemsById.get(line.itemId);
+      const draft = drafts[line.itemId] ?? emptyDraft;
+      const precision = getItemPrecision(line);
+      const fail = (description: string) => {
+        toast({ title: "Invalid Receipt", description: `${line.name}: ${description}`, variant: "destructive" });
+        return null;
+      };
+      if (!item) return fail('The item no longer exists or has been archived.');
+      if (Number.isNaN(quantity) || quantity < 0) return fail('The quantity received must be zero or more.');
+      if (!hasPrecision(quantity, precision)) return fail(precisionError(precision));
+      if (quantity > getOutstandingQuantity(line)) return fail(`Only ${formatQuantity(getOutstandingQuantity(line), line)} is outstanding.`);
+      if (item.tracksLots && !normalizeLotNumber(draft.lotNumber)) return fail('Enter the lot number of the stock received.');
+      const serialNumbers = item.serialized ? sortSerials(parseSerialList(draft.serialNumbers)) : undefined;
+      const duplicates = findDuplicateSerials(serialNumbers ?? []);
+      if (duplicates.length > 0) return fail(`Serial numbers entered more than once: ${duplicates.join(', ')}.`);
+      receipts.push({
+        itemId: line.itemId,
+        quantity,
+        ...(item.tracksLots && { lot: { lotNumber: draft.lotNumber, ...(draft.expiryDate && { expiryDate: draft.expiryDate }) } }),
+        ...(serialNumbers && { serialNumbers }),
+      });
+    }
+    return receipts;
+  };
+
+  const handlePost = async () => {
+    if (!order || !actor || !canReceiveStock) return;
+    const receipts = getReceipts();
+    if (!receipts) return;
+    if (receipts.length === 0) {
+      toast({ title: "Nothing to Receive", description: "Enter the quantity received on at least one line." });
+      return;
+    }
+    setIsPosting(true);
+    try {
+      const status = await receivePurchaseOrder(order.id, receipts, comment.trim(), actor);
+      toast({
+        title: "Receipt Posted",
+        description: status === 'received'
+          ? `${order.number} is now fully received.`
+          : `${receipts.length} line(s) received on ${order.number}; the rest is still outstanding.`,
+      });
+      setComment('');
+      await loadOrder();
+    } catch (error: any) {
+      console.error("Failed to receive purchase order", error);
+      toast({
+        title: error instanceof StockAdjustmentError ? "Receipt Not Posted" : "Error",
+        description: error.message || "Failed to post receipt.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (isLoading && !order) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse || !order) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Purchase order data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  const isReceiving = canReceive(order) && canReceiveStock;
+  const orderValue = roundMoney(order.lines.reduce((total, line) => total + line.quantityOrdered * (line.unitCost ?? 0), 0));
+
+  return (
+    <>
+      <PageHeader
+        title={`Purchase Order ${order.number}`}
+        description={`${order.supplierName} · ${warehouse.name}`}
+        actions={
+          <Button variant="outline" asChild>
+            <Link href={`/warehouses/${warehouse.id}/purchase-orders`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Purchase Orders
+            </Link>
+          </Button>
+        }
+      />
+
+      <Card className="overflow-hidden">
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle>{isReceiving ? 'Receive Stock' : 'Order Lines'}</CardTitle>
+            <Badge variant="outline">{PURCHASE_ORDER_STATUS_LABELS[order.status]}</Badge>
+          </div>
+          <CardDescription>
+            Raised by {order.createdByName} on {format(new Date(order.createdAt), 'P')}
+            {order.sentAt && `, sent ${format(new Date(order.sentAt), 'P')}`}
+            {order.expectedDate && `, expected ${format(parseISO(order.expectedDate), 'P')}`}
+            {order.receivedAt && `, received in full ${format(new Date(order.receivedAt), 'P')}`}.
+            {' '}Outstanding: {describeOutstanding(order) || 'none'}.
+            {orderValue > 0 && ` Order value: ${formatMoney(orderValue)}.`}
+          </CardDescription>
+          {order.notes && <p className="text-sm text-muted-foreground break-words">{order.notes}</p>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {order.status === 'draft' && (
+            <p className="text-sm text-muted-foreground">This order is still a draft. Mark it as sent on the purchase orders page before receiving against it.</p>
+          )}
+          <div className="w-full overflow-x-auto rounded-md border">
+            <table className="text-xs border-collapse min-w-full">
+              <thead className="bg-background/90 dark:bg-card/80">
+                <tr>
+                  <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item</th>
+                  <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Unit Cost</th>
+                  <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Ordered</th>
+                  <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Received</th>
+                  <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Outstanding</th>
+                  {isReceiving && <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Receive Now</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map(line => {
+                  const item = itemsById.get(line.itemId);
+                  const draft = drafts[line.itemId] ?? emptyDraft;
+                  const outstanding = getOutstandingQuantity(line);
+                  return (
+                    <tr key={line.itemId} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5 align-top">
+                      <td className="py-2 px-4 break-words">
+                        <div className="font-medium">{line.name}</div>
+                        {line.sku && <div className="font-mono text-muted-foreground">{line.sku}</div>}
+                        {!item && <div className="text-destructive">No longer active</div>}
+                      </td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">{line.unitCost !== undefined ? formatUnitCost(line.unitCost) : '-'}</td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">{formatQuantity(line.quantityOrdered, line)}</td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">{formatQuantity(line.quantityReceived, line)}</td>
+                      <td className="py-2 px-4 text-right font-semibold whitespace-nowrap">{formatQuantity(outstanding, line)}</td>
+                      {isReceiving && (
+                        <td className="py-2 px-4">
+                          {outstanding > 0 && item ? (
+                            <div className="flex flex-col gap-2 min-w-[200px]">
+                              {item.serialized ? (
+                                <Textarea
+                                  className="min-h-[60px] font-mono text-xs"
+                                  placeholder="One serial number per line"
+                                  value={draft.serialNumbers}
+                                  disabled={isPosting}
+                                  onChange={(e) => updateDraft(line.itemId, { serialNumbers: e.target.value })}
+                                  aria-label={`Serial numbers received for ${line.name}`}
+                                />
+                              ) : (
+                                <Input
+                                  type="number"
+                                  step="any"
+                                  min={0}
+                                  className="h-8 w-28"
+                                  placeholder={String(outstanding)}
+                                  value={draft.quantity}
+                                  disabled={isPosting}
+                                  onChange={(e) => updateDraft(line.itemId, { quantity: e.target.value })}
+                                  aria-label={`Quantity received for ${line.name}`}
+                                />
+                              )}
+                              {item.tracksLots && (
+                                <div className="flex gap-2">
+                                  <Input
+                                    className="h-8 w-28"
+                                    placeholder="Lot number"
+                                    value={draft.lotNumber}
+                                    disabled={isPosting}
+                                    onChange={(e) => updateDraft(line.itemId, { lotNumber: e.target.value })}
+                                    aria-label={`Lot number for ${line.name}`}
+                                  />
+                                  <Input
+                                    type="date"
+                                    className="h-8 w-36"
+                                    value={draft.expiryDate}
+                                    disabled={isPosting}
+                                    onChange={(e) => updateDraft(line.itemId, { expiryDate: e.target.value })}
+                                    aria-label={`Expiry date for ${line.name}`}
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">{outstanding > 0 ? '-' : 'Received'}</span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {isReceiving && (
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+              <div className="flex-1 space-y-2">
+                <label htmlFor="receipt-comment" className="text-sm font-medium">Comment (Optional)</label>
+                <Input
+                  id="receipt-comment"
+                  placeholder={`Defaults to "Received on ${order.number}"`}
+                  value={comment}
+                  disabled={isPosting}
+                  onChange={(e) => setComment(e.target.value)}
+                />
+              </div>
+              <Button onClick={handlePost} disabled={isPosting}>
+                {isPosting ? <LoadingSpinner size={16} className="mr-2" /> : <PackageCheck className="mr-2 h-4 w-4" />}
+                Post Receipt
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
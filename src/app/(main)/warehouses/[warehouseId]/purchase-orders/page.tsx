@@ -0,0 +1,554 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO } from 'date-fns';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, ClipboardList, PackageCheck, Pencil, PlusCircle, Send, Trash2, Truck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import {
+  canReceive,
+  createPurchaseOrder,
+  deletePurchaseOrder,
+  describeOutstanding,
+  fetchPurchaseOrders,
+  markPurchaseOrderSent,
+  PURCHASE_ORDER_STATUS_LABELS,
+  updatePurchaseOrder,
+} from '@/lib/purchaseOrders';
+import { fetchSuppliers } from '@/lib/suppliers';
+import { formatQuantityTotals, getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import type { Item, PurchaseOrder, PurchaseOrderStatus, Supplier, Warehouse } from '@/lib/types';
+
+// Empty inputs leave the value unset.
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+const orderLineSchema = z.object({
+  itemId: z.string().min(1, { message: 'Choose an item.' }),
+  quantity: z.coerce.number({ invalid_type_error: 'Quantity must be a number.' }).positive({ message: 'Quantity must be more than zero.' }),
+  unitCost: z.preprocess(
+    emptyToUndefined,
+    z.coerce
+      .number({ invalid_type_error: 'Unit cost must be a number.' })
+      .min(0, { message: 'Unit cost cannot be negative.' })
+      .optional()
+  ),
+});
+
+const orderFormSchema = z
+  .object({
+    supplierId: z.string().min(1, { message: 'Choose a supplier.' }),
+    expectedDate: z.string().optional(),
+    notes: z.string().max(500).optional(),
+    lines: z.array(orderLineSchema).min(1, { message: 'Add at least one line.' }),
+  })
+  .superRefine((values, ctx) => {
+    values.lines.forEach((line, index) => {
+      if (line.itemId && values.lines.findIndex(other => other.itemId === line.itemId) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'This item is already on the order.', path: ['lines', index, 'itemId'] });
+      }
+    });
+  });
+
+type OrderFormValues = z.infer<typeof orderFormSchema>;
+
+const emptyLine = { itemId: '', quantity: 1, unitCost: undefined };
+const emptyOrderForm: OrderFormValues = { supplierId: '', expectedDate: '', notes: '', lines: [emptyLine] };
+
+const ANY_STATUS = '__any__';
+
+const STATUS_BADGE_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'border-muted-foreground/40 text-muted-foreground',
+  sent: 'border-blue-500 text-blue-700 dark:text-blue-400',
+  partially_received: 'border-amber-500 text-amber-700 dark:text-amber-400',
+  received: 'border-green-600 text-green-700 dark:text-green-400',
+};
+
+export default function PurchaseOrdersPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [orders, setOrders] = React.useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+  const [items, setItems] = React.useState<Item[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [statusFilter, setStatusFilter] = React.useState<PurchaseOrderStatus | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editingOrder, setEditingOrder] = React.useState<PurchaseOrder | null>(null);
+
+  const canManage = canPerform(warehouse, user?.uid, 'manageItems');
+  const canReceiveStock = canPerform(warehouse, user?.uid, 'adjustStock');
+
+  const form = useForm<OrderFormValues>({
+    resolver: zodResolver(orderFormSchema),
+    defaultValues: emptyOrderForm,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lines' });
+
+  const loadOrders = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      setItems(itemsSnapshot.docs
+        .map(itemDoc => {
+          const { history: _legacyHistory, ...itemData } = itemDoc.data();
+          return { id: itemDoc.id, ...itemData } as Item;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setSuppliers(await fetchSuppliers(warehouseId));
+      setOrders(await fetchPurchaseOrders(warehouseId));
+    } catch (error) {
+      console.error("Failed to load purchase orders from Firestore", error);
+      toast({ title: "Error", description: "Failed to load purchase orders.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadOrders();
+    }
+  }, [warehouseId, user, loadOrders]);
+
+  const visibleOrders = statusFilter ? orders.filter(order => order.status === statusFilter) : orders;
+
+  const openDialog = (order: PurchaseOrder | null) => {
+    setEditingOrder(order);
+    form.reset(order ? {
+      supplierId: order.supplierId,
+      expectedDate: order.expectedDate || '',
+      notes: order.notes || '',
+      lines: order.lines.map(line => ({ itemId: line.itemId, quantity: line.quantityOrdered, unitCost: line.unitCost })),
+    } : emptyOrderForm);
+    setIsDialogOpen(true);
+  };
+
+  async function onSubmit(values: OrderFormValues) {
+    if (!warehouse || !actor || !canManage) return;
+    const supplier = suppliers.find(candidate => candidate.id === values.supplierId);
+    if (!supplier) {
+      form.setError('supplierId', { type: 'manual', message: 'This supplier no longer exists.' });
+      return;
+    }
+    const lines = [];
+    for (const [index, line] of values.lines.entries()) {
+      const item = items.find(candidate => candidate.id === line.itemId);
+      if (!item) {
+        form.setError(`lines.${index}.itemId`, { type: 'manual', message: 'This item is no longer active.' });
+        return;
+      }
+      if (!hasPrecision(line.quantity, getItemPrecision(item))) {
+        form.setError(`lines.${index}.quantity`, { type: 'manual', message: precisionError(getItemPrecision(item)) });
+        return;
+      }
+      lines.push({ item, quantity: line.quantity, unitCost: line.unitCost });
+    }
+    const input = { supplier, lines, expectedDate: values.expectedDate, notes: values.notes };
+    try {
+      if (editingOrder) {
+        await updatePurchaseOrder(editingOrder.id, input);
+        toast({ title: "Purchase Order Updated", description: `${editingOrder.number} was updated.` });
+      } else {
+        const number = await createPurchaseOrder(warehouse, input, actor);
+        toast({ title: "Purchase Order Created", description: `${number} was saved as a draft.` });
+      }
+      setIsDialogOpen(false);
+      await loadOrders();
+    } catch (error) {
+      console.error("Failed to save purchase order to Firestore", error);
+      toast({ title: "Error", description: "Failed to save purchase order.", variant: "destructive" });
+    }
+  }
+
+  const handleMarkSent = async (order: PurchaseOrder) => {
+    if (!canManage) return;
+    try {
+      await markPurchaseOrderSent(order.id);
+      toast({ title: "Purchase Order Sent", description: `${order.number} is now open for receiving.` });
+      await loadOrders();
+    } catch (error) {
+      console.error("Failed to mark purchase order as sent", error);
+      toast({ title: "Error", description: "Failed to update purchase order.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!canManage) return;
+    try {
+      await deletePurchaseOrder(order.id);
+      toast({ title: "Purchase Order Deleted", description: `${order.number} was deleted.` });
+      await loadOrders();
+    } catch (error) {
+      console.error("Failed to delete purchase order from Firestore", error);
+      toast({ title: "Error", description: "Failed to delete purchase order.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Purchase Orders: ${warehouse.name}`}
+        description="Order stock from suppliers and receive it as it arrives."
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Warehouse
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}/suppliers`}>
+                <Truck className="mr-2 h-4 w-4" />
+                Suppliers
+              </Link>
+            </Button>
+            {canManage && (
+              <Button onClick={() => openDialog(null)} disabled={suppliers.length === 0 || items.length === 0}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New Purchase Order
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      {orders.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <EmptyState
+              IconComponent={ClipboardList}
+              title="No Purchase Orders Yet"
+              description={!canManage
+                ? "A manager needs to raise purchase orders for this warehouse."
+                : suppliers.length === 0
+                  ? "Add a supplier to the directory before raising a purchase order."
+                  : "Raise a purchase order for the stock you are buying; it can be received in one or more deliveries."}
+              action={canManage && suppliers.length > 0 && items.length > 0
+                ? { label: "New Purchase Order", onClick: () => openDialog(null), icon: PlusCircle }
+                : undefined}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Orders</CardTitle>
+              <CardDescription>Outstanding quantities are what is still to be received on each order.</CardDescription>
+            </div>
+            <Select
+              value={statusFilter ?? ANY_STATUS}
+              onValueChange={(value) => setStatusFilter(value === ANY_STATUS ? null : value as PurchaseOrderStatus)}
+            >
+              <SelectTrigger className="w-[190px]" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_STATUS}>All Statuses</SelectItem>
+                {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="bg-background/90 dark:bg-card/80">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Order</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Supplier</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Status</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Expected</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Ordered</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Outstanding</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleOrders.map(order => (
+                    <tr key={order.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        <Link href={`/warehouses/${warehouse.id}/purchase-orders/${order.id}`} className="font-mono font-medium text-primary hover:underline">
+                          {order.number}
+                        </Link>
+                        <div className="text-muted-foreground">{format(new Date(order.createdAt), 'P')} by {order.createdByName}</div>
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">{order.supplierName}</td>
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        <Badge variant="outline" className={STATUS_BADGE_CLASSES[order.status]}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</Badge>
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">{order.expectedDate ? format(parseISO(order.expectedDate), 'P') : '-'}</td>
+                      <td className="py-2 px-4 break-words">
+                        {order.lines.length} line(s), {formatQuantityTotals(order.lines.map(line => ({ ...line, quantity: line.quantityOrdered })))}
+                      </td>
+                      <td className="py-2 px-4 break-words">{describeOutstanding(order) || <span className="text-muted-foreground">None</span>}</td>
+                      <td className="py-2 px-4 text-right whitespace-nowrap">
+                        {order.status === 'draft' && canManage && (
+                          <>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(order)} aria-label={`Edit ${order.number}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleMarkSent(order)} aria-label={`Mark ${order.number} as sent`}>
+                              <Send className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" aria-label={`Delete ${order.number}`}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {order.number}?</AlertDialogTitle>
+                                  <AlertDialogDescription>This draft has not been sent to {order.supplierName}. It is deleted for good.</AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(order)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        )}
+                        {canReceive(order) && canReceiveStock && (
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/warehouses/${warehouse.id}/purchase-orders/${order.id}`}>
+                              <PackageCheck className="mr-2 h-4 w-4" />
+                              Receive
+                            </Link>
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {visibleOrders.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="py-6 px-4 text-center text-muted-foreground">No orders with this status.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingOrder ? `Edit ${editingOrder.number}` : 'New Purchase Order'}</DialogTitle>
+            <DialogDescription>
+              The order is saved as a draft. Mark it as sent once it has gone to the supplier to start receiving against it.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a supplier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {suppliers.map(supplier => <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expectedDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <FormLabel>Lines</FormLabel>
+                {fields.map((lineField, index) => {
+                  const item = items.find(candidate => candidate.id === form.watch(`lines.${index}.itemId`));
+                  return (
+                    <div key={lineField.id} className="grid grid-cols-[1fr_110px_110px_auto] items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.itemId`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger aria-label={`Item on line ${index + 1}`}>
+                                  <SelectValue placeholder="Choose an item" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {items.map(candidate => (
+                                  <SelectItem key={candidate.id} value={candidate.id}>
+                                    {candidate.name}{candidate.sku ? ` (${candidate.sku})` : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input type="number" step="any" min={0} placeholder={item ? getItemUnit(item) : 'Qty'} aria-label={`Quantity on line ${index + 1}`} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`lines.${index}.unitCost`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="any"
+                                min={0}
+                                placeholder="Unit cost"
+                                aria-label={`Unit cost on line ${index + 1}`}
+                                {...field}
+                                value={field.value === undefined ? '' : String(field.value)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-10 w-10 text-destructive hover:text-destructive"
+                        onClick={() => remove(index)}
+                        disabled={fields.length === 1}
+                        aria-label={`Remove line ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button type="button" variant="outline" size="sm" onClick={() => append(emptyLine)}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add Line
+                </Button>
+                <p className="text-xs text-muted-foreground">Unit costs are per unit of the item; lines without one are received at the item&apos;s average cost.</p>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="e.g., Deliver to the rear dock" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  {editingOrder ? 'Save Changes' : 'Save Draft'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
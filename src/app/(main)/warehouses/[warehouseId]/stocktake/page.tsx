@@ -0,0 +1,405 @@
+'use client';
+
+import * as React from 'react';
+import ReactDOM from 'react-dom/client';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, ClipboardCheck, ClipboardList, Save, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { PrintableStocktakeReport } from '@/components/PrintableStocktakeReport';
+import { cn } from '@/lib/utils';
+import { db } from '@/lib/firebase';
+import { getItemLocation } from '@/lib/locations';
+import { canPerform } from '@/lib/membership';
+import { saveArchivedReport } from '@/lib/reports';
+import { cancelStocktake, fetchOpenStocktake, getCountVariance, isCountable, postStocktake, saveStocktakeCounts, startStocktake } from '@/lib/stocktakes';
+import { formatQuantity, formatQuantityChange, getItemPrecision, hasPrecision, precisionError } from '@/lib/units';
+import type { ArchivedReport, Item, Stocktake, StocktakeVarianceLine, Warehouse } from '@/lib/types';
+
+export default function StocktakePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, actor } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [liveQuantities, setLiveQuantities] = React.useState<Map<string, number>>(new Map());
+  const [items, setItems] = React.useState<Item[]>([]);
+  const [stocktake, setStocktake] = React.useState<Stocktake | null>(null);
+  const [draftCounts, setDraftCounts] = React.useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const canCount = canPerform(warehouse, user?.uid, 'adjustStock');
+  const canManage = canPerform(warehouse, user?.uid, 'manageItems');
+
+  const loadStocktake = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'items'),
+        where('warehouseId', '==', warehouseId),
+        where('isArchived', '==', false)
+      ));
+      const warehouseItems = itemsSnapshot.docs.map(itemDoc => {
+        const { history: _legacyHistory, ...itemData } = itemDoc.data();
+        return { id: itemDoc.id, ...itemData } as Item;
+      });
+      setItems(warehouseItems.sort((a, b) => getItemLocation(a).localeCompare(getItemLocation(b), undefined, { numeric: true }) || a.name.localeCompare(b.name)));
+      setLiveQuantities(new Map(warehouseItems.map(item => [item.id, item.quantity])));
+
+      setStocktake(await fetchOpenStocktake(warehouseId));
+      setDraftCounts({});
+    } catch (error) {
+      console.error("Failed to load stocktake from Firestore", error);
+      toast({ title: "Error", description: "Failed to load stocktake.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadStocktake();
+    }
+  }, [warehouseId, user, loadStocktake]);
+
+  // Draft inputs that hold a valid, changed count.
+  const getPendingCounts = (): Record<string, number> | null => {
+    const pending: Record<string, number> = {};
+    for (const [itemId, value] of Object.entries(draftCounts)) {
+      if (value.trim() === '') continue;
+      const quantity = Number(value);
+      const line = stocktake?.items.find(item => item.itemId === itemId);
+      if (Number.isNaN(quantity) || quantity < 0) {
+        toast({ title: "Invalid Count", description: `The count for ${line?.name || 'an item'} must be zero or more.`, variant: "destructive" });
+        return null;
+      }
+      if (!hasPrecision(quantity, getItemPrecision(line))) {
+        toast({ title: "Invalid Count", description: `${line?.name || 'Item'}: ${precisionError(getItemPrecision(line))}`, variant: "destructive" });
+        return null;
+      }
+      if (stocktake?.counts[itemId]?.quantity !== quantity) {
+        pending[itemId] = quantity;
+      }
+    }
+    return pending;
+  };
+
+  const handleStart = async () => {
+    if (!warehouse || !actor || !canManage) return;
+    setIsWorking(true);
+    try {
+      await startStocktake(warehouse, items, actor);
+      toast({ title: "Stocktake Started", description: `Counting ${items.length} item(s) in ${warehouse.name}.` });
+      await loadStocktake();
+    } catch (error: any) {
+      console.error("Failed to start stocktake", error);
+      toast({ title: "Error", description: error.message || "Failed to start stocktake.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    if (!stocktake || !actor || !canCount) return;
+    const pending = getPendingCounts();
+    if (!pending) return;
+    if (Object.keys(pending).length === 0) {
+      toast({ title: "Nothing to Save", description: "Enter counted quantities first." });
+      return;
+    }
+    setIsWorking(true);
+    try {
+      await saveStocktakeCounts(stocktake.id, pending, actor);
+      toast({ title: "Counts Saved", description: `${Object.keys(pending).length} count(s) saved.` });
+      await loadStocktake();
+    } catch (error) {
+      console.error("Failed to save stocktake counts", error);
+      toast({ title: "Error", description: "Failed to save counts.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const printAndArchive = (lines: StocktakeVarianceLine[]) => {
+    if (!warehouse || !actor || !stocktake) return;
+
+    const printableArea = document.createElement('div');
+    printableArea.id = 'printable-report-area';
+    document.body.appendChild(printableArea);
+
+    const root = ReactDOM.createRoot(printableArea);
+    root.render(
+      <PrintableStocktakeReport
+        warehouseName={warehouse.name}
+        lines={lines}
+        printedBy={actor.username}
+        printDate={new Date()}
+      />
+    );
+
+    setTimeout(() => {
+      window.print();
+      setTimeout(async () => {
+        root.unmount();
+        if (document.body.contains(printableArea)) {
+          document.body.removeChild(printableArea);
+        }
+        const archivedReport: Omit<ArchivedReport, 'id'> = {
+          reportType: 'STOCKTAKE',
+          warehouseId: warehouse.id,
+          warehouseName: warehouse.name,
+          stocktakeId: stocktake.id,
+          printedBy: actor.username,
+          printedAt: new Date().toISOString(),
+          stocktakeSnapshot: lines,
+        };
+        try {
+          await saveArchivedReport(archivedReport, actor.uid);
+          toast({ title: "Report Archived", description: `Stocktake variance report for ${warehouse.name} has been saved.` });
+        } catch (error) {
+          console.error("Failed to archive report:", error);
+          toast({ title: "Archiving Error", description: "Failed to save report due to an error.", variant: "destructive" });
+        }
+      }, 3000);
+    }, 250);
+  };
+
+  const handlePost = async () => {
+    if (!stocktake || !actor || !canManage) return;
+    const pending = getPendingCounts();
+    if (!pending) return;
+    setIsWorking(true);
+    try {
+      // Unsaved entries on screen are saved first so they are part of the posting.
+      let current = stocktake;
+      if (Object.keys(pending).length > 0) {
+        await saveStocktakeCounts(stocktake.id, pending, actor);
+        current = (await fetchOpenStocktake(warehouseId)) || stocktake;
+      }
+      const lines = await postStocktake(current, actor);
+      const adjusted = lines.filter(line => line.countedQuantity !== null && line.variance !== 0).length;
+      toast({ title: "Stocktake Posted", description: `${adjusted} item(s) adjusted by their variance.` });
+      printAndArchive(lines);
+      await loadStocktake();
+    } catch (error: any) {
+      console.error("Failed to post stocktake", error);
+      toast({ title: "Error", description: error.message || "Failed to post stocktake.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake || !actor || !canManage) return;
+    setIsWorking(true);
+    try {
+      await cancelStocktake(stocktake.id, actor);
+      toast({ title: "Stocktake Cancelled", description: "No quantities were changed." });
+      await loadStocktake();
+    } catch (error) {
+      console.error("Failed to cancel stocktake", error);
+      toast({ title: "Error", description: "Failed to cancel stocktake.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  const countedCount = stocktake ? stocktake.items.filter(item => stocktake.counts[item.itemId] || draftCounts[item.itemId]?.trim()).length : 0;
+
+  return (
+    <>
+      <PageHeader
+        title={`Stocktake: ${warehouse.name}`}
+        description="Count what is on the shelves, review the differences and post them as stock adjustments."
+        actions={
+          <Button variant="outline" asChild>
+            <Link href={`/warehouses/${warehouse.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Warehouse
+            </Link>
+          </Button>
+        }
+      />
+
+      {!stocktake ? (
+        <Card>
+          <CardContent className="pt-6">
+            <EmptyState
+              IconComponent={ClipboardList}
+              title="No Stocktake in Progress"
+              description={canManage
+                ? `Starting a stocktake captures the ${items.filter(isCountable).length} active item(s) in this warehouse for counting. Serialized items are checked by serial number instead.`
+                : "A manager needs to start a stocktake before items can be counted."}
+              action={canManage && items.some(isCountable) ? {
+                label: "Start Stocktake",
+                onClick: handleStart,
+                icon: ClipboardList,
+              } : undefined}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <CardHeader>
+            <CardTitle>Count Sheet</CardTitle>
+            <CardDescription>
+              Started by {stocktake.startedByName} on {format(new Date(stocktake.startedAt), 'P p')}. {countedCount} of {stocktake.items.length} item(s) counted.
+              Each count is compared with the system quantity when it was saved, so stock that moves afterwards does not change its variance.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Item</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Location</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">System</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Counted</th>
+                    <th className="py-3 px-4 text-right font-medium text-muted-foreground whitespace-nowrap">Variance</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Counted By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stocktake.items.map((line) => {
+                    const savedCount = stocktake.counts[line.itemId];
+                    const draft = draftCounts[line.itemId];
+                    const displayedValue = draft ?? (savedCount ? String(savedCount.quantity) : '');
+                    const counted = displayedValue.trim() === '' ? null : Number(displayedValue);
+                    // A saved count keeps the quantity on record when it was saved; a draft will be saved against the current one.
+                    const systemQuantity = savedCount && draft === undefined
+                      ? savedCount.systemQuantity
+                      : liveQuantities.get(line.itemId) ?? line.systemQuantity;
+                    const variance = counted === null || Number.isNaN(counted) ? null : getCountVariance(line, { quantity: counted, systemQuantity });
+                    return (
+                      <tr key={line.itemId} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                        <td className="py-2 px-4 font-medium break-words">{line.name}</td>
+                        <td className="py-2 px-4 whitespace-nowrap">{line.location || 'N/A'}</td>
+                        <td className="py-2 px-4 text-right whitespace-nowrap">{formatQuantity(systemQuantity, line)}</td>
+                        <td className="py-2 px-4 text-right whitespace-nowrap">
+                          <Input
+                            type="number"
+                            step="any"
+                            min={0}
+                            className="h-8 w-24 ml-auto text-right"
+                            value={displayedValue}
+                            disabled={!canCount || isWorking}
+                            onChange={(e) => setDraftCounts(prev => ({ ...prev, [line.itemId]: e.target.value }))}
+                            aria-label={`Counted quantity for ${line.name}`}
+                          />
+                        </td>
+                        <td className={cn(
+                          'py-2 px-4 text-right font-semibold whitespace-nowrap',
+                          variance === null || variance === 0 ? '' : variance > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                        )}>
+                          {variance === null ? '-' : formatQuantityChange(variance, line)}
+                        </td>
+                        <td className="py-2 px-4 whitespace-nowrap text-muted-foreground">{savedCount?.countedByName || '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {canManage && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="text-destructive hover:text-destructive" disabled={isWorking}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel Stocktake
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Cancel this stocktake?</AlertDialogTitle>
+                      <AlertDialogDescription>All counts entered so far are discarded and no quantities are changed.</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Keep Counting</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleCancel} className="bg-destructive hover:bg-destructive/90">Cancel Stocktake</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {canCount && (
+                <Button variant="outline" onClick={handleSaveCounts} disabled={isWorking}>
+                  {isWorking ? <LoadingSpinner size={16} className="mr-2" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save Counts
+                </Button>
+              )}
+              {canManage && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={isWorking || countedCount === 0}>
+                      <ClipboardCheck className="mr-2 h-4 w-4" />
+                      Post Variances
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Post stocktake variances?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every counted item is changed by its variance and an adjustment is recorded in its history, so stock
+                        that moved since it was counted is kept. Items that were not counted are left unchanged. A variance report is printed and archived.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Back</AlertDialogCancel>
+                      <AlertDialogAction onClick={handlePost}>Post Variances</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { doc, getDoc } from 'firebase/firestore';
+
+import { PageHeader } from '@/components/PageHeader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Pencil, PlusCircle, Trash2, Truck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { EmptyState } from '@/components/EmptyState';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import { createSupplier, deleteSupplier, fetchSuppliers, updateSupplier } from '@/lib/suppliers';
+import type { Supplier, Warehouse } from '@/lib/types';
+
+const supplierFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Supplier name is required.' }).max(100),
+  contactName: z.string().max(100).optional(),
+  email: z.union([z.literal(''), z.string().trim().email({ message: 'Enter a valid email address.' })]).optional(),
+  phone: z.string().max(40).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+type SupplierFormValues = z.infer<typeof supplierFormSchema>;
+
+const emptySupplierForm: SupplierFormValues = { name: '', contactName: '', email: '', phone: '', notes: '' };
+
+export default function SuppliersPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user } = useAuthUser();
+  const warehouseId = params.warehouseId as string;
+
+  const [warehouse, setWarehouse] = React.useState<Warehouse | null>(null);
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editingSupplier, setEditingSupplier] = React.useState<Supplier | null>(null);
+
+  const canManage = canPerform(warehouse, user?.uid, 'manageItems');
+
+  const form = useForm<SupplierFormValues>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: emptySupplierForm,
+  });
+
+  const loadSuppliers = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const warehouseSnap = await getDoc(doc(db, 'warehouses', warehouseId));
+      if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+        toast({ title: "Warehouse Not Found", description: "The requested warehouse does not exist or has been archived.", variant: "destructive" });
+        router.push('/warehouses');
+        return;
+      }
+      const data = warehouseSnap.data();
+      setWarehouse({
+        id: warehouseSnap.id,
+        name: data.name,
+        description: data.description,
+        isArchived: data.isArchived,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+        ownerId: data.ownerId,
+        members: data.members,
+        memberIds: data.memberIds,
+      } as Warehouse);
+      setSuppliers(await fetchSuppliers(warehouseId));
+    } catch (error) {
+      console.error("Failed to load suppliers from Firestore", error);
+      toast({ title: "Error", description: "Failed to load suppliers.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, router, toast]);
+
+  React.useEffect(() => {
+    if (warehouseId && user) {
+      loadSuppliers();
+    }
+  }, [warehouseId, user, loadSuppliers]);
+
+  const openDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    form.reset(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      notes: supplier.notes || '',
+    } : emptySupplierForm);
+    setIsDialogOpen(true);
+  };
+
+  async function onSubmit(values: SupplierFormValues) {
+    if (!warehouse || !canManage) return;
+    const duplicate = suppliers.find(supplier =>
+      supplier.id !== editingSupplier?.id && supplier.name.toLowerCase() === values.name.trim().toLowerCase());
+    if (duplicate) {
+      form.setError('name', { type: 'manual', message: `${duplicate.name} is already in the directory.` });
+      return;
+    }
+    try {
+      if (editingSupplier) {
+        await updateSupplier(warehouse.id, editingSupplier.id, values);
+        toast({ title: "Supplier Updated", description: `${values.name.trim()} was updated.` });
+      } else {
+        await createSupplier(warehouse.id, values);
+        toast({ title: "Supplier Added", description: `${values.name.trim()} was added to the directory.` });
+      }
+      setIsDialogOpen(false);
+      await loadSuppliers();
+    } catch (error) {
+      console.error("Failed to save supplier to Firestore", error);
+      toast({ title: "Error", description: "Failed to save supplier.", variant: "destructive" });
+    }
+  }
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!warehouse || !canManage) return;
+    try {
+      await deleteSupplier(warehouse.id, supplier.id);
+      toast({ title: "Supplier Deleted", description: `${supplier.name} was removed from the directory.` });
+      await loadSuppliers();
+    } catch (error: any) {
+      console.error("Failed to delete supplier from Firestore", error);
+      toast({ title: "Error", description: error.message || "Failed to delete supplier.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading && !warehouse) {
+    return <div className="flex justify-center items-center h-[calc(100vh-200px)]"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!warehouse) {
+    return (
+      <div className="flex h-full w-full items-center justify-center">
+        <p>Warehouse data could not be loaded. You may be redirected shortly.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageHeader
+        title={`Suppliers: ${warehouse.name}`}
+        description="The suppliers this warehouse orders stock from."
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/warehouses/${warehouse.id}/purchase-orders`}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Purchase Orders
+              </Link>
+            </Button>
+            {canManage && (
+              <Button onClick={() => openDialog(null)}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Supplier
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      {suppliers.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <EmptyState
+              IconComponent={Truck}
+              title="No Suppliers Yet"
+              description={canManage
+                ? "Add the suppliers you order from so purchase orders can be raised against them."
+                : "A manager needs to add the suppliers of this warehouse."}
+              action={canManage ? { label: "Add Supplier", onClick: () => openDialog(null), icon: PlusCircle } : undefined}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <CardHeader>
+            <CardTitle>Supplier Directory</CardTitle>
+            <CardDescription>{suppliers.length} supplier(s).</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="bg-background/90 dark:bg-card/80">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Name</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Contact</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Email</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Phone</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground break-words">Notes</th>
+                    {canManage && <th className="py-3 px-4" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppliers.map(supplier => (
+                    <tr key={supplier.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-2 px-4 whitespace-nowrap font-medium">{supplier.name}</td>
+                      <td className="py-2 px-4 whitespace-nowrap">{supplier.contactName || '-'}</td>
+                      <td className="py-2 px-4 whitespace-nowrap">
+                        {supplier.email ? <a href={`mailto:${supplier.email}`} className="text-primary hover:underline">{supplier.email}</a> : '-'}
+                      </td>
+                      <td className="py-2 px-4 whitespace-nowrap">{supplier.phone || '-'}</td>
+                      <td className="py-2 px-4 break-words text-muted-foreground">{supplier.notes || '-'}</td>
+                      {canManage && (
+                        <td className="py-2 px-4 text-right whitespace-nowrap">
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(supplier)} aria-label={`Edit ${supplier.name}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" aria-label={`Delete ${supplier.name}`}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {supplier.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  The supplier is removed from the directory. Received purchase orders keep the supplier&apos;s name;
+                                  suppliers with open orders cannot be deleted.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(supplier)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? `Edit ${editingSupplier.name}` : 'Add Supplier'}</DialogTitle>
+            <DialogDescription>
+              {editingSupplier ? 'Open purchase orders keep the name they were raised with.' : 'Only the name is required.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Acme Packaging Ltd." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contactName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Person (Optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="tel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="e.g., Lead time, payment terms" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">Cancel</Button>
+                </DialogClose>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                  {editingSupplier ? 'Save Changes' : 'Add Supplier'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -7,7 +7,6 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Link from 'next/link';
-import { User as FirebaseUser, onAuthStateChanged } from 'firebase/auth';
 
 import { PageHeader } from '@/components/PageHeader';
 import { Button } from '@/components/ui/button';
@@ -24,9 +23,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
-import { db, auth } from '@/lib/firebase';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { useAuthUser } from '@/hooks/use-auth-user';
+import { db } from '@/lib/firebase';
+import { collection, doc, serverTimestamp, writeBatch } from 'firebase/firestore';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ownerMembership, toMemberProfile } from '@/lib/membership';
+import { newWarehouseActivityRef, toWarehouseActivityData } from '@/lib/warehouses';
 
 const warehouseFormSchema = z.object({
   name: z.string().min(2, {
@@ -41,8 +43,7 @@ export default function NewWarehousePage() {
   const router = useRouter();
   const { toast } = useToast();
   const [isSaving, setIsSaving] = React.useState(false);
-  const [currentUser, setCurrentUser] = React.useState<FirebaseUser | null>(null);
-  const [isAuthLoading, setIsAuthLoading] = React.useState(true);
+  const { user: currentUser, actor, isAuthLoading } = useAuthUser();
 
   const form = useForm<WarehouseFormValues>({
     resolver: zodResolver(warehouseFormSchema),
@@ -53,19 +54,14 @@ export default function NewWarehousePage() {
   });
 
   React.useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setCurrentUser(user);
-      setIsAuthLoading(false);
-      if (!user) {
-        // Redirect to sign-in if not authenticated, though layout should also handle this
-        router.push('/signin');
-      }
-    });
-    return () => unsubscribe();
-  }, [router]);
+    if (!isAuthLoading && !currentUser) {
+      // Redirect to sign-in if not authenticated, though layout should also handle this
+      router.push('/signin');
+    }
+  }, [isAuthLoading, currentUser, router]);
 
   async function onSubmit(data: WarehouseFormValues) {
-    if (!currentUser) {
+    if (!currentUser || !actor) {
       toast({
         title: "Authentication Error",
         description: "You must be logged in to create a warehouse.",
@@ -82,10 +78,17 @@ export default function NewWarehousePage() {
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
       ownerId: currentUser.uid, // Add ownerId
+      ...ownerMembership(currentUser.uid, toMemberProfile(actor.username, currentUser.email)),
     };
 
     try {
-      await addDoc(collection(db, "warehouses"), newWarehouseData);
+      const warehouseDocRef = doc(collection(db, "warehouses"));
+      const batch = writeBatch(db);
+      batch.set(warehouseDocRef, newWarehouseData);
+      batch.set(newWarehouseActivityRef(warehouseDocRef.id), toWarehouseActivityData('CREATE_WAREHOUSE', actor, {
+        comment: 'Warehouse created',
+      }));
+      await batch.commit();
       toast({ title: "Warehouse Created", description: `${data.name} has been successfully created.` });
       router.push('/warehouses');
     } catch (error) {
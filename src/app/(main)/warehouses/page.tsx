@@ -8,6 +8,7 @@ import { PageHeader } from "@/components/PageHeader";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { PlusCircle, Home, Trash2, Printer, Eye, Repeat, Search } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
 import {
@@ -22,13 +23,19 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import type { Warehouse, Item, ArchivedReport } from '@/lib/types'; // Ensure Warehouse type is appropriate
+import { useAuthUser } from "@/hooks/use-auth-user";
+import type { Warehouse, Item, ArchivedReport, WarehouseReportItem } from '@/lib/types'; // Ensure Warehouse type is appropriate
 import { cn } from "@/lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { PrintableWarehouseReport } from '@/components/PrintableWarehouseReport';
 import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where, orderBy, doc, updateDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { collection, getDocs, query, where, orderBy, doc, writeBatch, serverTimestamp } from 'firebase/firestore';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { PendingInvitations } from '@/components/PendingInvitations';
+import { backfillOwnerMembership, canPerform, syncMemberProfile } from '@/lib/membership';
+import { fetchWarehouseReportItems, saveArchivedReport } from '@/lib/reports';
+import { newWarehouseActivityRef, toWarehouseActivityData } from '@/lib/warehouses';
+import { fetchReorderCounts } from '@/lib/reorder';
 
 const AppLogo = ({ className }: { className?: string }) => (
   <svg
@@ -76,17 +83,23 @@ const AppLogoAndBrand = () => {
 
 export default function WarehousesPage() {
   const [allActiveWarehouses, setAllActiveWarehouses] = React.useState<Warehouse[]>([]);
+  const [reorderCounts, setReorderCounts] = React.useState<Map<string, number>>(new Map());
   const [isLoading, setIsLoading] = React.useState(true);
   const [showAll, setShowAll] = React.useState(false);
   const [selectedWarehouseForArchive, setSelectedWarehouseForArchive] = React.useState<Warehouse | null>(null);
   const [searchTerm, setSearchTerm] = React.useState("");
   const { toast } = useToast();
+  const { user, actor, isAuthLoading } = useAuthUser();
 
   const loadWarehouses = React.useCallback(async () => {
+    if (!user) return;
     setIsLoading(true);
     try {
+      await backfillOwnerMembership(user.uid);
+      await syncMemberProfile(user.uid, user.email);
       const q = query(
         collection(db, "warehouses"), 
+        where("memberIds", "array-contains", user.uid),
         where("isArchived", "==", false), 
         orderBy("updatedAt", "desc")
       );
@@ -101,37 +114,50 @@ export default function WarehousesPage() {
           // Convert Firestore Timestamps to ISO strings for client-side use
           createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
           updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
-          ownerId: "placeholder-owner-id",
+          ownerId: data.ownerId,
+          members: data.members,
+          memberIds: data.memberIds,
         } as Warehouse;
       });
       setAllActiveWarehouses(warehousesFromFirestore);
+      setReorderCounts(await fetchReorderCounts(warehousesFromFirestore.map(wh => wh.id)));
     } catch (error) {
       console.error("Error loading warehouses from Firestore: ", error);
       toast({ title: "Error", description: "Failed to load warehouses.", variant: "destructive" });
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [toast, user]);
 
   React.useEffect(() => {
+    if (!isAuthLoading && !user) {
+      setIsLoading(false);
+      return;
+    }
     loadWarehouses();
-  }, [loadWarehouses]);
+  }, [isAuthLoading, user, loadWarehouses]);
 
   const handleArchiveWarehouse = async () => {
-    if (!selectedWarehouseForArchive) return;
+    if (!selectedWarehouseForArchive || !actor) return;
+    if (!canPerform(selectedWarehouseForArchive, user?.uid, 'archiveWarehouse')) {
+      toast({ title: "Not Allowed", description: "Only the warehouse owner can archive it.", variant: "destructive" });
+      setSelectedWarehouseForArchive(null);
+      return;
+    }
 
     setIsLoading(true); // Consider a more specific loading state for this action
     try {
-      const warehouseDocRef = doc(db, "warehouses", selectedWarehouseForArchive.id);
-      await updateDoc(warehouseDocRef, {
-        isArchived: true,
-        updatedAt: serverTimestamp(),
-      });
-
-      // Archive items in the warehouse (Firestore batch write)
+      // Archive the warehouse, its activity entry and its items in one batch write
       const itemsQuery = query(collection(db, "items"), where("warehouseId", "==", selectedWarehouseForArchive.id));
       const itemsSnapshot = await getDocs(itemsQuery);
       const batch = writeBatch(db);
+      batch.update(doc(db, "warehouses", selectedWarehouseForArchive.id), {
+        isArchived: true,
+        updatedAt: serverTimestamp(),
+      });
+      batch.set(newWarehouseActivityRef(selectedWarehouseForArchive.id), toWarehouseActivityData('DELETE_WAREHOUSE', actor, {
+        comment: `Warehouse archived with ${itemsSnapshot.size} item(s)`,
+      }));
       itemsSnapshot.docs.forEach(itemDoc => {
         batch.update(itemDoc.ref, { isArchived: true, updatedAt: serverTimestamp() });
       });
@@ -148,13 +174,17 @@ export default function WarehousesPage() {
     }
   };
 
-  const handlePrintWarehouseReport = (warehouseToPrint: Warehouse) => {
-    // This function will need to be updated to fetch items from Firestore
-    // For now, let's keep the existing logic but acknowledge it needs update
-    console.warn("handlePrintWarehouseReport needs to be updated to fetch items from Firestore");
-    
-    // Placeholder for items - in a real scenario, fetch from Firestore
-    const warehouseItems: { name: string; quantity: number }[] = []; 
+  const handlePrintWarehouseReport = async (warehouseToPrint: Warehouse) => {
+    if (!actor) return;
+
+    let warehouseItems: WarehouseReportItem[];
+    try {
+      warehouseItems = await fetchWarehouseReportItems(warehouseToPrint.id);
+    } catch (error) {
+      console.error("Failed to load warehouse items for report", error);
+      toast({ title: "Print Error", description: "Failed to load the warehouse's items.", variant: "destructive" });
+      return;
+    }
 
     const printableArea = document.createElement('div');
     printableArea.id = 'printable-report-area';
@@ -164,39 +194,43 @@ export default function WarehousesPage() {
     root.render(
       <PrintableWarehouseReport
         warehouse={warehouseToPrint}
-        items={warehouseItems} // This needs to be actual items
-        printedBy="Admin User" 
+        items={warehouseItems}
+        printedBy={actor.username}
         printDate={new Date()}
       />
     );
 
     setTimeout(() => {
       window.print();
-      setTimeout(() => {
+      setTimeout(async () => {
         root.unmount();
         if (document.body.contains(printableArea)) {
           document.body.removeChild(printableArea);
         }
-        // Archiving logic for reports remains (uses localStorage for now)
         const now = new Date();
-        const archivedReport: ArchivedReport = {
-          id: `${warehouseToPrint.id}-wh-report-${now.getTime()}`,
+        const archivedReport: Omit<ArchivedReport, 'id'> = {
           reportType: 'WAREHOUSE',
           warehouseId: warehouseToPrint.id,
           warehouseName: warehouseToPrint.name,
           warehouseDescription: warehouseToPrint.description,
-          printedBy: "Admin User",
+          printedBy: actor.username,
           printedAt: now.toISOString(),
           itemsSnapshot: warehouseItems,
         };
-        const existingReportsString = localStorage.getItem('archivedReports');
-        const existingReports: ArchivedReport[] = existingReportsString ? JSON.parse(existingReportsString) : [];
-        existingReports.push(archivedReport);
-        localStorage.setItem('archivedReports', JSON.stringify(existingReports));
-        toast({
-          title: "Report Archived",
-          description: `Report for warehouse ${warehouseToPrint.name} has been saved to localStorage.`,
-        });
+        try {
+          await saveArchivedReport(archivedReport, actor.uid);
+          toast({
+            title: "Report Archived",
+            description: `Report for warehouse ${warehouseToPrint.name} has been saved.`,
+          });
+        } catch (error) {
+          console.error("Failed to archive report:", error);
+          toast({
+            title: "Archiving Error",
+            description: "Failed to save report due to an error.",
+            variant: "destructive",
+          });
+        }
       }, 3000); 
     }, 250); 
   };
@@ -219,6 +253,7 @@ export default function WarehousesPage() {
       }
     }}>
       <AppLogoAndBrand />
+      {user && actor && <PendingInvitations actor={actor} email={user.email} emailVerified={user.emailVerified} onAccepted={loadWarehouses} />}
       <PageHeader
         title="Warehouses"
         description="Manage all your storage locations from here."
@@ -268,6 +303,11 @@ export default function WarehousesPage() {
                     {warehouse.description && (
                       <CardDescription className="text-sm text-muted-foreground line-clamp-2 break-words mt-1">{warehouse.description}</CardDescription> 
                     )}
+                    {(reorderCounts.get(warehouse.id) || 0) > 0 && (
+                      <Badge variant="outline" className="mt-2 w-fit border-amber-500 text-amber-700 dark:text-amber-400">
+                        {reorderCounts.get(warehouse.id)} low stock
+                      </Badge>
+                    )}
                   </CardHeader>
                 </Link>
                 <div className="flex items-center justify-end gap-1 p-3 pt-0 border-t mt-auto"> 
@@ -279,16 +319,18 @@ export default function WarehousesPage() {
                     </TooltipTrigger>
                     <TooltipContent><p>Print Warehouse Report</p></TooltipContent>
                   </Tooltip>
-                  <AlertDialogTrigger asChild>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => setSelectedWarehouseForArchive(warehouse)} aria-label={`Archive ${warehouse.name}`}>
-                              <Trash2 className="h-4 w-4" />
-                          </Button>
-                      </TooltipTrigger>
-                      <TooltipContent><p>Archive Warehouse</p></TooltipContent>
-                    </Tooltip>
-                  </AlertDialogTrigger>
+                  {canPerform(warehouse, user?.uid, 'archiveWarehouse') && (
+                    <AlertDialogTrigger asChild>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => setSelectedWarehouseForArchive(warehouse)} aria-label={`Archive ${warehouse.name}`}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent><p>Archive Warehouse</p></TooltipContent>
+                      </Tooltip>
+                    </AlertDialogTrigger>
+                  )}
                 </div>
               </Card>
             ))}
@@ -4,7 +4,7 @@
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import * as React from "react";
-import { Home, Warehouse, Package, FileText, Archive as ArchiveIcon, UserCircle, Bot, LogOut } from "lucide-react";
+import { Home, Warehouse, Package, FileText, Archive as ArchiveIcon, UserCircle, Bot, LogOut, ShoppingCart } from "lucide-react";
 import { onAuthStateChanged, signOut, type User as FirebaseUser } from "firebase/auth"; // Import User type
 import { doc, getDoc } from "firebase/firestore";
 
@@ -141,6 +141,19 @@ export function AppSidebar() {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              asChild
+              isActive={isActive("/reorder")}
+              tooltip={state === "collapsed" ? "Needs Reorder" : undefined}
+              onClick={handleLinkClick}
+            >
+              <Link href="/reorder">
+                <ShoppingCart />
+                <span>Needs Reorder</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
           <SidebarMenuItem>
             <SidebarMenuButton
               asChild
@@ -0,0 +1,197 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { assembleKit, disassembleKit, getComponentRequirements, getMaxAssemblable } from '@/lib/kits';
+import { getAvailableQuantity, getReservedQuantity } from '@/lib/reservations';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import type { ActingUser, Item } from '@/lib/types';
+
+type AssemblyDirection = 'ASSEMBLE' | 'DISASSEMBLE';
+
+const assemblyFormSchema = z.object({
+  kits: z.coerce
+    .number({ invalid_type_error: 'Quantity must be a number.' })
+    .positive({ message: 'Quantity must be a positive number.' }),
+  comment: z.string().optional(),
+});
+
+type AssemblyFormValues = z.infer<typeof assemblyFormSchema>;
+
+interface AssembleKitDialogProps {
+  kit: Item | null;
+  items: Item[]; // The active items of the kit's warehouse
+  actor: ActingUser | null;
+  onOpenChange: (open: boolean) => void;
+  onAssembled: () => void;
+}
+
+export function AssembleKitDialog({ kit, items, actor, onOpenChange, onAssembled }: AssembleKitDialogProps) {
+  const { toast } = useToast();
+  const [direction, setDirection] = React.useState<AssemblyDirection>('ASSEMBLE');
+
+  const form = useForm<AssemblyFormValues>({
+    resolver: zodResolver(assemblyFormSchema),
+    defaultValues: { kits: 1, comment: '' },
+  });
+
+  React.useEffect(() => {
+    if (!kit) return;
+    setDirection('ASSEMBLE');
+    form.reset({ kits: 1, comment: '' });
+  }, [kit, form]);
+
+  const kits = Number(form.watch('kits')) || 0;
+  const requirements = kit ? getComponentRequirements(kit, items, kits) : [];
+
+  async function onSubmit(data: AssemblyFormValues) {
+    if (!kit || !actor) return;
+    const precision = getItemPrecision(kit);
+    if (!hasPrecision(data.kits, precision)) {
+      form.setError('kits', { type: 'manual', message: precisionError(precision) });
+      return;
+    }
+    if (direction === 'ASSEMBLE' && requirements.some(line => line.short > 0)) {
+      form.setError('kits', { type: 'manual', message: 'There are not enough components available; see the lines marked in red.' });
+      return;
+    }
+    if (direction === 'DISASSEMBLE' && data.kits > getAvailableQuantity(kit)) {
+      form.setError('kits', {
+        type: 'manual',
+        message: getReservedQuantity(kit) > 0
+          ? `Only ${formatQuantity(Math.max(0, getAvailableQuantity(kit)), kit)} can be taken apart; the rest is reserved.`
+          : `Cannot take apart more kits than are in stock (${formatQuantity(kit.quantity, kit)}).`,
+      });
+      return;
+    }
+
+    try {
+      const input = { kitId: kit.id, kits: data.kits, comment: data.comment?.trim(), actor };
+      if (direction === 'ASSEMBLE') {
+        await assembleKit(input);
+      } else {
+        await disassembleKit(input);
+      }
+      toast({
+        title: direction === 'ASSEMBLE' ? "Kits Assembled" : "Kits Taken Apart",
+        description: direction === 'ASSEMBLE'
+          ? `${formatQuantity(data.kits, kit)} of ${kit.name} assembled from ${requirements.length} component(s).`
+          : `${formatQuantity(data.kits, kit)} of ${kit.name} taken apart; the components are back in stock.`,
+      });
+      onOpenChange(false);
+      onAssembled();
+    } catch (error) {
+      if (error instanceof StockAdjustmentError && (error.code === 'insufficient-stock' || error.code === 'invalid-quantity')) {
+        form.setError('kits', { type: 'manual', message: error.message });
+        return;
+      }
+      console.error("Failed to assemble kit in Firestore", error);
+      toast({
+        title: "Error",
+        description: error instanceof StockAdjustmentError ? error.message : "Failed to update the kit and its components.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!kit} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{direction === 'ASSEMBLE' ? 'Assemble' : 'Take Apart'} {kit?.name}</DialogTitle>
+          <DialogDescription>
+            {kit && `In stock: ${formatQuantity(kit.quantity, kit)}. The available components are enough for ${formatQuantity(getMaxAssemblable(kit, items), kit)} more. `}
+            The kit and every component are updated together, or not at all.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="assembly-direction">Action</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as AssemblyDirection)}>
+                <SelectTrigger id="assembly-direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ASSEMBLE">Assemble kits from components</SelectItem>
+                  <SelectItem value="DISASSEMBLE">Take kits apart into components</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <FormField
+              control={form.control}
+              name="kits"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kits to {direction === 'ASSEMBLE' ? 'assemble' : 'take apart'} ({getItemUnit(kit ?? undefined)})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <table className="text-xs border-collapse min-w-full">
+              <thead className="bg-muted/80 dark:bg-muted/60">
+                <tr>
+                  <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Component</th>
+                  <th className="py-1.5 px-3 text-right font-medium text-muted-foreground whitespace-nowrap">{direction === 'ASSEMBLE' ? 'Needed' : 'Returned'}</th>
+                  <th className="py-1.5 px-3 text-right font-medium text-muted-foreground whitespace-nowrap">Available</th>
+                </tr>
+              </thead>
+              <tbody>
+                {requirements.map(line => (
+                  <tr key={line.itemId} className="border-b border-border/50 last:border-b-0">
+                    <td className="py-1.5 px-3">{line.item?.name ?? `${line.name} (archived)`}</td>
+                    <td className="py-1.5 px-3 text-right whitespace-nowrap">{formatQuantity(line.required, line.item)}</td>
+                    <td className={cn(
+                      'py-1.5 px-3 text-right whitespace-nowrap',
+                      direction === 'ASSEMBLE' && line.short > 0 && 'text-red-600 dark:text-red-400 font-semibold'
+                    )}>
+                      {formatQuantity(line.available, line.item)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comment (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Work order for the trade show" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                {direction === 'ASSEMBLE' ? 'Assemble' : 'Take Apart'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
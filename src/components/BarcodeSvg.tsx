@@ -0,0 +1,44 @@
+import { encodeBarcode } from '@/lib/barcodes';
+import type { BarcodeFormat } from '@/lib/types';
+
+interface BarcodeSvgProps {
+  value: string;
+  format: BarcodeFormat;
+  height?: number; // In modules
+  className?: string;
+}
+
+const QUIET_ZONE = 10;
+
+// Draws one rect per run of bars so the SVG stays small and prints crisply.
+export function BarcodeSvg({ value, format, height = 40, className }: BarcodeSvgProps) {
+  const modules = encodeBarcode(value, format);
+  const bars: { x: number; width: number }[] = [];
+  for (let index = 0; index < modules.length; index++) {
+    if (modules[index] !== '1') continue;
+    const last = bars[bars.length - 1];
+    if (last && last.x + last.width === index + QUIET_ZONE) {
+      last.width += 1;
+    } else {
+      bars.push({ x: index + QUIET_ZONE, width: 1 });
+    }
+  }
+  const width = modules.length + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      <rect x={0} y={0} width={width} height={height} fill="white" />
+      {bars.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="black" />
+      ))}
+    </svg>
+  );
+}
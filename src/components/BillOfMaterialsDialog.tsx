@@ -0,0 +1,186 @@
+'use client';
+
+import * as React from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { describeComponentProblem, MAX_KIT_COMPONENTS, updateBillOfMaterials } from '@/lib/kits';
+import { getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import type { ActingUser, Item } from '@/lib/types';
+
+const componentLineSchema = z.object({
+  itemId: z.string().min(1, { message: 'Choose a component.' }),
+  quantity: z.coerce.number({ invalid_type_error: 'Quantity must be a number.' }).positive({ message: 'Quantity must be more than zero.' }),
+});
+
+const billOfMaterialsSchema = z
+  .object({
+    lines: z.array(componentLineSchema).max(MAX_KIT_COMPONENTS, { message: `A kit can have at most ${MAX_KIT_COMPONENTS} components.` }),
+  })
+  .superRefine((values, ctx) => {
+    values.lines.forEach((line, index) => {
+      if (line.itemId && values.lines.findIndex(other => other.itemId === line.itemId) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'This component is already listed.', path: ['lines', index, 'itemId'] });
+      }
+    });
+  });
+
+type BillOfMaterialsValues = z.infer<typeof billOfMaterialsSchema>;
+
+const emptyLine = { itemId: '', quantity: 1 };
+
+interface BillOfMaterialsDialogProps {
+  kit: Item | null;
+  items: Item[]; // The active items of the kit's warehouse
+  actor: ActingUser | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function BillOfMaterialsDialog({ kit, items, actor, onOpenChange, onSaved }: BillOfMaterialsDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<BillOfMaterialsValues>({
+    resolver: zodResolver(billOfMaterialsSchema),
+    defaultValues: { lines: [] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lines' });
+
+  React.useEffect(() => {
+    if (!kit) return;
+    form.reset({
+      lines: (kit.components ?? []).length > 0
+        ? kit.components!.map(component => ({ itemId: component.itemId, quantity: component.quantity }))
+        : [emptyLine],
+    });
+  }, [kit, form]);
+
+  const candidates = React.useMemo(
+    () => (kit ? items.filter(item => !describeComponentProblem(kit, item)).sort((a, b) => a.name.localeCompare(b.name)) : []),
+    [kit, items]
+  );
+
+  async function onSubmit(values: BillOfMaterialsValues) {
+    if (!kit || !actor) return;
+    for (const [index, line] of values.lines.entries()) {
+      const component = items.find(item => item.id === line.itemId);
+      if (component && !hasPrecision(line.quantity, getItemPrecision(component))) {
+        form.setError(`lines.${index}.quantity`, { type: 'manual', message: precisionError(getItemPrecision(component)) });
+        return;
+      }
+    }
+
+    try {
+      const entry = await updateBillOfMaterials(kit, values.lines, actor);
+      toast({
+        title: entry ? "Bill of Materials Saved" : "No Changes",
+        description: !entry
+          ? `The bill of materials of ${kit.name} is unchanged.`
+          : values.lines.length > 0
+            ? `${kit.name} is assembled from ${values.lines.length} component(s).`
+            : `${kit.name} is no longer a kit.`,
+      });
+      onOpenChange(false);
+      if (entry) onSaved();
+    } catch (error: any) {
+      console.error("Failed to save bill of materials to Firestore", error);
+      toast({ title: "Error", description: error.message || "Failed to save bill of materials.", variant: "destructive" });
+    }
+  }
+
+  return (
+    <Dialog open={!!kit} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bill of Materials: {kit?.name}</DialogTitle>
+          <DialogDescription>
+            The components that go into one {kit ? getItemUnit(kit) : 'unit'} of this kit. Components are items of this warehouse that
+            are not kits themselves and track neither lots nor serial numbers. Remove every line to make this a plain item again.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            <div className="space-y-2">
+              <FormLabel>Components</FormLabel>
+              {fields.map((lineField, index) => {
+                const component = items.find(candidate => candidate.id === form.watch(`lines.${index}.itemId`));
+                return (
+                  <div key={lineField.id} className="grid grid-cols-[1fr_120px_auto] items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`lines.${index}.itemId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger aria-label={`Component on line ${index + 1}`}>
+                                <SelectValue placeholder="Choose a component" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {candidates.map(candidate => (
+                                <SelectItem key={candidate.id} value={candidate.id}>
+                                  {candidate.name}{candidate.sku ? ` (${candidate.sku})` : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {component && <p className="text-xs text-muted-foreground">Per kit, in {getItemUnit(component)}</p>}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`lines.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" step="any" min={0} aria-label={`Quantity per kit on line ${index + 1}`} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-10 w-10 text-destructive hover:text-destructive"
+                      onClick={() => remove(index)}
+                      aria-label={`Remove line ${index + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              {fields.length === 0 && <p className="text-sm text-muted-foreground">No components; this item is not a kit.</p>}
+              <Button type="button" variant="outline" size="sm" onClick={() => append(emptyLine)} disabled={fields.length >= MAX_KIT_COMPONENTS || candidates.length === 0}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Component
+              </Button>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                Save Bill of Materials
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { daysUntilExpiry, getExpiryStatus } from '@/lib/lots';
+
+interface ExpiryBadgeProps {
+  expiryDate?: string;
+  className?: string;
+}
+
+// Renders nothing unless the date has passed or is within the warning window.
+export function ExpiryBadge({ expiryDate, className }: ExpiryBadgeProps) {
+  const status = getExpiryStatus(expiryDate);
+  if (!expiryDate || status === 'ok') return null;
+  const daysLeft = daysUntilExpiry(expiryDate);
+  return (
+    <Badge
+      variant={status === 'expired' ? 'destructive' : 'outline'}
+      className={cn(status === 'expiring' && 'border-amber-500 text-amber-700 dark:text-amber-400', className)}
+    >
+      {status === 'expired' ? 'Expired' : daysLeft === 0 ? 'Expires today' : `Expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+    </Badge>
+  );
+}
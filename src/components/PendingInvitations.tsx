@@ -0,0 +1,141 @@
+'use client';
+
+import * as React from 'react';
+import { sendEmailVerification } from 'firebase/auth';
+import { Check, Mail, RefreshCw, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import type { ActingUser, Invitation } from '@/lib/types';
+import { acceptInvitation, declineInvitation, fetchPendingInvitationsForEmail } from '@/lib/invitations';
+import { formatRole, toMemberProfile } from '@/lib/membership';
+
+interface PendingInvitationsProps {
+  actor: ActingUser;
+  email: string | null;
+  emailVerified: boolean; // Invitations can only be answered from a verified address
+  onAccepted: () => void;
+}
+
+export function PendingInvitations({ actor, email, emailVerified, onAccepted }: PendingInvitationsProps) {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = React.useState<Invitation[]>([]);
+  const [respondingId, setRespondingId] = React.useState<string | null>(null);
+  const [isVerified, setIsVerified] = React.useState(emailVerified);
+  const [isCheckingVerification, setIsCheckingVerification] = React.useState(false);
+
+  React.useEffect(() => setIsVerified(emailVerified), [emailVerified]);
+
+  React.useEffect(() => {
+    if (!email) return;
+    fetchPendingInvitationsForEmail(email)
+      .then(setInvitations)
+      .catch((error) => console.error("Failed to load pending invitations", error));
+  }, [email]);
+
+  const handleRespond = async (invitation: Invitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    try {
+      if (accept) {
+        await acceptInvitation(invitation, actor.uid, toMemberProfile(actor.username, email));
+        toast({ title: "Invitation Accepted", description: `You now have access to ${invitation.warehouseName}.` });
+        onAccepted();
+      } else {
+        await declineInvitation(invitation);
+        toast({ title: "Invitation Declined", description: `You declined the invitation to ${invitation.warehouseName}.` });
+      }
+      setInvitations(prev => prev.filter(inv => inv.id !== invitation.id));
+    } catch (error: any) {
+      console.error("Failed to respond to invitation", error);
+      toast({ title: "Error", description: error.message || "Could not respond to the invitation.", variant: "destructive" });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleSendVerification = async () => {
+    if (!auth.currentUser) return;
+    try {
+      await sendEmailVerification(auth.currentUser);
+      toast({ title: "Verification Email Sent", description: `Follow the link sent to ${email}, then check again here.` });
+    } catch (error: any) {
+      console.error("Failed to send verification email", error);
+      toast({ title: "Error", description: error.message || "Could not send the verification email.", variant: "destructive" });
+    }
+  };
+
+  // The security rules read email_verified from the ID token, so refresh it after verifying.
+  const handleCheckVerification = async () => {
+    if (!auth.currentUser) return;
+    setIsCheckingVerification(true);
+    try {
+      await auth.currentUser.reload();
+      if (auth.currentUser.emailVerified) {
+        await auth.currentUser.getIdToken(true);
+        setIsVerified(true);
+      } else {
+        toast({ title: "Not Verified Yet", description: `${email} has not been verified yet.`, variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Failed to refresh email verification", error);
+    } finally {
+      setIsCheckingVerification(false);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-primary/40">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Mail className="h-5 w-5 text-primary" />
+          Pending Invitations
+        </CardTitle>
+        <CardDescription>You have been invited to join the following warehouses.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!isVerified && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-500 p-3 text-amber-700 dark:text-amber-400">
+            <p className="text-sm">Verify {email} before accepting or declining an invitation.</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleSendVerification}>
+                <Mail className="mr-2 h-4 w-4" />
+                Send Verification Email
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleCheckVerification} disabled={isCheckingVerification}>
+                {isCheckingVerification ? <LoadingSpinner size={16} className="mr-2" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                I&apos;ve Verified
+              </Button>
+            </div>
+          </div>
+        )}
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+            <div>
+              <p className="font-medium">{invitation.warehouseName}</p>
+              <p className="text-sm text-muted-foreground">
+                Role: {formatRole(invitation.role)}
+                {invitation.invitedByName ? ` · Invited by ${invitation.invitedByName}` : ''}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleRespond(invitation, true)} disabled={!isVerified || respondingId === invitation.id}>
+                {respondingId === invitation.id ? <LoadingSpinner size={16} className="mr-2" /> : <Check className="mr-2 h-4 w-4" />}
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleRespond(invitation, false)} disabled={!isVerified || respondingId === invitation.id}>
+                <X className="mr-2 h-4 w-4" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
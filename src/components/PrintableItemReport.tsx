@@ -6,6 +6,7 @@ import type { Item, HistoryEntry } from '@/lib/types';
 import { format } from 'date-fns';
 import { Package, ArrowUpCircle, ArrowDownCircle, Home } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatQuantity, formatQuantityChange, getItemPrecision, roundQuantity } from '@/lib/units';
 
 // Define the logo component to be used in reports
 const ReportLogo = ({ className }: { className?: string }) => (
@@ -42,15 +43,26 @@ const translateHistoryType = (type: HistoryEntry['type']): string => {
       return 'Stock Consumed';
     case 'ADJUST_STOCK':
       return 'Stock Adjusted';
+    case 'UPDATE_ITEM':
+      return 'Item Updated';
+    case 'TRANSFER_OUT':
+      return 'Transferred Out';
+    case 'TRANSFER_IN':
+      return 'Transferred In';
+    case 'ASSEMBLE':
+      return 'Assembled';
+    case 'DISASSEMBLE':
+      return 'Disassembled';
     default:
       return type.replace(/_/g, ' ');
   }
 };
 
 
-export function PrintableItemReport({ warehouseName, item, printedBy, printDate }: {
+export function PrintableItemReport({ warehouseName, item, history, printedBy, printDate }: {
   warehouseName?: string;
   item: Item | null;
+  history: HistoryEntry[];
   printedBy: string;
   printDate: Date;
 }) {
@@ -58,12 +70,12 @@ export function PrintableItemReport({ warehouseName, item, printedBy, printDate
     return <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>Error: Item data is missing for the report.</div>;
   }
 
-  const sortedHistory = [...(item.history || [])].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  const sortedHistory = [...history].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
   let totalAdded = 0;
   let totalConsumed = 0;
 
-  item.history?.forEach(entry => {
+  history.forEach(entry => {
     if (entry.type === 'ADD_STOCK' || (entry.type === 'CREATE_ITEM' && entry.change > 0) || (entry.type === 'ADJUST_STOCK' && entry.change > 0)) {
       totalAdded += entry.change;
     } else if (entry.type === 'CONSUME_STOCK' || (entry.type === 'ADJUST_STOCK' && entry.change < 0)) {
@@ -91,17 +103,17 @@ export function PrintableItemReport({ warehouseName, item, printedBy, printDate
         <div style={{ border: '1px solid #ddd', borderRadius: '4px', padding: '10px', textAlign: 'center', backgroundColor: 'white' }}>
           <Package size={24} style={{ marginBottom: '5px', color: 'hsl(var(--primary))' }} />
           <div style={{ fontSize: '10pt', color: '#718096' }}>Current Quantity</div>
-          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: 'hsl(var(--primary))' }}>{item.quantity}</div>
+          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: 'hsl(var(--primary))' }}>{formatQuantity(item.quantity, item)}</div>
         </div>
         <div style={{ border: '1px solid #ddd', borderRadius: '4px', padding: '10px', textAlign: 'center', backgroundColor: 'white' }}>
           <ArrowUpCircle size={24} style={{ marginBottom: '5px', color: '#38a169' }} />
           <div style={{ fontSize: '10pt', color: '#718096' }}>Total Added</div>
-          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: '#38a169' }}>+{totalAdded}</div>
+          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: '#38a169' }}>+{formatQuantity(roundQuantity(totalAdded, getItemPrecision(item)), item)}</div>
         </div>
         <div style={{ border: '1px solid #ddd', borderRadius: '4px', padding: '10px', textAlign: 'center', backgroundColor: 'white' }}>
           <ArrowDownCircle size={24} style={{ marginBottom: '5px', color: '#e53e3e' }} />
           <div style={{ fontSize: '10pt', color: '#718096' }}>Total Consumed</div>
-          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: '#e53e3e' }}>-{totalConsumed}</div>
+          <div style={{ fontSize: '16pt', fontWeight: 'bold', color: '#e53e3e' }}>-{formatQuantity(roundQuantity(totalConsumed, getItemPrecision(item)), item)}</div>
         </div>
       </div>
 
@@ -118,6 +130,7 @@ export function PrintableItemReport({ warehouseName, item, printedBy, printDate
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>Change</th>
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>Qty Before</th>
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>Qty After</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>User</th>
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0', minWidth: '150px' }}>Comment</th>
             </tr>
           </thead>
@@ -131,10 +144,11 @@ export function PrintableItemReport({ warehouseName, item, printedBy, printDate
                   {translateHistoryType(entry.type)}
                 </td>
                 <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', whiteSpace: 'nowrap', color: entry.change >= 0 ? 'green' : 'red' }}>
-                  {entry.change > 0 ? `+${entry.change}` : entry.change}
+                  {formatQuantityChange(entry.change, item)}
                 </td>
-                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', whiteSpace: 'nowrap' }}>{entry.quantityBefore}</td>
-                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', whiteSpace: 'nowrap', fontWeight: 'bold' }}>{entry.quantityAfter}</td>
+                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', whiteSpace: 'nowrap' }}>{formatQuantity(entry.quantityBefore, item)}</td>
+                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', whiteSpace: 'nowrap', fontWeight: 'bold' }}>{formatQuantity(entry.quantityAfter, item)}</td>
+                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>{entry.username || 'N/A'}</td>
                 <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', minWidth: '150px' }}>{entry.comment || 'N/A'}</td>
               </tr>
             ))}
@@ -0,0 +1,48 @@
+// src/components/PrintableLabelSheet.tsx
+'use client';
+
+import { getItemLocation } from '@/lib/locations';
+import type { Item } from '@/lib/types';
+import { BarcodeSvg } from '@/components/BarcodeSvg';
+
+interface PrintableLabelSheetProps {
+  warehouseName: string;
+  items: Item[];
+}
+
+// Items with a barcode print it in its own format; the others print their SKU as Code 128.
+export const getLabelBarcode = (item: Item) =>
+  item.barcode && item.barcodeFormat
+    ? { value: item.barcode, format: item.barcodeFormat }
+    : item.sku
+      ? { value: item.sku, format: 'CODE128' as const }
+      : null;
+
+export function PrintableLabelSheet({ warehouseName, items }: PrintableLabelSheetProps) {
+  return (
+    <div style={{ fontFamily: 'Arial, sans-serif', direction: 'ltr', padding: '0', width: '100%', height: 'auto', margin: '0 auto' }} id="printable-content">
+      {/* Styles are primarily handled by print.css and @page rules */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+        {items.map((item) => {
+          const barcode = getLabelBarcode(item);
+          return (
+            <div
+              key={item.id}
+              style={{ border: '1px dashed #ccc', padding: '8px', textAlign: 'center', breakInside: 'avoid', pageBreakInside: 'avoid' }}
+            >
+              <div style={{ fontSize: '10pt', fontWeight: 'bold', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>{item.name}</div>
+              {item.sku && <div style={{ fontSize: '8pt' }}>SKU: {item.sku}</div>}
+              {barcode && (
+                <>
+                  <BarcodeSvg value={barcode.value} format={barcode.format} className="print-barcode" />
+                  <div style={{ fontSize: '8pt', letterSpacing: '1px' }}>{barcode.value}</div>
+                </>
+              )}
+              <div style={{ fontSize: '7pt', color: '#718096' }}>{warehouseName}{getItemLocation(item) ? ` · ${getItemLocation(item)}` : ''}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
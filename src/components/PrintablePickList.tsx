@@ -0,0 +1,97 @@
+// src/components/PrintablePickList.tsx
+'use client';
+
+import type { IssueOrder } from '@/lib/types';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { RECIPIENT_TYPE_LABELS, type PickListLine } from '@/lib/issueOrders';
+import { describeLots } from '@/lib/lots';
+import { formatQuantity, formatQuantityTotals } from '@/lib/units';
+
+// Define the logo component to be used in reports
+const ReportLogo = ({ className }: { className?: string }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={cn("h-10 w-10 text-primary", className)}
+  >
+    <path d="M3 21V10l9-6 9 6v11" /> {/* Outer house outline */}
+    <g transform="translate(0 -1) scale(0.7) translate(4.25 4.25)"> {/* Scaled down and repositioned */}
+      <rect x="7" y="10" width="4.5" height="4.5" rx="1" strokeWidth="1.5"/>
+      <rect x="12.5" y="14.5" width="4.5" height="4.5" rx="1" strokeWidth="1.5"/>
+      <path d="M9.25 14.5v-2a1 1 0 0 1 1-1h2.25" strokeWidth="1.5"/>
+    </g>
+  </svg>
+);
+
+interface PrintablePickListProps {
+  order: IssueOrder;
+  lines: PickListLine[]; // In picking order
+  printedBy: string;
+  printDate: Date;
+}
+
+export function PrintablePickList({ order, lines, printedBy, printDate }: PrintablePickListProps) {
+  return (
+    <div style={{ fontFamily: 'Arial, sans-serif', direction: 'ltr', padding: '0', width: '100%', height: 'auto', margin: '0 auto' }} id="printable-content">
+      {/* Styles are primarily handled by print.css and @page rules */}
+
+      <div className="print-header" style={{ textAlign: 'center', marginBottom: '20px', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '10px' }}>
+        <ReportLogo />
+        <div>
+          <h1 style={{ fontSize: '18pt', margin: '0 0 5px 0' }}>Pick List {order.number}</h1>
+          <p style={{ fontSize: '12pt', margin: '0' }}>Warehouse: {order.warehouseName}</p>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '15px', fontSize: '11pt' }}>
+        <p><strong>{RECIPIENT_TYPE_LABELS[order.recipientType]}:</strong> {order.recipient}</p>
+        {order.neededBy && <p><strong>Needed By:</strong> {format(parseISO(order.neededBy), "yyyy-MM-dd")}</p>}
+        {order.notes && <p><strong>Notes:</strong> {order.notes}</p>}
+        <p><strong>Print Date:</strong> {format(printDate, "yyyy-MM-dd HH:mm:ss")}</p>
+        <p><strong>Printed By:</strong> {printedBy}</p>
+        <p><strong>Total To Pick:</strong> {lines.length} line(s), {formatQuantityTotals(lines)}</p>
+      </div>
+
+      <table className="print-table" style={{ width: '100%', borderCollapse: 'collapse', fontSize: '10pt' }}>
+        <thead>
+          <tr>
+            <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Location</th>
+            <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Item Name</th>
+            <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', backgroundColor: '#f0f0f0' }}>Quantity</th>
+            <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Lots / Serials</th>
+            <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center', backgroundColor: '#f0f0f0', width: '60px' }}>Picked</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => (
+            <tr key={line.itemId}>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontFamily: 'monospace' }}>{line.location || 'N/A'}</td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>
+                {line.name}{line.sku ? ` (${line.sku})` : ''}
+              </td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', fontWeight: 'bold' }}>{formatQuantity(line.quantity, line)}</td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>
+                {line.lots ? describeLots(line.lots, line) : line.serialized ? 'Record serials: ____________' : '-'}
+              </td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'center' }}>&#9744;</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: '30px', fontSize: '11pt' }}>
+        <p><strong>Picked By:</strong> ______________________ <strong>Date:</strong> ____________</p>
+      </div>
+
+      <div className="print-footer" style={{ textAlign: 'center', marginTop: '30px', fontSize: '9pt', borderTop: '1px solid #eee', paddingTop: '10px' }}>
+        <p>This report was generated by the EZ Inventory Management System.</p>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,11 @@
 // src/components/PrintableTransactionsReport.tsx
 'use client';
 
-import type { HistoryEntry } from '@/lib/types'; 
+import type { FlattenedHistoryEntry, HistoryEntry } from '@/lib/types';
+import { isTransfer, transferRoute } from '@/lib/movements';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { formatQuantity, formatQuantityChange } from '@/lib/units';
 
 // Define the logo component to be used in reports
 const ReportLogo = ({ className }: { className?: string }) => (
@@ -27,13 +29,6 @@ const ReportLogo = ({ className }: { className?: string }) => (
   </svg>
 );
 
-interface FlattenedHistoryEntry extends HistoryEntry {
-  itemName: string;
-  warehouseName: string;
-  itemId: string;
-  warehouseId: string;
-}
-
 interface PrintableTransactionsReportProps {
   transactions: FlattenedHistoryEntry[];
   reportTitle: string;
@@ -47,6 +42,11 @@ const formatHistoryType = (type: HistoryEntry['type']): string => {
     case 'ADD_STOCK': return 'Stock Added';
     case 'CONSUME_STOCK': return 'Stock Consumed';
     case 'ADJUST_STOCK': return 'Stock Adjusted';
+    case 'UPDATE_ITEM': return 'Item Updated';
+    case 'TRANSFER_OUT':
+    case 'TRANSFER_IN': return 'Transfer';
+    case 'ASSEMBLE': return 'Assembled';
+    case 'DISASSEMBLE': return 'Disassembled';
     default: return type.replace(/_/g, ' ');
   }
 };
@@ -84,6 +84,7 @@ export function PrintableTransactionsReport({ transactions, reportTitle, printed
               <th style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>Change</th>
               <th style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>Before</th>
               <th style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', backgroundColor: '#f0f0f0' }}>After</th>
+              <th style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>User</th>
               <th style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left', backgroundColor: '#f0f0f0', minWidth: '120px' }}>Comment</th>
             </tr>
           </thead>
@@ -94,15 +95,16 @@ export function PrintableTransactionsReport({ transactions, reportTitle, printed
                   {format(new Date(entry.timestamp), "yyyy-MM-dd HH:mm")}
                 </td>
                 <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left' }}>{entry.itemName}</td>
-                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left' }}>{entry.warehouseName}</td>
+                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left' }}>{isTransfer(entry) ? transferRoute(entry) : entry.warehouseName}</td>
                 <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left', whiteSpace: 'nowrap' }}>
                   {formatHistoryType(entry.type)}
                 </td>
-                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap', color: entry.change >= 0 ? 'green' : 'red' }}>
-                  {entry.change > 0 ? `+${entry.change}` : entry.change}
+                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap', color: isTransfer(entry) ? 'inherit' : entry.change >= 0 ? 'green' : 'red' }}>
+                  {isTransfer(entry) ? formatQuantity(Math.abs(entry.change), entry) : formatQuantityChange(entry.change, entry)}
                 </td>
-                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap' }}>{entry.quantityBefore}</td>
-                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap', fontWeight: 'bold' }}>{entry.quantityAfter}</td>
+                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap' }}>{formatQuantity(entry.quantityBefore, entry)}</td>
+                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'center', whiteSpace: 'nowrap', fontWeight: 'bold' }}>{formatQuantity(entry.quantityAfter, entry)}</td>
+                <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left', whiteSpace: 'nowrap' }}>{entry.username || 'N/A'}</td>
                 <td style={{ border: '1px solid #ccc', padding: '6px', textAlign: 'left', minWidth: '120px', wordBreak: 'break-word' }}>{entry.comment || 'N/A'}</td>
               </tr>
             ))}
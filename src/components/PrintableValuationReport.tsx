@@ -0,0 +1,123 @@
+// src/components/PrintableValuationReport.tsx
+'use client';
+
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { formatQuantity } from '@/lib/units';
+import { COSTING_METHOD_LABELS, formatMoney, formatUnitCost, sumValuation, type ValuationLine } from '@/lib/costing';
+
+// Define the logo component to be used in reports
+const ReportLogo = ({ className }: { className?: string }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={cn("h-10 w-10 text-primary", className)}
+  >
+    <path d="M3 21V10l9-6 9 6v11" /> {/* Outer house outline */}
+    <g transform="translate(0 -1) scale(0.7) translate(4.25 4.25)"> {/* Scaled down and repositioned */}
+      <rect x="7" y="10" width="4.5" height="4.5" rx="1" strokeWidth="1.5"/>
+      <rect x="12.5" y="14.5" width="4.5" height="4.5" rx="1" strokeWidth="1.5"/>
+      <path d="M9.25 14.5v-2a1 1 0 0 1 1-1h2.25" strokeWidth="1.5"/>
+    </g>
+  </svg>
+);
+
+interface PrintableValuationReportProps {
+  lines: ValuationLine[];
+  scope: string; // "All Warehouses" or the warehouse name
+  asOf?: Date; // End of the day valued; the current stock when missing
+  printedBy: string;
+  printDate: Date;
+}
+
+export function PrintableValuationReport({ lines, scope, asOf, printedBy, printDate }: PrintableValuationReportProps) {
+  // Lines come sorted by warehouse, so each warehouse forms one group.
+  const groups = new Map<string, ValuationLine[]>();
+  lines.forEach(line => groups.set(line.warehouseName, [...(groups.get(line.warehouseName) ?? []), line]));
+
+  return (
+    <div style={{ fontFamily: 'Arial, sans-serif', direction: 'ltr', padding: '0', width: '100%', height: 'auto', margin: '0 auto' }} id="printable-content">
+      {/* Styles are primarily handled by print.css and @page rules */}
+
+      <div className="print-header" style={{ textAlign: 'center', marginBottom: '20px', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '10px' }}>
+        <ReportLogo />
+        <div>
+          <h1 style={{ fontSize: '18pt', margin: '0 0 5px 0' }}>Inventory Valuation Report</h1>
+          <p style={{ fontSize: '12pt', margin: '0' }}>{scope}</p>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '15px', fontSize: '11pt' }}>
+        <p><strong>Valued As Of:</strong> {asOf ? `End of ${format(asOf, "yyyy-MM-dd")}` : 'Current stock'}</p>
+        <p><strong>Print Date:</strong> {format(printDate, "yyyy-MM-dd HH:mm:ss")}</p>
+        <p><strong>Printed By:</strong> {printedBy}</p>
+        <p><strong>Total Value:</strong> {formatMoney(sumValuation(lines))}</p>
+      </div>
+
+      <h2 style={{ fontSize: '14pt', marginTop: '20px', marginBottom: '10px', borderBottom: '1px solid #eee', paddingBottom: '5px' }}>
+        Items
+      </h2>
+
+      {lines.length > 0 ? (
+        <table className="print-table" style={{ width: '100%', borderCollapse: 'collapse', fontSize: '10pt' }}>
+          <thead>
+            <tr>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Item Name</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', backgroundColor: '#f0f0f0' }}>Quantity</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', backgroundColor: '#f0f0f0' }}>Unit Cost</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', backgroundColor: '#f0f0f0' }}>Value</th>
+            </tr>
+          </thead>
+          {Array.from(groups.entries()).map(([warehouseName, groupLines]) => (
+            <tbody key={warehouseName}>
+              <tr>
+                <td colSpan={4} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontWeight: 'bold', backgroundColor: '#f5f5f5' }}>
+                  {warehouseName} ({COSTING_METHOD_LABELS[groupLines[0].costingMethod]})
+                </td>
+              </tr>
+              {groupLines.map(line => (
+                <tr key={line.itemId}>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>{line.name}</td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right' }}>{formatQuantity(line.quantity, line)}</td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right' }}>
+                    {line.value > 0 ? formatUnitCost(line.value / line.quantity) : 'N/A'}
+                  </td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right' }}>{formatMoney(line.value)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td colSpan={3} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontStyle: 'italic' }}>
+                  Subtotal: {warehouseName} ({groupLines.length} {groupLines.length === 1 ? 'item' : 'items'})
+                </td>
+                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', fontStyle: 'italic' }}>{formatMoney(sumValuation(groupLines))}</td>
+              </tr>
+            </tbody>
+          ))}
+          <tfoot>
+            <tr>
+              <td colSpan={3} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontWeight: 'bold', backgroundColor: '#f9f9f9' }}>
+                Total ({lines.length} {lines.length === 1 ? 'item' : 'items'})
+              </td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', fontWeight: 'bold', backgroundColor: '#f9f9f9' }}>{formatMoney(sumValuation(lines))}</td>
+            </tr>
+          </tfoot>
+        </table>
+      ) : (
+        <p style={{ fontSize: '11pt', textAlign: 'center', marginTop: '20px' }}>No stock was held at this date.</p>
+      )}
+
+      <p style={{ fontSize: '9pt', marginTop: '10px', color: '#555' }}>
+        Stock received without a known cost is valued at zero.
+      </p>
+
+      <div className="print-footer" style={{ textAlign: 'center', marginTop: '30px', fontSize: '9pt', borderTop: '1px solid #eee', paddingTop: '10px' }}>
+        <p>This report was generated by the EZ Inventory Management System.</p>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,11 @@
 // src/components/PrintableWarehouseReport.tsx
 'use client';
 
-import type { Warehouse } from '@/lib/types';
+import type { Warehouse, WarehouseReportItem } from '@/lib/types';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { formatQuantity, formatQuantityTotals } from '@/lib/units';
+import { groupByCategory } from '@/lib/categories';
 
 // Define the logo component to be used in reports
 const ReportLogo = ({ className }: { className?: string }) => (
@@ -29,12 +31,19 @@ const ReportLogo = ({ className }: { className?: string }) => (
 
 interface PrintableWarehouseReportProps {
   warehouse: Warehouse;
-  items: { name: string; quantity: number }[];
+  items: WarehouseReportItem[];
   printedBy: string;
   printDate: Date;
 }
 
 export function PrintableWarehouseReport({ warehouse, items, printedBy, printDate }: PrintableWarehouseReportProps) {
+  // Quantities in different units are totalled separately.
+  const totalQuantity = formatQuantityTotals(items);
+  // Reports archived before categories existed, or without any categorised item, are not grouped.
+  const groups: [string | null, WarehouseReportItem[]][] = items.some(item => item.category)
+    ? groupByCategory(items)
+    : [[null, items]];
+
   return (
     <div style={{ fontFamily: 'Arial, sans-serif', direction: 'ltr', padding: '0', width: '100%', height: 'auto', margin: '0 auto' }} id="printable-content">
       {/* Styles are primarily handled by print.css and @page rules */}
@@ -62,17 +71,48 @@ export function PrintableWarehouseReport({ warehouse, items, printedBy, printDat
           <thead>
             <tr>
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Item Name</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Location</th>
+              <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', backgroundColor: '#f0f0f0' }}>Last Movement</th>
               <th style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', backgroundColor: '#f0f0f0' }}>Quantity</th>
             </tr>
           </thead>
-          <tbody>
-            {items.map((item, index) => (
-              <tr key={index}>
-                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>{item.name}</td>
-                <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right' }}>{item.quantity}</td>
-              </tr>
-            ))}
-          </tbody>
+          {groups.map(([category, groupItems]) => (
+            <tbody key={category ?? 'all'}>
+              {category !== null && (
+                <tr>
+                  <td colSpan={4} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontWeight: 'bold', backgroundColor: '#f5f5f5' }}>
+                    {category}
+                  </td>
+                </tr>
+              )}
+              {groupItems.map((item, index) => (
+                <tr key={item.itemId || index}>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>{item.name}</td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left' }}>{item.location || 'N/A'}</td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', whiteSpace: 'nowrap' }}>
+                    {item.lastMovementAt ? format(new Date(item.lastMovementAt), "yyyy-MM-dd HH:mm") : 'N/A'}
+                  </td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right' }}>{formatQuantity(item.quantity, item)}</td>
+                </tr>
+              ))}
+              {category !== null && (
+                <tr>
+                  <td colSpan={3} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontStyle: 'italic' }}>
+                    Subtotal: {category} ({groupItems.length} {groupItems.length === 1 ? 'item' : 'items'})
+                  </td>
+                  <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', fontStyle: 'italic' }}>{formatQuantityTotals(groupItems)}</td>
+                </tr>
+              )}
+            </tbody>
+          ))}
+          <tfoot>
+            <tr>
+              <td colSpan={3} style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'left', fontWeight: 'bold', backgroundColor: '#f9f9f9' }}>
+                Total ({items.length} {items.length === 1 ? 'item' : 'items'})
+              </td>
+              <td style={{ border: '1px solid #ccc', padding: '8px', textAlign: 'right', fontWeight: 'bold', backgroundColor: '#f9f9f9' }}>{totalQuantity}</td>
+            </tr>
+          </tfoot>
         </table>
       ) : (
         <p style={{ fontSize: '11pt', textAlign: 'center', marginTop: '20px' }}>No items in this warehouse.</p>
@@ -0,0 +1,145 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { getAvailableQuantity, getReservedQuantity, reserveItemStock } from '@/lib/reservations';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import type { ActingUser, Item } from '@/lib/types';
+
+const reserveFormSchema = z.object({
+  quantity: z.coerce
+    .number({ invalid_type_error: 'Quantity must be a number.' })
+    .positive({ message: 'Reserved quantity must be a positive number.' }),
+  reference: z.string().trim().min(1, { message: 'Enter what the stock is reserved for.' }).max(100),
+  expiresAt: z.string().optional(),
+});
+
+type ReserveFormValues = z.infer<typeof reserveFormSchema>;
+
+interface ReserveStockDialogProps {
+  item: Item | null;
+  actor: ActingUser | null;
+  onOpenChange: (open: boolean) => void;
+  onReserved: () => void;
+}
+
+export function ReserveStockDialog({ item, actor, onOpenChange, onReserved }: ReserveStockDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ReserveFormValues>({
+    resolver: zodResolver(reserveFormSchema),
+    defaultValues: { quantity: 1, reference: '', expiresAt: '' },
+  });
+
+  React.useEffect(() => {
+    if (item) form.reset({ quantity: 1, reference: '', expiresAt: '' });
+  }, [item, form]);
+
+  async function onSubmit(data: ReserveFormValues) {
+    if (!item || !actor) return;
+    const precision = getItemPrecision(item);
+    if (!hasPrecision(data.quantity, precision)) {
+      form.setError('quantity', { type: 'manual', message: precisionError(precision) });
+      return;
+    }
+    if (data.expiresAt && data.expiresAt < format(new Date(), 'yyyy-MM-dd')) {
+      form.setError('expiresAt', { type: 'manual', message: 'The expiry date cannot be in the past.' });
+      return;
+    }
+
+    try {
+      await reserveItemStock(item.id, { quantity: data.quantity, reference: data.reference, expiresAt: data.expiresAt || undefined }, actor);
+      toast({ title: "Stock Reserved", description: `${formatQuantity(data.quantity, item)} of ${item.name} reserved for ${data.reference.trim()}.` });
+      onOpenChange(false);
+      onReserved();
+    } catch (error) {
+      if (error instanceof StockAdjustmentError && error.code === 'insufficient-stock') {
+        form.setError('quantity', { type: 'manual', message: error.message });
+        return;
+      }
+      console.error("Failed to reserve stock in Firestore", error);
+      toast({
+        title: "Error",
+        description: error instanceof StockAdjustmentError ? error.message : "Failed to reserve stock.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reserve {item?.name}</DialogTitle>
+          <DialogDescription>
+            {item && `On hand: ${formatQuantity(item.quantity, item)}, already reserved: ${formatQuantity(getReservedQuantity(item), item)}, available: ${formatQuantity(Math.max(0, getAvailableQuantity(item)), item)}. `}
+            Reserved stock stays on hand until it is consumed, but no longer counts as available.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity to reserve ({getItemUnit(item ?? undefined)})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reserved For</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Quote Q-1042 for Acme" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires On (Optional)</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>After this day the reservation no longer holds stock.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                Reserve Stock
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,347 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { ScanBarcode } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { getReservedQuantity } from '@/lib/reservations';
+import { normalizeSerial } from '@/lib/serials';
+import { findItemByCode } from '@/lib/skus';
+import { adjustItemStock, StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, formatQuantityChange, getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import { cn } from '@/lib/utils';
+import type { ActingUser, HistoryEntry, Item } from '@/lib/types';
+
+type ScanDirection = 'ADD_STOCK' | 'CONSUME_STOCK';
+type ScanQuantityMode = 'one' | 'prompt';
+
+interface ScanLogEntry {
+  id: number;
+  code: string;
+  scannedAt: Date;
+  itemName?: string;
+  message: string;
+  isError: boolean;
+}
+
+interface PendingScan {
+  item: Item;
+  code: string;
+}
+
+interface ScanModeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  warehouseId: string;
+  items: Item[];
+  actor: ActingUser | null;
+  onAdjusted: (item: Item, entry: HistoryEntry) => void;
+}
+
+// A short high beep confirms a scan; a low buzz flags a failed one.
+function playScanTone(isError: boolean) {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = isError ? 'square' : 'sine';
+    oscillator.frequency.value = isError ? 220 : 880;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.onended = () => context.close();
+    oscillator.start();
+    oscillator.stop(context.currentTime + (isError ? 0.3 : 0.12));
+  } catch (error) {
+    console.error("Failed to play scan tone", error);
+  }
+}
+
+export function ScanModeDialog({ open, onOpenChange, warehouseId, items, actor, onAdjusted }: ScanModeDialogProps) {
+  const [direction, setDirection] = React.useState<ScanDirection>('ADD_STOCK');
+  const [quantityMode, setQuantityMode] = React.useState<ScanQuantityMode>('one');
+  const [log, setLog] = React.useState<ScanLogEntry[]>([]);
+  const [pendingScan, setPendingScan] = React.useState<PendingScan | null>(null);
+  const [promptQuantity, setPromptQuantity] = React.useState('1');
+  const [promptError, setPromptError] = React.useState<string | null>(null);
+  const [manualCode, setManualCode] = React.useState('');
+  // Scans are applied one at a time, each starting from the quantity the previous one left.
+  const queueRef = React.useRef<Promise<void>>(Promise.resolve());
+  const knownQuantitiesRef = React.useRef(new Map<string, number>());
+  const nextLogIdRef = React.useRef(0);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setLog([]);
+    setPendingScan(null);
+    setManualCode('');
+    knownQuantitiesRef.current.clear();
+  }, [open]);
+
+  const record = (entry: Omit<ScanLogEntry, 'id' | 'scannedAt'>) => {
+    const id = nextLogIdRef.current++;
+    setLog(prev => [{ ...entry, id, scannedAt: new Date() }, ...prev]);
+    playScanTone(entry.isError);
+  };
+
+  const applyScan = async (item: Item, code: string, quantity: number, type: ScanDirection, serialNumbers?: string[]) => {
+    if (!actor) return;
+    const adjust = (expectedQuantity: number) => adjustItemStock({
+      itemId: item.id,
+      warehouseId,
+      type,
+      quantity,
+      expectedQuantity,
+      comment: `Scanned ${code}`,
+      serialNumbers,
+      actor,
+    });
+
+    try {
+      let entry: HistoryEntry;
+      try {
+        entry = await adjust(knownQuantitiesRef.current.get(item.id) ?? item.quantity);
+      } catch (error) {
+        // Every scan is relative, so a change made elsewhere is not a conflict here
+        if (!(error instanceof StockAdjustmentError && error.code === 'stock-changed' && error.currentQuantity !== undefined)) {
+          throw error;
+        }
+        entry = await adjust(error.currentQuantity);
+      }
+      knownQuantitiesRef.current.set(item.id, entry.quantityAfter);
+      // Scans do not stop to ask, so dipping into reserved stock is only noted.
+      const reserved = getReservedQuantity(item);
+      const reservedNote = type === 'CONSUME_STOCK' && entry.quantityAfter < reserved
+        ? ` (below the ${formatQuantity(reserved, item)} reserved)`
+        : '';
+      record({
+        code,
+        itemName: item.name,
+        message: `${formatQuantityChange(entry.change, item)}, now ${formatQuantity(entry.quantityAfter, item)}${reservedNote}`,
+        isError: false,
+      });
+      onAdjusted(item, entry);
+    } catch (error) {
+      if (!(error instanceof StockAdjustmentError)) {
+        console.error("Failed to apply scanned adjustment in Firestore", error);
+      }
+      record({
+        code,
+        itemName: item.name,
+        message: error instanceof StockAdjustmentError ? error.message : 'Failed to update stock.',
+        isError: true,
+      });
+    }
+  };
+
+  const enqueueScan = (item: Item, code: string, quantity: number) => {
+    const type = direction;
+    queueRef.current = queueRef.current.then(() => applyScan(item, code, quantity, type));
+  };
+
+  const handleScan = (code: string) => {
+    setManualCode('');
+    // A unit's serial number identifies both the item and the exact piece leaving stock.
+    const serial = normalizeSerial(code);
+    const serializedItem = items.find(candidate => candidate.serialized && candidate.serialNumbers?.includes(serial));
+    if (serializedItem) {
+      if (direction !== 'CONSUME_STOCK') {
+        record({ code, itemName: serializedItem.name, message: 'This serial number is already in stock.', isError: true });
+        return;
+      }
+      queueRef.current = queueRef.current.then(() => applyScan(serializedItem, code, 1, 'CONSUME_STOCK', [serial]));
+      return;
+    }
+    const item = findItemByCode(items, code);
+    if (!item) {
+      record({ code, message: 'No item in this warehouse has this barcode, SKU or serial number.', isError: true });
+      return;
+    }
+    if (item.serialized) {
+      record({
+        code,
+        itemName: item.name,
+        message: direction === 'CONSUME_STOCK'
+          ? "Scan the unit's serial number to remove it."
+          : "Add serialized stock from the item's Add Stock dialog.",
+        isError: true,
+      });
+      return;
+    }
+    if (quantityMode === 'prompt') {
+      setPendingScan({ item, code });
+      setPromptQuantity('1');
+      setPromptError(null);
+      return;
+    }
+    enqueueScan(item, code, 1);
+  };
+
+  useBarcodeScanner(handleScan, open && !pendingScan);
+
+  const handleConfirmPrompt = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pendingScan) return;
+    const quantity = Number(promptQuantity);
+    if (!promptQuantity.trim() || !Number.isFinite(quantity) || quantity <= 0) {
+      setPromptError('Quantity must be a positive number.');
+      return;
+    }
+    const precision = getItemPrecision(pendingScan.item);
+    if (!hasPrecision(quantity, precision)) {
+      setPromptError(precisionError(precision));
+      return;
+    }
+    enqueueScan(pendingScan.item, pendingScan.code, quantity);
+    setPendingScan(null);
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (manualCode.trim()) handleScan(manualCode.trim());
+  };
+
+  const lastEntry = log[0];
+  const errorCount = log.filter(entry => entry.isError).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanBarcode className="h-5 w-5" />
+            Scan Mode
+          </DialogTitle>
+          <DialogDescription>
+            Scan an item's barcode or SKU label to adjust its stock, or a unit's serial number to remove that piece. Keep this window open while scanning.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Each Scan</Label>
+            <Select value={direction} onValueChange={(value) => setDirection(value as ScanDirection)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ADD_STOCK">Adds stock</SelectItem>
+                <SelectItem value="CONSUME_STOCK">Consumes stock</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Quantity</Label>
+            <Select value={quantityMode} onValueChange={(value) => setQuantityMode(value as ScanQuantityMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="one">1 per scan</SelectItem>
+                <SelectItem value="prompt">Ask after each scan</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {pendingScan ? (
+          <form onSubmit={handleConfirmPrompt} className="space-y-2 rounded-md border-2 border-primary p-4">
+            <Label htmlFor="scan-quantity">
+              Quantity of {pendingScan.item.name} to {direction === 'ADD_STOCK' ? 'add' : 'consume'} ({getItemUnit(pendingScan.item)})
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="scan-quantity"
+                type="number"
+                step="any"
+                autoFocus
+                value={promptQuantity}
+                onChange={(event) => setPromptQuantity(event.target.value)}
+              />
+              <Button type="submit">Apply</Button>
+              <Button type="button" variant="outline" onClick={() => setPendingScan(null)}>Skip</Button>
+            </div>
+            {promptError && <p className="text-sm font-medium text-destructive">{promptError}</p>}
+          </form>
+        ) : (
+          <div
+            key={lastEntry?.id}
+            className={cn(
+              'rounded-md border-2 p-4 text-center animate-in fade-in-0 zoom-in-95',
+              !lastEntry ? 'border-dashed text-muted-foreground' :
+              lastEntry.isError ? 'border-destructive bg-destructive/10' :
+              'border-green-600 bg-green-50 dark:bg-green-950'
+            )}
+          >
+            {lastEntry ? (
+              <>
+                <p className="font-semibold">{lastEntry.itemName ?? lastEntry.code}</p>
+                <p className={cn('text-sm', lastEntry.isError && 'text-destructive')}>{lastEntry.message}</p>
+              </>
+            ) : (
+              <p>Waiting for a scan...</p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleManualSubmit} className="flex gap-2">
+          <Input
+            placeholder="Or type a barcode or SKU"
+            value={manualCode}
+            onChange={(event) => setManualCode(event.target.value)}
+            aria-label="Barcode or SKU"
+            disabled={!!pendingScan}
+          />
+          <Button type="submit" variant="outline" disabled={!!pendingScan || !manualCode.trim()}>Look Up</Button>
+        </form>
+
+        <div className="space-y-1">
+          <p className="text-sm font-medium">
+            Session Log
+            {log.length > 0 && (
+              <span className="ml-2 font-normal text-muted-foreground">
+                {log.length} scan(s){errorCount > 0 && `, ${errorCount} failed`}
+              </span>
+            )}
+          </p>
+          <div className="max-h-48 overflow-auto rounded-md border">
+            {log.length > 0 ? (
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="sticky top-0 bg-muted/80 dark:bg-muted/60 backdrop-blur-sm z-10">
+                  <tr>
+                    <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Time</th>
+                    <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Code</th>
+                    <th className="py-1.5 px-3 text-left font-medium text-muted-foreground whitespace-nowrap">Item</th>
+                    <th className="py-1.5 px-3 text-left font-medium text-muted-foreground">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {log.map((entry) => (
+                    <tr key={entry.id} className="border-b border-border/50 last:border-b-0">
+                      <td className="py-1.5 px-3 whitespace-nowrap">{format(entry.scannedAt, "p")}</td>
+                      <td className="py-1.5 px-3 whitespace-nowrap font-mono">{entry.code}</td>
+                      <td className="py-1.5 px-3">{entry.itemName || '-'}</td>
+                      <td className={cn('py-1.5 px-3', entry.isError ? 'text-destructive' : 'text-green-600 dark:text-green-400')}>{entry.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="p-4 text-center text-sm text-muted-foreground">No scans yet.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Done</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
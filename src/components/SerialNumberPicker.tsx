@@ -0,0 +1,43 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { sortSerials } from '@/lib/serials';
+
+interface SerialNumberPickerProps {
+  serials: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Checkbox list for choosing which serialized units leave stock.
+export function SerialNumberPicker({ serials, selected, onChange }: SerialNumberPickerProps) {
+  if (serials.length === 0) {
+    return <p className="text-sm text-muted-foreground">No serial numbers in stock.</p>;
+  }
+  const allSelected = serials.every(serial => selected.includes(serial));
+
+  return (
+    <div className="rounded-md border">
+      <label className="flex items-center gap-2 border-b px-3 py-2 text-sm font-medium">
+        <Checkbox
+          checked={allSelected}
+          onCheckedChange={(checked) => onChange(checked === true ? [...serials] : [])}
+        />
+        {selected.length} of {serials.length} selected
+      </label>
+      <div className="max-h-40 overflow-y-auto p-2 grid grid-cols-2 gap-1">
+        {sortSerials(serials).map(serial => (
+          <label key={serial} className="flex items-center gap-2 px-1 text-sm font-mono">
+            <Checkbox
+              checked={selected.includes(serial)}
+              onCheckedChange={(checked) =>
+                onChange(checked === true ? [...selected, serial] : selected.filter(candidate => candidate !== serial))
+              }
+            />
+            {serial}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
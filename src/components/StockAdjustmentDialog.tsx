@@ -0,0 +1,452 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { SerialNumberPicker } from '@/components/SerialNumberPicker';
+import { useToast } from '@/hooks/use-toast';
+import { formatUnitCost, getAverageCost } from '@/lib/costing';
+import { allocateFefo, describeLots, sortLotsFefo, sumAllocations, toAllocation } from '@/lib/lots';
+import { describeReservedDip } from '@/lib/reservations';
+import { parseSerialList, sortSerials } from '@/lib/serials';
+import { adjustItemStock, StockAdjustmentError } from '@/lib/stock';
+import { describePack, formatQuantity, getItemPrecision, getItemUnit, hasPack, hasPrecision, packsToUnits, precisionError } from '@/lib/units';
+import type { ActingUser, Item, LotAllocation } from '@/lib/types';
+
+// Empty inputs leave the value unset.
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+// Per unit of the item's unit. Left empty, stock is received at the item's average cost.
+const optionalUnitCost = z.preprocess(
+  emptyToUndefined,
+  z.coerce
+    .number({ invalid_type_error: 'Unit cost must be a number.' })
+    .min(0, { message: 'Unit cost cannot be negative.' })
+    .optional()
+);
+
+const stockAdjustmentFormSchema = z.object({
+  adjustmentQuantity: z.coerce
+    .number({ invalid_type_error: 'Quantity must be a number.' })
+    .positive({ message: 'Adjustment quantity must be a positive number.' }),
+  enteredIn: z.enum(['unit', 'pack']),
+  comment: z.string().optional(),
+  // Lot-tracked items only: the lot stock is added to, or how consumed stock is drawn.
+  lotNumber: z.string().optional(),
+  expiryDate: z.string().optional(),
+  lotSelection: z.enum(['fefo', 'manual']),
+  unitCost: optionalUnitCost, // Added stock only
+});
+
+type StockAdjustmentFormValues = z.infer<typeof stockAdjustmentFormSchema>;
+
+export type StockAdjustmentType = 'ADD_STOCK' | 'CONSUME_STOCK';
+
+const emptyAdjustment: StockAdjustmentFormValues = {
+  adjustmentQuantity: 1,
+  enteredIn: 'unit',
+  comment: '',
+  lotNumber: '',
+  expiryDate: '',
+  lotSelection: 'fefo',
+  unitCost: undefined,
+};
+
+interface StockAdjustmentDialogProps {
+  item: Item | null;
+  type: StockAdjustmentType;
+  warehouseId: string;
+  actor: ActingUser | null;
+  onOpenChange: (open: boolean) => void;
+  onAdjusted: (item: Item) => void;
+  onStockChanged: () => void; // The stock changed while the dialog was open
+}
+
+export function StockAdjustmentDialog({ item, type, warehouseId, actor, onOpenChange, onAdjusted, onStockChanged }: StockAdjustmentDialogProps) {
+  const { toast } = useToast();
+  // The item as last read; a conflict updates its quantity so the user can retry as-is.
+  const [stockItem, setStockItem] = React.useState<Item | null>(item);
+  const [conflict, setConflict] = React.useState<string | null>(null);
+  // Shown once before consuming stock that is reserved; submitting the same quantity again goes ahead.
+  const [reservationWarning, setReservationWarning] = React.useState<{ quantity: number; message: string } | null>(null);
+  const [manualLotQuantities, setManualLotQuantities] = React.useState<Record<string, string>>({});
+  const [serialInput, setSerialInput] = React.useState('');
+  const [selectedSerials, setSelectedSerials] = React.useState<string[]>([]);
+
+  const form = useForm<StockAdjustmentFormValues>({
+    resolver: zodResolver(stockAdjustmentFormSchema),
+    defaultValues: emptyAdjustment,
+  });
+
+  React.useEffect(() => {
+    if (!item) return;
+    setStockItem(item);
+    setConflict(null);
+    setReservationWarning(null);
+    setManualLotQuantities({});
+    setSerialInput('');
+    setSelectedSerials([]);
+    form.reset(emptyAdjustment);
+  }, [item, type, form]);
+
+  async function onSubmit(data: StockAdjustmentFormValues) {
+    if (!stockItem || !actor) return;
+
+    // Quantities entered in packs are converted to the item's unit and noted in the comment.
+    // Serialized items move the serials entered or selected, one piece each.
+    const serialNumbers = stockItem.serialized
+      ? (type === 'ADD_STOCK' ? sortSerials(parseSerialList(serialInput)) : selectedSerials)
+      : undefined;
+    if (serialNumbers && serialNumbers.length === 0) {
+      form.setError("adjustmentQuantity", {
+        type: "manual",
+        message: type === 'ADD_STOCK' ? 'Enter the serial numbers being added.' : 'Select the serial numbers being removed.',
+      });
+      return;
+    }
+    const inPacks = data.enteredIn === 'pack' && hasPack(stockItem);
+    const quantity = serialNumbers
+      ? serialNumbers.length
+      : inPacks ? packsToUnits(data.adjustmentQuantity, stockItem) : data.adjustmentQuantity;
+    const precision = getItemPrecision(stockItem);
+    if (!hasPrecision(quantity, precision)) {
+      form.setError("adjustmentQuantity", { type: "manual", message: precisionError(precision) });
+      return;
+    }
+    if (type === 'CONSUME_STOCK' && stockItem.quantity < quantity) {
+      form.setError("adjustmentQuantity", {
+        type: "manual",
+        message: `Cannot consume more than the stock on hand (${formatQuantity(stockItem.quantity, stockItem)}).`,
+      });
+      return;
+    }
+    const conversion = inPacks
+      ? `${data.adjustmentQuantity} ${stockItem.packUnit} × ${formatQuantity(stockItem.packSize!, stockItem)}`
+      : null;
+
+    let lotAllocations: LotAllocation[] | undefined;
+    if (stockItem.tracksLots && type === 'ADD_STOCK' && !data.lotNumber?.trim()) {
+      form.setError("lotNumber", { type: "manual", message: 'Enter the lot number of the stock being added.' });
+      return;
+    }
+    if (stockItem.tracksLots && type === 'CONSUME_STOCK' && data.lotSelection === 'manual') {
+      lotAllocations = (stockItem.lots ?? [])
+        .filter(lot => Number(manualLotQuantities[lot.lotNumber]) > 0)
+        .map(lot => toAllocation(lot, Number(manualLotQuantities[lot.lotNumber])));
+      const overdrawn = lotAllocations.find(allocation =>
+        allocation.quantity > (stockItem.lots ?? []).find(lot => lot.lotNumber === allocation.lotNumber)!.quantity ||
+        !hasPrecision(allocation.quantity, precision)
+      );
+      const total = sumAllocations(lotAllocations, precision);
+      if (overdrawn || total !== quantity) {
+        form.setError("adjustmentQuantity", {
+          type: "manual",
+          message: overdrawn
+            ? `Check the quantity taken from lot ${overdrawn.lotNumber}.`
+            : `The lot quantities add up to ${formatQuantity(total, stockItem)}, not ${formatQuantity(quantity, stockItem)}.`,
+        });
+        return;
+      }
+    }
+    if (type === 'CONSUME_STOCK') {
+      const dip = describeReservedDip(stockItem, quantity);
+      if (dip && reservationWarning?.quantity !== quantity) {
+        setReservationWarning({ quantity, message: dip });
+        return;
+      }
+    }
+    const defaultComment = type === 'ADD_STOCK' ? 'Stock added' : 'Stock consumed';
+
+    setConflict(null);
+    try {
+      await adjustItemStock({
+        itemId: stockItem.id,
+        warehouseId,
+        type: type,
+        quantity,
+        expectedQuantity: stockItem.quantity,
+        comment: conversion ? `${data.comment || defaultComment} (${conversion})` : data.comment,
+        ...(stockItem.tracksLots && type === 'ADD_STOCK' && {
+          lot: { lotNumber: data.lotNumber!, ...(data.expiryDate && { expiryDate: data.expiryDate }) },
+        }),
+        lotAllocations,
+        serialNumbers,
+        ...(type === 'ADD_STOCK' && { unitCost: data.unitCost }),
+        actor,
+      });
+
+      toast({ title: "Stock Updated", description: `Stock for ${stockItem.name} has been updated.` });
+      onOpenChange(false);
+      onAdjusted(stockItem);
+    } catch (error) {
+      if (error instanceof StockAdjustmentError && error.code === 'stock-changed') {
+        // Show the latest quantity so the user can decide whether to retry as-is
+        setStockItem(prev => prev ? { ...prev, quantity: error.currentQuantity ?? prev.quantity } : prev);
+        setConflict(error.message);
+        onStockChanged();
+        return;
+      }
+      if (error instanceof StockAdjustmentError && (error.code === 'insufficient-stock' || error.code === 'invalid-quantity' || error.code === 'invalid-serial')) {
+        form.setError("adjustmentQuantity", { type: "manual", message: error.message });
+        return;
+      }
+      if (error instanceof StockAdjustmentError && error.code === 'invalid-lot') {
+        form.setError(type === 'ADD_STOCK' ? "lotNumber" : "adjustmentQuantity", { type: "manual", message: error.message });
+        return;
+      }
+      console.error("Failed to update item stock in Firestore", error);
+      toast({
+        title: "Error",
+        description: error instanceof StockAdjustmentError ? error.message : "Failed to update stock. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>
+            {type === 'ADD_STOCK' ? 'Add Stock to ' : 'Consume Stock from '}
+            {stockItem?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Current quantity: {stockItem ? formatQuantity(stockItem.quantity, stockItem) : ''}.{' '}
+            {stockItem?.serialized
+              ? (type === 'ADD_STOCK' ? 'Enter the serial numbers of the pieces being added.' : 'Select the serial numbers of the pieces being removed.')
+              : <>Enter the quantity to {type === 'ADD_STOCK' ? 'add' : 'consume'}
+                {stockItem && hasPack(stockItem) ? ` in ${getItemUnit(stockItem)} or in packs (${describePack(stockItem)}).` : '.'}</>}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            {conflict && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Stock changed</AlertTitle>
+                <AlertDescription>{conflict}</AlertDescription>
+              </Alert>
+            )}
+            {reservationWarning && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Reserved stock</AlertTitle>
+                <AlertDescription>{reservationWarning.message} Submit again to consume it anyway.</AlertDescription>
+              </Alert>
+            )}
+            <FormField
+              control={form.control}
+              name="adjustmentQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  {stockItem?.serialized ? (
+                    type === 'ADD_STOCK' ? (
+                      <>
+                        <FormLabel>Serial numbers to add ({parseSerialList(serialInput).length} pcs)</FormLabel>
+                        <Textarea
+                          placeholder="One per line, or scan them one after another"
+                          className="font-mono"
+                          value={serialInput}
+                          onChange={(event) => setSerialInput(event.target.value)}
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <FormLabel>Serial numbers to remove</FormLabel>
+                        <SerialNumberPicker serials={stockItem.serialNumbers ?? []} selected={selectedSerials} onChange={setSelectedSerials} />
+                      </>
+                    )
+                  ) : (
+                    <>
+                      <FormLabel>Quantity to {type === 'ADD_STOCK' ? 'add' : 'consume'}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                    </>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {stockItem && !stockItem.serialized && hasPack(stockItem) && (
+              <FormField
+                control={form.control}
+                name="enteredIn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Entered In</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="unit">{getItemUnit(stockItem)}</SelectItem>
+                        <SelectItem value="pack">{stockItem.packUnit} ({describePack(stockItem)})</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {stockItem?.tracksLots && type === 'ADD_STOCK' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="lotNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lot Number</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g., L2024-031"
+                          list="existing-lots"
+                          {...field}
+                          onChange={(event) => {
+                            field.onChange(event);
+                            // Adding to an existing lot keeps its expiry date
+                            const existing = stockItem.lots?.find(lot => lot.lotNumber === event.target.value.trim());
+                            if (existing) form.setValue('expiryDate', existing.expiryDate ?? '');
+                          }}
+                        />
+                      </FormControl>
+                      <datalist id="existing-lots">
+                        {(stockItem.lots ?? []).map(lot => <option key={lot.lotNumber} value={lot.lotNumber} />)}
+                      </datalist>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiryDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expiry Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            {stockItem?.tracksLots && type === 'CONSUME_STOCK' && (
+              <FormField
+                control={form.control}
+                name="lotSelection"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Take From</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="fefo">First-expiring lots first</SelectItem>
+                        <SelectItem value="manual">Lots I choose</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {field.value === 'fefo' ? (
+                      <FormDescription>
+                        {(() => {
+                          const entered = Number(form.watch('adjustmentQuantity'));
+                          const units = form.watch('enteredIn') === 'pack' && hasPack(stockItem)
+                            ? packsToUnits(entered, stockItem)
+                            : entered;
+                          const allocations = entered > 0 ? allocateFefo(stockItem.lots ?? [], units, getItemPrecision(stockItem)) : null;
+                          return allocations ? `Takes ${describeLots(allocations, stockItem)}.` : 'The lots do not hold this quantity.';
+                        })()}
+                      </FormDescription>
+                    ) : (
+                      <div className="space-y-2 pt-1">
+                        {sortLotsFefo(stockItem.lots ?? []).map(lot => (
+                          <div key={lot.lotNumber} className="flex items-center gap-2 text-sm">
+                            <span className="flex-1 font-mono">{lot.lotNumber}</span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {lot.expiryDate ? format(parseISO(lot.expiryDate), "P") : 'No expiry'} · {formatQuantity(lot.quantity, stockItem)}
+                            </span>
+                            <Input
+                              type="number"
+                              step="any"
+                              min={0}
+                              className="w-24 h-8"
+                              placeholder="0"
+                              aria-label={`Quantity from lot ${lot.lotNumber}`}
+                              value={manualLotQuantities[lot.lotNumber] ?? ''}
+                              onChange={(event) => setManualLotQuantities(prev => ({ ...prev, [lot.lotNumber]: event.target.value }))}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {stockItem && type === 'ADD_STOCK' && (
+              <FormField
+                control={form.control}
+                name="unitCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit Cost per {getItemUnit(stockItem)} (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={0} placeholder="e.g., 2.50" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormDescription>
+                      {getAverageCost(stockItem.costLayers) !== undefined
+                        ? `Leave empty to add the stock at the current average cost (${formatUnitCost(getAverageCost(stockItem.costLayers)!)}).`
+                        : 'Leave empty if the cost is not known; the stock is then not valued.'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comment (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Received new shipment, Order #123" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                {type === 'ADD_STOCK' ? 'Add Stock' : reservationWarning ? 'Consume Anyway' : 'Consume Stock'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
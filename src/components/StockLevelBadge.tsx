@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getStockLevel } from '@/lib/reorder';
+import type { Item } from '@/lib/types';
+
+interface StockLevelBadgeProps {
+  item: Pick<Item, 'quantity' | 'reorderPoint'>;
+  className?: string;
+}
+
+// Renders nothing while the item is above its reorder point.
+export function StockLevelBadge({ item, className }: StockLevelBadgeProps) {
+  const level = getStockLevel(item);
+  if (level === 'ok') return null;
+  return (
+    <Badge
+      variant={level === 'out' ? 'destructive' : 'outline'}
+      className={cn(level === 'low' && 'border-amber-500 text-amber-700 dark:text-amber-400', className)}
+    >
+      {level === 'out' ? 'Out of stock' : 'Low stock'}
+    </Badge>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { AlertTriangle } from 'lucide-react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { SerialNumberPicker } from '@/components/SerialNumberPicker';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/firebase';
+import { canPerform } from '@/lib/membership';
+import { getAvailableQuantity, getReservedQuantity } from '@/lib/reservations';
+import { StockAdjustmentError, transferItemStock } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, getItemUnit, hasPrecision, precisionError } from '@/lib/units';
+import type { ActingUser, Item, Warehouse } from '@/lib/types';
+
+const transferFormSchema = z.object({
+  destinationWarehouseId: z.string().min(1, { message: 'Please select a destination warehouse.' }),
+  quantity: z.coerce
+    .number({ invalid_type_error: 'Quantity must be a number.' })
+    .positive({ message: 'Transfer quantity must be a positive number.' }),
+  comment: z.string().optional(),
+});
+
+type TransferFormValues = z.infer<typeof transferFormSchema>;
+
+interface TransferStockDialogProps {
+  item: Item | null;
+  sourceWarehouse: Warehouse;
+  actor: ActingUser | null;
+  onOpenChange: (open: boolean) => void;
+  onTransferred: () => void;
+}
+
+export function TransferStockDialog({ item, sourceWarehouse, actor, onOpenChange, onTransferred }: TransferStockDialogProps) {
+  const { toast } = useToast();
+  const [destinations, setDestinations] = React.useState<Warehouse[]>([]);
+  const [isLoadingDestinations, setIsLoadingDestinations] = React.useState(false);
+  const [expectedQuantity, setExpectedQuantity] = React.useState(0);
+  const [conflict, setConflict] = React.useState<string | null>(null);
+  const [selectedSerials, setSelectedSerials] = React.useState<string[]>([]);
+
+  const form = useForm<TransferFormValues>({
+    resolver: zodResolver(transferFormSchema),
+    defaultValues: {
+      destinationWarehouseId: '',
+      quantity: 1,
+      comment: '',
+    },
+  });
+
+  React.useEffect(() => {
+    if (!item || !actor) return;
+    setExpectedQuantity(item.quantity);
+    setConflict(null);
+    setSelectedSerials([]);
+    form.reset({ destinationWarehouseId: '', quantity: 1, comment: '' });
+
+    const loadDestinations = async () => {
+      setIsLoadingDestinations(true);
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, 'warehouses'),
+          where('memberIds', 'array-contains', actor.uid),
+          where('isArchived', '==', false)
+        ));
+        const warehouses = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Warehouse));
+        setDestinations(warehouses
+          .filter(wh => wh.id !== sourceWarehouse.id && canPerform(wh, actor.uid, 'adjustStock'))
+          .sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (error) {
+        console.error("Failed to load destination warehouses from Firestore", error);
+        toast({ title: "Error", description: "Failed to load warehouses.", variant: "destructive" });
+      } finally {
+        setIsLoadingDestinations(false);
+      }
+    };
+    loadDestinations();
+  }, [item, actor, sourceWarehouse.id, form, toast]);
+
+  const selectedDestination = destinations.find(wh => wh.id === form.watch('destinationWarehouseId'));
+
+  async function onSubmit(data: TransferFormValues) {
+    if (!item || !actor) return;
+
+    // Serialized items move the chosen units; the quantity follows from them.
+    const quantity = item.serialized ? selectedSerials.length : data.quantity;
+    if (item.serialized && quantity === 0) {
+      form.setError('quantity', { type: 'manual', message: 'Select the serial numbers to transfer.' });
+      return;
+    }
+    const precision = getItemPrecision(item);
+    if (!hasPrecision(quantity, precision)) {
+      form.setError('quantity', { type: 'manual', message: precisionError(precision) });
+      return;
+    }
+    if (quantity > expectedQuantity) {
+      form.setError('quantity', { type: 'manual', message: `Cannot transfer more than available stock (${formatQuantity(expectedQuantity, item)}).` });
+      return;
+    }
+    const available = getAvailableQuantity({ ...item, quantity: expectedQuantity });
+    if (quantity > available) {
+      form.setError('quantity', {
+        type: 'manual',
+        message: `Only ${formatQuantity(Math.max(0, available), item)} can be transferred; ${formatQuantity(getReservedQuantity(item), item)} is reserved.`,
+      });
+      return;
+    }
+
+    setConflict(null);
+    try {
+      const result = await transferItemStock({
+        itemId: item.id,
+        destinationWarehouseId: data.destinationWarehouseId,
+        quantity,
+        expectedQuantity,
+        comment: data.comment,
+        ...(item.serialized && { serialNumbers: selectedSerials }),
+        actor,
+      });
+      const destinationName = destinations.find(wh => wh.id === data.destinationWarehouseId)?.name || 'the destination warehouse';
+      toast({
+        title: "Stock Transferred",
+        description: `${formatQuantity(quantity, item)} of ${item.name} moved to ${destinationName}${result.createdDestinationItem ? ' (new item created there)' : ''}.`,
+      });
+      onOpenChange(false);
+      onTransferred();
+    } catch (error) {
+      if (error instanceof StockAdjustmentError && error.code === 'stock-changed') {
+        // Show the latest quantity so the user can decide whether to retry as-is
+        setExpectedQuantity(error.currentQuantity ?? expectedQuantity);
+        setConflict(error.message);
+        return;
+      }
+      if (error instanceof StockAdjustmentError && error.code === 'destination-unavailable') {
+        form.setError('destinationWarehouseId', { type: 'manual', message: error.message });
+        return;
+      }
+      if (error instanceof StockAdjustmentError && (error.code === 'insufficient-stock' || error.code === 'invalid-quantity' || error.code === 'invalid-serial')) {
+        form.setError('quantity', { type: 'manual', message: error.message });
+        return;
+      }
+      console.error("Failed to transfer stock in Firestore", error);
+      toast({
+        title: "Error",
+        description: error instanceof StockAdjustmentError ? error.message : "Failed to transfer stock.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Transfer {item?.name}</DialogTitle>
+          <DialogDescription>
+            Current quantity in {sourceWarehouse.name}: {formatQuantity(expectedQuantity, item ?? undefined)}
+            {item && getReservedQuantity(item) > 0 && `, of which ${formatQuantity(getReservedQuantity(item), item)} is reserved and stays here`}. The stock is added to the item with the same SKU or name in the destination warehouse, or to a new item there.
+            {item?.tracksLots && ' Lots are transferred first-expiring-first-out and keep their lot numbers.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+            {conflict && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Stock changed</AlertTitle>
+                <AlertDescription>{conflict}</AlertDescription>
+              </Alert>
+            )}
+            <FormField
+              control={form.control}
+              name="destinationWarehouseId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Destination Warehouse</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={isLoadingDestinations}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={isLoadingDestinations ? "Loading warehouses..." : "Select a warehouse"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {destinations.map(wh => (
+                        <SelectItem key={wh.id} value={wh.id}>{wh.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!isLoadingDestinations && destinations.length === 0 && (
+                    <FormDescription>You have no other warehouses where you can add stock.</FormDescription>
+                  )}
+                  {selectedDestination && !canPerform(selectedDestination, actor?.uid, 'manageItems') && (
+                    <FormDescription>
+                      You are not a manager of {selectedDestination.name}, so the stock can only go to an item that already exists there.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  {item?.serialized ? (
+                    <>
+                      <FormLabel>Serial numbers to transfer</FormLabel>
+                      <SerialNumberPicker serials={item.serialNumbers ?? []} selected={selectedSerials} onChange={setSelectedSerials} />
+                    </>
+                  ) : (
+                    <>
+                      <FormLabel>Quantity to transfer ({getItemUnit(item ?? undefined)})</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" {...field} />
+                      </FormControl>
+                    </>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comment (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Rebalancing stock for the weekend" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={form.formState.isSubmitting || destinations.length === 0}>
+                {form.formState.isSubmitting ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                Transfer Stock
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
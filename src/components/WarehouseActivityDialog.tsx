@@ -0,0 +1,123 @@
+'use client';
+
+import * as React from 'react';
+import { format } from 'date-fns';
+import { Activity } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/EmptyState';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { PageCursor } from '@/lib/pagination';
+import { fetchWarehouseActivityPage } from '@/lib/warehouses';
+import type { WarehouseActivityEntry } from '@/lib/types';
+
+interface WarehouseActivityDialogProps {
+  warehouseId: string;
+  warehouseName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatActivityType = (type: WarehouseActivityEntry['type']): string => {
+  switch (type) {
+    case 'CREATE_WAREHOUSE': return 'Created';
+    case 'UPDATE_WAREHOUSE': return 'Updated';
+    case 'DELETE_WAREHOUSE': return 'Archived';
+    case 'RESTORE_WAREHOUSE': return 'Restored';
+    default: return String(type).replace(/_/g, ' ');
+  }
+};
+
+export function WarehouseActivityDialog({ warehouseId, warehouseName, open, onOpenChange }: WarehouseActivityDialogProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = React.useState<WarehouseActivityEntry[]>([]);
+  const [cursor, setCursor] = React.useState<PageCursor>(null);
+  const [hasMore, setHasMore] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const loadActivity = React.useCallback(async (pageCursor: PageCursor = null) => {
+    setIsLoading(true);
+    try {
+      const page = await fetchWarehouseActivityPage(warehouseId, pageCursor);
+      setEntries(prev => pageCursor ? [...prev, ...page.entries] : page.entries);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load warehouse activity from Firestore", error);
+      toast({ title: "Error", description: "Failed to load warehouse activity.", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [warehouseId, toast]);
+
+  React.useEffect(() => {
+    if (open) {
+      loadActivity();
+    }
+  }, [open, loadActivity]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-2xl max-h-[80vh] flex flex-col p-0 sm:rounded-lg">
+        <DialogHeader className="p-4 border-b shrink-0">
+          <DialogTitle>Activity for {warehouseName}</DialogTitle>
+          <DialogDescription>Creation, edits, archiving and restoration of this warehouse.</DialogDescription>
+        </DialogHeader>
+        <div className="flex-1 overflow-y-auto min-h-0 p-4 pt-2">
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center py-10"><LoadingSpinner /></div>
+          ) : entries.length === 0 ? (
+            <EmptyState
+              IconComponent={Activity}
+              title="No Activity Yet"
+              description="Warehouses created before the activity log was introduced start with an empty log."
+            />
+          ) : (
+            <div className="w-full overflow-x-auto rounded-md border">
+              <table className="text-xs border-collapse min-w-full">
+                <thead className="sticky top-0 bg-background/90 dark:bg-card/80 backdrop-blur-sm z-10">
+                  <tr>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Date</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">Action</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-nowrap">User</th>
+                    <th className="py-3 px-4 text-left font-medium text-muted-foreground whitespace-normal break-words min-w-[150px]">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-border/50 last:border-b-0 hover:bg-muted/10 dark:hover:bg-muted/5">
+                      <td className="py-3 px-4 whitespace-nowrap">{format(new Date(entry.timestamp), 'P p')}</td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        <span className={cn(
+                          'px-2 py-0.5 text-xs rounded-full',
+                          entry.type === 'CREATE_WAREHOUSE' ? 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300' :
+                            entry.type === 'UPDATE_WAREHOUSE' ? 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300' :
+                              entry.type === 'DELETE_WAREHOUSE' ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300' :
+                                'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+                        )}>
+                          {formatActivityType(entry.type)}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">{entry.username || 'N/A'}</td>
+                      <td className="py-3 px-4 whitespace-normal break-words min-w-[150px]">{entry.comment || 'N/A'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {hasMore && (
+            <div className="flex justify-center pt-3">
+              <Button variant="outline" size="sm" onClick={() => loadActivity(cursor)} disabled={isLoading}>
+                {isLoading ? <LoadingSpinner size={16} className="mr-2" /> : null}
+                Load More
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
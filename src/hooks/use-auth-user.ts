@@ -0,0 +1,67 @@
+"use client"
+
+import * as React from "react"
+import { onAuthStateChanged, type User as FirebaseUser } from "firebase/auth"
+import { doc, getDoc } from "firebase/firestore"
+
+import { auth, db } from "@/lib/firebase"
+import type { ActingUser, UserProfile } from "@/lib/types"
+
+const fallbackUsername = (user: FirebaseUser) =>
+  user.displayName || user.email?.split("@")[0] || "User"
+
+export function useAuthUser() {
+  const [user, setUser] = React.useState<FirebaseUser | null>(null)
+  const [username, setUsername] = React.useState<string | null>(null)
+  const [isAuthLoading, setIsAuthLoading] = React.useState(true)
+
+  // The uid whose profile is wanted, so a slow load for a previous user is ignored.
+  const loadingUidRef = React.useRef<string | null>(null)
+
+  const loadUsername = React.useCallback(async (firebaseUser: FirebaseUser | null) => {
+    loadingUidRef.current = firebaseUser?.uid ?? null
+    if (!firebaseUser) {
+      setUsername(null)
+      return
+    }
+    let profileUsername: string | undefined
+    try {
+      const profileSnap = await getDoc(doc(db, "users", firebaseUser.uid))
+      if (profileSnap.exists()) {
+        profileUsername = (profileSnap.data() as UserProfile).username
+      }
+    } catch (error) {
+      console.error("Failed to load user profile", error)
+    }
+    if (loadingUidRef.current === firebaseUser.uid) {
+      setUsername(profileUsername || fallbackUsername(firebaseUser))
+    }
+  }, [])
+
+  React.useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
+      setUser(firebaseUser)
+      // A different user's name must not be recorded while the new profile loads.
+      setUsername(null)
+      setIsAuthLoading(false)
+      loadUsername(firebaseUser)
+    })
+
+    // Dispatched by the profile page after a username change.
+    const handleProfileUpdate = () => loadUsername(auth.currentUser)
+    window.addEventListener("profileUpdated", handleProfileUpdate)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener("profileUpdated", handleProfileUpdate)
+    }
+  }, [loadUsername])
+
+  // Only set once the profile has loaded, so nothing is recorded under a name picked before it.
+  const actor = React.useMemo<ActingUser | null>(
+    () => (user && username ? { uid: user.uid, username } : null),
+    [user, username]
+  )
+
+  return { user, username, actor, isAuthLoading }
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+// Keyboard-wedge scanners "type" the code a few milliseconds per key and end
+// with Enter. People type far slower, so only fast bursts count as scans.
+const MAX_KEY_INTERVAL_MS = 50
+const MIN_CODE_LENGTH = 3
+
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = React.useRef(onScan)
+
+  React.useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ""
+    let lastKeyAt = 0
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) return
+      if (event.timeStamp - lastKeyAt > MAX_KEY_INTERVAL_MS) {
+        buffer = ""
+      }
+      lastKeyAt = event.timeStamp
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          // Keep the Enter from also submitting whatever form has focus
+          event.preventDefault()
+          onScanRef.current(buffer)
+        }
+        buffer = ""
+      } else if (event.key.length === 1) {
+        buffer += event.key
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled])
+}
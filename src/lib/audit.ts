@@ -0,0 +1,25 @@
+// src/lib/audit.ts
+// Helpers for recording before/after values of metadata edits.
+import type { FieldChange } from '@/lib/types';
+
+// Compares string fields, treating missing values as empty.
+export function diffFields<Field extends string>(
+  current: Partial<Record<Field, string>>,
+  next: Record<Field, string>,
+  fields: readonly Field[]
+): FieldChange<Field>[] {
+  return fields
+    .filter((field) => (current[field] || '') !== next[field])
+    .map((field) => ({ field, before: current[field] || '', after: next[field] }));
+}
+
+// 'reorderPoint' -> 'Reorder point'
+const formatFieldName = (field: string): string => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const describeFieldChanges = (fieldChanges: FieldChange[]): string =>
+  fieldChanges
+    .map(({ field, before, after }) => `${formatFieldName(field)}: "${before || 'none'}" → "${after || 'none'}"`)
+    .join('; ');
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ean13CheckDigit, encodeBarcode, isValidCode128, isValidEan13, validateBarcode } from '@/lib/barcodes';
+
+describe('EAN-13', () => {
+  it('computes and checks the check digit', () => {
+    expect(ean13CheckDigit('400638133393')).toBe(1);
+    expect(isValidEan13('4006381333931')).toBe(true);
+    expect(isValidEan13('4006381333932')).toBe(false);
+    expect(isValidEan13('400638133393')).toBe(false);
+  });
+
+  it('encodes 95 modules with guard bars', () => {
+    const modules = encodeBarcode('4006381333931', 'EAN13');
+    expect(modules).toHaveLength(95);
+    expect(modules.startsWith('101')).toBe(true);
+    expect(modules.slice(45, 50)).toBe('01010');
+    expect(modules.endsWith('101')).toBe(true);
+  });
+});
+
+describe('Code 128', () => {
+  it('accepts printable ASCII up to 48 characters', () => {
+    expect(isValidCode128('SKU-0001')).toBe(true);
+    expect(isValidCode128('')).toBe(false);
+    expect(isValidCode128('é')).toBe(false);
+    expect(isValidCode128('x'.repeat(49))).toBe(false);
+  });
+
+  it('encodes start B, the data, the checksum and the stop pattern', () => {
+    const modules = encodeBarcode('AB', 'CODE128');
+    // 11 modules per symbol (start, 2 data, checksum) plus the 13-module stop.
+    expect(modules).toHaveLength(11 * 4 + 13);
+    expect(modules.startsWith('11010010000')).toBe(true);
+    expect(modules.endsWith('1100011101011')).toBe(true);
+  });
+});
+
+describe('validateBarcode', () => {
+  it('explains why a value cannot be encoded', () => {
+    expect(validateBarcode('4006381333931', 'EAN13')).toBeNull();
+    expect(validateBarcode('123', 'EAN13')).toMatch(/13 digits/);
+    expect(validateBarcode('', 'CODE128')).toMatch(/printable ASCII/);
+  });
+});
@@ -0,0 +1,87 @@
+// src/lib/barcodes.ts
+// Barcode validation and encoding. Encoders return the symbol as a string of
+// modules ('1' = bar, '0' = space) without quiet zones, ready to draw as SVG.
+import type { BarcodeFormat } from '@/lib/types';
+
+export const BARCODE_FORMATS = ['EAN13', 'CODE128'] as const satisfies readonly BarcodeFormat[];
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  EAN13: 'EAN-13',
+  CODE128: 'Code 128',
+};
+
+const CODE128_MAX_LENGTH = 48;
+
+// --- EAN-13 ---
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// The first digit is not drawn; it selects the L/G pattern of the left half.
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = first12
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export const isValidEan13 = (value: string): boolean =>
+  /^\d{13}$/.test(value) && ean13CheckDigit(value.slice(0, 12)) === Number(value[12]);
+
+function encodeEan13(value: string): string {
+  const digits = value.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[digit]).join('');
+  const right = digits.slice(7).map((digit) => EAN_R[digit]).join('');
+  return `101${left}01010${right}101`;
+}
+
+// --- Code 128 (code set B) ---
+
+// Bar/space widths for symbol values 0-106; 104 is Start B and 106 is Stop.
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+export const isValidCode128 = (value: string): boolean =>
+  value.length > 0 && value.length <= CODE128_MAX_LENGTH && /^[\x20-\x7e]+$/.test(value);
+
+const widthsToModules = (widths: string): string =>
+  widths
+    .split('')
+    .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+    .join('');
+
+function encodeCode128(value: string): string {
+  const symbols = [CODE128_START_B, ...value.split('').map((char) => char.charCodeAt(0) - 32)];
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  return [...symbols, checksum, CODE128_STOP].map((symbol) => widthsToModules(CODE128_WIDTHS[symbol])).join('');
+}
+
+// Returns a message describing why the value cannot be encoded, or null.
+export function validateBarcode(value: string, format: BarcodeFormat): string | null {
+  if (format === 'EAN13') {
+    return isValidEan13(value) ? null : 'EAN-13 barcodes are 13 digits with a valid check digit.';
+  }
+  return isValidCode128(value)
+    ? null
+    : `Code 128 barcodes are 1-${CODE128_MAX_LENGTH} printable ASCII characters.`;
+}
+
+export function encodeBarcode(value: string, format: BarcodeFormat): string {
+  return format === 'EAN13' ? encodeEan13(value) : encodeCode128(value);
+}
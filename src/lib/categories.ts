@@ -0,0 +1,49 @@
+// src/lib/categories.ts
+// Item categories and tags. An item has at most one category, named freely
+// (the forms suggest the categories already in use), and any number of tags.
+// Tags are stored lower-case with dashes for spaces so "Fragile" and
+// "fragile" are the same tag.
+import type { Item } from '@/lib/types';
+
+// Items without a category are listed, filtered and subtotalled under this name.
+export const UNCATEGORIZED = 'Uncategorized';
+
+export interface ItemFilters {
+  category: string | null; // UNCATEGORIZED matches items without a category
+  tag: string | null;
+}
+
+export const normalizeCategory = (category: string): string => category.trim().replace(/\s+/g, ' ');
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Tags are entered comma-separated.
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean))).sort();
+
+export const formatTags = (tags?: string[]): string => (tags ?? []).join(', ');
+
+export const getItemCategory = (item: Pick<Item, 'category'>): string => item.category || UNCATEGORIZED;
+
+export const listCategories = (items: Pick<Item, 'category'>[]): string[] =>
+  Array.from(new Set(items.map(item => item.category).filter((category): category is string => !!category)))
+    .sort((a, b) => a.localeCompare(b));
+
+export const listTags = (items: Pick<Item, 'tags'>[]): string[] =>
+  Array.from(new Set(items.flatMap(item => item.tags ?? []))).sort();
+
+export const matchesItemFilters = (item: Pick<Item, 'category' | 'tags'>, filters: ItemFilters): boolean =>
+  (!filters.category || getItemCategory(item) === filters.category) &&
+  (!filters.tag || !!item.tags?.includes(filters.tag));
+
+// Groups rows by category in name order, with uncategorized rows last. Rows keep their order within a group.
+export function groupByCategory<T extends { category?: string }>(rows: T[]): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const category = row.category || UNCATEGORIZED;
+    groups.set(category, [...(groups.get(category) ?? []), row]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    Number(a === UNCATEGORIZED) - Number(b === UNCATEGORIZED) || a.localeCompare(b)
+  );
+}
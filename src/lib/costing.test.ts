@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyCostChange, fetchValuationAsOf, getAverageCost, sumLayerValue } from '@/lib/costing';
+import { toMovementData } from '@/lib/movements';
+import type { CostLayer, HistoryEntry, Warehouse } from '@/lib/types';
+import { fakeDb } from '@/test/fakeFirestore';
+import { makeItem } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+const T0 = '2024-01-01T00:00:00.000Z';
+const T1 = '2024-02-01T00:00:00.000Z';
+const layers: CostLayer[] = [
+  { quantity: 10, unitCost: 2, receivedAt: T0 },
+  { quantity: 10, unitCost: 4, receivedAt: T1 },
+];
+
+describe('applyCostChange under FIFO', () => {
+  it('costs issued stock from the oldest layers first', () => {
+    const result = applyCostChange(layers, 'FIFO', -15, 0, T1);
+    expect(result.drawn).toEqual([
+      { quantity: 10, unitCost: 2, receivedAt: T0 },
+      { quantity: 5, unitCost: 4, receivedAt: T1 },
+    ]);
+    expect(result.costLayers).toEqual([{ quantity: 5, unitCost: 4, receivedAt: T1 }]);
+    expect(result.entry).toEqual({ costOfGoods: 40, valueAfter: 20 });
+  });
+
+  it('receives stock as a new layer at the given unit cost', () => {
+    const result = applyCostChange(layers, 'FIFO', 5, 0, '2024-03-01T00:00:00.000Z', { unitCost: 6 });
+    expect(result.costLayers).toHaveLength(3);
+    expect(result.costLayers[2]).toEqual({ quantity: 5, unitCost: 6, receivedAt: '2024-03-01T00:00:00.000Z' });
+    expect(result.entry).toEqual({ unitCost: 6, valueAfter: 90 });
+  });
+
+  it('receives stock at the average cost when no unit cost is given', () => {
+    const result = applyCostChange(layers, 'FIFO', 10, 0, T1);
+    expect(result.entry.unitCost).toBe(3);
+  });
+
+  it('leaves stock beyond the layers uncosted', () => {
+    const result = applyCostChange([{ quantity: 2, unitCost: 5, receivedAt: T0 }], 'FIFO', -3, 0, T1);
+    expect(result.costLayers).toEqual([]);
+    expect(result.entry).toEqual({ costOfGoods: 10, valueAfter: 0 });
+  });
+
+  it('records no cost for items without layers', () => {
+    const result = applyCostChange(undefined, 'FIFO', -3, 0, T1);
+    expect(result.entry).toEqual({ valueAfter: 0 });
+    expect(applyCostChange(undefined, 'FIFO', 3, 0, T1).costLayers).toEqual([]);
+  });
+});
+
+describe('applyCostChange under weighted average', () => {
+  it('folds receipts into a single layer at the average cost', () => {
+    const result = applyCostChange([{ quantity: 10, unitCost: 2, receivedAt: T0 }], 'WEIGHTED_AVERAGE', 10, 0, T1, { unitCost: 4 });
+    expect(result.costLayers).toEqual([{ quantity: 20, unitCost: 3, receivedAt: T0 }]);
+  });
+
+  it('costs issued stock at the average cost', () => {
+    const result = applyCostChange(layers, 'WEIGHTED_AVERAGE', -5, 0, T1);
+    expect(result.entry.costOfGoods).toBe(15);
+    expect(result.costLayers).toEqual([{ quantity: 15, unitCost: 3, receivedAt: T0 }]);
+  });
+});
+
+describe('cost layer helpers', () => {
+  it('values and averages layers', () => {
+    expect(sumLayerValue(layers)).toBe(60);
+    expect(getAverageCost(layers)).toBe(3);
+    expect(getAverageCost([])).toBeUndefined();
+  });
+
+  it('carries drawn layers into the receiving item', () => {
+    const drawn = applyCostChange(layers, 'FIFO', -12, 0, T1).drawn;
+    const received = applyCostChange([], 'FIFO', 12, 0, T1, { layers: drawn });
+    expect(sumLayerValue(received.costLayers)).toBe(28);
+  });
+});
+
+describe('fetchValuationAsOf', () => {
+  const warehouse = { id: 'wh-1', name: 'Old Store', isArchived: true } as Warehouse;
+  const seedMovement = (itemId: string, id: string, timestamp: string, fields: Partial<HistoryEntry>) =>
+    fakeDb.seed(`items/${itemId}/movements/${id}`, toMovementData(
+      { type: 'ADD_STOCK', change: 1, quantityBefore: 0, quantityAfter: 1, timestamp, ...fields },
+      itemId,
+      'wh-1',
+      'owner-1'
+    ));
+
+  beforeEach(() => fakeDb.reset());
+
+  it('values each item by its last stock movement on or before the day', async () => {
+    seedMovement('bolt', 'm-1', T0, { quantityAfter: 5, valueAfter: 10 });
+    seedMovement('bolt', 'm-2', '2024-01-15T00:00:00.000Z', { type: 'UPDATE_ITEM', quantityAfter: 5 });
+    seedMovement('bolt', 'm-3', T1, { quantityAfter: 8, valueAfter: 22 });
+    seedMovement('nut', 'm-4', T0, { type: 'CONSUME_STOCK', quantityAfter: 0, valueAfter: 0 });
+
+    const lines = await fetchValuationAsOf([makeItem('bolt'), makeItem('nut')], [warehouse], new Date('2024-01-20T00:00:00.000Z'));
+    expect(lines).toEqual([expect.objectContaining({ itemId: 'bolt', warehouseName: 'Old Store', quantity: 5, value: 10 })]);
+  });
+
+  it('looks up every item when there are more than one batch', async () => {
+    const items = Array.from({ length: 23 }, (_, index) => makeItem(`item-${index}`));
+    items.forEach(item => seedMovement(item.id, 'm-1', T0, { quantityAfter: 1, valueAfter: 2 }));
+    const lines = await fetchValuationAsOf(items, [warehouse], new Date(T1));
+    expect(lines).toHaveLength(23);
+  });
+});
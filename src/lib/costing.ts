@@ -0,0 +1,189 @@
+// src/lib/costing.ts
+// Inventory valuation. Each item keeps cost layers: the stock it received and
+// what one unit of it cost. Under FIFO, stock leaving the item is costed from
+// the oldest layers first; under weighted average, every receipt is folded
+// into a single layer at the average cost. Stock received before costing was
+// introduced has no layer and is valued at zero.
+import { getDocs, limit, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { movementsCollection } from '@/lib/movements';
+import { getItemPrecision, getItemUnit, roundQuantity } from '@/lib/units';
+import type { CostingMethod, CostLayer, HistoryEntry, HistoryEntryType, Item, UnitOfMeasure, Warehouse } from '@/lib/types';
+
+export const COSTING_METHODS = ['FIFO', 'WEIGHTED_AVERAGE'] as const satisfies readonly CostingMethod[];
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO (first in, first out)',
+  WEIGHTED_AVERAGE: 'Weighted average',
+};
+
+export const getCostingMethod = (warehouse?: Pick<Warehouse, 'costingMethod'>): CostingMethod =>
+  warehouse?.costingMethod ?? 'FIFO';
+
+// Values are kept to the cent; unit costs to four decimal places so averages do not drift.
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const roundUnitCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const formatMoney = (value: number): string =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatUnitCost = (value: number): string =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+const layerQuantity = (layers: CostLayer[]): number => layers.reduce((total, layer) => total + layer.quantity, 0);
+
+export const sumLayerValue = (layers: CostLayer[]): number =>
+  roundMoney(layers.reduce((total, layer) => total + layer.quantity * layer.unitCost, 0));
+
+// Average cost of the item's costed stock, or undefined when none of it is costed.
+export function getAverageCost(layers: CostLayer[] = []): number | undefined {
+  const quantity = layerQuantity(layers);
+  return quantity > 0 ? roundUnitCost(layers.reduce((total, layer) => total + layer.quantity * layer.unitCost, 0) / quantity) : undefined;
+}
+
+// Folds the layers into one at their average cost, e.g. after switching from FIFO.
+function mergeLayers(layers: CostLayer[], precision: number): CostLayer[] {
+  if (layers.length <= 1) return layers;
+  return [{ quantity: roundQuantity(layerQuantity(layers), precision), unitCost: getAverageCost(layers)!, receivedAt: layers[0].receivedAt }];
+}
+
+function receiveLayer(layers: CostLayer[], layer: CostLayer, method: CostingMethod, precision: number): CostLayer[] {
+  if (method === 'FIFO') return [...layers, { ...layer, unitCost: roundUnitCost(layer.unitCost) }];
+  return mergeLayers([...layers, layer], precision);
+}
+
+// Takes the quantity from the oldest layers; anything beyond them is uncosted stock.
+function issueLayers(layers: CostLayer[], quantity: number, method: CostingMethod, precision: number) {
+  const drawn: CostLayer[] = [];
+  const remaining: CostLayer[] = [];
+  let left = quantity;
+  for (const layer of method === 'FIFO' ? layers : mergeLayers(layers, precision)) {
+    const taken = Math.min(layer.quantity, left);
+    if (taken > 0) drawn.push({ ...layer, quantity: taken });
+    if (layer.quantity > taken) remaining.push({ ...layer, quantity: roundQuantity(layer.quantity - taken, precision) });
+    left = roundQuantity(left - taken, precision);
+  }
+  return { drawn, remaining };
+}
+
+export interface CostChange {
+  costLayers: CostLayer[]; // The item's layers after the change
+  drawn: CostLayer[]; // Layers taken by a decrease, carried along by transfers
+  entry: Pick<HistoryEntry, 'unitCost' | 'costOfGoods' | 'valueAfter'>; // Recorded on the movement
+}
+
+/**
+ * Works out how a stock change moves an item's cost layers. Increases are
+ * received at the given unit cost, or at the item's average cost when none is
+ * given; increases may instead carry layers drawn from another item, as
+ * transfers do. Decreases are costed by the warehouse's method.
+ */
+export function applyCostChange(
+  layers: CostLayer[] = [],
+  method: CostingMethod,
+  change: number,
+  precision: number,
+  timestamp: string,
+  received: { unitCost?: number; layers?: CostLayer[] } = {}
+): CostChange {
+  if (change < 0) {
+    const { drawn, remaining } = issueLayers(layers, -change, method, precision);
+    return {
+      costLayers: remaining,
+      drawn,
+      entry: { ...(drawn.length > 0 && { costOfGoods: sumLayerValue(drawn) }), valueAfter: sumLayerValue(remaining) },
+    };
+  }
+
+  let costLayers = layers;
+  let unitCost: number | undefined;
+  if (received.layers) {
+    received.layers.forEach(layer => { costLayers = receiveLayer(costLayers, { ...layer, receivedAt: timestamp }, method, precision); });
+    unitCost = getAverageCost(received.layers);
+  } else {
+    unitCost = received.unitCost ?? getAverageCost(layers);
+    if (unitCost !== undefined && change > 0) {
+      costLayers = receiveLayer(layers, { quantity: change, unitCost, receivedAt: timestamp }, method, precision);
+    }
+  }
+  return {
+    costLayers,
+    drawn: [],
+    entry: { ...(unitCost !== undefined && { unitCost: roundUnitCost(unitCost) }), valueAfter: sumLayerValue(costLayers) },
+  };
+}
+
+// One line of the valuation report.
+export interface ValuationLine {
+  itemId: string;
+  name: string;
+  warehouseName: string;
+  costingMethod: CostingMethod;
+  category?: string;
+  quantity: number;
+  value: number;
+  unit: UnitOfMeasure;
+  precision: number;
+}
+
+export const sumValuation = (lines: Pick<ValuationLine, 'value'>[]): number =>
+  roundMoney(lines.reduce((total, line) => total + line.value, 0));
+
+const sortValuation = (lines: ValuationLine[]): ValuationLine[] =>
+  lines.sort((a, b) => a.warehouseName.localeCompare(b.warehouseName) || a.name.localeCompare(b.name));
+
+const toValuationLine = (item: Item, warehouse: Warehouse, quantity: number, value: number): ValuationLine => ({
+  itemId: item.id,
+  name: item.name,
+  warehouseName: warehouse.name,
+  costingMethod: getCostingMethod(warehouse),
+  ...(item.category && { category: item.category }),
+  quantity,
+  value,
+  unit: getItemUnit(item),
+  precision: getItemPrecision(item),
+});
+
+// The current value of the active items in stock, from their cost layers.
+export function listCurrentValuation(items: Item[], warehouses: Warehouse[]): ValuationLine[] {
+  const warehousesById = new Map(warehouses.map(wh => [wh.id, wh]));
+  return sortValuation(items
+    .filter(item => !item.isArchived && item.quantity > 0 && warehousesById.has(item.warehouseId))
+    .map(item => toValuationLine(item, warehousesById.get(item.warehouseId)!, item.quantity, sumLayerValue(item.costLayers ?? []))));
+}
+
+// Movements that change the quantity; the others carry no value.
+const STOCK_MOVEMENT_TYPES: HistoryEntryType[] = [
+  'CREATE_ITEM', 'ADD_STOCK', 'CONSUME_STOCK', 'ADJUST_STOCK', 'TRANSFER_IN', 'TRANSFER_OUT', 'ASSEMBLE', 'DISASSEMBLE',
+];
+
+// Items whose latest movement is looked up at the same time for a past valuation.
+const VALUATION_QUERY_BATCH_SIZE = 10;
+
+/**
+ * Values the stock held at the end of the given day, from each item's last
+ * stock movement on or before it. Archived items are included, since they may
+ * have held stock then. Movements recorded before costing carry no value.
+ * One query runs per item, a batch of items at a time.
+ */
+export async function fetchValuationAsOf(items: Item[], warehouses: Warehouse[], asOf: Date): Promise<ValuationLine[]> {
+  const warehousesById = new Map(warehouses.map(wh => [wh.id, wh]));
+  const valuedItems = items.filter(item => warehousesById.has(item.warehouseId));
+  const lines: (ValuationLine | null)[] = [];
+  for (let start = 0; start < valuedItems.length; start += VALUATION_QUERY_BATCH_SIZE) {
+    lines.push(...await Promise.all(valuedItems.slice(start, start + VALUATION_QUERY_BATCH_SIZE).map(async (item) => {
+      const snapshot = await getDocs(query(
+        movementsCollection(item.id),
+        where('type', 'in', STOCK_MOVEMENT_TYPES),
+        where('timestamp', '<=', Timestamp.fromDate(asOf)),
+        orderBy('timestamp', 'desc'),
+        limit(1)
+      ));
+      const latest = snapshot.docs[0]?.data();
+      return latest && latest.quantityAfter > 0
+        ? toValuationLine(item, warehousesById.get(item.warehouseId)!, latest.quantityAfter, latest.valueAfter ?? 0)
+        : null;
+    })));
+  }
+  return sortValuation(lines.filter((line): line is ValuationLine => line !== null));
+}
@@ -0,0 +1,116 @@
+// src/lib/invitations.ts
+// Warehouse invitations. An owner invites an email address with a role; the
+// invitee sees the pending invitation after signing in and accepts or
+// declines it. Accepting adds them to the warehouse's members in the same
+// transaction that marks the invitation as accepted, which is what the
+// security rules check before letting a non-member join.
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { Invitation, MemberProfile, Warehouse } from '@/lib/types';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Deterministic ids keep one invitation per warehouse and email, and let the rules look it up.
+export const invitationId = (warehouseId: string, email: string) => `${warehouseId}_${normalizeEmail(email)}`;
+
+const toInvitation = (docSnap: QueryDocumentSnapshot<DocumentData>): Invitation => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    warehouseId: data.warehouseId,
+    warehouseName: data.warehouseName,
+    email: data.email,
+    role: data.role,
+    status: data.status,
+    invitedBy: data.invitedBy,
+    invitedByName: data.invitedByName,
+    createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+    respondedAt: data.respondedAt?.toDate?.().toISOString(),
+  };
+};
+
+export async function createInvitation(
+  warehouse: Warehouse,
+  email: string,
+  role: Invitation['role'],
+  invitedBy: { uid: string; name?: string }
+): Promise<void> {
+  const invitationRef = doc(db, 'invitations', invitationId(warehouse.id, email));
+  const existing = await getDoc(invitationRef);
+  if (existing.exists() && existing.data().status === 'pending') {
+    throw new Error(`${normalizeEmail(email)} already has a pending invitation to this warehouse.`);
+  }
+  await setDoc(invitationRef, {
+    warehouseId: warehouse.id,
+    warehouseName: warehouse.name,
+    email: normalizeEmail(email),
+    role,
+    status: 'pending',
+    invitedBy: invitedBy.uid,
+    invitedByName: invitedBy.name || '',
+    createdAt: serverTimestamp(),
+  });
+}
+
+export async function fetchWarehouseInvitations(warehouseId: string): Promise<Invitation[]> {
+  const snapshot = await getDocs(
+    query(collection(db, 'invitations'), where('warehouseId', '==', warehouseId), where('status', '==', 'pending'))
+  );
+  return snapshot.docs.map(toInvitation);
+}
+
+export async function fetchPendingInvitationsForEmail(email: string): Promise<Invitation[]> {
+  const snapshot = await getDocs(
+    query(collection(db, 'invitations'), where('email', '==', normalizeEmail(email)), where('status', '==', 'pending'))
+  );
+  return snapshot.docs.map(toInvitation);
+}
+
+export async function acceptInvitation(invitation: Invitation, userId: string, profile: MemberProfile): Promise<void> {
+  const invitationRef = doc(db, 'invitations', invitation.id);
+  const warehouseRef = doc(db, 'warehouses', invitation.warehouseId);
+
+  await runTransaction(db, async (transaction) => {
+    const invitationSnap = await transaction.get(invitationRef);
+    if (!invitationSnap.exists() || invitationSnap.data().status !== 'pending') {
+      throw new Error('This invitation is no longer available.');
+    }
+    transaction.update(warehouseRef, {
+      [`members.${userId}`]: invitationSnap.data().role,
+      [`memberProfiles.${userId}`]: profile,
+      memberIds: arrayUnion(userId),
+    });
+    transaction.update(invitationRef, {
+      status: 'accepted',
+      respondedAt: serverTimestamp(),
+    });
+  });
+}
+
+export async function declineInvitation(invitation: Invitation): Promise<void> {
+  await updateDoc(doc(db, 'invitations', invitation.id), {
+    status: 'declined',
+    respondedAt: serverTimestamp(),
+  });
+}
+
+export async function revokeInvitation(invitation: Invitation): Promise<void> {
+  await updateDoc(doc(db, 'invitations', invitation.id), {
+    status: 'revoked',
+    respondedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildPickList, confirmIssueOrderPicked } from '@/lib/issueOrders';
+import type { IssueOrderLine } from '@/lib/types';
+import { fakeDb } from '@/test/fakeFirestore';
+import { actor, makeItem, seedItem, seedWarehouse, storedQuantity } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+const line = (itemId: string, quantity = 1): IssueOrderLine => ({ itemId, name: itemId, quantity });
+
+describe('buildPickList', () => {
+  it('walks locations in natural order and leaves unlocated lines last', () => {
+    const items = [
+      makeItem('bolt', { locationId: 'A-10' }),
+      makeItem('nut', { locationId: 'A-2' }),
+      makeItem('washer'),
+      makeItem('anchor'),
+      makeItem('screw', { locationId: 'B-1' }),
+    ];
+    const order = { id: 'order-1', lines: ['washer', 'bolt', 'screw', 'anchor', 'nut'].map(id => line(id)) };
+    expect(buildPickList(order, items).map(pick => pick.itemId)).toEqual(['nut', 'bolt', 'screw', 'anchor', 'washer']);
+  });
+
+  it('counts only what other orders hold on the item', () => {
+    const reservation = { quantity: 2, reference: 'SO-1', createdBy: 'u', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+    const items = [makeItem('bolt', {
+      quantity: 10,
+      reservations: [
+        { ...reservation, id: 'r-1', issueOrderId: 'order-1' },
+        { ...reservation, id: 'r-2', issueOrderId: 'order-2' },
+        { ...reservation, id: 'r-3', quantity: 1 },
+      ],
+    })];
+    const [pick] = buildPickList({ id: 'order-1', lines: [line('bolt', 2)] }, items);
+    expect(pick.onHand).toBe(10);
+    expect(pick.reservedElsewhere).toBe(3);
+  });
+
+  it('marks lines whose item is gone', () => {
+    const [pick] = buildPickList({ id: 'order-1', lines: [line('gone')] }, []);
+    expect(pick.onHand).toBeNull();
+    expect(pick.reservedElsewhere).toBe(0);
+  });
+
+  it('suggests the first-expiring lots for lot-tracked items', () => {
+    const items = [makeItem('milk', {
+      quantity: 10,
+      tracksLots: true,
+      lots: [
+        { lotNumber: 'L2', expiryDate: '2024-07-01', quantity: 5, receivedAt: '2024-01-01T00:00:00.000Z' },
+        { lotNumber: 'L1', expiryDate: '2024-06-01', quantity: 5, receivedAt: '2024-01-02T00:00:00.000Z' },
+      ],
+    })];
+    const [pick] = buildPickList({ id: 'order-1', lines: [line('milk', 6)] }, items);
+    expect(pick.lots).toEqual([
+      { lotNumber: 'L1', expiryDate: '2024-06-01', quantity: 5 },
+      { lotNumber: 'L2', expiryDate: '2024-07-01', quantity: 1 },
+    ]);
+  });
+});
+
+describe('confirmIssueOrderPicked', () => {
+  const reservation = { quantity: 2, reference: 'SO-1', createdBy: 'u', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1');
+    seedItem('bolt', {
+      quantity: 10,
+      reservations: [
+        { ...reservation, id: 'order-1', issueOrderId: 'order-1' },
+        { ...reservation, id: 'r-2', reference: 'Q-2' },
+      ],
+    });
+    seedItem('nut', { quantity: 3 });
+    fakeDb.seed('issueOrders/order-1', {
+      number: 'SO-1',
+      warehouseId: 'wh-1',
+      recipient: 'Acme',
+      status: 'open',
+      lines: [line('bolt', 2), line('nut', 3)],
+    });
+  });
+
+  it('consumes every line, releases the order\'s reservations and marks it picked', async () => {
+    await confirmIssueOrderPicked('order-1', {}, '', actor);
+    expect([storedQuantity('bolt'), storedQuantity('nut')]).toEqual([8, 0]);
+    expect(fakeDb.get('items/bolt')?.reservations).toEqual([{ ...reservation, id: 'r-2', reference: 'Q-2' }]);
+    const [movementPath] = fakeDb.list('items/bolt/movements');
+    expect(fakeDb.get(movementPath)).toMatchObject({ type: 'CONSUME_STOCK', change: -2, issueOrderId: 'order-1', issueOrderNumber: 'SO-1' });
+    expect(fakeDb.get('issueOrders/order-1')).toMatchObject({ status: 'picked', pickedBy: actor.uid });
+  });
+
+  it('posts nothing when a line is short', async () => {
+    seedItem('nut', { quantity: 2 });
+    await expect(confirmIssueOrderPicked('order-1', {}, '', actor)).rejects.toMatchObject({ code: 'insufficient-stock', currentQuantity: 2 });
+    expect([storedQuantity('bolt'), storedQuantity('nut')]).toEqual([10, 2]);
+    expect(fakeDb.list('items/bolt/movements')).toEqual([]);
+    expect(fakeDb.get('issueOrders/order-1')).toMatchObject({ status: 'open' });
+  });
+
+  it('rejects items archived or moved to another warehouse', async () => {
+    seedItem('nut', { quantity: 3, warehouseId: 'wh-2' });
+    await expect(confirmIssueOrderPicked('order-1', {}, '', actor)).rejects.toMatchObject({ code: 'not-found' });
+    seedItem('nut', { quantity: 3, isArchived: true });
+    await expect(confirmIssueOrderPicked('order-1', {}, '', actor)).rejects.toMatchObject({ code: 'not-found' });
+  });
+
+  it('needs the picked serials of serialized items', async () => {
+    seedItem('nut', { quantity: 3, serialized: true, serialNumbers: ['S1', 'S2', 'S3'] });
+    await expect(confirmIssueOrderPicked('order-1', { nut: ['S1', 'S2'] }, '', actor))
+      .rejects.toMatchObject({ code: 'invalid-serial', message: expect.stringMatching(/^nut: /) });
+    await confirmIssueOrderPicked('order-1', { nut: ['S1', 'S2', 'S3'] }, '', actor);
+    expect(fakeDb.get('items/nut')).toMatchObject({ quantity: 0, serialNumbers: [] });
+  });
+
+  it('can only be picked once', async () => {
+    await confirmIssueOrderPicked('order-1', {}, '', actor);
+    await expect(confirmIssueOrderPicked('order-1', {}, '', actor)).rejects.toThrow(/already been picked/);
+    expect(storedQuantity('bolt')).toBe(8);
+  });
+});
@@ -0,0 +1,343 @@
+// src/lib/issueOrders.ts
+// Issue orders: stock requested by a customer or an internal department. A
+// stock keeper writes the order with one line per item, prints a pick list
+// sorted by location, and confirms it once picked, which consumes every line
+// as CONSUME_STOCK movements linked to the order in one transaction. While the
+// order is open, its lines are reserved on the items.
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type DocumentData,
+  type DocumentSnapshot,
+  type Transaction,
+} from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { applyCostChange, getCostingMethod } from '@/lib/costing';
+import { getItemLocation } from '@/lib/locations';
+import { allocateFefo } from '@/lib/lots';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { getActiveReservations, setOrderReservation } from '@/lib/reservations';
+import { applyLotChange, applySerialChange, StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, getItemUnit, roundQuantity } from '@/lib/units';
+import type {
+  ActingUser,
+  HistoryEntry,
+  IssueOrder,
+  IssueOrderLine,
+  IssueOrderRecipientType,
+  IssueOrderStatus,
+  Item,
+  LotAllocation,
+  Warehouse,
+} from '@/lib/types';
+
+// Each line needs two writes (item and movement), plus the order itself,
+// within Firestore's limit of 500 writes per transaction.
+export const MAX_ISSUE_ORDER_LINES = 249;
+
+export const ISSUE_ORDER_STATUS_LABELS: Record<IssueOrderStatus, string> = {
+  open: 'Open',
+  picked: 'Picked',
+};
+
+export const RECIPIENT_TYPE_LABELS: Record<IssueOrderRecipientType, string> = {
+  customer: 'Customer',
+  department: 'Department',
+};
+
+const issueOrdersCollection = () => collection(db, 'issueOrders');
+
+const toIssueOrder = (id: string, data: DocumentData): IssueOrder => ({
+  id,
+  number: data.number,
+  warehouseId: data.warehouseId,
+  warehouseName: data.warehouseName,
+  recipientType: data.recipientType,
+  recipient: data.recipient,
+  status: data.status,
+  lines: data.lines || [],
+  neededBy: data.neededBy || undefined,
+  notes: data.notes || undefined,
+  createdBy: data.createdBy,
+  createdByName: data.createdByName,
+  createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+  pickedBy: data.pickedBy,
+  pickedByName: data.pickedByName,
+  pickedAt: data.pickedAt?.toDate?.().toISOString(),
+  updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+});
+
+// Newest first.
+export async function fetchIssueOrders(warehouseId: string): Promise<IssueOrder[]> {
+  const snapshot = await getDocs(query(issueOrdersCollection(), where('warehouseId', '==', warehouseId)));
+  return snapshot.docs
+    .map(docSnap => toIssueOrder(docSnap.id, docSnap.data()))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function fetchIssueOrder(orderId: string): Promise<IssueOrder | null> {
+  const docSnap = await getDoc(doc(issueOrdersCollection(), orderId));
+  return docSnap.exists() ? toIssueOrder(docSnap.id, docSnap.data()) : null;
+}
+
+export interface IssueOrderInput {
+  recipientType: IssueOrderRecipientType;
+  recipient: string;
+  lines: { item: Item; quantity: number }[]; // One per item
+  neededBy?: string; // yyyy-MM-dd
+  notes?: string;
+}
+
+const toOrderData = (input: IssueOrderInput) => ({
+  recipientType: input.recipientType,
+  recipient: input.recipient.trim(),
+  lines: input.lines.map(({ item, quantity }): IssueOrderLine => ({
+    itemId: item.id,
+    name: item.name,
+    ...(item.sku && { sku: item.sku }),
+    quantity,
+    unit: getItemUnit(item),
+    precision: getItemPrecision(item),
+  })),
+  neededBy: input.neededBy || '',
+  notes: input.notes?.trim() || '',
+  updatedAt: serverTimestamp(),
+});
+
+// What the order's reservations are shown as on the items.
+const toReservationReference = (number: string, recipient: string) => `${number} (${recipient.trim()})`;
+
+// Reads every item whose reservation for the order may change; must run before any write.
+const readReservedItems = (transaction: Transaction, itemIds: string[]) =>
+  Promise.all(Array.from(new Set(itemIds)).map(itemId => transaction.get(doc(db, 'items', itemId))));
+
+// Points each item's reservation for the order at its quantity on the order; items not on it are released.
+function writeOrderReservations(
+  transaction: Transaction,
+  itemSnaps: DocumentSnapshot<DocumentData>[],
+  order: { id: string; reference: string },
+  quantities: Map<string, number>,
+  actor: ActingUser
+) {
+  const timestamp = new Date().toISOString();
+  itemSnaps.forEach(itemSnap => {
+    if (!itemSnap.exists()) return;
+    transaction.update(itemSnap.ref, {
+      reservations: setOrderReservation(itemSnap.data(), order, quantities.get(itemSnap.id) ?? 0, actor, timestamp),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+const toQuantities = (input: IssueOrderInput) => new Map(input.lines.map(({ item, quantity }) => [item.id, quantity]));
+
+// Checked before saving so an order can always be picked in one transaction.
+function assertLineCount(input: IssueOrderInput) {
+  if (input.lines.length > MAX_ISSUE_ORDER_LINES) {
+    throw new Error(`An issue order can have at most ${MAX_ISSUE_ORDER_LINES} lines.`);
+  }
+}
+
+// Creates an open order and reserves its lines in one transaction.
+export async function createIssueOrder(warehouse: Warehouse, input: IssueOrderInput, actor: ActingUser): Promise<string> {
+  assertLineCount(input);
+  const orderRef = doc(issueOrdersCollection());
+  const number = `IO-${format(new Date(), 'yyyyMMdd')}-${orderRef.id.slice(0, 4).toUpperCase()}`;
+  await runTransaction(db, async (transaction) => {
+    const itemSnaps = await readReservedItems(transaction, input.lines.map(({ item }) => item.id));
+    const missing = itemSnaps.find(itemSnap => !itemSnap.exists() || itemSnap.data().isArchived);
+    if (missing) {
+      throw new StockAdjustmentError('not-found', 'An item on this order no longer exists or has been archived.');
+    }
+    transaction.set(orderRef, {
+      ...toOrderData(input),
+      number,
+      warehouseId: warehouse.id,
+      warehouseName: warehouse.name,
+      status: 'open',
+      createdBy: actor.uid,
+      createdByName: actor.username,
+      createdAt: serverTimestamp(),
+    });
+    writeOrderReservations(transaction, itemSnaps, { id: orderRef.id, reference: toReservationReference(number, input.recipient) }, toQuantities(input), actor);
+  });
+  return number;
+}
+
+// Only open orders can be changed; their reservations follow the new lines.
+export async function updateIssueOrder(orderId: string, input: IssueOrderInput, actor: ActingUser): Promise<void> {
+  assertLineCount(input);
+  const orderRef = doc(issueOrdersCollection(), orderId);
+  await runTransaction(db, async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    if (!orderSnap.exists() || orderSnap.data().status !== 'open') {
+      throw new Error('This issue order has already been picked or deleted.');
+    }
+    const order = toIssueOrder(orderSnap.id, orderSnap.data());
+    const itemSnaps = await readReservedItems(transaction, [
+      ...order.lines.map(line => line.itemId),
+      ...input.lines.map(({ item }) => item.id),
+    ]);
+    transaction.update(orderRef, toOrderData(input));
+    writeOrderReservations(transaction, itemSnaps, { id: order.id, reference: toReservationReference(order.number, input.recipient) }, toQuantities(input), actor);
+  });
+}
+
+// Deletes an open order and releases its reservations.
+export async function deleteIssueOrder(orderId: string, actor: ActingUser): Promise<void> {
+  const orderRef = doc(issueOrdersCollection(), orderId);
+  await runTransaction(db, async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    if (!orderSnap.exists() || orderSnap.data().status !== 'open') {
+      throw new Error('This issue order has already been picked or deleted.');
+    }
+    const order = toIssueOrder(orderSnap.id, orderSnap.data());
+    const itemSnaps = await readReservedItems(transaction, order.lines.map(line => line.itemId));
+    transaction.delete(orderRef);
+    writeOrderReservations(transaction, itemSnaps, { id: order.id, reference: order.number }, new Map(), actor);
+  });
+}
+
+// One line of a pick list, with where to find the item and, for lot-tracked items, the lots to take.
+export interface PickListLine extends IssueOrderLine {
+  location: string;
+  onHand: number | null; // null when the item no longer exists or is archived
+  reservedElsewhere: number; // Held on the item for other orders
+  lots?: LotAllocation[]; // First-expiring-first-out; missing when the lots hold too little
+  serialized?: boolean;
+}
+
+/**
+ * Orders an issue order's lines for walking the warehouse: by location code,
+ * in natural order so A-2 comes before A-10, with lines that have no location
+ * last. Lot-tracked lines suggest the lots that confirming the pick draws from.
+ */
+export function buildPickList(order: Pick<IssueOrder, 'id' | 'lines'>, items: Item[]): PickListLine[] {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  return order.lines
+    .map(line => {
+      const item = itemsById.get(line.itemId);
+      const lots = item?.tracksLots ? allocateFefo(item.lots ?? [], line.quantity, getItemPrecision(line)) : null;
+      return {
+        ...line,
+        location: item ? getItemLocation(item) : '',
+        onHand: item ? item.quantity : null,
+        reservedElsewhere: item
+          ? roundQuantity(getActiveReservations(item)
+            .filter(reservation => reservation.issueOrderId !== order.id)
+            .reduce((total, reservation) => total + reservation.quantity, 0), getItemPrecision(line))
+          : 0,
+        ...(lots && { lots }),
+        ...(item?.serialized && { serialized: true }),
+      };
+    })
+    .sort((a, b) =>
+      Number(!a.location) - Number(!b.location) ||
+      a.location.localeCompare(b.location, undefined, { numeric: true }) ||
+      a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Confirms an open issue order as picked in one transaction: every line is
+ * consumed from its item, lot-tracked items first-expiring-first-out and
+ * serialized items by the serials picked, with a CONSUME_STOCK movement
+ * linked to the order, and the order's reservations are released. Nothing is
+ * posted if any line is short.
+ */
+export async function confirmIssueOrderPicked(
+  orderId: string,
+  pickedSerials: Record<string, string[]>, // By item, for serialized items
+  comment: string,
+  actor: ActingUser
+): Promise<void> {
+  const orderRef = doc(issueOrdersCollection(), orderId);
+
+  await runTransaction(db, async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    if (!orderSnap.exists()) {
+      throw new Error('This issue order no longer exists.');
+    }
+    const order = toIssueOrder(orderSnap.id, orderSnap.data());
+    if (order.status !== 'open') {
+      throw new Error('This issue order has already been picked.');
+    }
+    if (order.lines.length > MAX_ISSUE_ORDER_LINES) {
+      throw new Error(`An issue order can post at most ${MAX_ISSUE_ORDER_LINES} lines at once.`);
+    }
+    const warehouseSnap = await transaction.get(doc(db, 'warehouses', order.warehouseId));
+    const itemSnaps = await Promise.all(order.lines.map(line => transaction.get(doc(db, 'items', line.itemId))));
+
+    const costingMethod = getCostingMethod(warehouseSnap.data());
+    const timestamp = new Date().toISOString();
+    order.lines.forEach((line, index) => {
+      const itemSnap = itemSnaps[index];
+      if (!itemSnap.exists() || itemSnap.data().isArchived || itemSnap.data().warehouseId !== order.warehouseId) {
+        throw new StockAdjustmentError('not-found', `${line.name} no longer exists in this warehouse or has been archived.`);
+      }
+      const item = itemSnap.data();
+      const precision = getItemPrecision(item);
+      const quantityBefore: number = item.quantity ?? 0;
+      if (line.quantity > quantityBefore) {
+        throw new StockAdjustmentError(
+          'insufficient-stock',
+          `${line.name}: only ${formatQuantity(quantityBefore, item)} in stock, ${formatQuantity(line.quantity, item)} requested.`,
+          quantityBefore
+        );
+      }
+
+      let lotChange, serialChange;
+      try {
+        lotChange = applyLotChange(item, 'CONSUME_STOCK', line.quantity, precision, timestamp);
+        serialChange = applySerialChange(item, 'CONSUME_STOCK', line.quantity, pickedSerials[line.itemId]);
+      } catch (error) {
+        if (error instanceof StockAdjustmentError) {
+          throw new StockAdjustmentError(error.code, `${line.name}: ${error.message}`);
+        }
+        throw error;
+      }
+      const costChange = applyCostChange(item.costLayers, costingMethod, -line.quantity, precision, timestamp);
+      const entry: Omit<HistoryEntry, 'id'> = {
+        type: 'CONSUME_STOCK',
+        change: -line.quantity,
+        quantityBefore,
+        quantityAfter: roundQuantity(quantityBefore - line.quantity, precision),
+        timestamp,
+        comment: comment || `Picked for ${order.number} (${order.recipient})`,
+        userId: actor.uid,
+        username: actor.username,
+        ...(lotChange && { lots: lotChange.allocations }),
+        ...(serialChange && { serialNumbers: serialChange.moved }),
+        ...costChange.entry,
+        issueOrderId: order.id,
+        issueOrderNumber: order.number,
+      };
+
+      transaction.update(itemSnap.ref, {
+        quantity: entry.quantityAfter,
+        ...(lotChange && { lots: lotChange.lots }),
+        ...(serialChange && { serialNumbers: serialChange.serialNumbers }),
+        costLayers: costChange.costLayers,
+        reservations: setOrderReservation(item, { id: order.id, reference: order.number }, 0, actor, timestamp),
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+      });
+      transaction.set(newMovementRef(itemSnap.id), toMovementData(entry, itemSnap.id, order.warehouseId, item.ownerId));
+    });
+
+    transaction.update(orderRef, {
+      status: 'picked',
+      pickedBy: actor.uid,
+      pickedByName: actor.username,
+      pickedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
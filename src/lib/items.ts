@@ -0,0 +1,140 @@
+// src/lib/items.ts
+import { deleteField, doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { diffFields, describeFieldChanges } from '@/lib/audit';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { BARCODE_FORMAT_LABELS } from '@/lib/barcodes';
+import { formatTags, normalizeCategory, normalizeTag } from '@/lib/categories';
+import { getItemLocation, locationRef } from '@/lib/locations';
+import { normalizeSku, skuRef, toSkuData } from '@/lib/skus';
+import type { ActingUser, BarcodeFormat, HistoryEntry, ItemFieldChange, UnitOfMeasure } from '@/lib/types';
+
+export interface ItemDetailsInput {
+  name: string;
+  sku?: string;
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat;
+  category?: string;
+  tags?: string[];
+  locationId?: string; // Code of one of the warehouse's locations; empty clears it
+  reorderPoint?: number;
+  maxLevel?: number;
+  packUnit?: UnitOfMeasure;
+  packSize?: number;
+}
+
+// Numeric fields are compared and recorded as strings; unset is ''.
+const formatNumber = (value: unknown): string => (typeof value === 'number' ? String(value) : '');
+
+// A barcode is recorded together with its format, e.g. "EAN-13 4006381333931".
+const formatBarcode = (barcode?: string, format?: BarcodeFormat): string =>
+  barcode && format ? `${BARCODE_FORMAT_LABELS[format]} ${barcode}` : '';
+
+/**
+ * Updates an item's name, SKU, barcode, category, tags, location, stock levels and pack size
+ * and records an UPDATE_ITEM movement with the before/after values of every
+ * field that changed. The values are compared against the stored item inside
+ * the transaction, so the audit entry reflects what was actually overwritten.
+ * A new SKU is claimed and the old one released in the same transaction.
+ * A legacy free-text location is kept until a location is chosen.
+ * Returns null when nothing changed.
+ */
+export async function updateItemDetails(
+  itemId: string,
+  details: ItemDetailsInput,
+  actor: ActingUser
+): Promise<HistoryEntry | null> {
+  const itemDocRef = doc(db, 'items', itemId);
+  const movementRef = newMovementRef(itemId);
+
+  return runTransaction(db, async (transaction) => {
+    const itemSnap = await transaction.get(itemDocRef);
+    if (!itemSnap.exists() || itemSnap.data().isArchived) {
+      throw new Error('This item no longer exists or has been archived.');
+    }
+    const current = itemSnap.data();
+
+    const next = {
+      name: details.name.trim(),
+      sku: details.sku ? normalizeSku(details.sku) : '',
+      category: normalizeCategory(details.category || ''),
+    };
+    const tags = Array.from(new Set((details.tags ?? []).map(normalizeTag).filter(Boolean))).sort();
+    const locationId = details.locationId || '';
+    const keepsLegacyLocation = !locationId && !current.locationId;
+    if (locationId && locationId !== current.locationId) {
+      const location = await transaction.get(locationRef(current.warehouseId, locationId));
+      if (!location.exists()) {
+        throw new Error(`Location ${locationId} no longer exists in this warehouse.`);
+      }
+    }
+    const skuChanged = next.sku !== (current.sku || '');
+    if (skuChanged && next.sku) {
+      const claim = await transaction.get(skuRef(current.warehouseId, next.sku));
+      if (claim.exists() && claim.data().itemId !== itemId) {
+        throw new Error(`SKU ${next.sku} is already used by another item in this warehouse.`);
+      }
+    }
+
+    const fieldChanges: ItemFieldChange[] = diffFields(
+      {
+        ...current,
+        location: getItemLocation(current),
+        barcode: formatBarcode(current.barcode, current.barcodeFormat),
+        tags: formatTags(current.tags),
+        reorderPoint: formatNumber(current.reorderPoint),
+        maxLevel: formatNumber(current.maxLevel),
+        packSize: formatNumber(current.packSize),
+      },
+      {
+        ...next,
+        location: keepsLegacyLocation ? current.location || '' : locationId,
+        barcode: formatBarcode(details.barcode, details.barcodeFormat),
+        tags: formatTags(tags),
+        reorderPoint: formatNumber(details.reorderPoint),
+        maxLevel: formatNumber(details.maxLevel),
+        packUnit: details.packUnit ?? '',
+        packSize: formatNumber(details.packSize),
+      },
+      ['name', 'sku', 'barcode', 'category', 'tags', 'location', 'reorderPoint', 'maxLevel', 'packUnit', 'packSize'] as const
+    );
+    if (fieldChanges.length === 0) return null;
+
+    const quantity: number = current.quantity ?? 0;
+    const entry: Omit<HistoryEntry, 'id'> = {
+      type: 'UPDATE_ITEM',
+      change: 0,
+      quantityBefore: quantity,
+      quantityAfter: quantity,
+      timestamp: new Date().toISOString(),
+      comment: describeFieldChanges(fieldChanges),
+      userId: actor.uid,
+      username: actor.username,
+      fieldChanges,
+    };
+
+    transaction.update(itemDocRef, {
+      ...next,
+      sku: next.sku || deleteField(),
+      category: next.category || deleteField(),
+      tags: tags.length > 0 ? tags : deleteField(),
+      locationId: locationId || deleteField(),
+      ...(!keepsLegacyLocation && { location: deleteField() }),
+      barcode: details.barcode || deleteField(),
+      barcodeFormat: details.barcode ? details.barcodeFormat : deleteField(),
+      reorderPoint: details.reorderPoint ?? deleteField(),
+      maxLevel: details.maxLevel ?? deleteField(),
+      packUnit: details.packUnit ?? deleteField(),
+      packSize: details.packSize ?? deleteField(),
+      updatedAt: serverTimestamp(),
+      lastMovementAt: serverTimestamp(),
+    });
+    if (skuChanged) {
+      if (current.sku) transaction.delete(skuRef(current.warehouseId, current.sku));
+      if (next.sku) transaction.set(skuRef(current.warehouseId, next.sku), toSkuData(itemId, next.sku));
+    }
+    transaction.set(movementRef, toMovementData(entry, itemId, current.warehouseId, current.ownerId));
+
+    return { id: movementRef.id, ...entry };
+  });
+}
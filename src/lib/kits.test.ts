@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { assembleKit, describeComponentProblem, disassembleKit, getComponentRequirements, getMaxAssemblable } from '@/lib/kits';
+import { fakeDb } from '@/test/fakeFirestore';
+import { actor, makeItem, seedItem, seedWarehouse, storedQuantity } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+const kit = makeItem('chair', {
+  components: [
+    { itemId: 'leg', name: 'Leg', quantity: 4 },
+    { itemId: 'seat', name: 'Seat', quantity: 1 },
+  ],
+});
+
+describe('getComponentRequirements', () => {
+  it('scales the bill of materials and reports shortages', () => {
+    const items = [makeItem('leg', { quantity: 10 }), makeItem('seat', { quantity: 5 })];
+    const requirements = getComponentRequirements(kit, items, 3);
+    expect(requirements.map(({ itemId, required, onHand, short }) => ({ itemId, required, onHand, short }))).toEqual([
+      { itemId: 'leg', required: 12, onHand: 10, short: 2 },
+      { itemId: 'seat', required: 3, onHand: 5, short: 0 },
+    ]);
+  });
+
+  it('leaves reserved stock out', () => {
+    const reservation = { id: 'r-1', quantity: 3, reference: 'Q-1', createdBy: 'u-1', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+    const items = [makeItem('leg', { quantity: 12, reservations: [reservation] }), makeItem('seat', { quantity: 5 })];
+    const [leg] = getComponentRequirements(kit, items, 3);
+    expect(leg).toMatchObject({ onHand: 12, available: 9, short: 3 });
+    expect(getMaxAssemblable(kit, items)).toBe(2);
+  });
+
+  it('treats a missing component as out of stock', () => {
+    const [leg] = getComponentRequirements(kit, [], 1);
+    expect(leg.item).toBeUndefined();
+    expect(leg.short).toBe(4);
+  });
+});
+
+describe('getMaxAssemblable', () => {
+  it('is limited by the scarcest component', () => {
+    expect(getMaxAssemblable(kit, [makeItem('leg', { quantity: 10 }), makeItem('seat', { quantity: 5 })])).toBe(2);
+    expect(getMaxAssemblable(kit, [makeItem('leg', { quantity: 10 })])).toBe(0);
+    expect(getMaxAssemblable(makeItem('plain'), [])).toBe(0);
+  });
+
+  it('counts whole kits despite floating-point quotients', () => {
+    const glue = makeItem('pack', { components: [{ itemId: 'glue', name: 'Glue', quantity: 0.1 }] });
+    expect(getMaxAssemblable(glue, [makeItem('glue', { quantity: 0.3, unit: 'kg', precision: 1 })])).toBe(3);
+    expect(getMaxAssemblable(kit, [makeItem('leg', { quantity: 11 }), makeItem('seat', { quantity: 5 })])).toBe(2);
+  });
+});
+
+describe('describeComponentProblem', () => {
+  it('rejects the kit itself, kits, and tracked items', () => {
+    expect(describeComponentProblem(kit, makeItem('leg'))).toBeNull();
+    expect(describeComponentProblem(kit, kit)).not.toBeNull();
+    expect(describeComponentProblem(kit, makeItem('table', { components: [{ itemId: 'leg', name: 'Leg', quantity: 4 }] }))).not.toBeNull();
+    expect(describeComponentProblem(kit, makeItem('milk', { tracksLots: true }))).not.toBeNull();
+    expect(describeComponentProblem(kit, makeItem('other', { warehouseId: 'wh-2' }))).not.toBeNull();
+  });
+});
+
+describe('assembleKit and disassembleKit', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1');
+    seedItem('chair', { name: 'Chair', quantity: 1, components: kit.components });
+    seedItem('leg', { name: 'Leg', quantity: 10 });
+    seedItem('seat', { name: 'Seat', quantity: 5 });
+  });
+
+  it('consumes the components and adds the kits', async () => {
+    const entry = await assembleKit({ kitId: 'chair', kits: 2, actor });
+    expect(entry).toMatchObject({ type: 'ASSEMBLE', change: 2, quantityAfter: 3 });
+    expect([storedQuantity('chair'), storedQuantity('leg'), storedQuantity('seat')]).toEqual([3, 2, 3]);
+    expect(fakeDb.list('items/leg/movements')).toHaveLength(1);
+  });
+
+  it('names every short component and changes nothing', async () => {
+    await expect(assembleKit({ kitId: 'chair', kits: 6, actor })).rejects.toMatchObject({
+      code: 'insufficient-stock',
+      message: expect.stringMatching(/Leg \(24 pcs needed, 10 pcs available\), Seat \(6 pcs needed, 5 pcs available\)/),
+    });
+    expect([storedQuantity('chair'), storedQuantity('leg'), storedQuantity('seat')]).toEqual([1, 10, 5]);
+    expect(fakeDb.list('items/chair/movements')).toEqual([]);
+  });
+
+  it('keeps reserved components out of kits', async () => {
+    const reservation = { id: 'r-1', quantity: 3, reference: 'Q-1', createdBy: 'u-1', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+    seedItem('leg', { name: 'Leg', quantity: 10, reservations: [reservation] });
+    await expect(assembleKit({ kitId: 'chair', kits: 2, actor })).rejects.toMatchObject({ code: 'insufficient-stock' });
+  });
+
+  it('rejects fractions of whole kits', async () => {
+    await expect(assembleKit({ kitId: 'chair', kits: 0.5, actor })).rejects.toMatchObject({ code: 'invalid-quantity' });
+  });
+
+  it('rejects archived kits, plain items and archived components', async () => {
+    seedItem('stool', { quantity: 1 });
+    await expect(assembleKit({ kitId: 'stool', kits: 1, actor })).rejects.toMatchObject({ code: 'not-found' });
+    seedItem('seat', { name: 'Seat', quantity: 5, isArchived: true });
+    await expect(assembleKit({ kitId: 'chair', kits: 1, actor })).rejects.toMatchObject({ code: 'not-found', message: expect.stringContaining('Seat') });
+    seedItem('chair', { quantity: 1, components: kit.components, isArchived: true });
+    await expect(assembleKit({ kitId: 'chair', kits: 1, actor })).rejects.toMatchObject({ code: 'not-found' });
+  });
+
+  it('rejects components that track lots', async () => {
+    seedItem('seat', { name: 'Seat', quantity: 5, tracksLots: true, lots: [] });
+    await expect(assembleKit({ kitId: 'chair', kits: 1, actor })).rejects.toMatchObject({ code: 'invalid-quantity' });
+  });
+
+  it('does not take apart reserved kits', async () => {
+    const reservation = { id: 'r-1', quantity: 1, reference: 'SO-7', createdBy: 'u-1', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+    seedItem('chair', { name: 'Chair', quantity: 1, components: kit.components, reservations: [reservation] });
+    await expect(disassembleKit({ kitId: 'chair', kits: 1, actor })).rejects.toMatchObject({
+      code: 'insufficient-stock',
+      message: expect.stringContaining('SO-7'),
+    });
+    expect(storedQuantity('chair')).toBe(1);
+  });
+
+  it('takes apart only the kits in stock', async () => {
+    await expect(disassembleKit({ kitId: 'chair', kits: 2, actor })).rejects.toMatchObject({ code: 'insufficient-stock', currentQuantity: 1 });
+    await disassembleKit({ kitId: 'chair', kits: 1, actor });
+    expect([storedQuantity('chair'), storedQuantity('leg'), storedQuantity('seat')]).toEqual([0, 14, 6]);
+  });
+});
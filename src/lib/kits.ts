@@ -0,0 +1,318 @@
+// src/lib/kits.ts
+// Kits are items assembled from other items of the same warehouse. A kit's
+// bill of materials lists its components and how much of each goes into one
+// kit. Assembling consumes the components and adds the kits in one
+// transaction; disassembling does the reverse. Every item involved gets an
+// ASSEMBLE or DISASSEMBLE movement, linked by a shared assemblyId. Kits and
+// their components track neither lots nor serial numbers.
+import { arrayRemove, arrayUnion, deleteField, doc, runTransaction, serverTimestamp, type DocumentData } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { describeFieldChanges, diffFields } from '@/lib/audit';
+import { applyCostChange, getCostingMethod, roundMoney } from '@/lib/costing';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { getActiveReservations, getAvailableQuantity } from '@/lib/reservations';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, hasPrecision, precisionError, roundQuantity } from '@/lib/units';
+import type { ActingUser, HistoryEntry, Item, ItemFieldChange, KitComponent } from '@/lib/types';
+
+// Assembling writes the kit, every component and a movement for each in one transaction.
+export const MAX_KIT_COMPONENTS = 50;
+
+export const isKit = (item: Pick<Item, 'components'>): boolean => (item.components ?? []).length > 0;
+
+// Lot-tracked and serialized stock would need lots or serials picked for every kit.
+const tracksUnits = (item: DocumentData): boolean => !!item.tracksLots || !!item.serialized;
+
+// Why the item cannot go into the kit's bill of materials, or null when it can.
+export function describeComponentProblem(kit: Pick<Item, 'id' | 'warehouseId'>, component: Item): string | null {
+  if (component.id === kit.id) return 'A kit cannot contain itself.';
+  if (component.warehouseId !== kit.warehouseId) return `${component.name} is in another warehouse.`;
+  if (isKit(component)) return `${component.name} is a kit itself.`;
+  if (tracksUnits(component)) return `${component.name} tracks lots or serial numbers.`;
+  return null;
+}
+
+// What one line of the bill of materials needs for the given number of kits.
+// Reserved stock is on hand but cannot go into kits.
+export interface ComponentRequirement extends KitComponent {
+  item?: Item; // Missing when the component was archived
+  required: number;
+  onHand: number;
+  available: number;
+  short: number;
+}
+
+export function getComponentRequirements(kit: Item, items: Item[], kits: number): ComponentRequirement[] {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  return (kit.components ?? []).map(component => {
+    const item = itemsById.get(component.itemId);
+    const precision = getItemPrecision(item);
+    const required = roundQuantity(component.quantity * kits, precision);
+    const onHand = item?.quantity ?? 0;
+    const available = item ? Math.max(0, getAvailableQuantity(item)) : 0;
+    return { ...component, item, required, onHand, available, short: Math.max(0, roundQuantity(required - available, precision)) };
+  });
+}
+
+// Whole kits one line's available stock is enough for. The quotient is
+// rounded to the component's precision first, so 0.3 / 0.1 counts as 3.
+const countWholeKits = (line: ComponentRequirement): number => {
+  if (!line.item) return 0;
+  const precision = getItemPrecision(line.item);
+  const kits = Math.floor(roundQuantity(line.available / line.quantity, precision));
+  return roundQuantity(kits * line.quantity, precision) > line.available ? kits - 1 : kits;
+};
+
+// How many more kits the available components are enough for.
+export function getMaxAssemblable(kit: Item, items: Item[]): number {
+  const requirements = getComponentRequirements(kit, items, 1);
+  if (requirements.length === 0) return 0;
+  return Math.min(...requirements.map(countWholeKits));
+}
+
+// "2 × Bolt, 1 × Frame", as recorded on UPDATE_ITEM movements.
+const formatComponents = (components: KitComponent[] = []): string =>
+  components.map(component => `${component.quantity} × ${component.name}`).join(', ');
+
+/**
+ * Replaces a kit's bill of materials and records an UPDATE_ITEM movement with
+ * the components before and after; an empty list turns the kit back into a
+ * plain item. The components are re-read inside the transaction, and each
+ * keeps the ids of the kits it is used in (`usedInKits`). An item that is
+ * already a component of another active kit cannot become a kit, so kits
+ * never nest. Returns null when nothing changed.
+ */
+export async function updateBillOfMaterials(
+  kit: Pick<Item, 'id' | 'name' | 'warehouseId'>,
+  lines: Pick<KitComponent, 'itemId' | 'quantity'>[],
+  actor: ActingUser
+): Promise<HistoryEntry | null> {
+  if (lines.length > MAX_KIT_COMPONENTS) {
+    throw new Error(`A kit can have at most ${MAX_KIT_COMPONENTS} components.`);
+  }
+  if (new Set(lines.map(line => line.itemId)).size !== lines.length) {
+    throw new Error('Each component can only be listed once.');
+  }
+
+  const kitRef = doc(db, 'items', kit.id);
+  const movementRef = newMovementRef(kit.id);
+  return runTransaction(db, async (transaction) => {
+    const kitSnap = await transaction.get(kitRef);
+    const componentSnaps = await Promise.all(lines.map(line => transaction.get(doc(db, 'items', line.itemId))));
+    if (!kitSnap.exists() || kitSnap.data().isArchived) {
+      throw new Error('This item no longer exists or has been archived.');
+    }
+    const current = kitSnap.data();
+    const lineIds = new Set(lines.map(line => line.itemId));
+    const removedSnaps = await Promise.all(((current.components ?? []) as KitComponent[])
+      .filter(component => !lineIds.has(component.itemId))
+      .map(component => transaction.get(doc(db, 'items', component.itemId))));
+    // A kit whose bill of materials no longer lists this item, or that was archived, does not count.
+    const parentSnaps = lines.length > 0
+      ? await Promise.all(((current.usedInKits ?? []) as string[]).map(parentId => transaction.get(doc(db, 'items', parentId))))
+      : [];
+    const parent = parentSnaps.find(parentSnap => parentSnap.exists() && !parentSnap.data().isArchived
+      && ((parentSnap.data().components ?? []) as KitComponent[]).some(component => component.itemId === kit.id));
+    if (parent) {
+      throw new Error(`${kit.name} is a component of ${parent.data()!.name} and cannot be a kit itself.`);
+    }
+    if (lines.length > 0 && tracksUnits(current)) {
+      throw new Error('Items that track lots or serial numbers cannot be kits.');
+    }
+
+    const components: KitComponent[] = lines.map((line, index) => {
+      const componentSnap = componentSnaps[index];
+      if (!componentSnap.exists() || componentSnap.data().isArchived) {
+        throw new Error('A component no longer exists or has been archived.');
+      }
+      const problem = describeComponentProblem({ id: kitSnap.id, warehouseId: current.warehouseId }, { id: componentSnap.id, ...componentSnap.data() } as Item);
+      if (problem) throw new Error(problem);
+      const precision = getItemPrecision(componentSnap.data());
+      if (!(line.quantity > 0) || !hasPrecision(line.quantity, precision)) {
+        throw new Error(`${componentSnap.data().name}: ${line.quantity > 0 ? precisionError(precision) : 'Quantity must be more than zero.'}`);
+      }
+      return { itemId: componentSnap.id, name: componentSnap.data().name, quantity: line.quantity };
+    });
+
+    const fieldChanges: ItemFieldChange[] = diffFields(
+      { components: formatComponents(current.components) },
+      { components: formatComponents(components) },
+      ['components'] as const
+    );
+    if (fieldChanges.length === 0) return null;
+
+    const quantity: number = current.quantity ?? 0;
+    const entry: Omit<HistoryEntry, 'id'> = {
+      type: 'UPDATE_ITEM',
+      change: 0,
+      quantityBefore: quantity,
+      quantityAfter: quantity,
+      timestamp: new Date().toISOString(),
+      comment: describeFieldChanges(fieldChanges),
+      userId: actor.uid,
+      username: actor.username,
+      fieldChanges,
+    };
+    transaction.update(kitRef, {
+      components: components.length > 0 ? components : deleteField(),
+      updatedAt: serverTimestamp(),
+      lastMovementAt: serverTimestamp(),
+    });
+    transaction.set(movementRef, toMovementData(entry, kit.id, current.warehouseId, current.ownerId));
+    componentSnaps.forEach(componentSnap => {
+      transaction.update(componentSnap.ref, { usedInKits: arrayUnion(kit.id), updatedAt: serverTimestamp() });
+    });
+    removedSnaps.filter(removedSnap => removedSnap.exists()).forEach(removedSnap => {
+      transaction.update(removedSnap.ref, { usedInKits: arrayRemove(kit.id), updatedAt: serverTimestamp() });
+    });
+    return { id: movementRef.id, ...entry };
+  });
+}
+
+export interface AssemblyInput {
+  kitId: string;
+  kits: number; // Always positive; how many kits are assembled or taken apart
+  comment?: string;
+  actor: ActingUser;
+}
+
+/**
+ * Assembles kits or takes them apart in one transaction. Assembling consumes
+ * every component of the bill of materials and adds the kits; it fails with
+ * `insufficient-stock`, naming each short component, unless all of them are
+ * available. Reserved stock stays out of kits, and reserved kits are not
+ * taken apart. The kits are received at the cost of the components consumed.
+ * Disassembling consumes the kits and returns the components, which are
+ * received at their average cost. The kit's movement and its components'
+ * movements share an assemblyId (the id of the kit's movement).
+ */
+async function runAssembly(type: 'ASSEMBLE' | 'DISASSEMBLE', input: AssemblyInput): Promise<HistoryEntry> {
+  const kitRef = doc(db, 'items', input.kitId);
+  const kitMovementRef = newMovementRef(input.kitId);
+
+  return runTransaction(db, async (transaction) => {
+    const kitSnap = await transaction.get(kitRef);
+    if (!kitSnap.exists() || kitSnap.data().isArchived) {
+      throw new StockAdjustmentError('not-found', 'This kit no longer exists or has been archived.');
+    }
+    const kit = kitSnap.data();
+    const components: KitComponent[] = kit.components ?? [];
+    if (components.length === 0) {
+      throw new StockAdjustmentError('not-found', `${kit.name} has no bill of materials.`);
+    }
+    const warehouseSnap = await transaction.get(doc(db, 'warehouses', kit.warehouseId));
+    const componentSnaps = await Promise.all(components.map(component => transaction.get(doc(db, 'items', component.itemId))));
+
+    const kitPrecision = getItemPrecision(kit);
+    if (!hasPrecision(input.kits, kitPrecision)) {
+      throw new StockAdjustmentError('invalid-quantity', precisionError(kitPrecision));
+    }
+    const kitQuantity: number = kit.quantity ?? 0;
+    const availableKits = Math.max(0, getAvailableQuantity({ ...kit, quantity: kitQuantity }));
+    if (type === 'DISASSEMBLE' && availableKits < input.kits) {
+      throw new StockAdjustmentError(
+        'insufficient-stock',
+        availableKits < kitQuantity
+          ? `Only ${formatQuantity(availableKits, kit)} can be taken apart; the rest is reserved for ${getActiveReservations(kit).map(reservation => reservation.reference).join(', ')}.`
+          : `Cannot take apart more kits than are in stock (${formatQuantity(kitQuantity, kit)}).`,
+        kitQuantity
+      );
+    }
+    const missing = components.find((_, index) => !componentSnaps[index].exists() || componentSnaps[index].data()!.isArchived);
+    if (missing) {
+      throw new StockAdjustmentError('not-found', `Component ${missing.name} no longer exists or has been archived.`);
+    }
+    if (tracksUnits(kit) || componentSnaps.some(componentSnap => tracksUnits(componentSnap.data()!))) {
+      throw new StockAdjustmentError('invalid-quantity', 'Kits and their components cannot track lots or serial numbers.');
+    }
+    const lines = components.map((component, index) => {
+      const data = componentSnaps[index].data()!;
+      const precision = getItemPrecision(data);
+      const quantityBefore: number = data.quantity ?? 0;
+      return { component, data, precision, quantityBefore, required: roundQuantity(component.quantity * input.kits, precision) };
+    });
+    if (type === 'ASSEMBLE') {
+      const short = lines
+        .map(line => ({ ...line, available: Math.max(0, getAvailableQuantity({ ...line.data, quantity: line.quantityBefore })) }))
+        .filter(line => line.available < line.required);
+      if (short.length > 0) {
+        throw new StockAdjustmentError(
+          'insufficient-stock',
+          'Not enough components: ' + short
+            .map(line => `${line.component.name} (${formatQuantity(line.required, line.data)} needed, ${formatQuantity(line.available, line.data)} available)`)
+            .join(', ') + '.'
+        );
+      }
+    }
+
+    const timestamp = new Date().toISOString();
+    const method = getCostingMethod(warehouseSnap.data());
+    const assemblyId = kitMovementRef.id;
+    const shared = { type, timestamp, assemblyId, userId: input.actor.uid, username: input.actor.username };
+    const sign = type === 'ASSEMBLE' ? 1 : -1;
+    const kitLabel = `${formatQuantity(input.kits, kit)} of ${kit.name}`;
+
+    const componentChanges = lines.map(line => {
+      const change = -sign * line.required;
+      const costChange = applyCostChange(line.data.costLayers, method, change, line.precision, timestamp);
+      const note = type === 'ASSEMBLE' ? `Used to assemble ${kitLabel}` : `Returned by taking apart ${kitLabel}`;
+      const entry: Omit<HistoryEntry, 'id'> = {
+        ...shared,
+        change,
+        quantityBefore: line.quantityBefore,
+        quantityAfter: roundQuantity(line.quantityBefore + change, line.precision),
+        comment: input.comment ? `${input.comment} (${note})` : note,
+        counterpartItemId: input.kitId,
+        ...costChange.entry,
+      };
+      return { line, costChange, entry };
+    });
+
+    // Assembled kits carry the cost of what went into them; stock without cost layers adds nothing.
+    const componentCost = roundMoney(componentChanges.reduce((total, { entry }) => total + (entry.costOfGoods ?? 0), 0));
+    const kitCost = applyCostChange(
+      kit.costLayers,
+      method,
+      sign * input.kits,
+      kitPrecision,
+      timestamp,
+      type === 'ASSEMBLE' && componentCost > 0 ? { unitCost: componentCost / input.kits } : {}
+    );
+    const kitEntry: Omit<HistoryEntry, 'id'> = {
+      ...shared,
+      change: sign * input.kits,
+      quantityBefore: kitQuantity,
+      quantityAfter: roundQuantity(kitQuantity + sign * input.kits, kitPrecision),
+      comment: input.comment || (type === 'ASSEMBLE'
+        ? `Assembled from ${components.length} component(s)`
+        : `Taken apart into ${components.length} component(s)`),
+      ...kitCost.entry,
+    };
+
+    transaction.update(kitRef, {
+      quantity: kitEntry.quantityAfter,
+      costLayers: kitCost.costLayers,
+      updatedAt: serverTimestamp(),
+      lastMovementAt: serverTimestamp(),
+    });
+    transaction.set(kitMovementRef, toMovementData(kitEntry, input.kitId, kit.warehouseId, kit.ownerId));
+    componentChanges.forEach(({ line, costChange, entry }) => {
+      transaction.update(doc(db, 'items', line.component.itemId), {
+        quantity: entry.quantityAfter,
+        costLayers: costChange.costLayers,
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+      });
+      transaction.set(
+        newMovementRef(line.component.itemId),
+        toMovementData(entry, line.component.itemId, line.data.warehouseId, line.data.ownerId)
+      );
+    });
+
+    return { id: kitMovementRef.id, ...kitEntry };
+  });
+}
+
+export const assembleKit = (input: AssemblyInput) => runAssembly('ASSEMBLE', input);
+
+export const disassembleKit = (input: AssemblyInput) => runAssembly('DISASSEMBLE', input);
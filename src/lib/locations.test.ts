@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocationText, toLocationCode, toLocationParts } from '@/lib/locations';
+
+describe('toLocationParts', () => {
+  it('pads numbers and rejects gaps between levels', () => {
+    expect(toLocationParts({ zone: 'a', aisle: '1' })).toEqual({ zone: 'A', aisle: '01' });
+    expect(toLocationParts({ zone: 'A', shelf: '3' })).toBeNull();
+    expect(toLocationParts({ zone: 'A-1' })).toBeNull();
+  });
+});
+
+describe('parseLocationText', () => {
+  const parse = (text: string) => {
+    const parts = parseLocationText(text);
+    return parts && toLocationCode(parts);
+  };
+
+  it('reads codes level by level from the zone down', () => {
+    expect(parse('A-1-3')).toBe('A-01-03');
+    expect(parse('b 02 7 12')).toBe('B-02-07-12');
+  });
+
+  it('places values after level words at their level', () => {
+    expect(parse('Zone B, aisle 3')).toBe('B-03');
+    expect(parse('Zone C shelf 4 aisle 1')).toBe('C-01-04');
+    expect(parse('Row 5 level 2 slot 9')).toBe('00-05-02-09');
+  });
+
+  it('fills the levels above the deepest one given', () => {
+    expect(parse('Aisle 3, shelf 2')).toBe('00-03-02');
+    expect(parse('Bin 4')).toBe('00-00-00-04');
+  });
+
+  it('continues below a named level', () => {
+    expect(parse('Aisle 3 2')).toBe('00-03-02');
+  });
+
+  it('rejects text it cannot place', () => {
+    expect(parse('')).toBeNull();
+    expect(parse('Shelf')).toBeNull();
+    expect(parse('Aisle 3, aisle 4')).toBeNull();
+    expect(parse('Bin 4 5')).toBeNull();
+    expect(parse('A 1 2 3 4')).toBeNull();
+    expect(parse('Back room, top shelf')).toBeNull();
+  });
+});
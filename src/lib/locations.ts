@@ -0,0 +1,213 @@
+// src/lib/locations.ts
+// Structured storage locations. Each warehouse defines its locations as a
+// zone / aisle / shelf / bin hierarchy in `warehouses/{id}/locations/{code}`,
+// and items reference one by its code. Keying locations by code keeps codes
+// unique, since creating an existing location is an update the rules reject.
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  serverTimestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { describeFieldChanges } from '@/lib/audit';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import type { ActingUser, HistoryEntry, Item, ItemFieldChange, LocationLevel, StorageLocation, Warehouse } from '@/lib/types';
+
+export type LocationParts = Pick<StorageLocation, LocationLevel>;
+
+export const LOCATION_LEVELS: readonly LocationLevel[] = ['zone', 'aisle', 'shelf', 'bin'];
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+  zone: 'Zone',
+  aisle: 'Aisle',
+  shelf: 'Shelf',
+  bin: 'Bin',
+};
+
+export const LOCATION_PART_PATTERN = /^[A-Z0-9]{1,10}$/;
+
+export const LOCATION_PART_MESSAGE = 'Use up to 10 letters or digits.';
+
+// Numbers are padded to two digits so that "Aisle 1" and "A-01" end up the same.
+export function normalizeLocationPart(part: string): string {
+  const trimmed = part.trim().toUpperCase();
+  return /^\d+$/.test(trimmed) ? trimmed.replace(/^0+(?=\d)/, '').padStart(2, '0') : trimmed;
+}
+
+// Returns null unless the levels are valid and filled from the zone down without gaps.
+export function toLocationParts(values: Partial<Record<LocationLevel, string>>): LocationParts | null {
+  const parts = LOCATION_LEVELS.map(level => normalizeLocationPart(values[level] || ''));
+  const depth = parts.indexOf('') === -1 ? parts.length : parts.indexOf('');
+  if (depth === 0 || parts.slice(depth).some(Boolean) || !parts.slice(0, depth).every(part => LOCATION_PART_PATTERN.test(part))) {
+    return null;
+  }
+  const [zone, aisle, shelf, bin] = parts;
+  return { zone, ...(aisle && { aisle }), ...(shelf && { shelf }), ...(bin && { bin }) };
+}
+
+export const toLocationCode = (parts: LocationParts): string =>
+  LOCATION_LEVELS.map(level => parts[level]).filter(Boolean).join('-');
+
+// "Zone A · Aisle 01 · Shelf 03"
+export const describeLocation = (parts: LocationParts): string =>
+  LOCATION_LEVELS
+    .filter(level => parts[level])
+    .map(level => `${LOCATION_LEVEL_LABELS[level]} ${parts[level]}`)
+    .join(' · ');
+
+const LEVEL_KEYWORDS: Record<string, LocationLevel> = {
+  ZONE: 'zone',
+  AREA: 'zone',
+  AISLE: 'aisle',
+  ROW: 'aisle',
+  RACK: 'aisle',
+  SHELF: 'shelf',
+  LEVEL: 'shelf',
+  BIN: 'bin',
+  SLOT: 'bin',
+};
+
+// Stands in for the levels above the deepest one a free-text location names,
+// e.g. the zone of "Aisle 3, shelf 2".
+export const MISSING_LOCATION_PART = '00';
+
+// Reads a code or a free-text location such as "Aisle 3, shelf 2" into levels.
+// A value after a level word goes to that level; any other value goes to the
+// level below the previous one, starting from the zone.
+export function parseLocationText(text: string): LocationParts | null {
+  const values: Partial<Record<LocationLevel, string>> = {};
+  let nextLevel = 0;
+  let named: LocationLevel | null = null;
+  for (const token of text.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean)) {
+    if (LEVEL_KEYWORDS[token]) {
+      if (named) return null;
+      named = LEVEL_KEYWORDS[token];
+      continue;
+    }
+    const level = named ?? LOCATION_LEVELS[nextLevel];
+    if (!level || values[level]) return null;
+    values[level] = token;
+    nextLevel = LOCATION_LEVELS.indexOf(level) + 1;
+    named = null;
+  }
+  const depth = Math.max(...LOCATION_LEVELS.map((level, index) => (values[level] ? index + 1 : 0)));
+  if (named || depth === 0) return null;
+  LOCATION_LEVELS.slice(0, depth).forEach((level) => {
+    values[level] = values[level] || MISSING_LOCATION_PART;
+  });
+  return toLocationParts(values);
+}
+
+// What to show for an item's location, including legacy text that is not migrated yet.
+export const getItemLocation = (item: Pick<Item, 'locationId' | 'location'>): string =>
+  item.locationId || item.location || '';
+
+export const locationsCollection = (warehouseId: string) => collection(db, 'warehouses', warehouseId, 'locations');
+
+export const locationRef = (warehouseId: string, code: string) => doc(locationsCollection(warehouseId), code);
+
+export const toLocationData = (parts: LocationParts) => ({
+  code: toLocationCode(parts),
+  ...parts,
+  createdAt: serverTimestamp(),
+});
+
+export const sortLocations = (locations: StorageLocation[]): StorageLocation[] =>
+  [...locations].sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+
+export async function fetchLocations(warehouseId: string): Promise<StorageLocation[]> {
+  const snapshot = await getDocs(locationsCollection(warehouseId));
+  return sortLocations(snapshot.docs.map(docSnap => {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      code: data.code,
+      zone: data.zone,
+      aisle: data.aisle,
+      shelf: data.shelf,
+      bin: data.bin,
+      createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+    };
+  }));
+}
+
+// Callers check that no item is stored at the location first.
+export const deleteLocation = (warehouseId: string, code: string) => deleteDoc(locationRef(warehouseId, code));
+
+// Items that still carry free-text locations, grouped by their text ignoring
+// case and spacing, with the location each group would be mapped to.
+export interface LocationMigrationGroup {
+  text: string;
+  items: Item[];
+  parts: LocationParts | null; // Null when the text could not be read
+}
+
+export function planLocationMigration(items: Item[]): LocationMigrationGroup[] {
+  const groups = new Map<string, LocationMigrationGroup>();
+  items
+    .filter(item => !item.locationId && item.location?.trim())
+    .forEach(item => {
+      const key = item.location!.trim().replace(/\s+/g, ' ').toUpperCase();
+      const group = groups.get(key);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.set(key, { text: item.location!.trim(), items: [item], parts: parseLocationText(item.location!) });
+      }
+    });
+  return Array.from(groups.values()).sort((a, b) => a.text.localeCompare(b.text, undefined, { numeric: true }));
+}
+
+/**
+ * Creates any missing locations and points each item at its location instead
+ * of its free-text location, recording the change as an UPDATE_ITEM movement.
+ * Locations are written before the items that reference them.
+ */
+export async function migrateLegacyLocations(
+  warehouse: Warehouse,
+  assignments: { item: Item; parts: LocationParts }[],
+  existingCodes: ReadonlySet<string>,
+  actor: ActingUser
+): Promise<number> {
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+  const created = new Set<string>();
+  assignments.forEach(({ parts }) => {
+    const code = toLocationCode(parts);
+    if (existingCodes.has(code) || created.has(code)) return;
+    created.add(code);
+    writes.push(batch => batch.set(locationRef(warehouse.id, code), toLocationData(parts)));
+  });
+  const timestamp = new Date().toISOString();
+  assignments.forEach(({ item, parts }) => {
+    const code = toLocationCode(parts);
+    const fieldChanges: ItemFieldChange[] = [{ field: 'location', before: item.location || '', after: code }];
+    const entry: Omit<HistoryEntry, 'id'> = {
+      type: 'UPDATE_ITEM',
+      change: 0,
+      quantityBefore: item.quantity,
+      quantityAfter: item.quantity,
+      timestamp,
+      comment: describeFieldChanges(fieldChanges),
+      userId: actor.uid,
+      username: actor.username,
+      fieldChanges,
+    };
+    writes.push(batch => {
+      batch.update(doc(db, 'items', item.id), { locationId: code, location: deleteField(), updatedAt: serverTimestamp(), lastMovementAt: serverTimestamp() });
+      batch.set(newMovementRef(item.id), toMovementData(entry, item.id, warehouse.id, warehouse.ownerId));
+    });
+  });
+
+  // Firestore batches are limited to 500 writes; each item takes two.
+  const chunkSize = 200;
+  for (let start = 0; start < writes.length; start += chunkSize) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + chunkSize).forEach(write => write(batch));
+    await batch.commit();
+  }
+  return assignments.length;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { addToLot, allocateFefo, drawFromLots, getExpiryStatus, sortLotsFefo } from '@/lib/lots';
+import type { ItemLot } from '@/lib/types';
+
+const lots: ItemLot[] = [
+  { lotNumber: 'NOEXP', quantity: 5, receivedAt: '2024-01-01T00:00:00.000Z' },
+  { lotNumber: 'LATE', expiryDate: '2024-09-01', quantity: 4, receivedAt: '2024-01-02T00:00:00.000Z' },
+  { lotNumber: 'SOON', expiryDate: '2024-06-01', quantity: 3, receivedAt: '2024-01-03T00:00:00.000Z' },
+];
+
+describe('sortLotsFefo', () => {
+  it('puts the first-expiring lots first and lots without expiry last', () => {
+    expect(sortLotsFefo(lots).map(lot => lot.lotNumber)).toEqual(['SOON', 'LATE', 'NOEXP']);
+  });
+
+  it('breaks ties by the oldest receipt', () => {
+    const tied: ItemLot[] = [
+      { lotNumber: 'B', expiryDate: '2024-06-01', quantity: 1, receivedAt: '2024-02-01T00:00:00.000Z' },
+      { lotNumber: 'A', expiryDate: '2024-06-01', quantity: 1, receivedAt: '2024-01-01T00:00:00.000Z' },
+    ];
+    expect(sortLotsFefo(tied).map(lot => lot.lotNumber)).toEqual(['A', 'B']);
+  });
+});
+
+describe('allocateFefo', () => {
+  it('takes from the first-expiring lots until the quantity is covered', () => {
+    expect(allocateFefo(lots, 5, 0)).toEqual([
+      { lotNumber: 'SOON', expiryDate: '2024-06-01', quantity: 3 },
+      { lotNumber: 'LATE', expiryDate: '2024-09-01', quantity: 2 },
+    ]);
+  });
+
+  it('returns null when the lots hold too little', () => {
+    expect(allocateFefo(lots, 13, 0)).toBeNull();
+  });
+
+  it('rounds fractional quantities to the precision', () => {
+    const fractional: ItemLot[] = [
+      { lotNumber: 'A', expiryDate: '2024-06-01', quantity: 0.1, receivedAt: '2024-01-01T00:00:00.000Z' },
+      { lotNumber: 'B', expiryDate: '2024-07-01', quantity: 0.2, receivedAt: '2024-01-01T00:00:00.000Z' },
+    ];
+    expect(allocateFefo(fractional, 0.3, 3)).toHaveLength(2);
+  });
+});
+
+describe('addToLot and drawFromLots', () => {
+  it('adds to an existing lot with the same expiry', () => {
+    const next = addToLot(lots, { lotNumber: 'SOON', expiryDate: '2024-06-01', quantity: 2 }, 0, '2024-03-01T00:00:00.000Z');
+    expect(next?.find(lot => lot.lotNumber === 'SOON')?.quantity).toBe(5);
+  });
+
+  it('rejects a lot number recorded with a different expiry', () => {
+    expect(addToLot(lots, { lotNumber: 'SOON', expiryDate: '2024-07-01', quantity: 2 }, 0, '2024-03-01T00:00:00.000Z')).toBeNull();
+  });
+
+  it('drops emptied lots and rejects overdrawn ones', () => {
+    expect(drawFromLots(lots, [{ lotNumber: 'SOON', quantity: 3 }], 0)?.map(lot => lot.lotNumber)).toEqual(['NOEXP', 'LATE']);
+    expect(drawFromLots(lots, [{ lotNumber: 'SOON', quantity: 4 }], 0)).toBeNull();
+  });
+
+  it('rejects allocations that are not positive', () => {
+    expect(drawFromLots(lots, [{ lotNumber: 'SOON', quantity: 4 }, { lotNumber: 'LATE', quantity: -1 }], 0)).toBeNull();
+    expect(drawFromLots(lots, [{ lotNumber: 'SOON', quantity: 0 }], 0)).toBeNull();
+  });
+});
+
+describe('getExpiryStatus', () => {
+  const today = new Date(2024, 4, 1);
+
+  it('flags expired and soon-expiring lots', () => {
+    expect(getExpiryStatus('2024-04-30', today)).toBe('expired');
+    expect(getExpiryStatus('2024-05-20', today)).toBe('expiring');
+    expect(getExpiryStatus('2024-09-01', today)).toBe('ok');
+    expect(getExpiryStatus(undefined, today)).toBe('ok');
+  });
+});
@@ -0,0 +1,115 @@
+// src/lib/lots.ts
+// Lot tracking: the stock of a lot-tracked item is split into lots, each with
+// an optional expiry date, and the lots always add up to the item's quantity.
+// Stock is consumed first-expiring-first-out (FEFO) unless the user picks lots.
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { formatQuantity, roundQuantity } from '@/lib/units';
+import type { Item, ItemLot, ItemUnits, LotAllocation, Warehouse } from '@/lib/types';
+
+// Surplus found by a stocktake has no known lot; it is parked here until corrected.
+export const UNASSIGNED_LOT = 'UNASSIGNED';
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'ok';
+
+export interface ExpiringLotLine {
+  item: Item;
+  warehouseName: string;
+  lot: ItemLot;
+  daysLeft: number; // Negative once expired
+}
+
+export const normalizeLotNumber = (lotNumber: string): string => lotNumber.trim();
+
+export const toAllocation = (lot: Pick<ItemLot, 'lotNumber' | 'expiryDate'>, quantity: number): LotAllocation => ({
+  lotNumber: lot.lotNumber,
+  ...(lot.expiryDate && { expiryDate: lot.expiryDate }),
+  quantity,
+});
+
+// Earliest expiry first; lots that do not expire go last. Ties go to the oldest lot.
+export const sortLotsFefo = (lots: ItemLot[]): ItemLot[] =>
+  [...lots].sort((a, b) =>
+    (a.expiryDate ?? '9999-12-31').localeCompare(b.expiryDate ?? '9999-12-31') ||
+    a.receivedAt.localeCompare(b.receivedAt)
+  );
+
+// Takes the quantity from the first-expiring lots, or returns null when the lots hold less.
+export function allocateFefo(lots: ItemLot[], quantity: number, precision: number): LotAllocation[] | null {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of sortLotsFefo(lots)) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push(toAllocation(lot, taken));
+    remaining = roundQuantity(remaining - taken, precision);
+  }
+  return remaining > 0 ? null : allocations;
+}
+
+// Adds to the lot with the same number, or opens a new one. Returns null when
+// the lot exists with a different expiry date.
+export function addToLot(lots: ItemLot[], allocation: LotAllocation, precision: number, receivedAt: string): ItemLot[] | null {
+  const existing = lots.find(lot => lot.lotNumber === allocation.lotNumber);
+  if (!existing) {
+    return [...lots, { ...toAllocation(allocation, allocation.quantity), receivedAt }];
+  }
+  if ((existing.expiryDate ?? '') !== (allocation.expiryDate ?? '')) return null;
+  return lots.map(lot => lot === existing ? { ...lot, quantity: roundQuantity(lot.quantity + allocation.quantity, precision) } : lot);
+}
+
+// Draws each allocation from its lot and drops emptied lots. Returns null when
+// an allocation is not positive, or its lot is missing or holds less than is
+// drawn from it.
+export function drawFromLots(lots: ItemLot[], allocations: LotAllocation[], precision: number): ItemLot[] | null {
+  let remaining = lots;
+  for (const allocation of allocations) {
+    if (!(allocation.quantity > 0)) return null;
+    const lot = remaining.find(candidate => candidate.lotNumber === allocation.lotNumber);
+    if (!lot || lot.quantity < allocation.quantity) return null;
+    remaining = remaining.map(candidate =>
+      candidate === lot ? { ...candidate, quantity: roundQuantity(candidate.quantity - allocation.quantity, precision) } : candidate
+    );
+  }
+  return remaining.filter(lot => lot.quantity > 0);
+}
+
+export const sumAllocations = (allocations: Pick<LotAllocation, 'quantity'>[], precision: number): number =>
+  roundQuantity(allocations.reduce((total, allocation) => total + allocation.quantity, 0), precision);
+
+// "L0423 (12 pcs), L0501 (3 pcs)"
+export const describeLots = (allocations: LotAllocation[], item?: ItemUnits): string =>
+  allocations.map(allocation => `${allocation.lotNumber} (${formatQuantity(allocation.quantity, item)})`).join(', ');
+
+export const daysUntilExpiry = (expiryDate: string, today: Date = new Date()): number =>
+  differenceInCalendarDays(parseISO(expiryDate), today);
+
+export function getExpiryStatus(expiryDate: string | undefined, today: Date = new Date()): ExpiryStatus {
+  if (!expiryDate) return 'ok';
+  const daysLeft = daysUntilExpiry(expiryDate, today);
+  if (daysLeft < 0) return 'expired';
+  return daysLeft <= EXPIRY_WARNING_DAYS ? 'expiring' : 'ok';
+}
+
+// The first lot to expire, which FEFO consumes next.
+export const nextExpiringLot = (item: Pick<Item, 'lots'>): ItemLot | undefined =>
+  sortLotsFefo(item.lots ?? []).find(lot => lot.expiryDate);
+
+// Lists the lots of active items that expire within the given number of days
+// (including already expired ones), soonest first.
+export function listExpiringLots(items: Item[], warehouses: Warehouse[], withinDays: number, today: Date = new Date()): ExpiringLotLine[] {
+  const warehouseNames = new Map(warehouses.map(wh => [wh.id, wh.name]));
+  return items
+    .filter(item => item.tracksLots && !item.isArchived && warehouseNames.has(item.warehouseId))
+    .flatMap(item => (item.lots ?? [])
+      .filter(lot => lot.expiryDate && lot.quantity > 0)
+      .map(lot => ({
+        item,
+        warehouseName: warehouseNames.get(item.warehouseId)!,
+        lot,
+        daysLeft: daysUntilExpiry(lot.expiryDate!, today),
+      })))
+    .filter(line => line.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft || a.item.name.localeCompare(b.item.name));
+}
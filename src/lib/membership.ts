@@ -0,0 +1,144 @@
+// src/lib/membership.ts
+// Warehouse roles and the actions each role may perform. The same matrix is
+// enforced server-side in firestore.rules; keep the two in sync.
+import {
+  arrayRemove,
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { MemberProfile, UserProfile, Warehouse, WarehouseRole } from '@/lib/types';
+
+export type WarehouseAction =
+  | 'view'
+  | 'adjustStock'
+  | 'manageItems'
+  | 'editWarehouse'
+  | 'archiveWarehouse'
+  | 'manageMembers';
+
+export const WAREHOUSE_ROLES: WarehouseRole[] = ['owner', 'manager', 'clerk', 'viewer'];
+
+// Roles an owner can hand out; ownership itself is never transferred.
+export const INVITABLE_ROLES: Exclude<WarehouseRole, 'owner'>[] = ['manager', 'clerk', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<WarehouseRole, WarehouseAction[]> = {
+  owner: ['view', 'adjustStock', 'manageItems', 'editWarehouse', 'archiveWarehouse', 'manageMembers'],
+  manager: ['view', 'adjustStock', 'manageItems', 'editWarehouse'],
+  clerk: ['view', 'adjustStock'],
+  viewer: ['view'],
+};
+
+export const formatRole = (role: WarehouseRole): string => role.charAt(0).toUpperCase() + role.slice(1);
+
+export function getWarehouseRole(warehouse: Pick<Warehouse, 'ownerId' | 'members'> | null | undefined, userId: string | null | undefined): WarehouseRole | null {
+  if (!warehouse || !userId) return null;
+  // Warehouses created before roles existed only carry an ownerId.
+  if (warehouse.ownerId === userId) return 'owner';
+  return warehouse.members?.[userId] ?? null;
+}
+
+export function canPerform(
+  warehouse: Pick<Warehouse, 'ownerId' | 'members'> | null | undefined,
+  userId: string | null | undefined,
+  action: WarehouseAction
+): boolean {
+  const role = getWarehouseRole(warehouse, userId);
+  return !!role && ROLE_PERMISSIONS[role].includes(action);
+}
+
+export const toMemberProfile = (username: string, email: string | null | undefined): MemberProfile => ({
+  username,
+  ...(email ? { email: email.toLowerCase() } : {}),
+});
+
+// Initial membership fields for a warehouse created by `ownerId`.
+export const ownerMembership = (ownerId: string, profile: MemberProfile) => ({
+  members: { [ownerId]: 'owner' as WarehouseRole },
+  memberIds: [ownerId],
+  memberProfiles: { [ownerId]: profile },
+});
+
+/**
+ * Warehouses created before roles existed have no `memberIds`, so they would
+ * not match the array-contains queries used to list a user's warehouses.
+ * Adds the owner as the sole member of any such warehouse.
+ */
+export async function backfillOwnerMembership(userId: string): Promise<void> {
+  const ownedSnapshot = await getDocs(query(collection(db, 'warehouses'), where('ownerId', '==', userId)));
+  const legacyDocs = ownedSnapshot.docs.filter((docSnap) => !Array.isArray(docSnap.data().memberIds));
+  if (legacyDocs.length === 0) return;
+
+  const batch = writeBatch(db);
+  legacyDocs.forEach((docSnap) => batch.update(docSnap.ref, {
+    members: { [userId]: 'owner' as WarehouseRole },
+    memberIds: [userId],
+  }));
+  await batch.commit();
+}
+
+/**
+ * Profiles in `users` are private, so each warehouse carries a copy of its
+ * members' names in `memberProfiles`. Refreshes the signed-in user's copy on
+ * every warehouse they belong to where it is missing or out of date.
+ */
+export async function syncMemberProfile(userId: string, email: string | null): Promise<void> {
+  const profileSnap = await getDoc(doc(db, 'users', userId));
+  const username = (profileSnap.data() as UserProfile | undefined)?.username || email?.split('@')[0] || 'User';
+  const profile = toMemberProfile(username, email);
+
+  const memberSnapshot = await getDocs(query(collection(db, 'warehouses'), where('memberIds', 'array-contains', userId)));
+  const staleDocs = memberSnapshot.docs.filter((docSnap) => {
+    const current: MemberProfile | undefined = docSnap.data().memberProfiles?.[userId];
+    return current?.username !== profile.username || current?.email !== profile.email;
+  });
+  if (staleDocs.length === 0) return;
+
+  const batch = writeBatch(db);
+  staleDocs.forEach((docSnap) => batch.update(docSnap.ref, { [`memberProfiles.${userId}`]: profile }));
+  await batch.commit();
+}
+
+export async function updateMemberRole(warehouseId: string, userId: string, role: Exclude<WarehouseRole, 'owner'>): Promise<void> {
+  await updateDoc(doc(db, 'warehouses', warehouseId), {
+    [`members.${userId}`]: role,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function removeMember(warehouseId: string, userId: string): Promise<void> {
+  await updateDoc(doc(db, 'warehouses', warehouseId), {
+    [`members.${userId}`]: deleteField(),
+    [`memberProfiles.${userId}`]: deleteField(),
+    memberIds: arrayRemove(userId),
+    updatedAt: serverTimestamp(),
+  });
+}
+
+// Firestore `in` filters accept at most 30 values.
+export const IN_QUERY_LIMIT = 30;
+
+/**
+ * Loads the items of several warehouses at once. Item reads are authorised
+ * through the item's warehouse, so queries must always filter on warehouseId.
+ */
+export async function fetchItemDocsForWarehouses(warehouseIds: string[], ...constraints: QueryConstraint[]) {
+  const docs: QueryDocumentSnapshot<DocumentData>[] = [];
+  for (let start = 0; start < warehouseIds.length; start += IN_QUERY_LIMIT) {
+    const idsChunk = warehouseIds.slice(start, start + IN_QUERY_LIMIT);
+    const snapshot = await getDocs(query(collection(db, 'items'), where('warehouseId', 'in', idsChunk), ...constraints));
+    docs.push(...snapshot.docs);
+  }
+  return docs;
+}
@@ -0,0 +1,192 @@
+import { Timestamp, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IN_QUERY_LIMIT } from '@/lib/membership';
+import {
+  fetchAllItemMovements,
+  fetchItemMovementsPage,
+  fetchMovementsPage,
+  migrateLegacyItemHistory,
+  toHistoryEntry,
+  toMovementData,
+} from '@/lib/movements';
+import type { HistoryEntry, LegacyHistoryEntry } from '@/lib/types';
+import { fakeDb } from '@/test/fakeFirestore';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+const entry: Omit<HistoryEntry, 'id'> = {
+  type: 'ADD_STOCK',
+  change: 5,
+  quantityBefore: 10,
+  quantityAfter: 15,
+  timestamp: '2024-03-01T12:00:00.000Z',
+  userId: 'user-1',
+  username: 'Ann',
+};
+
+// Only `id` and `data()` are read from a snapshot.
+const asSnapshot = (id: string, data: Record<string, unknown>) =>
+  ({ id, data: () => data }) as unknown as QueryDocumentSnapshot;
+
+describe('toMovementData', () => {
+  it('writes every field explicitly and links the movement to its item', () => {
+    const data = toMovementData({ ...entry, comment: undefined }, 'item-1', 'wh-1', 'owner-1');
+    expect(data).toMatchObject({
+      type: 'ADD_STOCK',
+      change: 5,
+      comment: '',
+      userId: 'user-1',
+      username: 'Ann',
+      itemId: 'item-1',
+      warehouseId: 'wh-1',
+      ownerId: 'owner-1',
+    });
+    expect(data.timestamp).toBeInstanceOf(Timestamp);
+    expect(Object.values(data)).not.toContain(undefined);
+  });
+
+  it('leaves out the fields of other movement types', () => {
+    const data = toMovementData(entry, 'item-1', 'wh-1', 'owner-1');
+    expect(data).not.toHaveProperty('transferId');
+    expect(data).not.toHaveProperty('lots');
+    expect(data).not.toHaveProperty('unitCost');
+  });
+
+  it('keeps both sides of a transfer', () => {
+    const data = toMovementData({ ...entry, type: 'TRANSFER_OUT', transferId: 't-1', counterpartItemId: 'item-2' }, 'item-1', 'wh-1', 'owner-1');
+    expect(data).toMatchObject({ transferId: 't-1', counterpartItemId: 'item-2', counterpartWarehouseId: '' });
+  });
+});
+
+describe('toHistoryEntry', () => {
+  it('reads a stored movement back', () => {
+    const stored = toMovementData(entry, 'item-1', 'wh-1', 'owner-1');
+    expect(toHistoryEntry(asSnapshot('m-1', stored))).toMatchObject({ id: 'm-1', ...entry, comment: '' });
+  });
+
+  it('treats an empty user as unknown', () => {
+    const stored = toMovementData({ ...entry, userId: undefined, username: undefined }, 'item-1', 'wh-1', 'owner-1');
+    const history = toHistoryEntry(asSnapshot('m-1', stored));
+    expect(history.userId).toBeUndefined();
+    expect(history.username).toBeUndefined();
+  });
+
+  it('keeps string timestamps of legacy entries', () => {
+    expect(toHistoryEntry(asSnapshot('m-1', { ...entry })).timestamp).toBe(entry.timestamp);
+  });
+});
+
+// Stores one movement per minute, the newest last.
+const seedMovements = (itemId: string, warehouseId: string, count: number) => {
+  for (let index = 0; index < count; index++) {
+    const timestamp = new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString();
+    fakeDb.seed(`items/${itemId}/movements/${itemId}-${index}`, toMovementData({ ...entry, timestamp }, itemId, warehouseId, 'owner-1'));
+  }
+};
+
+describe('fetchItemMovementsPage', () => {
+  beforeEach(() => fakeDb.reset());
+
+  it('pages through an item\'s movements newest first', async () => {
+    seedMovements('item-1', 'wh-1', 5);
+    const first = await fetchItemMovementsPage('item-1', null, 2);
+    expect(first.entries.map(movement => movement.id)).toEqual(['item-1-4', 'item-1-3']);
+    expect(first.hasMore).toBe(true);
+    const last = await fetchItemMovementsPage('item-1', (await fetchItemMovementsPage('item-1', first.cursor, 2)).cursor, 2);
+    expect(last.entries.map(movement => movement.id)).toEqual(['item-1-0']);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it('walks every page for the full history', async () => {
+    seedMovements('item-1', 'wh-1', 105);
+    expect(await fetchAllItemMovements('item-1')).toHaveLength(105);
+  });
+});
+
+describe('fetchMovementsPage', () => {
+  beforeEach(() => fakeDb.reset());
+
+  const resolveNames = () => ({ itemName: 'Bolt', warehouseName: 'Main', unit: 'pcs' as const, precision: 0, category: '' });
+
+  it('merges one page across more warehouses than fit one query', async () => {
+    const warehouseIds = Array.from({ length: IN_QUERY_LIMIT + 1 }, (_, index) => `wh-${index}`);
+    seedMovements('item-a', warehouseIds[0], 3);
+    seedMovements('item-b', warehouseIds[IN_QUERY_LIMIT], 3);
+    // Movements at the same time are ordered by path, descending.
+    const filters = { accessibleWarehouseIds: warehouseIds };
+
+    const first = await fetchMovementsPage(filters, resolveNames, null, 4);
+    expect(first.entries.map(movement => movement.id)).toEqual(['item-b-2', 'item-a-2', 'item-b-1', 'item-a-1']);
+    expect(first.hasMore).toBe(true);
+    const second = await fetchMovementsPage(filters, resolveNames, first.cursor, 4);
+    expect(second.entries.map(movement => movement.id)).toEqual(['item-b-0', 'item-a-0']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('fills pages of selected items across all warehouses', async () => {
+    seedMovements('item-a', 'wh-1', 3);
+    seedMovements('item-b', 'wh-2', 10);
+    const filters = { accessibleWarehouseIds: ['wh-1', 'wh-2'], itemIds: ['item-a'] };
+
+    const first = await fetchMovementsPage(filters, resolveNames, null, 2);
+    expect(first.entries.map(movement => movement.id)).toEqual(['item-a-2', 'item-a-1']);
+    expect(first.hasMore).toBe(true);
+    const second = await fetchMovementsPage(filters, resolveNames, first.cursor, 2);
+    expect(second.entries.map(movement => movement.id)).toEqual(['item-a-0']);
+    expect(second.hasMore).toBe(false);
+  });
+});
+
+describe('migrateLegacyItemHistory', () => {
+  beforeEach(() => fakeDb.reset());
+
+  const legacyHistory = (count: number): LegacyHistoryEntry[] => Array.from({ length: count }, (_, index) => ({
+    id: `${1700000000000 + index}-hist-add`,
+    type: 'ADD_STOCK',
+    change: 1,
+    quantityBefore: index,
+    quantityAfter: index + 1,
+    timestamp: new Date(1700000000000 + index).toISOString(),
+  }));
+
+  it('moves the history into movements and removes it from the item', async () => {
+    const history = legacyHistory(401);
+    fakeDb.seed('items/item-1', { warehouseId: 'wh-1', quantity: 401, history });
+    await migrateLegacyItemHistory('item-1', 'wh-1', 'owner-1', history);
+
+    expect(fakeDb.list('items/item-1/movements')).toHaveLength(401);
+    expect(fakeDb.get('items/item-1')).not.toHaveProperty('history');
+    expect(fakeDb.get(`items/item-1/movements/${history[0].id}`)).toMatchObject({ userId: '', itemId: 'item-1', ownerId: 'owner-1' });
+  });
+
+  it('gives entries without an id a legacy id from their position', async () => {
+    const [withoutId] = legacyHistory(1).map(({ id: _id, ...legacyEntry }) => legacyEntry);
+    fakeDb.seed('items/item-1', { warehouseId: 'wh-1', quantity: 1, history: [withoutId] });
+    await migrateLegacyItemHistory('item-1', 'wh-1', 'owner-1', [withoutId]);
+
+    expect(fakeDb.list('items/item-1/movements')).toEqual(['items/item-1/movements/1700000000000-hist-migrated-0']);
+  });
+
+  it('skips the entries an interrupted migration already copied', async () => {
+    const history = legacyHistory(3);
+    fakeDb.seed('items/item-1', { warehouseId: 'wh-1', quantity: 3, history });
+    fakeDb.seed(`items/item-1/movements/${history[0].id}`, { copied: 'earlier' });
+    await migrateLegacyItemHistory('item-1', 'wh-1', 'owner-1', history);
+
+    expect(fakeDb.get(`items/item-1/movements/${history[0].id}`)).toEqual({ copied: 'earlier' });
+    expect(fakeDb.list('items/item-1/movements')).toHaveLength(3);
+    expect(fakeDb.get('items/item-1')).not.toHaveProperty('history');
+  });
+
+  it('reads Firestore timestamps of older entries', async () => {
+    const [legacyEntry] = legacyHistory(1);
+    const stored = { ...legacyEntry, timestamp: Timestamp.fromMillis(1700000000000) };
+    fakeDb.seed('items/item-1', { warehouseId: 'wh-1', quantity: 1, history: [stored] });
+    await migrateLegacyItemHistory('item-1', 'wh-1', 'owner-1', [stored]);
+
+    const movement = fakeDb.get(`items/item-1/movements/${legacyEntry.id}`);
+    expect((movement?.timestamp as Timestamp).toMillis()).toBe(1700000000000);
+    expect(movement).not.toHaveProperty('id');
+  });
+});
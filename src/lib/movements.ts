@@ -0,0 +1,327 @@
+// src/lib/movements.ts
+// Stock movements live in the `items/{itemId}/movements` subcollection so item
+// documents stay small and history can be read page by page.
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { IN_QUERY_LIMIT } from '@/lib/membership';
+import { fetchMergedPageDocs, toPage, type Page, type PageCursor } from '@/lib/pagination';
+import type { FlattenedHistoryEntry, HistoryEntry, LegacyHistoryEntry, Warehouse } from '@/lib/types';
+
+export const MOVEMENTS_PAGE_SIZE = 25;
+
+export interface MovementFilters {
+  accessibleWarehouseIds: string[]; // Used when no single warehouse is selected
+  warehouseId?: string | null;
+  itemId?: string | null;
+  // Restricts the results to these items when no single item is selected. It is
+  // applied in the query when it fits one `in` filter next to a single warehouse,
+  // otherwise to the fetched movements, reading on until a page is full.
+  itemIds?: string[] | null;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export const movementsCollection = (itemId: string) => collection(db, 'items', itemId, 'movements');
+
+// Reserves a document reference so the movement can be written in the same batch as the item.
+export const newMovementRef = (itemId: string) => doc(movementsCollection(itemId));
+
+const toIsoString = (value: any): string => {
+  if (value?.toDate) return value.toDate().toISOString();
+  if (typeof value === 'string') return value;
+  return new Date().toISOString();
+};
+
+// Firestore rejects `undefined` values, so every field is written explicitly.
+export const toMovementData = (
+  entry: Omit<HistoryEntry, 'id'>,
+  itemId: string,
+  warehouseId: string,
+  ownerId: string
+) => ({
+  type: entry.type,
+  change: entry.change,
+  quantityBefore: entry.quantityBefore,
+  quantityAfter: entry.quantityAfter,
+  comment: entry.comment || '',
+  timestamp: Timestamp.fromDate(new Date(entry.timestamp)),
+  userId: entry.userId || '',
+  username: entry.username || '',
+  ...(entry.fieldChanges ? { fieldChanges: entry.fieldChanges } : {}),
+  ...(entry.transferId ? {
+    transferId: entry.transferId,
+    counterpartItemId: entry.counterpartItemId || '',
+    counterpartWarehouseId: entry.counterpartWarehouseId || '',
+  } : {}),
+  ...(entry.lots ? { lots: entry.lots } : {}),
+  ...(entry.serialNumbers ? { serialNumbers: entry.serialNumbers } : {}),
+  ...(entry.unitCost !== undefined ? { unitCost: entry.unitCost } : {}),
+  ...(entry.costOfGoods !== undefined ? { costOfGoods: entry.costOfGoods } : {}),
+  ...(entry.valueAfter !== undefined ? { valueAfter: entry.valueAfter } : {}),
+  ...(entry.purchaseOrderId ? {
+    purchaseOrderId: entry.purchaseOrderId,
+    purchaseOrderNumber: entry.purchaseOrderNumber || '',
+  } : {}),
+  ...(entry.issueOrderId ? {
+    issueOrderId: entry.issueOrderId,
+    issueOrderNumber: entry.issueOrderNumber || '',
+  } : {}),
+  ...(entry.assemblyId ? {
+    assemblyId: entry.assemblyId,
+    ...(entry.counterpartItemId ? { counterpartItemId: entry.counterpartItemId } : {}),
+  } : {}),
+  itemId,
+  warehouseId,
+  ownerId,
+});
+
+export const toHistoryEntry = (docSnap: QueryDocumentSnapshot<DocumentData>): HistoryEntry => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    type: data.type,
+    change: data.change,
+    quantityBefore: data.quantityBefore,
+    quantityAfter: data.quantityAfter,
+    comment: data.comment,
+    timestamp: toIsoString(data.timestamp),
+    userId: data.userId || undefined,
+    username: data.username || undefined,
+    fieldChanges: data.fieldChanges,
+    transferId: data.transferId,
+    counterpartItemId: data.counterpartItemId,
+    counterpartWarehouseId: data.counterpartWarehouseId,
+    lots: data.lots,
+    serialNumbers: data.serialNumbers,
+    unitCost: data.unitCost,
+    costOfGoods: data.costOfGoods,
+    valueAfter: data.valueAfter,
+    purchaseOrderId: data.purchaseOrderId,
+    purchaseOrderNumber: data.purchaseOrderNumber,
+    issueOrderId: data.issueOrderId,
+    issueOrderNumber: data.issueOrderNumber,
+    assemblyId: data.assemblyId,
+  };
+};
+
+export async function fetchItemMovementsPage(
+  itemId: string,
+  cursor: PageCursor = null,
+  pageSize: number = MOVEMENTS_PAGE_SIZE
+): Promise<Page<HistoryEntry>> {
+  const constraints: QueryConstraint[] = [orderBy('timestamp', 'desc')];
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(pageSize + 1));
+
+  const snapshot = await getDocs(query(movementsCollection(itemId), ...constraints));
+  return toPage(snapshot.docs, pageSize, toHistoryEntry);
+}
+
+// Walks every page for an item; used where the full history is needed (printing, archiving).
+export async function fetchAllItemMovements(itemId: string): Promise<HistoryEntry[]> {
+  const entries: HistoryEntry[] = [];
+  let cursor: PageCursor = null;
+  let hasMore = true;
+  while (hasMore) {
+    const page: Page<HistoryEntry> = await fetchItemMovementsPage(itemId, cursor, 100);
+    entries.push(...page.entries);
+    cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+  return entries;
+}
+
+// Cross-item movements for the reports page. Item and warehouse names and the
+// item's unit are not stored on movements, so `resolveNames` fills them in
+// from already-loaded data.
+export async function fetchMovementsPage(
+  filters: MovementFilters,
+  resolveNames: (itemId: string, warehouseId: string) => Pick<FlattenedHistoryEntry, 'itemName' | 'warehouseName' | 'unit' | 'precision' | 'category'>,
+  cursor: PageCursor = null,
+  pageSize: number = MOVEMENTS_PAGE_SIZE
+): Promise<Page<FlattenedHistoryEntry>> {
+  // Movement reads are authorised through the warehouse, so the query must always filter on it.
+  // Beyond IN_QUERY_LIMIT accessible warehouses, one query runs per chunk and the pages are merged.
+  const warehouseFilters: QueryConstraint[] = [];
+  if (filters.warehouseId) {
+    warehouseFilters.push(where('warehouseId', '==', filters.warehouseId));
+  } else {
+    for (let start = 0; start < filters.accessibleWarehouseIds.length; start += IN_QUERY_LIMIT) {
+      warehouseFilters.push(where('warehouseId', 'in', filters.accessibleWarehouseIds.slice(start, start + IN_QUERY_LIMIT)));
+    }
+  }
+  if (warehouseFilters.length === 0) {
+    return { entries: [], cursor: null, hasMore: false };
+  }
+  const itemIds = !filters.itemId && filters.itemIds ? new Set(filters.itemIds) : null;
+  if (itemIds?.size === 0) {
+    return { entries: [], cursor: null, hasMore: false };
+  }
+  const constraints: QueryConstraint[] = [];
+  if (filters.itemId) {
+    constraints.push(where('itemId', '==', filters.itemId));
+  } else if (filters.itemIds && filters.warehouseId && filters.itemIds.length <= IN_QUERY_LIMIT) {
+    constraints.push(where('itemId', 'in', filters.itemIds));
+  }
+  if (filters.startDate) {
+    const startOfDay = new Date(filters.startDate);
+    startOfDay.setHours(0, 0, 0, 0);
+    constraints.push(where('timestamp', '>=', Timestamp.fromDate(startOfDay)));
+  }
+  if (filters.endDate) {
+    const endOfDay = new Date(filters.endDate);
+    endOfDay.setHours(23, 59, 59, 999);
+    constraints.push(where('timestamp', '<=', Timestamp.fromDate(endOfDay)));
+  }
+  constraints.push(orderBy('timestamp', 'desc'));
+
+  // The cursor is the last document of the merged batch, so it positions every chunk's query.
+  const fetchBatch = (batchCursor: PageCursor) => fetchMergedPageDocs(
+    warehouseFilters.map(warehouseFilter => query(
+      collectionGroup(db, 'movements'),
+      warehouseFilter,
+      ...constraints,
+      ...(batchCursor ? [startAfter(batchCursor)] : []),
+      limit(pageSize + 1)
+    )),
+    'timestamp',
+    pageSize
+  );
+  // Movements of other items are dropped after the query, so further batches
+  // are read until the page and the one extra document are found or the
+  // movements run out. The next page starts after the last entry shown.
+  const docs: QueryDocumentSnapshot<DocumentData>[] = [];
+  let batchCursor = cursor;
+  let exhausted = false;
+  while (docs.length <= pageSize && !exhausted) {
+    const batch = await fetchBatch(batchCursor);
+    docs.push(...(itemIds ? batch.filter(docSnap => itemIds.has(docSnap.data().itemId)) : batch));
+    exhausted = batch.length <= pageSize;
+    batchCursor = batch.length > 0 ? batch[batch.length - 1] : batchCursor;
+  }
+  return toPage(docs, pageSize, (docSnap) => {
+    const data = docSnap.data();
+    return {
+      ...toHistoryEntry(docSnap),
+      ...resolveNames(data.itemId, data.warehouseId),
+      itemId: data.itemId,
+      warehouseId: data.warehouseId,
+      ...(data.counterpartWarehouseId ? {
+        counterpartWarehouseName: resolveNames(data.counterpartItemId, data.counterpartWarehouseId).warehouseName,
+      } : {}),
+    };
+  });
+}
+
+/**
+ * A transfer is recorded as a TRANSFER_OUT and a TRANSFER_IN movement sharing
+ * a transferId. Keeps only the first movement of each pair so a transfer is
+ * listed once; `transferRoute` describes both sides from either movement.
+ */
+export function collapseTransfers<T extends HistoryEntry>(entries: T[]): T[] {
+  const seenTransferIds = new Set<string>();
+  return entries.filter((entry) => {
+    if (!entry.transferId) return true;
+    if (seenTransferIds.has(entry.transferId)) return false;
+    seenTransferIds.add(entry.transferId);
+    return true;
+  });
+}
+
+export const isTransfer = (entry: HistoryEntry) => entry.type === 'TRANSFER_OUT' || entry.type === 'TRANSFER_IN';
+
+// "Source → Destination" for a transfer movement, whichever side it records.
+export const transferRoute = (entry: FlattenedHistoryEntry): string => {
+  const counterpart = entry.counterpartWarehouseName || 'Unknown Warehouse';
+  return entry.type === 'TRANSFER_OUT'
+    ? `${entry.warehouseName} → ${counterpart}`
+    : `${counterpart} → ${entry.warehouseName}`;
+};
+
+/**
+ * One-off migration for items created before movements were split out.
+ * Copies every entry of the legacy `history` array into the movements
+ * subcollection, reusing the entry ids, and removes the array from the item
+ * document with the last batch. The rules only accept unattributed movements
+ * with legacy `<millis>-hist-<type>` ids, so entries without an id are given
+ * one from their position. Movements never change once written, so a
+ * migration that stopped part way skips the entries it already copied.
+ */
+export async function migrateLegacyItemHistory(
+  itemId: string,
+  warehouseId: string,
+  ownerId: string,
+  history: LegacyHistoryEntry[]
+): Promise<void> {
+  const existingIds = new Set((await getDocs(movementsCollection(itemId))).docs.map(docSnap => docSnap.id));
+  const pending = history
+    .map((legacyEntry, index) => ({
+      entryId: legacyEntry.id ? String(legacyEntry.id) : `${new Date(toIsoString(legacyEntry.timestamp)).getTime()}-hist-migrated-${index}`,
+      legacyEntry,
+    }))
+    .filter(({ entryId }) => !existingIds.has(entryId));
+  // Firestore batches are limited to 500 writes.
+  const chunkSize = 400;
+  let start = 0;
+  do {
+    const chunk = pending.slice(start, start + chunkSize);
+    start += chunkSize;
+    const batch = writeBatch(db);
+    chunk.forEach(({ entryId, legacyEntry }) => {
+      const { id: _legacyId, ...entry } = legacyEntry;
+      batch.set(
+        doc(movementsCollection(itemId), entryId),
+        toMovementData({ ...entry, timestamp: toIsoString(entry.timestamp) }, itemId, warehouseId, ownerId)
+      );
+    });
+    if (start >= pending.length) {
+      batch.update(doc(db, 'items', itemId), { history: deleteField() });
+    }
+    await batch.commit();
+  } while (start < pending.length);
+}
+
+/**
+ * Brings loaded item documents written before ownership was recorded up to
+ * date: an item without an ownerId gets its warehouse owner's, and any legacy
+ * `history` array is migrated into the movements subcollection.
+ */
+export async function migrateLegacyItems(
+  itemDocs: QueryDocumentSnapshot<DocumentData>[],
+  warehouses: Pick<Warehouse, 'id' | 'ownerId'>[]
+): Promise<void> {
+  const ownerByWarehouse = new Map(warehouses.map(warehouse => [warehouse.id, warehouse.ownerId]));
+  const pending = itemDocs.filter((itemDoc) => !itemDoc.data().ownerId || Array.isArray(itemDoc.data().history));
+  for (const itemDoc of pending) {
+    try {
+      const { warehouseId, history } = itemDoc.data();
+      const ownerId: string | undefined = itemDoc.data().ownerId || ownerByWarehouse.get(warehouseId);
+      if (!ownerId) continue;
+      if (!itemDoc.data().ownerId) {
+        await updateDoc(itemDoc.ref, { ownerId });
+      }
+      if (Array.isArray(history)) {
+        await migrateLegacyItemHistory(itemDoc.id, warehouseId, ownerId, history);
+      }
+    } catch (error) {
+      console.error(`Failed to migrate legacy item ${itemDoc.id}`, error);
+    }
+  }
+}
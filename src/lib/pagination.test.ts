@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { toPage } from '@/lib/pagination';
+
+const docs = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ id: `doc-${index}` }) as QueryDocumentSnapshot<DocumentData>);
+
+describe('toPage', () => {
+  it('drops the look-ahead document and resumes after the last one shown', () => {
+    const fetched = docs(4);
+    const page = toPage(fetched, 3, docSnap => docSnap.id);
+    expect(page.entries).toEqual(['doc-0', 'doc-1', 'doc-2']);
+    expect(page.cursor).toBe(fetched[2]);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('marks the last page', () => {
+    expect(toPage(docs(2), 3, docSnap => docSnap.id).hasMore).toBe(false);
+    expect(toPage(docs(0), 3, docSnap => docSnap.id)).toEqual({ entries: [], cursor: null, hasMore: false });
+  });
+});
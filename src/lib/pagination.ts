@@ -0,0 +1,51 @@
+// src/lib/pagination.ts
+// Cursor-based paging shared by the movement, warehouse activity and archived
+// report lists: each query asks for one document more than a page so the
+// caller knows whether another page exists, and the next page starts after
+// the last document shown.
+import { getDocs, type DocumentData, type Query, type QueryDocumentSnapshot, type Timestamp } from 'firebase/firestore';
+
+// The last document of the previous page; null for the first page.
+export type PageCursor = QueryDocumentSnapshot<DocumentData> | null;
+
+export interface Page<T> {
+  entries: T[];
+  cursor: PageCursor;
+  hasMore: boolean;
+}
+
+// `docs` comes from a query limited to `pageSize + 1`.
+export const toPage = <T>(
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  pageSize: number,
+  mapDoc: (docSnap: QueryDocumentSnapshot<DocumentData>) => T
+): Page<T> => {
+  const pageDocs = docs.slice(0, pageSize);
+  return {
+    entries: pageDocs.map(mapDoc),
+    cursor: pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : null,
+    hasMore: docs.length > pageSize,
+  };
+};
+
+// The order of `orderBy(field, 'desc')`, whose ties Firestore breaks by document path.
+const newestFirst = (field: string) => (a: QueryDocumentSnapshot<DocumentData>, b: QueryDocumentSnapshot<DocumentData>): number => {
+  const aTime: Timestamp = a.data()[field];
+  const bTime: Timestamp = b.data()[field];
+  return bTime.seconds - aTime.seconds
+    || bTime.nanoseconds - aTime.nanoseconds
+    || (a.ref.path < b.ref.path ? 1 : a.ref.path > b.ref.path ? -1 : 0);
+};
+
+/**
+ * Runs one page over several queries that together cover a list, e.g. one
+ * per chunk of an `in` filter, and merges their documents newest first by the
+ * timestamp `field`. Every query must be ordered by that field descending,
+ * start after the same cursor and be limited to `pageSize + 1`; the last
+ * document of the merged page then positions all of them for the next one.
+ */
+export async function fetchMergedPageDocs(queries: Query<DocumentData>[], field: string, pageSize: number): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+  const snapshots = await Promise.all(queries.map(pageQuery => getDocs(pageQuery)));
+  if (snapshots.length === 1) return snapshots[0].docs;
+  return snapshots.flatMap(snapshot => snapshot.docs).sort(newestFirst(field)).slice(0, pageSize + 1);
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { receivePurchaseOrder } from '@/lib/purchaseOrders';
+import type { PurchaseOrderLine, PurchaseOrderStatus } from '@/lib/types';
+import { fakeDb } from '@/test/fakeFirestore';
+import { actor, seedItem, seedWarehouse, storedQuantity } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+const line = (itemId: string, quantityOrdered: number, fields: Partial<PurchaseOrderLine> = {}): PurchaseOrderLine =>
+  ({ itemId, name: itemId, quantityOrdered, quantityReceived: 0, unit: 'pcs', precision: 0, ...fields });
+
+const seedOrder = (status: PurchaseOrderStatus, receivedQuantities?: Record<string, number>) => {
+  fakeDb.seed('purchaseOrders/po-1', {
+    number: 'PO-1',
+    warehouseId: 'wh-1',
+    warehouseName: 'Main',
+    supplierId: 's-1',
+    supplierName: 'Acme',
+    status,
+    lines: [line('bolt', 10, { unitCost: 2 }), line('nut', 5)],
+    ...(receivedQuantities && { receivedQuantities }),
+  });
+};
+
+describe('receivePurchaseOrder', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1');
+    seedItem('bolt', { quantity: 1 });
+    seedItem('nut', { quantity: 0 });
+    seedOrder('sent');
+  });
+
+  it('adds the stock and moves the received quantities forward', async () => {
+    expect(await receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 4 }], '', actor)).toBe('partially_received');
+    expect(storedQuantity('bolt')).toBe(5);
+    const [movementPath] = fakeDb.list('items/bolt/movements');
+    expect(fakeDb.get(movementPath)).toMatchObject({ change: 4, unitCost: 2, purchaseOrderId: 'po-1', purchaseOrderNumber: 'PO-1' });
+    expect(fakeDb.get('purchaseOrders/po-1')).toMatchObject({ status: 'partially_received', receivedQuantities: { bolt: 4, nut: 0 } });
+
+    const status = await receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 6 }, { itemId: 'nut', quantity: 5 }], '', actor);
+    expect(status).toBe('received');
+    expect(fakeDb.get('purchaseOrders/po-1')).toMatchObject({ receivedQuantities: { bolt: 10, nut: 5 } });
+  });
+
+  it('keeps the lines as sent', async () => {
+    await receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 4 }], '', actor);
+    expect(fakeDb.get('purchaseOrders/po-1')?.lines).toEqual([line('bolt', 10, { unitCost: 2 }), line('nut', 5)]);
+  });
+
+  it('receives no more than is outstanding on a line', async () => {
+    seedOrder('partially_received', { bolt: 8, nut: 0 });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 3 }], '', actor))
+      .rejects.toMatchObject({ code: 'invalid-quantity', message: expect.stringContaining('Only 2 pcs') });
+    expect(storedQuantity('bolt')).toBe(1);
+  });
+
+  it('writes nothing when one line of a receipt fails', async () => {
+    seedItem('nut', { quantity: 0, isArchived: true });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 4 }, { itemId: 'nut', quantity: 1 }], '', actor))
+      .rejects.toMatchObject({ code: 'not-found' });
+    expect(storedQuantity('bolt')).toBe(1);
+    expect(fakeDb.get('purchaseOrders/po-1')).toMatchObject({ status: 'sent' });
+  });
+
+  it('rejects empty receipts, duplicate lines and items not on the order', async () => {
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 0 }], '', actor)).rejects.toMatchObject({ code: 'invalid-quantity' });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 1 }, { itemId: 'bolt', quantity: 1 }], '', actor))
+      .rejects.toMatchObject({ code: 'invalid-quantity' });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'washer', quantity: 1 }], '', actor)).rejects.toMatchObject({ code: 'invalid-quantity' });
+  });
+
+  it('needs a lot number for lot-tracked items', async () => {
+    seedItem('nut', { quantity: 0, tracksLots: true, lots: [] });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'nut', quantity: 1 }], '', actor))
+      .rejects.toMatchObject({ code: 'invalid-lot', message: expect.stringMatching(/^nut: /) });
+  });
+
+  it('only receives against sent orders', async () => {
+    seedOrder('draft');
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 1 }], '', actor)).rejects.toThrow(/draft/);
+    seedOrder('received', { bolt: 10, nut: 5 });
+    await expect(receivePurchaseOrder('po-1', [{ itemId: 'bolt', quantity: 1 }], '', actor)).rejects.toThrow(/received/);
+  });
+});
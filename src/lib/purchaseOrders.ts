@@ -0,0 +1,257 @@
+// src/lib/purchaseOrders.ts
+// Purchase orders. A manager drafts an order for a supplier with one line per
+// item and marks it sent; stock keepers then receive against it. Each receipt
+// posts ADD_STOCK movements linked to the order and moves its received
+// quantities forward until every line is received in full.
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type DocumentData,
+} from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { applyCostChange, getCostingMethod } from '@/lib/costing';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { applyLotChange, applySerialChange, StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, formatQuantityTotals, getItemPrecision, getItemUnit, hasPrecision, precisionError, roundQuantity } from '@/lib/units';
+import type {
+  ActingUser,
+  HistoryEntry,
+  Item,
+  LotAllocation,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Supplier,
+  Warehouse,
+} from '@/lib/types';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export const canReceive = (order: Pick<PurchaseOrder, 'status'>): boolean =>
+  order.status === 'sent' || order.status === 'partially_received';
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(0, roundQuantity(line.quantityOrdered - line.quantityReceived, getItemPrecision(line)));
+
+// "12 pcs, 2.5 kg", or an empty string once everything is received.
+export const describeOutstanding = (order: Pick<PurchaseOrder, 'lines'>): string =>
+  formatQuantityTotals(order.lines
+    .map(line => ({ ...line, quantity: getOutstandingQuantity(line) }))
+    .filter(line => line.quantity > 0));
+
+const purchaseOrdersCollection = () => collection(db, 'purchaseOrders');
+
+const toPurchaseOrder = (id: string, data: DocumentData): PurchaseOrder => ({
+  id,
+  number: data.number,
+  warehouseId: data.warehouseId,
+  warehouseName: data.warehouseName,
+  supplierId: data.supplierId,
+  supplierName: data.supplierName,
+  status: data.status,
+  lines: (data.lines || []).map((line: PurchaseOrderLine) => ({
+    ...line,
+    quantityReceived: data.receivedQuantities?.[line.itemId] ?? line.quantityReceived ?? 0,
+  })),
+  expectedDate: data.expectedDate || undefined,
+  notes: data.notes || undefined,
+  createdBy: data.createdBy,
+  createdByName: data.createdByName,
+  createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+  sentAt: data.sentAt?.toDate?.().toISOString(),
+  receivedAt: data.receivedAt?.toDate?.().toISOString(),
+  updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+});
+
+// Newest first.
+export async function fetchPurchaseOrders(warehouseId: string): Promise<PurchaseOrder[]> {
+  const snapshot = await getDocs(query(purchaseOrdersCollection(), where('warehouseId', '==', warehouseId)));
+  return snapshot.docs
+    .map(docSnap => toPurchaseOrder(docSnap.id, docSnap.data()))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function fetchPurchaseOrder(orderId: string): Promise<PurchaseOrder | null> {
+  const docSnap = await getDoc(doc(purchaseOrdersCollection(), orderId));
+  return docSnap.exists() ? toPurchaseOrder(docSnap.id, docSnap.data()) : null;
+}
+
+export interface PurchaseOrderInput {
+  supplier: Pick<Supplier, 'id' | 'name'>;
+  lines: { item: Item; quantity: number; unitCost?: number }[]; // One per item
+  expectedDate?: string; // yyyy-MM-dd
+  notes?: string;
+}
+
+const toOrderData = (input: PurchaseOrderInput) => ({
+  supplierId: input.supplier.id,
+  supplierName: input.supplier.name,
+  lines: input.lines.map(({ item, quantity, unitCost }): PurchaseOrderLine => ({
+    itemId: item.id,
+    name: item.name,
+    ...(item.sku && { sku: item.sku }),
+    quantityOrdered: quantity,
+    quantityReceived: 0,
+    ...(unitCost !== undefined && { unitCost }),
+    unit: getItemUnit(item),
+    precision: getItemPrecision(item),
+  })),
+  expectedDate: input.expectedDate || '',
+  notes: input.notes?.trim() || '',
+  updatedAt: serverTimestamp(),
+});
+
+export async function createPurchaseOrder(warehouse: Warehouse, input: PurchaseOrderInput, actor: ActingUser): Promise<string> {
+  const orderRef = doc(purchaseOrdersCollection());
+  const number = `PO-${format(new Date(), 'yyyyMMdd')}-${orderRef.id.slice(0, 4).toUpperCase()}`;
+  await setDoc(orderRef, {
+    ...toOrderData(input),
+    number,
+    warehouseId: warehouse.id,
+    warehouseName: warehouse.name,
+    status: 'draft',
+    createdBy: actor.uid,
+    createdByName: actor.username,
+    createdAt: serverTimestamp(),
+  });
+  return number;
+}
+
+// Only drafts can be changed; the security rules reject edits to sent orders.
+export const updatePurchaseOrder = (orderId: string, input: PurchaseOrderInput) =>
+  updateDoc(doc(purchaseOrdersCollection(), orderId), toOrderData(input));
+
+export const markPurchaseOrderSent = (orderId: string) =>
+  updateDoc(doc(purchaseOrdersCollection(), orderId), { status: 'sent', sentAt: serverTimestamp(), updatedAt: serverTimestamp() });
+
+export const deletePurchaseOrder = (orderId: string) => deleteDoc(doc(purchaseOrdersCollection(), orderId));
+
+// What arrived for one line. Lot-tracked items need a lot, serialized items one serial per unit.
+export interface PurchaseOrderReceipt {
+  itemId: string;
+  quantity: number;
+  lot?: Pick<LotAllocation, 'lotNumber' | 'expiryDate'>;
+  serialNumbers?: string[];
+}
+
+/**
+ * Receives stock against a sent purchase order in one transaction. Every
+ * received line adds its quantity to the item, valued at the line's unit cost,
+ * with an ADD_STOCK movement linked to the order; the order's received
+ * quantities and status follow. A line cannot receive more than is outstanding
+ * on it. Returns the order's new status.
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  receipts: PurchaseOrderReceipt[],
+  comment: string,
+  actor: ActingUser
+): Promise<PurchaseOrderStatus> {
+  const received = receipts.filter(receipt => receipt.quantity > 0);
+  if (received.length === 0) {
+    throw new StockAdjustmentError('invalid-quantity', 'Enter the quantity received on at least one line.');
+  }
+  const orderRef = doc(purchaseOrdersCollection(), orderId);
+
+  return runTransaction(db, async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    if (!orderSnap.exists()) {
+      throw new Error('This purchase order no longer exists.');
+    }
+    const order = toPurchaseOrder(orderSnap.id, orderSnap.data());
+    if (!canReceive(order)) {
+      throw new Error(`This purchase order is ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} and cannot be received against.`);
+    }
+    const warehouseSnap = await transaction.get(doc(db, 'warehouses', order.warehouseId));
+    const itemSnaps = await Promise.all(received.map(receipt => transaction.get(doc(db, 'items', receipt.itemId))));
+
+    const costingMethod = getCostingMethod(warehouseSnap.data());
+    const timestamp = new Date().toISOString();
+    const lines = order.lines.map(line => ({ ...line }));
+    received.forEach((receipt, index) => {
+      const line = lines.find(candidate => candidate.itemId === receipt.itemId);
+      if (!line || received.findIndex(other => other.itemId === receipt.itemId) !== index) {
+        throw new StockAdjustmentError('invalid-quantity', 'Each order line can be received once per receipt.');
+      }
+      const itemSnap = itemSnaps[index];
+      if (!itemSnap.exists() || itemSnap.data().isArchived) {
+        throw new StockAdjustmentError('not-found', `${line.name} no longer exists or has been archived.`);
+      }
+      const item = itemSnap.data();
+      const precision = getItemPrecision(item);
+      if (!hasPrecision(receipt.quantity, precision)) {
+        throw new StockAdjustmentError('invalid-quantity', `${line.name}: ${precisionError(precision)}`);
+      }
+      const outstanding = getOutstandingQuantity(line);
+      if (receipt.quantity > outstanding) {
+        throw new StockAdjustmentError('invalid-quantity', `Only ${formatQuantity(outstanding, line)} of ${line.name} is outstanding.`);
+      }
+
+      let lotChange, serialChange;
+      try {
+        lotChange = applyLotChange(item, 'ADD_STOCK', receipt.quantity, precision, timestamp, { lot: receipt.lot });
+        serialChange = applySerialChange(item, 'ADD_STOCK', receipt.quantity, receipt.serialNumbers);
+      } catch (error) {
+        if (error instanceof StockAdjustmentError) {
+          throw new StockAdjustmentError(error.code, `${line.name}: ${error.message}`);
+        }
+        throw error;
+      }
+      const costChange = applyCostChange(item.costLayers, costingMethod, receipt.quantity, precision, timestamp, { unitCost: line.unitCost });
+      const quantityBefore: number = item.quantity ?? 0;
+      const entry: Omit<HistoryEntry, 'id'> = {
+        type: 'ADD_STOCK',
+        change: receipt.quantity,
+        quantityBefore,
+        quantityAfter: roundQuantity(quantityBefore + receipt.quantity, precision),
+        timestamp,
+        comment: comment || `Received on ${order.number}`,
+        userId: actor.uid,
+        username: actor.username,
+        ...(lotChange && { lots: lotChange.allocations }),
+        ...(serialChange && { serialNumbers: serialChange.moved }),
+        ...costChange.entry,
+        purchaseOrderId: order.id,
+        purchaseOrderNumber: order.number,
+      };
+
+      transaction.update(itemSnap.ref, {
+        quantity: entry.quantityAfter,
+        ...(lotChange && { lots: lotChange.lots }),
+        ...(serialChange && { serialNumbers: serialChange.serialNumbers }),
+        costLayers: costChange.costLayers,
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+      });
+      transaction.set(newMovementRef(itemSnap.id), toMovementData(entry, itemSnap.id, order.warehouseId, item.ownerId));
+      line.quantityReceived = roundQuantity(line.quantityReceived + receipt.quantity, getItemPrecision(line));
+    });
+
+    const status: PurchaseOrderStatus = lines.every(line => getOutstandingQuantity(line) === 0) ? 'received' : 'partially_received';
+    // The lines stay as sent; only the received quantities move.
+    transaction.update(orderRef, {
+      receivedQuantities: Object.fromEntries(lines.map(line => [line.itemId, line.quantityReceived])),
+      status,
+      ...(status === 'received' && { receivedAt: serverTimestamp() }),
+      updatedAt: serverTimestamp(),
+    });
+    return status;
+  });
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getStockLevel, needsReorder, suggestedOrderQuantity } from '@/lib/reorder';
+
+describe('getStockLevel', () => {
+  it('flags items at or below their reorder point', () => {
+    expect(getStockLevel({ quantity: 5, reorderPoint: 5 })).toBe('low');
+    expect(getStockLevel({ quantity: 6, reorderPoint: 5 })).toBe('ok');
+    expect(getStockLevel({ quantity: 0, reorderPoint: 5 })).toBe('out');
+  });
+
+  it('only flags items without a reorder point once they run out', () => {
+    expect(getStockLevel({ quantity: 1 })).toBe('ok');
+    expect(needsReorder({ quantity: 0 })).toBe(true);
+  });
+});
+
+describe('suggestedOrderQuantity', () => {
+  it('orders up to the max level', () => {
+    expect(suggestedOrderQuantity({ quantity: 3, maxLevel: 10 })).toBe(7);
+    expect(suggestedOrderQuantity({ quantity: 1.2, maxLevel: 2.5, unit: 'kg' })).toBe(1.3);
+  });
+
+  it('suggests nothing without a max level and never a negative quantity', () => {
+    expect(suggestedOrderQuantity({ quantity: 3 })).toBeNull();
+    expect(suggestedOrderQuantity({ quantity: 12, maxLevel: 10 })).toBe(0);
+  });
+});
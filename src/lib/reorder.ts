@@ -0,0 +1,66 @@
+// src/lib/reorder.ts
+// Reorder points: items at or below their reorder point are flagged as low
+// stock and listed for reordering up to their max level.
+import { where } from 'firebase/firestore';
+import { fetchItemDocsForWarehouses } from '@/lib/membership';
+import { getItemPrecision, roundQuantity } from '@/lib/units';
+import type { Item, StockLevel, Warehouse } from '@/lib/types';
+
+export interface ReorderLine {
+  item: Item;
+  warehouseName: string;
+  suggestedQuantity: number | null; // Null when the item has no max level
+}
+
+// Items without a reorder point are only flagged once they run out.
+export function getStockLevel(item: Pick<Item, 'quantity' | 'reorderPoint'>): StockLevel {
+  if (item.quantity <= 0) return 'out';
+  if (item.reorderPoint !== undefined && item.quantity <= item.reorderPoint) return 'low';
+  return 'ok';
+}
+
+export const needsReorder = (item: Pick<Item, 'quantity' | 'reorderPoint'>): boolean =>
+  getStockLevel(item) !== 'ok';
+
+export function suggestedOrderQuantity(item: Pick<Item, 'quantity' | 'maxLevel' | 'unit' | 'precision'>): number | null {
+  if (item.maxLevel === undefined) return null;
+  return Math.max(roundQuantity(item.maxLevel - item.quantity, getItemPrecision(item)), 0);
+}
+
+// Counts the active items needing reorder in each warehouse.
+export async function fetchReorderCounts(warehouseIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const itemDocs = await fetchItemDocsForWarehouses(warehouseIds, where('isArchived', '==', false));
+  itemDocs.forEach(itemDoc => {
+    const data = itemDoc.data();
+    if (needsReorder({ quantity: data.quantity ?? 0, reorderPoint: data.reorderPoint })) {
+      counts.set(data.warehouseId, (counts.get(data.warehouseId) || 0) + 1);
+    }
+  });
+  return counts;
+}
+
+// Lists every active item needing reorder across the given warehouses,
+// grouped by warehouse and sorted by name.
+export async function fetchReorderLines(warehouses: Warehouse[]): Promise<ReorderLine[]> {
+  const warehouseNames = new Map(warehouses.map(wh => [wh.id, wh.name]));
+  const itemDocs = await fetchItemDocsForWarehouses(warehouses.map(wh => wh.id), where('isArchived', '==', false));
+  return itemDocs
+    .map(itemDoc => {
+      const { history: _legacyHistory, ...itemData } = itemDoc.data();
+      return {
+        id: itemDoc.id,
+        ...itemData,
+        quantity: itemData.quantity ?? 0,
+        createdAt: itemData.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: itemData.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+      } as Item;
+    })
+    .filter(needsReorder)
+    .map(item => ({
+      item,
+      warehouseName: warehouseNames.get(item.warehouseId) || 'Unknown Warehouse',
+      suggestedQuantity: suggestedOrderQuantity(item),
+    }))
+    .sort((a, b) => a.warehouseName.localeCompare(b.warehouseName) || a.item.name.localeCompare(b.item.name));
+}
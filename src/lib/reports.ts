@@ -0,0 +1,139 @@
+// src/lib/reports.ts
+// Printed reports are archived in the `archivedReports` collection. Reports
+// about a warehouse or one of its items are visible to every member of that
+// warehouse; reports without a warehouse are only visible to whoever printed them.
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  Timestamp,
+  where,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getItemLocation } from '@/lib/locations';
+import { IN_QUERY_LIMIT } from '@/lib/membership';
+import { fetchItemMovementsPage } from '@/lib/movements';
+import { fetchMergedPageDocs, toPage, type Page, type PageCursor } from '@/lib/pagination';
+import { getItemPrecision, getItemUnit } from '@/lib/units';
+import type { ArchivedReport, WarehouseReportItem } from '@/lib/types';
+
+const LEGACY_STORAGE_KEY = 'archivedReports';
+
+export const ARCHIVED_REPORTS_PAGE_SIZE = 10;
+
+const archivedReportsCollection = () => collection(db, 'archivedReports');
+
+// Snapshots are JSON round-tripped because Firestore rejects `undefined` values.
+const toArchivedReportData = (report: Omit<ArchivedReport, 'id'>, ownerId: string) => ({
+  ...JSON.parse(JSON.stringify(report)),
+  warehouseId: report.warehouseId || '',
+  printedAt: Timestamp.fromDate(new Date(report.printedAt)),
+  ownerId,
+});
+
+const toArchivedReport = (docSnap: QueryDocumentSnapshot<DocumentData>): ArchivedReport => {
+  const data = docSnap.data();
+  return {
+    ...data,
+    id: docSnap.id,
+    warehouseId: data.warehouseId || undefined,
+    printedAt: data.printedAt?.toDate?.().toISOString() || new Date().toISOString(),
+  } as ArchivedReport;
+};
+
+export async function saveArchivedReport(report: Omit<ArchivedReport, 'id'>, ownerId: string): Promise<string> {
+  const reportRef = doc(archivedReportsCollection());
+  await setDoc(reportRef, toArchivedReportData(report, ownerId));
+  return reportRef.id;
+}
+
+/**
+ * Loads one page of the archived reports the user can see, newest first:
+ * reports for the given warehouses plus the user's own reports that are not
+ * tied to one.
+ */
+export async function fetchArchivedReportsPage(
+  userId: string,
+  warehouseIds: string[],
+  cursor: PageCursor = null,
+  pageSize: number = ARCHIVED_REPORTS_PAGE_SIZE
+): Promise<Page<ArchivedReport>> {
+  const constraints: QueryConstraint[] = [orderBy('printedAt', 'desc')];
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(pageSize + 1));
+
+  const queries = [query(archivedReportsCollection(), where('ownerId', '==', userId), where('warehouseId', '==', ''), ...constraints)];
+  for (let start = 0; start < warehouseIds.length; start += IN_QUERY_LIMIT) {
+    const idsChunk = warehouseIds.slice(start, start + IN_QUERY_LIMIT);
+    queries.push(query(archivedReportsCollection(), where('warehouseId', 'in', idsChunk), ...constraints));
+  }
+  return toPage(await fetchMergedPageDocs(queries, 'printedAt', pageSize), pageSize, toArchivedReport);
+}
+
+/**
+ * One-off migration for reports archived before they were stored in
+ * Firestore. Uploads the reports kept in this browser's localStorage, reusing
+ * their ids so a retried upload does not duplicate them. Reports that cannot
+ * be uploaded (e.g. for a warehouse the user no longer belongs to) stay in
+ * localStorage.
+ */
+export async function migrateLocalArchivedReports(userId: string): Promise<void> {
+  const storedReportsString = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!storedReportsString) return;
+
+  let storedReports: ArchivedReport[];
+  try {
+    storedReports = JSON.parse(storedReportsString);
+  } catch (error) {
+    console.error("Discarding unreadable archived reports from localStorage", error);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+
+  const results = await Promise.allSettled(
+    storedReports.map(({ id, ...report }) =>
+      setDoc(doc(archivedReportsCollection(), String(id)), toArchivedReportData(report, userId))
+    )
+  );
+  const remaining = storedReports.filter((_, index) => results[index].status === 'rejected');
+  if (remaining.length > 0) {
+    console.error(`Failed to migrate ${remaining.length} archived report(s) from localStorage`);
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+// Active items of a warehouse, sorted by name, with the date of each item's
+// latest movement. Every movement stamps its item's lastMovementAt; only items
+// that have not moved since before that field existed look up their movements.
+export async function fetchWarehouseReportItems(warehouseId: string): Promise<WarehouseReportItem[]> {
+  const snapshot = await getDocs(
+    query(collection(db, 'items'), where('warehouseId', '==', warehouseId), where('isArchived', '==', false))
+  );
+  const reportItems = await Promise.all(snapshot.docs.map(async (itemDoc): Promise<WarehouseReportItem> => {
+    const data = itemDoc.data();
+    const lastMovementAt: string | undefined = data.lastMovementAt
+      ? data.lastMovementAt.toDate().toISOString()
+      : (await fetchItemMovementsPage(itemDoc.id, null, 1)).entries[0]?.timestamp;
+    return {
+      itemId: itemDoc.id,
+      name: data.name,
+      quantity: data.quantity ?? 0,
+      category: data.category || '',
+      location: getItemLocation(data),
+      lastMovementAt,
+      unit: getItemUnit(data),
+      precision: getItemPrecision(data),
+    };
+  }));
+  return reportItems.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,116 @@
+// src/lib/reservations.ts
+// Reservations hold part of an item's stock for an order that is promised but
+// not yet picked. Reserved stock stays in `quantity` until it is consumed, so
+// the free stock is `available = on hand - reserved`. Open issue orders
+// reserve their lines automatically; other reservations are made by hand with
+// a reference and an optional expiry, after which they no longer count.
+import { doc, runTransaction, serverTimestamp, type DocumentData } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { StockAdjustmentError } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, roundQuantity } from '@/lib/units';
+import type { ActingUser, Item, ItemReservation } from '@/lib/types';
+
+export const isReservationActive = (reservation: Pick<ItemReservation, 'expiresAt'>, today: Date = new Date()): boolean =>
+  !reservation.expiresAt || reservation.expiresAt >= format(today, 'yyyy-MM-dd');
+
+export const getActiveReservations = (item: Pick<Item, 'reservations'>, today: Date = new Date()): ItemReservation[] =>
+  (item.reservations ?? []).filter(reservation => isReservationActive(reservation, today));
+
+export const getReservedQuantity = (item: Pick<Item, 'reservations' | 'unit' | 'precision'>, today: Date = new Date()): number =>
+  roundQuantity(getActiveReservations(item, today).reduce((total, reservation) => total + reservation.quantity, 0), getItemPrecision(item));
+
+// Negative when more is reserved than is on hand.
+export const getAvailableQuantity = (item: Pick<Item, 'quantity' | 'reservations' | 'unit' | 'precision'>, today: Date = new Date()): number =>
+  roundQuantity(item.quantity - getReservedQuantity(item, today), getItemPrecision(item));
+
+/**
+ * The warning to show before taking the given quantity out of an item when it
+ * would dip into reserved stock, naming what the stock is reserved for; null
+ * when the free stock covers it.
+ */
+export function describeReservedDip(item: Item, quantity: number): string | null {
+  const available = getAvailableQuantity(item);
+  if (quantity <= available) return null;
+  const references = getActiveReservations(item).map(reservation => reservation.reference).join(', ');
+  return `Only ${formatQuantity(Math.max(0, available), item)} of ${item.name} is free; ` +
+    `taking ${formatQuantity(quantity, item)} uses stock reserved for ${references}.`;
+}
+
+/**
+ * Sets the reservation an issue order holds on an item, replacing the one it
+ * held before; a quantity of zero releases it. Lapsed reservations are dropped
+ * along the way.
+ */
+export function setOrderReservation(
+  item: DocumentData,
+  order: { id: string; reference: string },
+  quantity: number,
+  actor: ActingUser,
+  timestamp: string
+): ItemReservation[] {
+  const kept = getActiveReservations(item).filter(reservation => reservation.issueOrderId !== order.id);
+  if (quantity <= 0) return kept;
+  return [...kept, {
+    id: order.id,
+    quantity,
+    reference: order.reference,
+    issueOrderId: order.id,
+    createdBy: actor.uid,
+    createdByName: actor.username,
+    createdAt: timestamp,
+  }];
+}
+
+export interface ReservationInput {
+  quantity: number;
+  reference: string;
+  expiresAt?: string; // yyyy-MM-dd
+}
+
+// Reserves free stock by hand; more than the available quantity cannot be reserved.
+export async function reserveItemStock(itemId: string, input: ReservationInput, actor: ActingUser): Promise<void> {
+  const itemRef = doc(db, 'items', itemId);
+  await runTransaction(db, async (transaction) => {
+    const itemSnap = await transaction.get(itemRef);
+    if (!itemSnap.exists() || itemSnap.data().isArchived) {
+      throw new StockAdjustmentError('not-found', 'This item no longer exists or has been archived.');
+    }
+    const item = { id: itemSnap.id, ...itemSnap.data() } as Item;
+    const available = getAvailableQuantity(item);
+    if (input.quantity > available) {
+      throw new StockAdjustmentError(
+        'insufficient-stock',
+        `Only ${formatQuantity(Math.max(0, available), item)} is available to reserve.`,
+        item.quantity
+      );
+    }
+    transaction.update(itemRef, {
+      reservations: [...getActiveReservations(item), {
+        id: crypto.randomUUID(),
+        quantity: input.quantity,
+        reference: input.reference.trim(),
+        ...(input.expiresAt && { expiresAt: input.expiresAt }),
+        createdBy: actor.uid,
+        createdByName: actor.username,
+        createdAt: new Date().toISOString(),
+      }],
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+// Releases a reservation made by hand; issue orders release theirs when picked or deleted.
+export async function releaseReservation(itemId: string, reservationId: string): Promise<void> {
+  const itemRef = doc(db, 'items', itemId);
+  await runTransaction(db, async (transaction) => {
+    const itemSnap = await transaction.get(itemRef);
+    if (!itemSnap.exists()) {
+      throw new StockAdjustmentError('not-found', 'This item no longer exists.');
+    }
+    transaction.update(itemRef, {
+      reservations: getActiveReservations(itemSnap.data()).filter(reservation => reservation.id !== reservationId),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
@@ -0,0 +1,24 @@
+// src/lib/serials.ts
+// Serial number tracking: a serialized item records every unit it holds by
+// serial number, and its quantity is always the number of serials on hand.
+// Serialized items are counted in whole pieces.
+
+export const normalizeSerial = (serial: string): string => serial.trim().toUpperCase();
+
+// Accepts serials separated by new lines, commas or spaces, as scanners and spreadsheets produce them.
+export const parseSerialList = (text: string): string[] =>
+  text.split(/[\s,;]+/).map(normalizeSerial).filter(Boolean);
+
+export const findDuplicateSerials = (serials: string[]): string[] =>
+  Array.from(new Set(serials.filter((serial, index) => serials.indexOf(serial) !== index)));
+
+// Natural order so that SN-2 sorts before SN-10.
+export const sortSerials = (serials: string[]): string[] =>
+  [...serials].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+// "SN-001, SN-002 and 3 more"
+export function describeSerials(serials: string[], shown = 5): string {
+  const sorted = sortSerials(serials);
+  if (sorted.length <= shown) return sorted.join(', ');
+  return `${sorted.slice(0, shown).join(', ')} and ${sorted.length - shown} more`;
+}
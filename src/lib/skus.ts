@@ -0,0 +1,32 @@
+// src/lib/skus.ts
+// SKUs are unique within a warehouse. Firestore cannot enforce uniqueness on a
+// field, so every SKU in use is claimed by a `warehouses/{id}/skus/{SKU}`
+// document written in the same batch or transaction as the item. A second
+// claim on the same SKU is an update, which the security rules reject.
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { Item } from '@/lib/types';
+
+export const SKU_PATTERN = /^[A-Z0-9][A-Z0-9._-]{0,39}$/;
+
+export const SKU_FORMAT_MESSAGE = 'SKUs are up to 40 letters, digits, dots, dashes or underscores.';
+
+export const normalizeSku = (sku: string): string => sku.trim().toUpperCase();
+
+export const skuRef = (warehouseId: string, sku: string) =>
+  doc(db, 'warehouses', warehouseId, 'skus', normalizeSku(sku));
+
+export const toSkuData = (itemId: string, sku: string) => ({ itemId, sku: normalizeSku(sku) });
+
+// Used to reject a duplicate in the form before attempting the write.
+export async function isSkuAvailable(warehouseId: string, sku: string, itemId?: string): Promise<boolean> {
+  const claim = await getDoc(skuRef(warehouseId, sku));
+  return !claim.exists() || claim.data().itemId === itemId;
+}
+
+// Resolves a scanned or typed code to the item carrying it as its barcode or SKU.
+export function findItemByCode<T extends Pick<Item, 'sku' | 'barcode'>>(items: T[], code: string): T | undefined {
+  const trimmed = code.trim();
+  const sku = normalizeSku(trimmed);
+  return items.find(item => item.barcode === trimmed) ?? items.find(item => item.sku === sku);
+}
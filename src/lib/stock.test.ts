@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { adjustItemStock, transferItemStock, type StockAdjustmentInput, type StockTransferInput } from '@/lib/stock';
+import { fakeDb } from '@/test/fakeFirestore';
+import { actor, seedItem, seedWarehouse, storedQuantity } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+describe('adjustItemStock', () => {
+  const adjust = (fields: Partial<StockAdjustmentInput>) => adjustItemStock({
+    itemId: 'bolt',
+    warehouseId: 'wh-1',
+    type: 'CONSUME_STOCK',
+    quantity: 2,
+    expectedQuantity: 10,
+    actor,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1');
+    seedItem('bolt', { quantity: 10 });
+  });
+
+  it('updates the quantity and records the movement', async () => {
+    const entry = await adjust({});
+    expect(entry).toMatchObject({ type: 'CONSUME_STOCK', change: -2, quantityBefore: 10, quantityAfter: 8, userId: actor.uid });
+    expect(storedQuantity('bolt')).toBe(8);
+    expect(fakeDb.get(`items/bolt/movements/${entry.id}`)).toMatchObject({ change: -2, itemId: 'bolt' });
+  });
+
+  it('reports a conflict when the stock changed since the dialog opened', async () => {
+    await expect(adjust({ expectedQuantity: 9 })).rejects.toMatchObject({ code: 'stock-changed', currentQuantity: 10 });
+    expect(storedQuantity('bolt')).toBe(10);
+  });
+
+  it('never takes stock below zero', async () => {
+    await expect(adjust({ quantity: 11 })).rejects.toMatchObject({ code: 'insufficient-stock', currentQuantity: 10 });
+    expect(fakeDb.list('items/bolt/movements')).toEqual([]);
+  });
+
+  it('rejects quantities finer than the item allows', async () => {
+    await expect(adjust({ quantity: 0.5 })).rejects.toMatchObject({ code: 'invalid-quantity' });
+  });
+
+  it('only takes positive quantities from the chosen lots', async () => {
+    const receivedAt = '2024-01-01T00:00:00.000Z';
+    seedItem('bolt', { quantity: 10, tracksLots: true, lots: [{ lotNumber: 'L1', quantity: 6, receivedAt }, { lotNumber: 'L2', quantity: 4, receivedAt }] });
+    const lotAllocations = [{ lotNumber: 'L1', quantity: 3 }, { lotNumber: 'L2', quantity: -1 }];
+    await expect(adjust({ lotAllocations })).rejects.toMatchObject({ code: 'invalid-lot' });
+    expect(fakeDb.get('items/bolt')).toMatchObject({ quantity: 10, lots: [{ quantity: 6 }, { quantity: 4 }] });
+
+    await adjust({ lotAllocations: [{ lotNumber: 'L1', quantity: 2 }] });
+    expect(fakeDb.get('items/bolt')).toMatchObject({ quantity: 8, lots: [{ quantity: 4 }, { quantity: 4 }] });
+  });
+
+  it('rejects archived and missing items', async () => {
+    await expect(adjust({ itemId: 'gone' })).rejects.toMatchObject({ code: 'not-found' });
+    seedItem('bolt', { quantity: 10, isArchived: true });
+    await expect(adjust({})).rejects.toMatchObject({ code: 'not-found' });
+  });
+});
+
+describe('transferItemStock', () => {
+  const transfer = (fields: Partial<StockTransferInput>) => transferItemStock({
+    itemId: 'bolt',
+    destinationWarehouseId: 'wh-2',
+    quantity: 4,
+    expectedQuantity: 10,
+    actor,
+    ...fields,
+  });
+  const clerk = { uid: 'clerk-1', username: 'Clerk' };
+
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1', { 'owner-1': 'owner', 'clerk-1': 'clerk' });
+    seedWarehouse('wh-2', { 'owner-1': 'owner', 'clerk-1': 'clerk' });
+    seedItem('bolt', { name: 'Bolt', quantity: 10 });
+  });
+
+  it('moves stock to the matching item with a linked pair of movements', async () => {
+    seedItem('bolt-2', { name: 'Bolt', warehouseId: 'wh-2', quantity: 1 });
+    const result = await transfer({});
+    expect(result).toMatchObject({ destinationItemId: 'bolt-2', createdDestinationItem: false });
+    expect([storedQuantity('bolt'), storedQuantity('bolt-2')]).toEqual([6, 5]);
+    const [outPath] = fakeDb.list('items/bolt/movements');
+    const [inPath] = fakeDb.list('items/bolt-2/movements');
+    expect(fakeDb.get(outPath)).toMatchObject({ type: 'TRANSFER_OUT', transferId: result.transferId, counterpartItemId: 'bolt-2' });
+    expect(fakeDb.get(inPath)).toMatchObject({ type: 'TRANSFER_IN', transferId: result.transferId, counterpartItemId: 'bolt' });
+  });
+
+  it('creates the destination item for a manager only', async () => {
+    await expect(transfer({ actor: clerk })).rejects.toMatchObject({ code: 'destination-unavailable' });
+    const result = await transfer({});
+    expect(result.createdDestinationItem).toBe(true);
+    expect(fakeDb.get(`items/${result.destinationItemId}`)).toMatchObject({ name: 'Bolt', warehouseId: 'wh-2', quantity: 4 });
+  });
+
+  it('leaves reserved stock behind', async () => {
+    const reservation = { id: 'r-1', quantity: 8, reference: 'SO-1', createdBy: 'u-1', createdByName: 'U', createdAt: '2024-01-01T00:00:00.000Z' };
+    seedItem('bolt', { name: 'Bolt', quantity: 10, reservations: [reservation] });
+    await expect(transfer({})).rejects.toMatchObject({ code: 'insufficient-stock', message: expect.stringContaining('SO-1') });
+    expect(storedQuantity('bolt')).toBe(10);
+  });
+
+  it('reports a conflict when the source changed since the dialog opened', async () => {
+    await expect(transfer({ expectedQuantity: 12 })).rejects.toMatchObject({ code: 'stock-changed', currentQuantity: 10 });
+  });
+
+  it('rejects the same warehouse and archived destinations', async () => {
+    await expect(transfer({ destinationWarehouseId: 'wh-1' })).rejects.toMatchObject({ code: 'destination-unavailable' });
+    seedWarehouse('wh-2', { 'owner-1': 'owner' }, { isArchived: true });
+    await expect(transfer({})).rejects.toMatchObject({ code: 'destination-unavailable' });
+  });
+
+  it('rejects a matching item measured in another unit', async () => {
+    seedItem('bolt-2', { name: 'Bolt', warehouseId: 'wh-2', quantity: 1, unit: 'kg' });
+    await expect(transfer({})).rejects.toMatchObject({ code: 'destination-unavailable' });
+    expect([storedQuantity('bolt'), storedQuantity('bolt-2')]).toEqual([10, 1]);
+  });
+
+  it('checks the quantity against the destination item\'s own precision', async () => {
+    seedItem('flour', { name: 'Flour', quantity: 10, unit: 'kg', precision: 2 });
+    seedItem('flour-2', { name: 'Flour', warehouseId: 'wh-2', quantity: 1, unit: 'kg', precision: 1 });
+    await expect(transfer({ itemId: 'flour', quantity: 0.25 })).rejects.toMatchObject({
+      code: 'invalid-quantity',
+      message: expect.stringContaining('destination'),
+    });
+    expect([storedQuantity('flour'), storedQuantity('flour-2')]).toEqual([10, 1]);
+
+    await transfer({ itemId: 'flour', quantity: 0.3 });
+    expect([storedQuantity('flour'), storedQuantity('flour-2')]).toEqual([9.7, 1.3]);
+  });
+});
@@ -0,0 +1,498 @@
+// src/lib/stock.ts
+import { collection, doc, getDoc, getDocs, limit, query, runTransaction, serverTimestamp, where, type DocumentData } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { applyCostChange, getCostingMethod } from '@/lib/costing';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { skuRef, toSkuData } from '@/lib/skus';
+import { addToLot, allocateFefo, drawFromLots, normalizeLotNumber, sumAllocations, toAllocation } from '@/lib/lots';
+import { canPerform } from '@/lib/membership';
+import { getActiveReservations, getAvailableQuantity } from '@/lib/reservations';
+import { findDuplicateSerials, normalizeSerial, sortSerials } from '@/lib/serials';
+import { formatQuantity, getItemPrecision, getItemUnit, hasPrecision, roundQuantity } from '@/lib/units';
+import type { ActingUser, HistoryEntry, ItemLot, ItemUnits, LotAllocation, Warehouse } from '@/lib/types';
+
+export type StockAdjustmentErrorCode =
+  | 'not-found'
+  | 'stock-changed'
+  | 'insufficient-stock'
+  | 'invalid-quantity'
+  | 'invalid-lot'
+  | 'invalid-serial'
+  | 'destination-unavailable';
+
+export class StockAdjustmentError extends Error {
+  code: StockAdjustmentErrorCode;
+  currentQuantity?: number;
+
+  constructor(code: StockAdjustmentErrorCode, message: string, currentQuantity?: number) {
+    super(message);
+    this.name = 'StockAdjustmentError';
+    this.code = code;
+    this.currentQuantity = currentQuantity;
+  }
+}
+
+// Quantities finer than the item's precision would be rounded away on display.
+const assertPrecision = (quantity: number, item: ItemUnits) => {
+  const precision = getItemPrecision(item);
+  if (!hasPrecision(quantity, precision)) {
+    throw new StockAdjustmentError(
+      'invalid-quantity',
+      precision === 0
+        ? `Quantities of this item must be whole ${getItemUnit(item)}.`
+        : `Quantities of this item allow at most ${precision} decimal place(s).`
+    );
+  }
+  return precision;
+};
+
+export interface LotChange {
+  lots: ItemLot[]; // The item's lots after the change
+  allocations: LotAllocation[]; // Recorded on the movement
+}
+
+/**
+ * Works out how a stock change moves a lot-tracked item's lots; returns null
+ * for items without lots. Added stock goes into the given lot. Consumed stock
+ * comes from the given allocations, or first-expiring-first-out without them.
+ */
+export function applyLotChange(
+  item: DocumentData,
+  type: 'ADD_STOCK' | 'CONSUME_STOCK',
+  quantity: number,
+  precision: number,
+  timestamp: string,
+  options: { lot?: Pick<LotAllocation, 'lotNumber' | 'expiryDate'>; allocations?: LotAllocation[] } = {}
+): LotChange | null {
+  if (!item.tracksLots) return null;
+  const lots: ItemLot[] = item.lots ?? [];
+
+  if (type === 'ADD_STOCK') {
+    const lotNumber = normalizeLotNumber(options.lot?.lotNumber ?? '');
+    if (!lotNumber) {
+      throw new StockAdjustmentError('invalid-lot', 'This item tracks lots. Enter the lot number of the stock being added.');
+    }
+    const allocation = toAllocation({ lotNumber, expiryDate: options.lot?.expiryDate }, quantity);
+    const nextLots = addToLot(lots, allocation, precision, timestamp);
+    if (!nextLots) {
+      throw new StockAdjustmentError('invalid-lot', `Lot ${lotNumber} is already recorded with a different expiry date.`);
+    }
+    return { lots: nextLots, allocations: [allocation] };
+  }
+
+  if (options.allocations?.some(allocation => !(allocation.quantity > 0))) {
+    throw new StockAdjustmentError('invalid-lot', 'Every lot quantity taken must be positive.');
+  }
+  const allocations = options.allocations ?? allocateFefo(lots, quantity, precision);
+  if (!allocations) {
+    throw new StockAdjustmentError('invalid-lot', `The item's lots hold less than ${formatQuantity(quantity, item)}.`);
+  }
+  if (sumAllocations(allocations, precision) !== quantity) {
+    throw new StockAdjustmentError('invalid-lot', `The lot quantities must add up to ${formatQuantity(quantity, item)}.`);
+  }
+  const nextLots = drawFromLots(lots, allocations, precision);
+  if (!nextLots) {
+    throw new StockAdjustmentError('invalid-lot', 'A lot holds less than is being taken from it. Please review and retry.');
+  }
+  return { lots: nextLots, allocations };
+}
+
+export interface SerialChange {
+  serialNumbers: string[]; // The item's serials after the change
+  moved: string[]; // Recorded on the movement
+}
+
+/**
+ * Works out how a stock change moves a serialized item's serial numbers;
+ * returns null for other items. One serial is needed per unit: added serials
+ * must be new to the item and removed ones must be on hand.
+ */
+export function applySerialChange(
+  item: DocumentData,
+  type: 'ADD_STOCK' | 'CONSUME_STOCK',
+  quantity: number,
+  serials: string[] = []
+): SerialChange | null {
+  if (!item.serialized) return null;
+  const onHand: string[] = item.serialNumbers ?? [];
+  const moved = serials.map(normalizeSerial);
+
+  if (moved.length !== quantity) {
+    throw new StockAdjustmentError('invalid-serial', `Enter one serial number per unit: ${quantity} expected, ${moved.length} given.`);
+  }
+  const duplicates = findDuplicateSerials(moved);
+  if (duplicates.length > 0) {
+    throw new StockAdjustmentError('invalid-serial', `Serial numbers entered more than once: ${duplicates.join(', ')}.`);
+  }
+  if (type === 'ADD_STOCK') {
+    const existing = moved.filter(serial => onHand.includes(serial));
+    if (existing.length > 0) {
+      throw new StockAdjustmentError('invalid-serial', `Already in stock: ${existing.join(', ')}.`);
+    }
+    return { serialNumbers: sortSerials([...onHand, ...moved]), moved };
+  }
+  const missing = moved.filter(serial => !onHand.includes(serial));
+  if (missing.length > 0) {
+    throw new StockAdjustmentError('invalid-serial', `Not in stock: ${missing.join(', ')}. Please review and retry.`);
+  }
+  return { serialNumbers: onHand.filter(serial => !moved.includes(serial)), moved };
+}
+
+export interface StockAdjustmentInput {
+  itemId: string;
+  warehouseId: string;
+  type: 'ADD_STOCK' | 'CONSUME_STOCK';
+  quantity: number; // Always positive; the type decides the direction
+  expectedQuantity: number; // The quantity the user saw when they opened the dialog
+  comment?: string;
+  lot?: Pick<LotAllocation, 'lotNumber' | 'expiryDate'>; // Required when adding to a lot-tracked item
+  lotAllocations?: LotAllocation[]; // Overrides FEFO when consuming from a lot-tracked item
+  serialNumbers?: string[]; // Required for serialized items: the serials received or removed
+  unitCost?: number; // Cost per unit of added stock; the item's average cost when missing
+  actor: ActingUser;
+}
+
+/**
+ * Applies a stock adjustment inside a Firestore transaction. The item is
+ * re-read on the server, so a concurrent change made after the user opened
+ * the dialog is reported as a `stock-changed` conflict instead of being
+ * silently overwritten, and consumption can never take stock below zero.
+ * Lot-tracked and serialized items have their lots or serials updated in
+ * the same write, and the item's cost layers are updated by the warehouse's
+ * costing method.
+ */
+export async function adjustItemStock(input: StockAdjustmentInput): Promise<HistoryEntry> {
+  const itemDocRef = doc(db, 'items', input.itemId);
+  const warehouseRef = doc(db, 'warehouses', input.warehouseId);
+  const movementRef = newMovementRef(input.itemId);
+  const change = input.type === 'ADD_STOCK' ? input.quantity : -input.quantity;
+
+  return runTransaction(db, async (transaction) => {
+    const itemSnap = await transaction.get(itemDocRef);
+    const warehouseSnap = await transaction.get(warehouseRef);
+    if (!itemSnap.exists() || itemSnap.data().isArchived) {
+      throw new StockAdjustmentError('not-found', 'This item no longer exists or has been archived.');
+    }
+
+    const precision = assertPrecision(input.quantity, itemSnap.data());
+    const currentQuantity: number = itemSnap.data().quantity ?? 0;
+    if (currentQuantity !== input.expectedQuantity) {
+      throw new StockAdjustmentError(
+        'stock-changed',
+        `Stock changed to ${formatQuantity(currentQuantity, itemSnap.data())} while you were editing. Please review and retry.`,
+        currentQuantity
+      );
+    }
+    if (currentQuantity + change < 0) {
+      throw new StockAdjustmentError(
+        'insufficient-stock',
+        `Cannot consume more than available stock (${formatQuantity(currentQuantity, itemSnap.data())}).`,
+        currentQuantity
+      );
+    }
+
+    const timestamp = new Date().toISOString();
+    const lotChange = applyLotChange(itemSnap.data(), input.type, input.quantity, precision, timestamp, {
+      lot: input.lot,
+      allocations: input.lotAllocations,
+    });
+    const serialChange = applySerialChange(itemSnap.data(), input.type, input.quantity, input.serialNumbers);
+    const costChange = applyCostChange(
+      itemSnap.data().costLayers,
+      getCostingMethod(warehouseSnap.data()),
+      change,
+      precision,
+      timestamp,
+      { unitCost: input.unitCost }
+    );
+    const entry: Omit<HistoryEntry, 'id'> = {
+      type: input.type,
+      change,
+      quantityBefore: currentQuantity,
+      quantityAfter: roundQuantity(currentQuantity + change, precision),
+      timestamp,
+      comment: input.comment || (input.type === 'ADD_STOCK' ? 'Stock added' : 'Stock consumed'),
+      userId: input.actor.uid,
+      username: input.actor.username,
+      ...(lotChange && { lots: lotChange.allocations }),
+      ...(serialChange && { serialNumbers: serialChange.moved }),
+      ...costChange.entry,
+    };
+
+    transaction.update(itemDocRef, {
+      quantity: entry.quantityAfter,
+      ...(lotChange && { lots: lotChange.lots }),
+      ...(serialChange && { serialNumbers: serialChange.serialNumbers }),
+      costLayers: costChange.costLayers,
+      updatedAt: serverTimestamp(),
+      lastMovementAt: serverTimestamp(),
+    });
+    transaction.set(movementRef, toMovementData(entry, input.itemId, input.warehouseId, itemSnap.data().ownerId));
+
+    return { id: movementRef.id, ...entry };
+  });
+}
+
+export interface StockTransferInput {
+  itemId: string;
+  destinationWarehouseId: string;
+  quantity: number; // Always positive
+  expectedQuantity: number; // The source quantity the user saw when they opened the dialog
+  comment?: string;
+  serialNumbers?: string[]; // Required for serialized items: the serials that move
+  actor: ActingUser;
+}
+
+export interface StockTransferResult {
+  transferId: string;
+  destinationItemId: string;
+  createdDestinationItem: boolean;
+}
+
+/**
+ * Moves stock from an item to the item with the same SKU (or, failing that,
+ * the same name) in another warehouse, creating it there if needed. Both
+ * quantities change in one transaction, which also writes a TRANSFER_OUT and
+ * a TRANSFER_IN movement sharing a transferId (the id of the TRANSFER_OUT
+ * movement). Only the available stock can leave: reserved stock stays for the
+ * orders it is promised to. Creating the destination item takes a manager of
+ * that warehouse. Lot-tracked stock leaves first-expiring-first-out and keeps
+ * its lot numbers; serialized stock moves the chosen serials. The cost of the
+ * stock leaves the source by its warehouse's costing method and arrives with
+ * it at the destination.
+ */
+export async function transferItemStock(input: StockTransferInput): Promise<StockTransferResult> {
+  const sourceRef = doc(db, 'items', input.itemId);
+  const destinationWarehouseRef = doc(db, 'warehouses', input.destinationWarehouseId);
+
+  // Queries cannot run inside a client transaction, so the matching item is
+  // looked up first and then re-read inside the transaction.
+  const sourcePreview = await getDoc(sourceRef);
+  if (!sourcePreview.exists()) {
+    throw new StockAdjustmentError('not-found', 'This item no longer exists or has been archived.');
+  }
+  const sourceSku: string | undefined = sourcePreview.data().sku;
+  const destinationSkuRef = sourceSku ? skuRef(input.destinationWarehouseId, sourceSku) : null;
+  const skuClaim = destinationSkuRef ? await getDoc(destinationSkuRef) : null;
+  let matchRef = skuClaim?.exists() ? doc(db, 'items', skuClaim.data().itemId) : null;
+  if (!matchRef) {
+    const matchSnapshot = await getDocs(query(
+      collection(db, 'items'),
+      where('warehouseId', '==', input.destinationWarehouseId),
+      where('isArchived', '==', false),
+      where('name', '==', sourcePreview.data().name),
+      limit(1)
+    ));
+    matchRef = matchSnapshot.empty ? null : matchSnapshot.docs[0].ref;
+  }
+  const createdDestinationItem = !matchRef;
+  const destinationRef = matchRef ?? doc(collection(db, 'items'));
+  const sourceWarehouseRef = doc(db, 'warehouses', sourcePreview.data().warehouseId);
+  const outRef = newMovementRef(input.itemId);
+  const inRef = newMovementRef(destinationRef.id);
+
+  await runTransaction(db, async (transaction) => {
+    const sourceSnap = await transaction.get(sourceRef);
+    const sourceWarehouseSnap = await transaction.get(sourceWarehouseRef);
+    const destinationWarehouseSnap = await transaction.get(destinationWarehouseRef);
+    const destinationSnap = createdDestinationItem ? null : await transaction.get(destinationRef);
+    // A new destination item takes over the SKU unless it was claimed in the meantime.
+    const newSkuClaim = createdDestinationItem && destinationSkuRef ? await transaction.get(destinationSkuRef) : null;
+
+    if (!sourceSnap.exists() || sourceSnap.data().isArchived) {
+      throw new StockAdjustmentError('not-found', 'This item no longer exists or has been archived.');
+    }
+    const source = sourceSnap.data();
+    if (source.warehouseId === input.destinationWarehouseId) {
+      throw new StockAdjustmentError('destination-unavailable', 'Choose a different warehouse to transfer to.');
+    }
+    if (!destinationWarehouseSnap.exists() || destinationWarehouseSnap.data().isArchived) {
+      throw new StockAdjustmentError('destination-unavailable', 'The destination warehouse no longer exists or has been archived.');
+    }
+    if (destinationSnap && (!destinationSnap.exists() || destinationSnap.data().isArchived)) {
+      throw new StockAdjustmentError('destination-unavailable', 'The matching item in the destination warehouse was archived. Please retry.');
+    }
+    if (createdDestinationItem && !canPerform(destinationWarehouseSnap.data() as Warehouse, input.actor.uid, 'manageItems')) {
+      throw new StockAdjustmentError(
+        'destination-unavailable',
+        `${destinationWarehouseSnap.data().name} has no ${source.name} yet, and only its managers can add it. Ask one of them to create the item there first.`
+      );
+    }
+    if (destinationSnap && getItemUnit(destinationSnap.data()) !== getItemUnit(source)) {
+      throw new StockAdjustmentError(
+        'destination-unavailable',
+        `The matching item in the destination warehouse is measured in ${getItemUnit(destinationSnap.data())}, not ${getItemUnit(source)}.`
+      );
+    }
+    if (destinationSnap && !!destinationSnap.data().tracksLots !== !!source.tracksLots) {
+      throw new StockAdjustmentError(
+        'destination-unavailable',
+        source.tracksLots
+          ? 'The matching item in the destination warehouse does not track lots.'
+          : 'The matching item in the destination warehouse tracks lots; add the stock there with its lot number instead.'
+      );
+    }
+    if (destinationSnap && !!destinationSnap.data().serialized !== !!source.serialized) {
+      throw new StockAdjustmentError(
+        'destination-unavailable',
+        source.serialized
+          ? 'The matching item in the destination warehouse does not track serial numbers.'
+          : 'The matching item in the destination warehouse tracks serial numbers; add the stock there with its serials instead.'
+      );
+    }
+    if (newSkuClaim?.exists()) {
+      throw new StockAdjustmentError('destination-unavailable', `SKU ${sourceSku} was just taken in the destination warehouse. Please retry.`);
+    }
+    const precision = assertPrecision(input.quantity, source);
+    // A matching item may be counted more coarsely than the source; a new one copies the source.
+    const destinationPrecision = destinationSnap ? getItemPrecision(destinationSnap.data()) : precision;
+    if (!hasPrecision(input.quantity, destinationPrecision)) {
+      throw new StockAdjustmentError(
+        'invalid-quantity',
+        destinationPrecision === 0
+          ? `The matching item in the destination warehouse is counted in whole ${getItemUnit(source)}.`
+          : `The matching item in the destination warehouse allows at most ${destinationPrecision} decimal place(s).`
+      );
+    }
+
+    const sourceQuantity: number = source.quantity ?? 0;
+    if (sourceQuantity !== input.expectedQuantity) {
+      throw new StockAdjustmentError(
+        'stock-changed',
+        `Stock changed to ${formatQuantity(sourceQuantity, source)} while you were editing. Please review and retry.`,
+        sourceQuantity
+      );
+    }
+    if (sourceQuantity < input.quantity) {
+      throw new StockAdjustmentError(
+        'insufficient-stock',
+        `Cannot transfer more than available stock (${formatQuantity(sourceQuantity, source)}).`,
+        sourceQuantity
+      );
+    }
+    const available = getAvailableQuantity({ ...source, quantity: sourceQuantity });
+    if (available < input.quantity) {
+      const references = getActiveReservations(source).map(reservation => reservation.reference).join(', ');
+      throw new StockAdjustmentError(
+        'insufficient-stock',
+        `Only ${formatQuantity(Math.max(0, available), source)} can be transferred; the rest is reserved for ${references}.`,
+        sourceQuantity
+      );
+    }
+
+    const destinationWarehouse = destinationWarehouseSnap.data();
+    const destinationQuantity: number = destinationSnap?.data()?.quantity ?? 0;
+    const timestamp = new Date().toISOString();
+    const sourceLots = applyLotChange(source, 'CONSUME_STOCK', input.quantity, precision, timestamp);
+    let destinationLots: ItemLot[] | null = null;
+    if (sourceLots) {
+      let lots: ItemLot[] = destinationSnap?.data()?.lots ?? [];
+      for (const allocation of sourceLots.allocations) {
+        const nextLots = addToLot(lots, allocation, destinationPrecision, timestamp);
+        if (!nextLots) {
+          throw new StockAdjustmentError(
+            'destination-unavailable',
+            `Lot ${allocation.lotNumber} is recorded with a different expiry date in the destination warehouse.`
+          );
+        }
+        lots = nextLots;
+      }
+      destinationLots = lots;
+    }
+    const sourceSerials = applySerialChange(source, 'CONSUME_STOCK', input.quantity, input.serialNumbers);
+    const destinationSerials = sourceSerials
+      && applySerialChange(destinationSnap?.data() ?? { serialized: true }, 'ADD_STOCK', input.quantity, sourceSerials.moved);
+    const sourceCost = applyCostChange(
+      source.costLayers,
+      getCostingMethod(sourceWarehouseSnap.data()),
+      -input.quantity,
+      precision,
+      timestamp
+    );
+    const destinationCost = applyCostChange(
+      destinationSnap?.data()?.costLayers,
+      getCostingMethod(destinationWarehouse),
+      input.quantity,
+      destinationPrecision,
+      timestamp,
+      { layers: sourceCost.drawn }
+    );
+    const transferId = outRef.id;
+    const shared = { timestamp, transferId, userId: input.actor.uid, username: input.actor.username };
+
+    const outEntry: Omit<HistoryEntry, 'id'> = {
+      ...shared,
+      type: 'TRANSFER_OUT',
+      change: -input.quantity,
+      quantityBefore: sourceQuantity,
+      quantityAfter: roundQuantity(sourceQuantity - input.quantity, precision),
+      comment: input.comment || `Transferred to ${destinationWarehouse.name}`,
+      counterpartItemId: destinationRef.id,
+      counterpartWarehouseId: input.destinationWarehouseId,
+      ...(sourceLots && { lots: sourceLots.allocations }),
+      ...(sourceSerials && { serialNumbers: sourceSerials.moved }),
+      ...sourceCost.entry,
+    };
+    const inEntry: Omit<HistoryEntry, 'id'> = {
+      ...shared,
+      type: 'TRANSFER_IN',
+      change: input.quantity,
+      quantityBefore: destinationQuantity,
+      quantityAfter: roundQuantity(destinationQuantity + input.quantity, destinationPrecision),
+      comment: input.comment || `Transferred from ${sourceWarehouseSnap.data()?.name || 'another warehouse'}`,
+      counterpartItemId: input.itemId,
+      counterpartWarehouseId: source.warehouseId,
+      ...(sourceLots && { lots: sourceLots.allocations }),
+      ...(sourceSerials && { serialNumbers: sourceSerials.moved }),
+      ...destinationCost.entry,
+    };
+
+    transaction.update(sourceRef, {
+      quantity: outEntry.quantityAfter,
+      ...(sourceLots && { lots: sourceLots.lots }),
+      ...(sourceSerials && { serialNumbers: sourceSerials.serialNumbers }),
+      costLayers: sourceCost.costLayers,
+      updatedAt: serverTimestamp(),
+      lastMovementAt: serverTimestamp(),
+    });
+    if (destinationSnap) {
+      transaction.update(destinationRef, {
+        quantity: inEntry.quantityAfter,
+        ...(destinationLots && { lots: destinationLots }),
+        ...(destinationSerials && { serialNumbers: destinationSerials.serialNumbers }),
+        costLayers: destinationCost.costLayers,
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+      });
+    } else {
+      transaction.set(destinationRef, {
+        warehouseId: input.destinationWarehouseId,
+        name: source.name,
+        ...(source.sku && { sku: source.sku }),
+        ...(source.barcode && { barcode: source.barcode, barcodeFormat: source.barcodeFormat }),
+        ...(source.category && { category: source.category }),
+        ...(source.tags && { tags: source.tags }),
+        quantity: inEntry.quantityAfter,
+        // The new item is measured the same way as the source.
+        ...(source.unit && { unit: source.unit }),
+        ...(source.precision !== undefined && { precision: source.precision }),
+        ...(source.packUnit && { packUnit: source.packUnit, packSize: source.packSize }),
+        ...(destinationLots && { tracksLots: true, lots: destinationLots }),
+        ...(destinationSerials && { serialized: true, serialNumbers: destinationSerials.serialNumbers }),
+        costLayers: destinationCost.costLayers,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+        isArchived: false,
+        ownerId: destinationWarehouse.ownerId,
+      });
+      if (destinationSkuRef) {
+        transaction.set(destinationSkuRef, toSkuData(destinationRef.id, source.sku));
+      }
+    }
+    transaction.set(outRef, toMovementData(outEntry, input.itemId, source.warehouseId, source.ownerId));
+    transaction.set(inRef, toMovementData(inEntry, destinationRef.id, input.destinationWarehouseId, destinationWarehouse.ownerId));
+  });
+
+  return { transferId: outRef.id, destinationItemId: destinationRef.id, createdDestinationItem };
+}
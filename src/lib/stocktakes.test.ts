@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCountVariance, isCountable, postStocktake } from '@/lib/stocktakes';
+import type { Stocktake } from '@/lib/types';
+import { fakeDb } from '@/test/fakeFirestore';
+import { actor, seedItem, seedWarehouse, storedQuantity } from '@/test/fixtures';
+
+vi.mock('firebase/firestore', async (importOriginal) =>
+  (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+
+describe('getCountVariance', () => {
+  it('compares the count with the quantity on record when it was saved', () => {
+    expect(getCountVariance({ unit: 'pcs' }, { quantity: 8, systemQuantity: 10 })).toBe(-2);
+    expect(getCountVariance({ unit: 'pcs' }, { quantity: 12, systemQuantity: 10 })).toBe(2);
+    expect(getCountVariance({ unit: 'pcs' }, { quantity: 10, systemQuantity: 10 })).toBe(0);
+  });
+
+  it('rounds to the precision of the item', () => {
+    expect(getCountVariance({ unit: 'kg', precision: 3 }, { quantity: 0.3, systemQuantity: 0.1 })).toBe(0.2);
+  });
+});
+
+describe('isCountable', () => {
+  it('leaves serialized items to be checked by serial number', () => {
+    expect(isCountable({})).toBe(true);
+    expect(isCountable({ serialized: true })).toBe(false);
+  });
+});
+
+describe('postStocktake', () => {
+  const count = (quantity: number, systemQuantity: number) =>
+    ({ quantity, systemQuantity, countedBy: 'u-1', countedByName: 'U', countedAt: '2024-01-01T00:00:00.000Z' });
+  const stocktake: Stocktake = {
+    id: 'st-1',
+    warehouseId: 'wh-1',
+    warehouseName: 'Main',
+    status: 'counting',
+    items: [
+      { itemId: 'bolt', name: 'Bolt', systemQuantity: 10 },
+      { itemId: 'nut', name: 'Nut', systemQuantity: 5 },
+      { itemId: 'washer', name: 'Washer', systemQuantity: 7 },
+    ],
+    counts: { bolt: count(8, 10), nut: count(6, 5) },
+    startedBy: 'u-1',
+    startedByName: 'U',
+    startedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    fakeDb.reset();
+    seedWarehouse('wh-1');
+    seedItem('bolt', { quantity: 10 });
+    seedItem('nut', { quantity: 5 });
+    seedItem('washer', { quantity: 7 });
+    const { id: _id, ...data } = stocktake;
+    fakeDb.seed('stocktakes/st-1', data);
+  });
+
+  it('applies each variance to the live quantity and leaves uncounted items alone', async () => {
+    // Stock received after the bolts were counted stays on the books.
+    seedItem('bolt', { quantity: 13 });
+    const lines = await postStocktake(stocktake, actor);
+    expect(lines.map(line => line.variance)).toEqual([-2, 1, 0]);
+    expect([storedQuantity('bolt'), storedQuantity('nut'), storedQuantity('washer')]).toEqual([11, 6, 7]);
+    expect(fakeDb.list('items/washer/movements')).toEqual([]);
+    expect(fakeDb.get('stocktakes/st-1')).toMatchObject({ status: 'posted', closedBy: actor.uid });
+  });
+
+  it('refuses a shortfall larger than the stock now on record', async () => {
+    seedItem('bolt', { quantity: 1 });
+    await expect(postStocktake(stocktake, actor)).rejects.toThrow(/Bolt has 1 pcs on record/);
+    expect([storedQuantity('bolt'), storedQuantity('nut')]).toEqual([1, 5]);
+    expect(fakeDb.get('stocktakes/st-1')).toMatchObject({ status: 'counting' });
+  });
+
+  it('can only be posted once', async () => {
+    await postStocktake(stocktake, actor);
+    await expect(postStocktake(stocktake, actor)).rejects.toThrow(/already been posted/);
+    expect(storedQuantity('bolt')).toBe(8);
+  });
+
+  it('skips items archived since they were counted', async () => {
+    seedItem('bolt', { quantity: 10, isArchived: true });
+    await postStocktake(stocktake, actor);
+    expect([storedQuantity('bolt'), storedQuantity('nut')]).toEqual([10, 6]);
+  });
+});
@@ -0,0 +1,250 @@
+// src/lib/stocktakes.ts
+// Stocktake (cycle count) sessions. A manager starts a count for a warehouse,
+// counters record what they find on the shelves next to the quantity on
+// record at that moment, and a manager posts the differences as ADJUST_STOCK
+// movements.
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+  type DocumentData,
+  type FieldValue,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { applyCostChange, getCostingMethod } from '@/lib/costing';
+import { newMovementRef, toMovementData } from '@/lib/movements';
+import { getItemLocation } from '@/lib/locations';
+import { UNASSIGNED_LOT } from '@/lib/lots';
+import { applyLotChange } from '@/lib/stock';
+import { formatQuantity, getItemPrecision, getItemUnit, roundQuantity } from '@/lib/units';
+import type { ActingUser, HistoryEntry, Item, Stocktake, StocktakeCount, StocktakeItem, StocktakeVarianceLine, Warehouse } from '@/lib/types';
+
+// Each adjusted item needs two writes (item and movement), plus the stocktake
+// itself, within Firestore's limit of 500 writes per transaction.
+export const MAX_STOCKTAKE_ADJUSTMENTS = 249;
+
+const toStocktake = (docSnap: QueryDocumentSnapshot<DocumentData>): Stocktake => {
+  const data = docSnap.data();
+  const counts: Record<string, StocktakeCount> = {};
+  Object.entries(data.counts || {}).forEach(([itemId, count]: [string, any]) => {
+    counts[itemId] = {
+      quantity: count.quantity,
+      systemQuantity: count.systemQuantity,
+      countedBy: count.countedBy,
+      countedByName: count.countedByName,
+      countedAt: count.countedAt?.toDate?.().toISOString() || new Date().toISOString(),
+    };
+  });
+  // Counts saved before the quantity on record was kept with them compare against the start of the stocktake.
+  (data.items || []).forEach((item: StocktakeItem) => {
+    if (counts[item.itemId] && counts[item.itemId].systemQuantity === undefined) {
+      counts[item.itemId].systemQuantity = item.systemQuantity;
+    }
+  });
+  return {
+    id: docSnap.id,
+    warehouseId: data.warehouseId,
+    warehouseName: data.warehouseName,
+    status: data.status,
+    items: data.items || [],
+    counts,
+    startedBy: data.startedBy,
+    startedByName: data.startedByName,
+    startedAt: data.startedAt?.toDate?.().toISOString() || new Date().toISOString(),
+    closedBy: data.closedBy,
+    closedByName: data.closedByName,
+    closedAt: data.closedAt?.toDate?.().toISOString(),
+  };
+};
+
+// A warehouse has at most one stocktake in progress.
+export async function fetchOpenStocktake(warehouseId: string): Promise<Stocktake | null> {
+  const snapshot = await getDocs(query(
+    collection(db, 'stocktakes'),
+    where('warehouseId', '==', warehouseId),
+    where('status', '==', 'counting'),
+    limit(1)
+  ));
+  return snapshot.empty ? null : toStocktake(snapshot.docs[0]);
+}
+
+// Serialized items are checked by serial number, so they are left out of counts.
+export const isCountable = (item: Pick<Item, 'serialized'>): boolean => !item.serialized;
+
+// What the shelves held beyond (or short of) the quantity on record when the item was counted.
+export const getCountVariance = (line: Pick<StocktakeItem, 'unit' | 'precision'>, count: Pick<StocktakeCount, 'quantity' | 'systemQuantity'>): number =>
+  roundQuantity(count.quantity - count.systemQuantity, getItemPrecision(line));
+
+export async function startStocktake(warehouse: Warehouse, items: Item[], actor: ActingUser): Promise<string> {
+  if (await fetchOpenStocktake(warehouse.id)) {
+    throw new Error('A stocktake is already in progress for this warehouse.');
+  }
+  const stocktakeRef = await addDoc(collection(db, 'stocktakes'), {
+    warehouseId: warehouse.id,
+    warehouseName: warehouse.name,
+    status: 'counting',
+    items: items.filter(isCountable).map(item => ({
+      itemId: item.id,
+      name: item.name,
+      location: getItemLocation(item),
+      systemQuantity: item.quantity,
+      unit: getItemUnit(item),
+      precision: getItemPrecision(item),
+    })),
+    counts: {},
+    startedBy: actor.uid,
+    startedByName: actor.username,
+    startedAt: serverTimestamp(),
+  });
+  return stocktakeRef.id;
+}
+
+type StocktakeCountWrite = Omit<StocktakeCount, 'countedAt'> & { countedAt: FieldValue };
+
+/**
+ * Saves counted quantities by item ID. Only the given lines are touched. Each
+ * count keeps the item's quantity on record, read in the same transaction, so
+ * its variance is not skewed by stock that moves before the stocktake is posted.
+ */
+export async function saveStocktakeCounts(stocktakeId: string, counts: Record<string, number>, actor: ActingUser): Promise<void> {
+  const entries = Object.entries(counts);
+  if (entries.length === 0) return;
+  await runTransaction(db, async (transaction) => {
+    const itemSnaps = await Promise.all(entries.map(([itemId]) => transaction.get(doc(db, 'items', itemId))));
+    const updates: Record<string, StocktakeCountWrite> = {};
+    entries.forEach(([itemId, quantity], index) => {
+      const itemSnap = itemSnaps[index];
+      if (!itemSnap.exists() || itemSnap.data().isArchived) {
+        throw new Error('A counted item no longer exists or has been archived.');
+      }
+      updates[`counts.${itemId}`] = {
+        quantity,
+        systemQuantity: itemSnap.data().quantity ?? 0,
+        countedBy: actor.uid,
+        countedByName: actor.username,
+        countedAt: serverTimestamp(),
+      };
+    });
+    transaction.update(doc(db, 'stocktakes', stocktakeId), updates);
+  });
+}
+
+export async function cancelStocktake(stocktakeId: string, actor: ActingUser): Promise<void> {
+  await updateDoc(doc(db, 'stocktakes', stocktakeId), {
+    status: 'cancelled',
+    closedBy: actor.uid,
+    closedByName: actor.username,
+    closedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * Posts a stocktake. Each count's variance is taken against the quantity on
+ * record when it was saved, and every counted item is re-read inside one
+ * transaction and changed by that variance, with an ADJUST_STOCK movement;
+ * uncounted items are left untouched. Stock received, consumed or moved after
+ * an item was counted therefore stays on the books. Shortfalls on lot-tracked
+ * items come out of the first-expiring lots; surpluses go to the UNASSIGNED
+ * lot. Surpluses are valued at the item's average cost.
+ * Returns every line for the variance report.
+ */
+export async function postStocktake(stocktake: Stocktake, actor: ActingUser): Promise<StocktakeVarianceLine[]> {
+  const stocktakeRef = doc(db, 'stocktakes', stocktake.id);
+  const countedItems = stocktake.items.filter(item => stocktake.counts[item.itemId]);
+
+  return runTransaction(db, async (transaction) => {
+    const stocktakeSnap = await transaction.get(stocktakeRef);
+    if (!stocktakeSnap.exists() || stocktakeSnap.data().status !== 'counting') {
+      throw new Error('This stocktake has already been posted or cancelled.');
+    }
+    const warehouseSnap = await transaction.get(doc(db, 'warehouses', stocktake.warehouseId));
+    const costingMethod = getCostingMethod(warehouseSnap.data());
+    const itemSnaps = await Promise.all(countedItems.map(item => transaction.get(doc(db, 'items', item.itemId))));
+    const liveQuantities = new Map<string, { quantity: number; warehouseId: string; ownerId: string; data: DocumentData }>();
+    itemSnaps.forEach(itemSnap => {
+      if (itemSnap.exists() && !itemSnap.data().isArchived) {
+        const data = itemSnap.data();
+        liveQuantities.set(itemSnap.id, { quantity: data.quantity ?? 0, warehouseId: data.warehouseId, ownerId: data.ownerId, data });
+      }
+    });
+
+    const lines: StocktakeVarianceLine[] = stocktake.items.map(item => {
+      const count = stocktake.counts[item.itemId];
+      return {
+        itemId: item.itemId,
+        name: item.name,
+        location: item.location,
+        systemQuantity: count ? count.systemQuantity : liveQuantities.get(item.itemId)?.quantity ?? item.systemQuantity,
+        countedQuantity: count ? count.quantity : null,
+        variance: count ? getCountVariance(item, count) : 0,
+        unit: getItemUnit(item),
+        precision: getItemPrecision(item),
+      };
+    });
+
+    const adjustments = lines.filter(line => line.countedQuantity !== null && line.variance !== 0 && liveQuantities.has(line.itemId));
+    if (adjustments.length > MAX_STOCKTAKE_ADJUSTMENTS) {
+      throw new Error(`A stocktake can post at most ${MAX_STOCKTAKE_ADJUSTMENTS} adjustments at once.`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const adjusted = adjustments.map(line => {
+      const live = liveQuantities.get(line.itemId)!;
+      const quantityAfter = roundQuantity(live.quantity + line.variance, getItemPrecision(line));
+      if (quantityAfter < 0) {
+        throw new Error(
+          `${line.name} has ${formatQuantity(live.quantity, line)} on record, less than the ${formatQuantity(-line.variance, line)} short in its count. Count it again before posting.`
+        );
+      }
+      return { line, live, quantityAfter };
+    });
+    adjusted.forEach(({ line, live, quantityAfter }) => {
+      const lotChange = applyLotChange(
+        live.data,
+        line.variance > 0 ? 'ADD_STOCK' : 'CONSUME_STOCK',
+        Math.abs(line.variance),
+        getItemPrecision(line),
+        timestamp,
+        { lot: { lotNumber: UNASSIGNED_LOT } }
+      );
+      const costChange = applyCostChange(live.data.costLayers, costingMethod, line.variance, getItemPrecision(line), timestamp);
+      const entry: Omit<HistoryEntry, 'id'> = {
+        type: 'ADJUST_STOCK',
+        change: line.variance,
+        quantityBefore: live.quantity,
+        quantityAfter,
+        timestamp,
+        comment: `Stocktake count: ${formatQuantity(line.countedQuantity!, line)} (variance ${line.variance > 0 ? '+' : ''}${formatQuantity(line.variance, line)})`,
+        userId: actor.uid,
+        username: actor.username,
+        ...(lotChange && { lots: lotChange.allocations }),
+        ...costChange.entry,
+      };
+      transaction.update(doc(db, 'items', line.itemId), {
+        quantity: entry.quantityAfter,
+        ...(lotChange && { lots: lotChange.lots }),
+        costLayers: costChange.costLayers,
+        updatedAt: serverTimestamp(),
+        lastMovementAt: serverTimestamp(),
+      });
+      transaction.set(newMovementRef(line.itemId), toMovementData(entry, line.itemId, live.warehouseId, live.ownerId));
+    });
+
+    transaction.update(stocktakeRef, {
+      status: 'posted',
+      closedBy: actor.uid,
+      closedByName: actor.username,
+      closedAt: serverTimestamp(),
+    });
+
+    return lines;
+  });
+}
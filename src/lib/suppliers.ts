@@ -0,0 +1,76 @@
+// src/lib/suppliers.ts
+// Each warehouse keeps its own directory of suppliers in
+// `warehouses/{warehouseId}/suppliers`. Purchase orders copy the supplier's
+// name, so orders stay readable after the supplier is renamed or removed.
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { OPEN_PURCHASE_ORDER_STATUSES } from '@/lib/purchaseOrders';
+import type { Supplier } from '@/lib/types';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const suppliersCollection = (warehouseId: string) => collection(db, 'warehouses', warehouseId, 'suppliers');
+
+// Empty contact details are stored as empty strings and read back as missing.
+const toSupplierData = (input: SupplierInput) => ({
+  name: input.name.trim(),
+  contactName: input.contactName?.trim() || '',
+  email: input.email?.trim() || '',
+  phone: input.phone?.trim() || '',
+  notes: input.notes?.trim() || '',
+  updatedAt: serverTimestamp(),
+});
+
+export async function fetchSuppliers(warehouseId: string): Promise<Supplier[]> {
+  const snapshot = await getDocs(suppliersCollection(warehouseId));
+  return snapshot.docs
+    .map(docSnap => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        name: data.name,
+        contactName: data.contactName || undefined,
+        email: data.email || undefined,
+        phone: data.phone || undefined,
+        notes: data.notes || undefined,
+        createdAt: data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        updatedAt: data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createSupplier(warehouseId: string, input: SupplierInput): Promise<string> {
+  const supplierRef = doc(suppliersCollection(warehouseId));
+  await setDoc(supplierRef, { ...toSupplierData(input), createdAt: serverTimestamp() });
+  return supplierRef.id;
+}
+
+export const updateSupplier = (warehouseId: string, supplierId: string, input: SupplierInput) =>
+  updateDoc(doc(suppliersCollection(warehouseId), supplierId), toSupplierData(input));
+
+// A supplier with open purchase orders cannot be removed until they are received or deleted.
+export async function deleteSupplier(warehouseId: string, supplierId: string): Promise<void> {
+  const openOrders = await getDocs(query(
+    collection(db, 'purchaseOrders'),
+    where('warehouseId', '==', warehouseId),
+    where('supplierId', '==', supplierId),
+    where('status', 'in', OPEN_PURCHASE_ORDER_STATUSES),
+    limit(1)
+  ));
+  if (!openOrders.empty) {
+    throw new Error('This supplier still has open purchase orders.');
+  }
+  await deleteDoc(doc(suppliersCollection(warehouseId), supplierId));
+}
@@ -1,4 +1,6 @@
 
+export type WarehouseRole = 'owner' | 'manager' | 'clerk' | 'viewer';
+
 export interface Warehouse {
   id: string;
   name: string;
@@ -7,30 +9,160 @@ export interface Warehouse {
   createdAt: string; // ISO string date
   updatedAt: string; // ISO string date
   ownerId: string; // ID of the user who owns this warehouse
+  members?: Record<string, WarehouseRole>; // User ID -> role, including the owner
+  memberIds?: string[]; // Keys of `members`, kept in sync for array-contains queries
+  memberProfiles?: Record<string, MemberProfile>; // User ID -> how members see each other; `users` is private
+  costingMethod?: CostingMethod; // How consumed stock is costed; FIFO when missing
+}
+
+// A member's name and email as copied onto each warehouse they belong to.
+export interface MemberProfile {
+  username: string;
+  email?: string; // Lowercased
+}
+
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// Stored in the `invitations` collection with the id `${warehouseId}_${email}`.
+export interface Invitation {
+  id: string;
+  warehouseId: string;
+  warehouseName: string;
+  email: string; // Lowercased
+  role: Exclude<WarehouseRole, 'owner'>;
+  status: InvitationStatus;
+  invitedBy: string; // User ID of the inviting owner
+  invitedByName?: string;
+  createdAt: string; // ISO string date
+  respondedAt?: string; // ISO string date
 }
 
 export interface Item {
   id:string;
   warehouseId: string;
   name: string;
+  sku?: string; // Unique within the warehouse, stored upper-case; missing on items created before SKUs
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat; // Set whenever barcode is
+  category?: string; // User-defined, e.g. "Fasteners"
+  tags?: string[]; // Lower-case, sorted, without duplicates
   quantity: number;
-  location?: string;
+  locationId?: string; // Code of a StorageLocation in the item's warehouse
+  location?: string; // Legacy free-text location, until migrated to a locationId
+  unit?: UnitOfMeasure; // Unit the quantity is kept in; 'pcs' when missing
+  precision?: number; // Decimal places allowed for quantities; unit default when missing
+  packUnit?: UnitOfMeasure; // Optional pack stock can be adjusted in, e.g. 'box'
+  packSize?: number; // Units per pack, e.g. 12 pcs per box
+  reorderPoint?: number; // Stock at or below this level needs reordering
+  maxLevel?: number; // Target level to reorder up to
+  tracksLots?: boolean; // Set when the item is created and fixed afterwards
+  lots?: ItemLot[]; // Only on lot-tracked items; the lot quantities add up to `quantity`
+  serialized?: boolean; // Set when the item is created and fixed afterwards; never together with tracksLots
+  serialNumbers?: string[]; // Only on serialized items; `quantity` is their count
+  costLayers?: CostLayer[]; // Costed stock, oldest first; may hold less than `quantity`
+  reservations?: ItemReservation[]; // Stock promised but not yet picked; still counted in `quantity`
+  components?: KitComponent[]; // Bill of materials; only on kits, which are assembled from these items
+  usedInKits?: string[]; // Ids of the kits whose bill of materials lists this item
   createdAt: string; // ISO string date
   updatedAt: string; // ISO string date
-  history: HistoryEntry[];
   isArchived?: boolean;
   ownerId: string; // ID of the user who owns this item (usually same as warehouse owner)
 }
 
+export interface ItemLot {
+  lotNumber: string; // Unique within the item
+  expiryDate?: string; // yyyy-MM-dd; missing for lots that do not expire
+  quantity: number;
+  receivedAt: string; // ISO string date the lot was first received
+}
+
+// Stock received at one unit cost. Weighted-average items keep a single layer.
+export interface CostLayer {
+  quantity: number;
+  unitCost: number; // Per unit of the item's unit
+  receivedAt: string; // ISO string date
+}
+
+// A hold on part of an item's stock, e.g. for an order that is promised but not yet picked.
+export interface ItemReservation {
+  id: string;
+  quantity: number;
+  reference: string; // What the stock is held for, e.g. an order number or customer
+  expiresAt?: string; // yyyy-MM-dd; the reservation lapses after this day
+  issueOrderId?: string; // Set on the reservations an open issue order holds
+  createdBy: string;
+  createdByName: string;
+  createdAt: string; // ISO string date
+}
+
+// The quantity a movement added to or took from one lot.
+// One line of a kit's bill of materials.
+export interface KitComponent {
+  itemId: string; // An item in the kit's warehouse that is not a kit itself
+  name: string; // The component's name when the bill of materials was saved
+  quantity: number; // Needed for one kit, in the component's unit
+}
+
+export interface LotAllocation {
+  lotNumber: string;
+  expiryDate?: string; // yyyy-MM-dd
+  quantity: number; // Always positive; the movement's change gives the direction
+}
+
+export type LocationLevel = 'zone' | 'aisle' | 'shelf' | 'bin';
+
+// Stored in the `warehouses/{warehouseId}/locations` subcollection, keyed by
+// its code. Levels are filled from the zone down, e.g. zone A, aisle 01, shelf
+// 03 is "A-01-03". Locations are never renamed, only deleted once empty.
+export interface StorageLocation {
+  id: string; // Same as code
+  code: string;
+  zone: string;
+  aisle?: string;
+  shelf?: string;
+  bin?: string;
+  createdAt: string; // ISO string date
+}
+
+export type UnitOfMeasure = 'pcs' | 'kg' | 'm' | 'L' | 'box';
+
+export type BarcodeFormat = 'EAN13' | 'CODE128';
+
+// The part of an item needed to display its quantities.
+export type ItemUnits = Pick<Item, 'unit' | 'precision'>;
+
+export type StockLevel = 'ok' | 'low' | 'out';
+
 export type HistoryEntryType =
   | 'CREATE_ITEM'
   | 'ADD_STOCK'
   | 'CONSUME_STOCK'
   | 'ADJUST_STOCK'
+  | 'UPDATE_ITEM'
+  | 'TRANSFER_OUT'
+  | 'TRANSFER_IN'
+  | 'ASSEMBLE'
+  | 'DISASSEMBLE'
   | 'CREATE_WAREHOUSE'
   | 'UPDATE_WAREHOUSE'
-  | 'DELETE_WAREHOUSE';
+  | 'DELETE_WAREHOUSE'
+  | 'RESTORE_WAREHOUSE';
+
+// An entry of the `history` array items carried before movements were split
+// out. Ids were not always set, and older entries stored a Firestore timestamp.
+export interface LegacyHistoryEntry {
+  id?: string;
+  type: HistoryEntryType;
+  change: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  comment?: string;
+  timestamp: string | { toDate(): Date };
+}
 
+// Stored as documents in the `items/{itemId}/movements` subcollection.
 export interface HistoryEntry {
   id: string;
   type: HistoryEntryType;
@@ -39,22 +171,215 @@ export interface HistoryEntry {
   quantityAfter: number;
   comment?: string;
   timestamp: string; // ISO string date
+  userId?: string; // Acting user; missing on entries recorded before users were tracked
+  username?: string; // Acting user's username at the time of the movement
+  fieldChanges?: ItemFieldChange[]; // Only on UPDATE_ITEM entries
+  transferId?: string; // Shared by the TRANSFER_OUT and TRANSFER_IN entries of one transfer
+  counterpartItemId?: string; // The item on the other side of a transfer, or the kit on a component's assembly entry
+  counterpartWarehouseId?: string; // The warehouse on the other side of a transfer
+  lots?: LotAllocation[]; // Lots added to or drawn from, on lot-tracked items
+  serialNumbers?: string[]; // Serials received or removed, on serialized items
+  unitCost?: number; // Cost per unit of stock received, when known
+  costOfGoods?: number; // Cost of the stock that left, when known
+  valueAfter?: number; // Value of the item's costed stock after the movement
+  purchaseOrderId?: string; // Set on ADD_STOCK entries posted by receiving a purchase order
+  purchaseOrderNumber?: string;
+  issueOrderId?: string; // Set on CONSUME_STOCK entries posted by picking an issue order
+  issueOrderNumber?: string;
+  assemblyId?: string; // Shared by the ASSEMBLE or DISASSEMBLE entries of the kit and its components
+}
+
+// A metadata edit recorded on an UPDATE_ITEM or UPDATE_WAREHOUSE entry.
+export interface FieldChange<Field extends string = string> {
+  field: Field;
+  before: string;
+  after: string;
+}
+
+export type ItemFieldChange = FieldChange<
+  'name' | 'sku' | 'barcode' | 'category' | 'tags' | 'location' | 'reorderPoint' | 'maxLevel' | 'packUnit' | 'packSize' | 'components'
+>;
+
+export type WarehouseActivityType = Extract<
+  HistoryEntryType,
+  'CREATE_WAREHOUSE' | 'UPDATE_WAREHOUSE' | 'DELETE_WAREHOUSE' | 'RESTORE_WAREHOUSE'
+>;
+
+// Stored as documents in the `warehouses/{warehouseId}/activity` subcollection.
+// DELETE_WAREHOUSE records archiving; warehouses are never hard-deleted.
+export interface WarehouseActivityEntry {
+  id: string;
+  type: WarehouseActivityType;
+  timestamp: string; // ISO string date
+  userId: string;
+  username: string;
+  comment?: string;
+  fieldChanges?: FieldChange<'name' | 'description' | 'costingMethod'>[]; // Only on UPDATE_WAREHOUSE entries
 }
 
 export interface ArchivedReport {
   id: string;
-  reportType?: 'ITEM' | 'WAREHOUSE' | 'TRANSACTIONS';
+  reportType?: 'ITEM' | 'WAREHOUSE' | 'TRANSACTIONS' | 'STOCKTAKE';
   warehouseId?: string;
   warehouseName?: string;
   warehouseDescription?: string;
   itemId?: string;
   itemName?: string;
+  itemUnit?: UnitOfMeasure; // For item reports
+  itemPrecision?: number; // For item reports
   printedBy: string;
   printedAt: string; // ISO string date
+  ownerId?: string; // User who printed and archived the report
   historySnapshot?: HistoryEntry[]; // For item reports
-  itemsSnapshot?: { name: string; quantity: number }[]; // For warehouse reports
+  itemsSnapshot?: WarehouseReportItem[]; // For warehouse reports
   transactionsSnapshot?: FlattenedHistoryEntry[]; // For ad-hoc transaction reports
   reportTitleSnapshot?: string; // For ad-hoc transaction reports
+  stocktakeSnapshot?: StocktakeVarianceLine[]; // For stocktake variance reports
+  stocktakeId?: string; // For stocktake variance reports
+}
+
+// One row of a warehouse report. Reports archived before locations and
+// movement dates were captured only carry name and quantity.
+export interface WarehouseReportItem {
+  itemId?: string;
+  name: string;
+  quantity: number;
+  category?: string;
+  location?: string;
+  lastMovementAt?: string; // ISO string date
+  unit?: UnitOfMeasure;
+  precision?: number;
+}
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+// An item as it stood when the stocktake was started.
+export interface StocktakeItem {
+  itemId: string;
+  name: string;
+  location?: string;
+  systemQuantity: number;
+  unit?: UnitOfMeasure;
+  precision?: number;
+}
+
+export interface StocktakeCount {
+  quantity: number;
+  systemQuantity: number; // Quantity on record when the count was saved; the variance is taken against it
+  countedBy: string; // User ID
+  countedByName: string;
+  countedAt: string; // ISO string date
+}
+
+// Stored in the `stocktakes` collection. Counts are a map keyed by item ID so
+// several counters can record lines at the same time without overwriting each other.
+export interface Stocktake {
+  id: string;
+  warehouseId: string;
+  warehouseName: string;
+  status: StocktakeStatus;
+  items: StocktakeItem[];
+  counts: Record<string, StocktakeCount>;
+  startedBy: string;
+  startedByName: string;
+  startedAt: string; // ISO string date
+  closedBy?: string;
+  closedByName?: string;
+  closedAt?: string; // ISO string date
+}
+
+// One line of a posted stocktake, as shown on the variance report.
+export interface StocktakeVarianceLine {
+  itemId: string;
+  name: string;
+  location?: string;
+  systemQuantity: number; // Quantity on record when the item was counted
+  countedQuantity: number | null; // null when the item was not counted
+  variance: number;
+  unit?: UnitOfMeasure;
+  precision?: number;
+}
+
+// Stored in the `warehouses/{warehouseId}/suppliers` subcollection.
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  createdAt: string; // ISO string date
+  updatedAt: string; // ISO string date
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+// An ordered item, named as it was when the order was written.
+export interface PurchaseOrderLine {
+  itemId: string;
+  name: string;
+  sku?: string;
+  quantityOrdered: number;
+  quantityReceived: number; // Kept in the order's receivedQuantities once it is sent
+  unitCost?: number; // Agreed price per unit; received stock is valued at it
+  unit?: UnitOfMeasure;
+  precision?: number;
+}
+
+// Stored in the `purchaseOrders` collection. An order has one line per item.
+export interface PurchaseOrder {
+  id: string;
+  number: string; // e.g. "PO-20250131-4F2A"
+  warehouseId: string;
+  warehouseName: string;
+  supplierId: string;
+  supplierName: string; // As it was when the order was last saved
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string; // yyyy-MM-dd
+  notes?: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string; // ISO string date
+  sentAt?: string; // ISO string date
+  receivedAt?: string; // ISO string date the last line was fully received
+  updatedAt: string; // ISO string date
+}
+
+export type IssueOrderRecipientType = 'customer' | 'department';
+
+export type IssueOrderStatus = 'open' | 'picked';
+
+// A requested item, named as it was when the order was written.
+export interface IssueOrderLine {
+  itemId: string;
+  name: string;
+  sku?: string;
+  quantity: number;
+  unit?: UnitOfMeasure;
+  precision?: number;
+}
+
+// Stored in the `issueOrders` collection: a customer sale or an internal
+// department request for stock. An order has one line per item and is picked in one go.
+export interface IssueOrder {
+  id: string;
+  number: string; // e.g. "IO-20250131-4F2A"
+  warehouseId: string;
+  warehouseName: string;
+  recipientType: IssueOrderRecipientType;
+  recipient: string; // Customer or department name
+  status: IssueOrderStatus;
+  lines: IssueOrderLine[];
+  neededBy?: string; // yyyy-MM-dd
+  notes?: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string; // ISO string date
+  pickedBy?: string;
+  pickedByName?: string;
+  pickedAt?: string; // ISO string date
+  updatedAt: string; // ISO string date
 }
 
 export interface FlattenedHistoryEntry extends HistoryEntry {
@@ -62,6 +387,10 @@ export interface FlattenedHistoryEntry extends HistoryEntry {
   warehouseName: string;
   itemId: string;
   warehouseId: string;
+  counterpartWarehouseName?: string; // Resolved from counterpartWarehouseId for transfers
+  unit?: UnitOfMeasure; // The item's unit
+  precision?: number;
+  category?: string; // The item's current category
 }
 
 export interface UserProfile {
@@ -71,3 +400,9 @@ export interface UserProfile {
   usernameChanged: boolean; // Tracks if username can still be changed
   createdAt?: any; // Firestore serverTimestamp // Can be Timestamp from Firestore or string
 }
+
+// The signed-in user as recorded on history entries and printed reports.
+export interface ActingUser {
+  uid: string;
+  username: string;
+}
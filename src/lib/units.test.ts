@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describePack,
+  formatQuantity,
+  formatQuantityChange,
+  formatQuantityTotals,
+  getItemPrecision,
+  hasPrecision,
+  packsToUnits,
+  roundQuantity,
+} from '@/lib/units';
+
+describe('precision', () => {
+  it('defaults to the unit precision and whole pieces', () => {
+    expect(getItemPrecision(undefined)).toBe(0);
+    expect(getItemPrecision({ unit: 'kg' })).toBe(3);
+    expect(getItemPrecision({ unit: 'kg', precision: 1 })).toBe(1);
+  });
+
+  it('rounds away floating point noise', () => {
+    expect(roundQuantity(0.1 + 0.2, 3)).toBe(0.3);
+    expect(hasPrecision(0.1 + 0.2, 1)).toBe(true);
+    expect(hasPrecision(1.25, 1)).toBe(false);
+    expect(hasPrecision(2, 0)).toBe(true);
+  });
+});
+
+describe('formatting', () => {
+  it('formats quantities and changes with their unit', () => {
+    expect(formatQuantity(2.5, { unit: 'kg' })).toBe('2.5 kg');
+    expect(formatQuantity(3)).toBe('3 pcs');
+    expect(formatQuantityChange(2.5, { unit: 'L' })).toBe('+2.5 L');
+    expect(formatQuantityChange(-3)).toBe('-3 pcs');
+  });
+
+  it('totals quantities per unit', () => {
+    expect(formatQuantityTotals([
+      { quantity: 100 },
+      { quantity: 20, unit: 'pcs' },
+      { quantity: 12.25, unit: 'kg' },
+      { quantity: 0.25, unit: 'kg', precision: 2 },
+    ])).toBe('120 pcs, 12.5 kg');
+  });
+});
+
+describe('packs', () => {
+  it('converts packs to units', () => {
+    expect(packsToUnits(3, { packSize: 12 })).toBe(36);
+    expect(packsToUnits(0.5, { packSize: 0.2 })).toBe(0.1);
+    expect(packsToUnits(2, {})).toBe(2);
+  });
+
+  it('describes the pack conversion', () => {
+    expect(describePack({ packUnit: 'box', packSize: 12 })).toBe('1 box = 12 pcs');
+    expect(describePack({ packUnit: 'box' })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+// src/lib/units.ts
+// Units of measure and quantity precision. Items created before units were
+// introduced have neither field and are counted in whole pieces.
+import type { Item, ItemUnits, UnitOfMeasure } from '@/lib/types';
+
+export const UNITS_OF_MEASURE = ['pcs', 'kg', 'm', 'L', 'box'] as const satisfies readonly UnitOfMeasure[];
+
+export const UNIT_LABELS: Record<UnitOfMeasure, string> = {
+  pcs: 'Pieces (pcs)',
+  kg: 'Kilograms (kg)',
+  m: 'Metres (m)',
+  L: 'Litres (L)',
+  box: 'Boxes (box)',
+};
+
+export const DEFAULT_PRECISION: Record<UnitOfMeasure, number> = {
+  pcs: 0,
+  kg: 3,
+  m: 2,
+  L: 2,
+  box: 0,
+};
+
+export const MAX_PRECISION = 3;
+
+export const getItemUnit = (item?: ItemUnits): UnitOfMeasure => item?.unit ?? 'pcs';
+
+export const getItemPrecision = (item?: ItemUnits): number =>
+  item?.precision ?? DEFAULT_PRECISION[getItemUnit(item)];
+
+// Rounds away floating point noise, e.g. 0.1 + 0.2 -> 0.3.
+export function roundQuantity(value: number, precision: number): number {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
+
+export const hasPrecision = (value: number, precision: number): boolean =>
+  Math.abs(roundQuantity(value, precision) - value) < 1e-9;
+
+export const formatQuantity = (value: number, item?: ItemUnits): string =>
+  `${roundQuantity(value, getItemPrecision(item))} ${getItemUnit(item)}`;
+
+// Signed, for history changes: "+2.5 kg", "-3 pcs".
+export const formatQuantityChange = (change: number, item?: ItemUnits): string =>
+  `${change > 0 ? '+' : ''}${formatQuantity(change, item)}`;
+
+// Sums quantities per unit, e.g. "120 pcs, 12.5 kg".
+export function formatQuantityTotals(rows: (ItemUnits & { quantity: number })[]): string {
+  const totals = new Map<UnitOfMeasure, { quantity: number; precision: number }>();
+  rows.forEach((row) => {
+    const unit = getItemUnit(row);
+    const total = totals.get(unit) ?? { quantity: 0, precision: 0 };
+    const precision = Math.max(total.precision, getItemPrecision(row));
+    totals.set(unit, { quantity: roundQuantity(total.quantity + row.quantity, precision), precision });
+  });
+  return Array.from(totals.entries())
+    .map(([unit, total]) => formatQuantity(total.quantity, { unit, precision: total.precision }))
+    .join(', ');
+}
+
+export const hasPack = (item: Pick<Item, 'packUnit' | 'packSize'>): boolean =>
+  !!item.packUnit && !!item.packSize && item.packSize > 0;
+
+// "1 box = 12 pcs", or null when the item has no pack conversion.
+export const describePack = (item: Pick<Item, 'unit' | 'precision' | 'packUnit' | 'packSize'>): string | null =>
+  hasPack(item) ? `1 ${item.packUnit} = ${formatQuantity(item.packSize!, item)}` : null;
+
+// Only floating point noise is rounded away; callers check the result against the item's precision.
+export const packsToUnits = (packs: number, item: Pick<Item, 'packSize'>): number =>
+  roundQuantity(packs * (item.packSize ?? 1), 9);
+
+export const precisionError = (precision: number): string =>
+  precision === 0 ? 'Must be a whole number for this unit.' : `Use at most ${precision} decimal place(s).`;
@@ -0,0 +1,118 @@
+// src/lib/warehouses.ts
+// Warehouse-level activity (creation, edits, archiving and restoration) lives
+// in the `warehouses/{warehouseId}/activity` subcollection, next to the
+// per-item movements that record stock changes.
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  startAfter,
+  Timestamp,
+  type DocumentData,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { describeFieldChanges, diffFields } from '@/lib/audit';
+import { getCostingMethod } from '@/lib/costing';
+import { toPage, type Page, type PageCursor } from '@/lib/pagination';
+import type { ActingUser, CostingMethod, WarehouseActivityEntry, WarehouseActivityType } from '@/lib/types';
+
+export const WAREHOUSE_ACTIVITY_PAGE_SIZE = 25;
+
+export interface WarehouseDetailsInput {
+  name: string;
+  description?: string;
+  costingMethod: CostingMethod;
+}
+
+export const warehouseActivityCollection = (warehouseId: string) => collection(db, 'warehouses', warehouseId, 'activity');
+
+// Reserves a document reference so the activity can be written in the same batch as the warehouse.
+export const newWarehouseActivityRef = (warehouseId: string) => doc(warehouseActivityCollection(warehouseId));
+
+export const toWarehouseActivityData = (
+  type: WarehouseActivityType,
+  actor: ActingUser,
+  details: Pick<WarehouseActivityEntry, 'comment' | 'fieldChanges'> = {}
+) => ({
+  type,
+  timestamp: Timestamp.now(),
+  userId: actor.uid,
+  username: actor.username,
+  comment: details.comment || '',
+  ...(details.fieldChanges ? { fieldChanges: details.fieldChanges } : {}),
+});
+
+const toWarehouseActivityEntry = (docSnap: QueryDocumentSnapshot<DocumentData>): WarehouseActivityEntry => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    type: data.type,
+    timestamp: data.timestamp?.toDate?.().toISOString() || new Date().toISOString(),
+    userId: data.userId,
+    username: data.username,
+    comment: data.comment,
+    fieldChanges: data.fieldChanges,
+  };
+};
+
+export async function fetchWarehouseActivityPage(
+  warehouseId: string,
+  cursor: PageCursor = null,
+  pageSize: number = WAREHOUSE_ACTIVITY_PAGE_SIZE
+): Promise<Page<WarehouseActivityEntry>> {
+  const constraints: QueryConstraint[] = [orderBy('timestamp', 'desc')];
+  if (cursor) constraints.push(startAfter(cursor));
+  constraints.push(limit(pageSize + 1));
+
+  const snapshot = await getDocs(query(warehouseActivityCollection(warehouseId), ...constraints));
+  return toPage(snapshot.docs, pageSize, toWarehouseActivityEntry);
+}
+
+/**
+ * Updates a warehouse's name, description and costing method and records an UPDATE_WAREHOUSE
+ * activity with the before/after values of every field that changed. Returns
+ * null when nothing changed.
+ */
+export async function updateWarehouseDetails(
+  warehouseId: string,
+  details: WarehouseDetailsInput,
+  actor: ActingUser
+): Promise<WarehouseActivityEntry | null> {
+  const warehouseDocRef = doc(db, 'warehouses', warehouseId);
+  const activityRef = newWarehouseActivityRef(warehouseId);
+
+  return runTransaction(db, async (transaction) => {
+    const warehouseSnap = await transaction.get(warehouseDocRef);
+    if (!warehouseSnap.exists() || warehouseSnap.data().isArchived) {
+      throw new Error('This warehouse no longer exists or has been archived.');
+    }
+
+    const next = { name: details.name.trim(), description: (details.description || '').trim(), costingMethod: details.costingMethod };
+    const current = { ...warehouseSnap.data(), costingMethod: getCostingMethod(warehouseSnap.data()) };
+    const fieldChanges = diffFields(current, next, ['name', 'description', 'costingMethod'] as const);
+    if (fieldChanges.length === 0) return null;
+
+    const activityData = toWarehouseActivityData('UPDATE_WAREHOUSE', actor, {
+      comment: describeFieldChanges(fieldChanges),
+      fieldChanges,
+    });
+    transaction.update(warehouseDocRef, {
+      ...next,
+      updatedAt: serverTimestamp(),
+    });
+    transaction.set(activityRef, activityData);
+
+    return {
+      id: activityRef.id,
+      ...activityData,
+      timestamp: activityData.timestamp.toDate().toISOString(),
+    };
+  });
+}
@@ -0,0 +1,279 @@
+// src/test/fakeFirestore.ts
+// An in-memory stand-in for the parts of `firebase/firestore` the library
+// modules use, so tests can run transactions, batches and queries without an
+// emulator. Test files swap it in with:
+//
+//   vi.mock('firebase/firestore', async (importOriginal) =>
+//     (await import('@/test/fakeFirestore')).mockFirestore(await importOriginal()));
+//
+// and seed or inspect documents through `fakeDb`. Security rules are not
+// evaluated; use `npm run test:rules` for those.
+import type * as Firestore from 'firebase/firestore';
+
+type Data = Record<string, unknown>;
+
+interface DocRef {
+  type: 'document';
+  id: string;
+  path: string;
+}
+
+interface CollectionRef {
+  type: 'collection';
+  id: string;
+  path: string;
+}
+
+interface CollectionGroupRef {
+  type: 'collectionGroup';
+  id: string;
+}
+
+type Constraint =
+  | { kind: 'where'; field: string; op: string; value: unknown }
+  | { kind: 'orderBy'; field: string; direction: 'asc' | 'desc' }
+  | { kind: 'limit'; count: number }
+  | { kind: 'startAfter'; cursor: DocSnapshot };
+
+interface Query {
+  ref: CollectionRef | CollectionGroupRef;
+  constraints: Constraint[];
+}
+
+interface DocSnapshot {
+  id: string;
+  ref: DocRef;
+  exists: () => boolean;
+  data: () => Data | undefined;
+}
+
+type Write = (docs: Map<string, Data>) => void;
+
+class Sentinel {
+  constructor(readonly kind: 'serverTimestamp' | 'delete' | 'arrayUnion' | 'arrayRemove', readonly values: unknown[] = []) {}
+}
+
+const docs = new Map<string, Data>();
+let nextId = 0;
+let now: () => unknown = () => new Date();
+
+export const fakeDb = {
+  reset() {
+    docs.clear();
+    nextId = 0;
+  },
+  seed(path: string, data: Data) {
+    docs.set(path, clone(data));
+  },
+  get(path: string): Data | undefined {
+    const data = docs.get(path);
+    return data && clone(data);
+  },
+  // Paths of the stored documents directly inside a collection.
+  list(collectionPath: string): string[] {
+    return [...docs.keys()].filter(path => parentPath(path) === collectionPath).sort();
+  },
+};
+
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)])) as T;
+  }
+  return value;
+};
+
+const parentPath = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const joinPath = (base: { path?: string } | undefined, segments: string[]) =>
+  [...(base?.path ? [base.path] : []), ...segments].join('/');
+
+const toComparable = (value: unknown): unknown => {
+  if (value && typeof value === 'object' && 'toMillis' in value) return (value as Firestore.Timestamp).toMillis();
+  return value;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = toComparable(a) as number | string;
+  const right = toComparable(b) as number | string;
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const equals = (a: unknown, b: unknown) => JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+
+const resolveValue = (value: unknown, current: unknown): unknown => {
+  if (!(value instanceof Sentinel)) return clone(value);
+  const list = Array.isArray(current) ? current : [];
+  switch (value.kind) {
+    case 'serverTimestamp':
+      return now();
+    case 'arrayUnion':
+      return [...list, ...value.values.filter(entry => !list.some(existing => equals(existing, entry)))];
+    case 'arrayRemove':
+      return list.filter(existing => !value.values.some(entry => equals(existing, entry)));
+    default:
+      return undefined;
+  }
+};
+
+// Applies `updates`, whose keys may be dotted field paths, on top of `base`.
+const applyFields = (base: Data, updates: Data): Data => {
+  const result = clone(base);
+  Object.entries(updates).forEach(([key, value]) => {
+    const segments = key.split('.');
+    let target = result;
+    segments.slice(0, -1).forEach((segment) => {
+      if (!target[segment] || typeof target[segment] !== 'object') target[segment] = {};
+      target = target[segment] as Data;
+    });
+    const field = segments[segments.length - 1];
+    if (value instanceof Sentinel && value.kind === 'delete') {
+      delete target[field];
+    } else {
+      target[field] = resolveValue(value, target[field]);
+    }
+  });
+  return result;
+};
+
+const toSnapshot = (ref: DocRef, data: Data | undefined): DocSnapshot => ({
+  id: ref.id,
+  ref,
+  exists: () => data !== undefined,
+  data: () => data && clone(data),
+});
+
+const setWrite = (ref: DocRef, data: Data, options?: { merge?: boolean }): Write => (store) => {
+  store.set(ref.path, applyFields(options?.merge ? store.get(ref.path) ?? {} : {}, data));
+};
+
+const updateWrite = (ref: DocRef, data: Data): Write => (store) => {
+  const current = store.get(ref.path);
+  if (!current) throw new Error(`No document to update: ${ref.path}`);
+  store.set(ref.path, applyFields(current, data));
+};
+
+const deleteWrite = (ref: DocRef): Write => (store) => {
+  store.delete(ref.path);
+};
+
+// Writes are applied to a copy first, so a failing write leaves nothing behind.
+const commit = (writes: Write[]) => {
+  const staged = new Map(docs);
+  writes.forEach(write => write(staged));
+  docs.clear();
+  staged.forEach((data, path) => docs.set(path, data));
+};
+
+const matches = (data: Data, constraint: Constraint & { kind: 'where' }): boolean => {
+  const value = data[constraint.field];
+  const expected = constraint.value;
+  switch (constraint.op) {
+    case '==': return equals(value, expected);
+    case '!=': return !equals(value, expected);
+    case 'in': return (expected as unknown[]).some(entry => equals(value, entry));
+    case 'array-contains': return Array.isArray(value) && value.some(entry => equals(entry, expected));
+    case '<': return value !== undefined && compareValues(value, expected) < 0;
+    case '<=': return value !== undefined && compareValues(value, expected) <= 0;
+    case '>': return value !== undefined && compareValues(value, expected) > 0;
+    case '>=': return value !== undefined && compareValues(value, expected) >= 0;
+    default: throw new Error(`Unsupported where operator: ${constraint.op}`);
+  }
+};
+
+const runQuery = (target: Query | CollectionRef): DocSnapshot[] => {
+  const { ref, constraints } = 'constraints' in target ? target : { ref: target, constraints: [] as Constraint[] };
+  const orderings = constraints.filter((c): c is Constraint & { kind: 'orderBy' } => c.kind === 'orderBy');
+  // Ties are broken by document path, in the direction of the last ordering.
+  const pathDirection = orderings.length > 0 && orderings[orderings.length - 1].direction === 'desc' ? -1 : 1;
+  const compare = (a: DocSnapshot, b: DocSnapshot) => {
+    for (const { field, direction } of orderings) {
+      const order = compareValues(a.data()![field], b.data()![field]);
+      if (order !== 0) return direction === 'desc' ? -order : order;
+    }
+    return pathDirection * compareValues(a.ref.path, b.ref.path);
+  };
+
+  let results = [...docs.entries()]
+    .filter(([path]) => ref.type === 'collection'
+      ? parentPath(path) === ref.path
+      : path.split('/').length % 2 === 0 && path.split('/').slice(-2)[0] === ref.id)
+    .map(([path, data]) => toSnapshot({ type: 'document', id: path.split('/').pop()!, path }, data))
+    .filter(snapshot => orderings.every(({ field }) => snapshot.data()![field] !== undefined))
+    .filter(snapshot => constraints.every(c => c.kind !== 'where' || matches(snapshot.data()!, c)))
+    .sort(compare);
+  constraints.forEach((constraint) => {
+    if (constraint.kind === 'startAfter') results = results.filter(snapshot => compare(snapshot, constraint.cursor) > 0);
+  });
+  constraints.forEach((constraint) => {
+    if (constraint.kind === 'limit') results = results.slice(0, constraint.count);
+  });
+  return results;
+};
+
+const toRef = (path: string): DocRef => ({ type: 'document', id: path.split('/').pop()!, path });
+
+const fake = {
+  collection: (base: { path?: string }, ...segments: string[]): CollectionRef => {
+    const path = joinPath(base, segments);
+    return { type: 'collection', id: path.split('/').pop()!, path };
+  },
+  collectionGroup: (_db: unknown, id: string): CollectionGroupRef => ({ type: 'collectionGroup', id }),
+  doc: (base: { type?: string; path?: string }, ...segments: string[]): DocRef => {
+    const autoId = base.type === 'collection' && segments.length === 0 ? [`auto-${++nextId}`] : [];
+    return toRef(joinPath(base, [...segments, ...autoId]));
+  },
+  query: (ref: CollectionRef | CollectionGroupRef, ...constraints: Constraint[]): Query => ({ ref, constraints }),
+  where: (field: string, op: string, value: unknown): Constraint => ({ kind: 'where', field, op, value }),
+  orderBy: (field: string, direction: 'asc' | 'desc' = 'asc'): Constraint => ({ kind: 'orderBy', field, direction }),
+  limit: (count: number): Constraint => ({ kind: 'limit', count }),
+  startAfter: (cursor: DocSnapshot): Constraint => ({ kind: 'startAfter', cursor }),
+  getDoc: async (ref: DocRef) => toSnapshot(ref, docs.get(ref.path)),
+  getDocs: async (target: Query | CollectionRef) => {
+    const results = runQuery(target);
+    return { docs: results, empty: results.length === 0, size: results.length, forEach: results.forEach.bind(results) };
+  },
+  setDoc: async (ref: DocRef, data: Data, options?: { merge?: boolean }) => commit([setWrite(ref, data, options)]),
+  addDoc: async (ref: CollectionRef, data: Data) => {
+    const docRef = fake.doc(ref);
+    commit([setWrite(docRef, data)]);
+    return docRef;
+  },
+  updateDoc: async (ref: DocRef, data: Data) => commit([updateWrite(ref, data)]),
+  deleteDoc: async (ref: DocRef) => commit([deleteWrite(ref)]),
+  writeBatch: () => {
+    const writes: Write[] = [];
+    const batch = {
+      set: (ref: DocRef, data: Data, options?: { merge?: boolean }) => (writes.push(setWrite(ref, data, options)), batch),
+      update: (ref: DocRef, data: Data) => (writes.push(updateWrite(ref, data)), batch),
+      delete: (ref: DocRef) => (writes.push(deleteWrite(ref)), batch),
+      commit: async () => commit(writes),
+    };
+    return batch;
+  },
+  // Like Firestore, every read must come before the first write.
+  runTransaction: async <T>(_db: unknown, updateFunction: (transaction: unknown) => Promise<T>): Promise<T> => {
+    const writes: Write[] = [];
+    const transaction = {
+      get: async (ref: DocRef) => {
+        if (writes.length > 0) throw new Error('Firestore transactions require all reads to be executed before all writes.');
+        return toSnapshot(ref, docs.get(ref.path));
+      },
+      set: (ref: DocRef, data: Data, options?: { merge?: boolean }) => (writes.push(setWrite(ref, data, options)), transaction),
+      update: (ref: DocRef, data: Data) => (writes.push(updateWrite(ref, data)), transaction),
+      delete: (ref: DocRef) => (writes.push(deleteWrite(ref)), transaction),
+    };
+    const result = await updateFunction(transaction);
+    commit(writes);
+    return result;
+  },
+  serverTimestamp: () => new Sentinel('serverTimestamp'),
+  deleteField: () => new Sentinel('delete'),
+  arrayUnion: (...values: unknown[]) => new Sentinel('arrayUnion', values),
+  arrayRemove: (...values: unknown[]) => new Sentinel('arrayRemove', values),
+};
+
+export function mockFirestore(actual: typeof Firestore) {
+  now = () => actual.Timestamp.now();
+  return { ...actual, ...fake };
+}
@@ -0,0 +1,43 @@
+// src/test/fixtures.ts
+// Shared test data. `seedItem` and `seedWarehouse` store it in the fake
+// Firestore for tests that run the transactional library functions.
+import { fakeDb } from '@/test/fakeFirestore';
+import type { ActingUser, Item, Warehouse, WarehouseRole } from '@/lib/types';
+
+export const actor: ActingUser = { uid: 'owner-1', username: 'Owner' };
+
+export const makeItem = (id: string, fields: Partial<Item> = {}): Item => ({
+  id,
+  warehouseId: 'wh-1',
+  name: id,
+  quantity: 0,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ownerId: 'owner-1',
+  ...fields,
+});
+
+export const seedItem = (id: string, fields: Partial<Item> = {}): Item => {
+  const item = makeItem(id, fields);
+  const { id: _id, ...data } = item;
+  fakeDb.seed(`items/${id}`, { isArchived: false, ...data });
+  return item;
+};
+
+export const seedWarehouse = (
+  id: string,
+  members: Record<string, WarehouseRole> = { 'owner-1': 'owner' },
+  fields: Partial<Warehouse> = {}
+) => {
+  fakeDb.seed(`warehouses/${id}`, {
+    name: id,
+    ownerId: 'owner-1',
+    members,
+    memberIds: Object.keys(members),
+    isArchived: false,
+    ...fields,
+  });
+};
+
+// The item's stored quantity, or undefined when it does not exist.
+export const storedQuantity = (id: string) => fakeDb.get(`items/${id}`)?.quantity;
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules tests talk to the Firestore emulator; run them through
+// `npm run test:rules`, which starts the emulator first.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['firestore.rules.test.ts'],
+    testTimeout: 20000,
+  },
+});
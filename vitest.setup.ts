@@ -0,0 +1,5 @@
+import { vi } from 'vitest';
+
+// Unit tests cover pure logic; the Firebase app is never initialised, so
+// importing a module that also talks to Firestore does not need a config.
+vi.mock('@/lib/firebase', () => ({ app: undefined, db: {}, auth: {}, analytics: undefined }));